@@ -1,56 +1,252 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { Train, Menu, Compass } from 'lucide-react';
+import { Train, Menu, Compass, MessageSquare, Bookmark, Bell, Repeat, Route, TriangleAlert, X } from 'lucide-react';
 import ChatMessage from './components/ChatMessage';
 import InputArea from './components/InputArea';
 import SettingsPanel from './components/SettingsPanel';
-import { sendMessageToGemini } from './services/geminiService';
-import { ChatMessage as ChatMessageType, UserPreferences } from './types';
-
-// Helper: Calculate distance between two coordinates (Haversine Formula)
-const getDistanceFromLatLonInMeters = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-  const R = 6371; // Radius of the earth in km
-  const dLat = deg2rad(lat2 - lat1);
-  const dLon = deg2rad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat1)) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const d = R * c; // Distance in km
-  return d * 1000; // Return in meters
-};
+import ConversationSidebar from './components/ConversationSidebar';
+import SavedRoutesPanel from './components/SavedRoutesPanel';
+import TripFollowPanel from './components/TripFollowPanel';
+import RemindersPanel from './components/RemindersPanel';
+import CommutesPanel from './components/CommutesPanel';
+import ItinerariesPanel from './components/ItinerariesPanel';
+import PlacesPanel from './components/PlacesPanel';
+import LocationLogPanel from './components/LocationLogPanel';
+import ContextPanel from './components/ContextPanel';
+import FormatCheckPanel from './components/FormatCheckPanel';
+import { getAssistantProvider } from './services/assistantProvider';
+import { getDistanceFromLatLonInMeters } from './services/geo';
+import { importTimetable, loadStoredTimetable, removeTimetable } from './services/timetableStore';
+import { buildTimetableContext } from './services/gtfs/context';
+import { createLocalToolbox } from './services/localTools';
+import { getRailAdapter } from './services/rail/source';
+import { GpsFix, TripProgress, advanceTrip, buildReplanPrompt, startTrip } from './services/tripFollower';
+import { SimulationScenario, parseGpsTrack, replayTrack, simulateTrack } from './services/gpsReplay';
+import {
+  createReminder,
+  deleteReminder,
+  describeReminder,
+  getNotifyAt,
+  isTooLate,
+  loadReminders,
+  recheckReminder,
+  saveReminder,
+  suggestLeaveTime,
+} from './services/reminders';
+import {
+  deleteBriefing,
+  deleteCommute,
+  describeBriefing,
+  isBriefingDue,
+  loadBriefings,
+  loadCommutes,
+  requestBriefing,
+  saveBriefing,
+  saveCommute,
+  toDateKey,
+} from './services/commutes';
+import { deleteTrip, getStageId, loadTrips, requestStagePlan, saveTrip, withStage } from './services/multiStopTrips';
+import {
+  OriginChoice,
+  deleteSavedPlace,
+  loadOriginChoice,
+  loadSavedPlaces,
+  resolveOrigin,
+  saveOriginChoice,
+  saveSavedPlace,
+} from './services/savedPlaces';
+import { describeDisclosures, prepareMessage, prepareTexts, redactAddresses, shareOrigin } from './services/locationPrivacy';
+import { summarizeLimits, withPreferenceDefaults } from './services/preferences';
+import {
+  NotificationSupport,
+  getNotificationSupport,
+  registerServiceWorker,
+  requestNotificationPermission,
+  showNotification,
+} from './services/notifications';
+import { GtfsFeed } from './services/gtfs/feed';
+import { RealtimeFeed } from './services/gtfs/realtime';
+import {
+  REALTIME_POLL_MS,
+  fetchRealtimeFeed,
+  loadRealtimeSource,
+  readRealtimeFile,
+  saveRealtimeSource,
+} from './services/realtimeStore';
+import {
+  createConversation,
+  deleteConversation,
+  hasUserMessages,
+  loadConversations,
+  saveConversation,
+} from './services/conversationStore';
+import { buildSharedTripPrompt, parseShareUrl } from './services/tripExport';
+import { forkConversation, getBranchPosition, switchBranch } from './services/conversationBranches';
+import { MAX_RETRIES, toAssistantError } from './services/assistantErrors';
+import {
+  DEFAULT_CONTEXT_BUDGET,
+  SentContext,
+  buildConversationContext,
+  formatTokens,
+  loadContextBudget,
+  saveContextBudget,
+} from './services/contextBudget';
+import { createLiveFeedTrafficAdapter, withTrafficAssessments } from './services/traffic';
+import { RepairRequest, loadAutoRepair, requestRepair, saveAutoRepair, validateReply } from './services/replyContract';
+import {
+  buildRerunPrompt,
+  createSavedRoute,
+  deleteSavedRoute,
+  loadSavedRoutes,
+  saveSavedRoute,
+  withRefreshedPlan,
+} from './services/savedRoutes';
+import { BackgroundDisclosure, ChatMessage as ChatMessageType, Commute, ContractViolation, MessageBranch, CommuteBriefing, Conversation, MultiStopTrip, RealtimeSummary, Reminder, RoutePreference, SavedPlace, SavedRoute, TimetableSummary, TransitAssistantProvider, TripPlan, UserPreferences } from './types';
 
-const deg2rad = (deg: number) => {
-  return deg * (Math.PI / 180);
+// Default User Preferences
+const DEFAULT_PREFERENCES: UserPreferences = {
+  routePreference: 'FASTEST',
+  goalWeights: { FASTEST: 3, LEAST_CROWDED: 0, LOW_WALKING: 0, FEWEST_TRANSFERS: 0 },
+  accessibilityRequired: false,
+  useCurrentLocation: true,
+  locationSharing: 'APPROXIMATE',
+  preferredModes: [],
+  avoidedModes: [],
+  maxWalkingMeters: null,
+  fareBudget: null,
+  travelClass: 'ANY',
+  hasLuggage: false,
+  withChildren: false,
 };
 
-function App() {
-  const [messages, setMessages] = useState<ChatMessageType[]>([
-    {
-      id: 'welcome',
-      role: 'model',
-      text: "**Hi there! I'm EasyTra!** 👋\n\nI'm here to help you breeze through the city! I'll check live traffic 🚦, service alerts, and crowd levels to find the absolute best route for you.\n\nWhere are you headed today? 🌍",
-      timestamp: new Date(),
-    }
-  ]);
+// Automatic re-plans while following a trip are at least this far apart (track time)
+const REPLAN_COOLDOWN_MS = 3 * 60_000;
+
+// Reminders when the plan has no suggested leave time start this far ahead
+const DEFAULT_REMINDER_DELAY_MS = 30 * 60_000;
+// setTimeout can't wait longer than this; later reminders are armed by a check this often
+const MAX_TIMER_MS = 2 ** 31 - 1;
+const REMINDER_RECHECK_MS = 24 * 60 * 60_000;
+
+// How often to look for commutes whose briefing window has opened
+const COMMUTE_CHECK_MS = 60_000;
+// A commute whose automatic briefing failed is retried after this long
+const BRIEFING_RETRY_MS = 10 * 60_000;
+
+// In-app banner for the last reminder or briefing that went off
+interface Notice {
+  text: string;
+  isWarning: boolean;
+  panel: 'reminders' | 'commutes';
+}
+
+interface AppProps {
+  // Overrides the configured assistant backend (e.g. a mock provider in tests)
+  provider?: TransitAssistantProvider;
+}
+
+function App({ provider }: AppProps) {
+  const [assistant] = useState<TransitAssistantProvider>(() => provider ?? getAssistantProvider());
+  const [rail] = useState(() => getRailAdapter(assistant.id));
+
+  // Saved conversations (most recent first) and the one currently on screen. The active
+  // conversation's messages and preferences live in their own state while it is open.
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversation, setActiveConversation] = useState<Conversation>(() => createConversation(DEFAULT_PREFERENCES));
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+
+  const [messages, setMessages] = useState<ChatMessageType[]>(activeConversation.messages);
+  // Versions of the conversation replaced by editing or regenerating a message
+  const [branches, setBranches] = useState<MessageBranch[]>(activeConversation.branches ?? []);
   const [isLoading, setIsLoading] = useState(false);
+  // Shown while a failed request waits to be retried
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   
-  // Default User Preferences
-  const [preferences, setPreferences] = useState<UserPreferences>({
-    routePreference: 'FASTEST',
-    accessibilityRequired: false,
-    useCurrentLocation: true,
-  });
+  const [preferences, setPreferences] = useState<UserPreferences>(activeConversation.preferences);
+
+  const [savedRoutes, setSavedRoutes] = useState<SavedRoute[]>([]);
+  const [isSavedRoutesOpen, setIsSavedRoutesOpen] = useState(false);
+
+  // Leave-by reminders, scheduled while the app is open and shown as notifications
+  const [reminders, setReminders] = useState<Reminder[]>([]);
+  const [isRemindersOpen, setIsRemindersOpen] = useState(false);
+  const [notificationSupport, setNotificationSupport] = useState<NotificationSupport>(getNotificationSupport);
+  // The last reminder or briefing that went off, also shown in the app in case
+  // notifications are off
+  const [notice, setNotice] = useState<Notice | null>(null);
+  // Reminders being rechecked right now, so a re-render can't fire one twice
+  const firingRemindersRef = useRef(new Set<string>());
+
+  // Recurring commutes and their daily briefings, prepared automatically while the app is open
+  const [commutes, setCommutes] = useState<Commute[]>([]);
+  const [briefings, setBriefings] = useState<CommuteBriefing[]>([]);
+  const [isCommutesOpen, setIsCommutesOpen] = useState(false);
+  const [briefingIds, setBriefingIds] = useState<Set<string>>(new Set());
+  const [briefingErrors, setBriefingErrors] = useState<Record<string, string>>({});
+  const briefingCommutesRef = useRef(new Set<string>());
+  // When each commute's last automatic briefing failed
+  const briefingFailuresRef = useRef(new Map<string, number>());
+
+  // Multi-stop trips, planned a stage at a time from the itineraries panel
+  const [trips, setTrips] = useState<MultiStopTrip[]>([]);
+  const [isItinerariesOpen, setIsItinerariesOpen] = useState(false);
+  const [planningStageIds, setPlanningStageIds] = useState<Set<string>>(new Set());
+  const [stageErrors, setStageErrors] = useState<Record<string, string>>({});
+
+  // Typed into the input when the app is opened from a shared trip link
+  const [prefill, setPrefill] = useState<string>();
+
+  // Imported GTFS timetable, used to ground departures and journeys in real schedules
+  const [timetable, setTimetable] = useState<{ feed: GtfsFeed; summary: TimetableSummary } | null>(null);
+  const [timetableStatus, setTimetableStatus] = useState<{ isImporting: boolean; error?: string }>({ isImporting: false });
+
+  // GTFS-Realtime: a URL polled in the background, or a snapshot loaded from a file
+  const [realtime, setRealtime] = useState<{ feed: RealtimeFeed; summary: RealtimeSummary } | null>(null);
+  const [realtimeUrl, setRealtimeUrl] = useState<string | null>(null);
+  const [realtimeError, setRealtimeError] = useState<string | undefined>();
 
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
+  // Why there is no GPS position, when the browser refused or gave up
+  const [locationError, setLocationError] = useState<string | undefined>();
+
+  // Named places, and where trips start when the user doesn't say: GPS, a saved place or
+  // one picked by hand
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [originChoice, setOriginChoice] = useState<OriginChoice>({ kind: 'GPS' });
+  const [isPlacesOpen, setIsPlacesOpen] = useState(false);
+  const [isLocationLogOpen, setIsLocationLogOpen] = useState(false);
+  // Location sent by briefings, reminder rechecks and itinerary stages since the app opened
+  const [backgroundDisclosures, setBackgroundDisclosures] = useState<BackgroundDisclosure[]>([]);
+
+  // How many tokens of conversation each request may carry, and what the last one sent
+  const [contextBudget, setContextBudget] = useState(DEFAULT_CONTEXT_BUDGET);
+  const [lastContext, setLastContext] = useState<SentContext | null>(null);
+  const [isContextOpen, setIsContextOpen] = useState(false);
+
+  // Replies that break the output format are sent back once to be rewritten, if this is on
+  const [autoRepair, setAutoRepair] = useState(false);
+  const [isFormatCheckOpen, setIsFormatCheckOpen] = useState(false);
+  const origin = resolveOrigin(originChoice, savedPlaces, userLocation);
   
   // Ref to track last update to implement jitter filter without re-renders
   const lastLocationRef = useRef<{ lat: number; lng: number; timestamp: number } | null>(null);
 
+  // "I'm travelling now": the plan being followed and the user's progress along it. While a
+  // simulated or recorded track is replaying, it stands in for the device's GPS.
+  const [activeTrip, setActiveTrip] = useState<{ messageId: string; plan: TripPlan } | null>(null);
+  const [tripProgress, setTripProgress] = useState<TripProgress | null>(null);
+  const [isVoiceOn, setIsVoiceOn] = useState(true);
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [simulationError, setSimulationError] = useState<string | undefined>();
+  const stopReplayRef = useRef<(() => void) | null>(null);
+  const lastReplanRef = useRef(0);
+
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // Controller for the in-flight stream so the user can stop generation
+  const abortControllerRef = useRef<AbortController | null>(null);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -59,11 +255,226 @@ function App() {
     scrollToBottom();
   }, [messages]);
 
+  const openConversation = (conversation: Conversation) => {
+    setActiveConversation(conversation);
+    setMessages(conversation.messages);
+    setBranches(conversation.branches ?? []);
+    setPreferences(conversation.preferences);
+    setLastContext(null);
+    setIsSidebarOpen(false);
+  };
+
+  // Restore saved conversations, resuming the most recent one
+  useEffect(() => {
+    // A shared trip link opens a new conversation with the sender's route preferences and
+    // the trip typed in, ready to send
+    const sharedTrip = parseShareUrl(window.location.search);
+    if (sharedTrip) window.history.replaceState(null, '', window.location.pathname);
+
+    loadConversations()
+      .then(stored => {
+        setConversations(stored);
+        if (sharedTrip) {
+          const base = stored[0]?.preferences ?? DEFAULT_PREFERENCES;
+          openConversation(createConversation(withPreferenceDefaults({ ...base, ...sharedTrip.preferences })));
+          setPrefill(buildSharedTripPrompt(sharedTrip));
+        } else if (stored.length > 0) {
+          openConversation(stored[0]);
+        }
+      })
+      .catch(err => console.warn("Could not load saved conversations:", err));
+
+    loadSavedRoutes()
+      .then(setSavedRoutes)
+      .catch(err => console.warn("Could not load saved routes:", err));
+
+    loadStoredTimetable()
+      .then(setTimetable)
+      .catch(err => console.warn("Could not load the saved timetable:", err));
+
+    loadRealtimeSource()
+      .then(setRealtimeUrl)
+      .catch(err => console.warn("Could not load the realtime feed setting:", err));
+
+    loadReminders()
+      .then(setReminders)
+      .catch(err => console.warn("Could not load reminders:", err));
+
+    loadSavedPlaces()
+      .then(setSavedPlaces)
+      .catch(err => console.warn("Could not load saved places:", err));
+
+    loadContextBudget()
+      .then(setContextBudget)
+      .catch(err => console.warn("Could not load the context budget:", err));
+
+    loadAutoRepair()
+      .then(setAutoRepair)
+      .catch(err => console.warn("Could not load the reply format setting:", err));
+
+    loadOriginChoice()
+      .then(setOriginChoice)
+      .catch(err => console.warn("Could not load the starting point:", err));
+
+    // Loaded together so a commute is never checked against a missing briefing history
+    Promise.all([loadCommutes(), loadBriefings()])
+      .then(([storedCommutes, storedBriefings]) => {
+        setBriefings(storedBriefings);
+        setCommutes(storedCommutes);
+      })
+      .catch(err => console.warn("Could not load commutes:", err));
+
+    loadTrips()
+      .then(setTrips)
+      .catch(err => console.warn("Could not load itineraries:", err));
+
+    // Clicking a notification brings the app forward on the reminders or commutes list
+    registerServiceWorker();
+    const onWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type !== 'notification-clicked') return;
+      if (event.data.commuteId) setIsCommutesOpen(true);
+      else setIsRemindersOpen(true);
+    };
+    navigator.serviceWorker?.addEventListener('message', onWorkerMessage);
+    const params = new URLSearchParams(window.location.search);
+    if (params.has('reminder')) setIsRemindersOpen(true);
+    if (params.has('commute')) setIsCommutesOpen(true);
+    return () => navigator.serviceWorker?.removeEventListener('message', onWorkerMessage);
+  }, []);
+
+  // Poll the realtime URL; the last good snapshot is kept if a poll fails
+  useEffect(() => {
+    if (!realtimeUrl) return;
+    const controller = new AbortController();
+
+    const poll = () => {
+      fetchRealtimeFeed(realtimeUrl, controller.signal)
+        .then(loaded => {
+          setRealtime(loaded);
+          setRealtimeError(undefined);
+        })
+        .catch(error => {
+          if (controller.signal.aborted) return;
+          setRealtimeError(error instanceof Error ? error.message : "Couldn't update the realtime feed.");
+        });
+    };
+
+    poll();
+    const timer = window.setInterval(poll, REALTIME_POLL_MS);
+    return () => {
+      controller.abort();
+      window.clearInterval(timer);
+    };
+  }, [realtimeUrl]);
+
+  const handleImportTimetable = async (file: File) => {
+    setTimetableStatus({ isImporting: true });
+    try {
+      setTimetable(await importTimetable(file));
+      setTimetableStatus({ isImporting: false });
+    } catch (error) {
+      setTimetableStatus({
+        isImporting: false,
+        error: error instanceof Error ? error.message : "Couldn't import that timetable.",
+      });
+    }
+  };
+
+  const handleRemoveTimetable = () => {
+    setTimetable(null);
+    setTimetableStatus({ isImporting: false });
+    removeTimetable().catch(err => console.warn("Could not remove the timetable:", err));
+  };
+
+  const handleConnectRealtime = (url: string) => {
+    setRealtime(null);
+    setRealtimeError(undefined);
+    setRealtimeUrl(url);
+    saveRealtimeSource(url).catch(err => console.warn("Could not save the realtime feed setting:", err));
+  };
+
+  const handleLoadRealtimeFile = async (file: File) => {
+    // A file replaces any polled URL until the user connects one again
+    setRealtimeUrl(null);
+    saveRealtimeSource(null).catch(err => console.warn("Could not save the realtime feed setting:", err));
+    try {
+      setRealtime(await readRealtimeFile(file));
+      setRealtimeError(undefined);
+    } catch (error) {
+      setRealtime(null);
+      setRealtimeError(error instanceof Error ? error.message : "Couldn't read that realtime feed.");
+    }
+  };
+
+  const handleDisconnectRealtime = () => {
+    setRealtimeUrl(null);
+    setRealtime(null);
+    setRealtimeError(undefined);
+    saveRealtimeSource(null).catch(err => console.warn("Could not save the realtime feed setting:", err));
+  };
+
+  // Persist the active conversation whenever it settles (not on every streamed chunk)
+  useEffect(() => {
+    if (messages.some(m => m.isStreaming)) return;
+
+    const updated: Conversation = {
+      ...activeConversation,
+      messages,
+      branches,
+      preferences,
+      updatedAt: messages[messages.length - 1]?.timestamp ?? activeConversation.updatedAt,
+    };
+    if (!hasUserMessages(updated)) return;
+
+    saveConversation(updated).catch(err => console.warn("Could not save conversation:", err));
+    setConversations(prev =>
+      [updated, ...prev.filter(c => c.id !== updated.id)]
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    );
+  }, [messages, branches, preferences]);
+
+  const handleNewConversation = () => {
+    // Carry the current preferences over to the new trip
+    openConversation(createConversation(preferences));
+  };
+
+  const handleSelectConversation = (id: string) => {
+    const conversation = conversations.find(c => c.id === id);
+    if (conversation && id !== activeConversation.id) {
+      openConversation(conversation);
+    } else {
+      setIsSidebarOpen(false);
+    }
+  };
+
+  const handleRenameConversation = (id: string, title: string) => {
+    const conversation = conversations.find(c => c.id === id);
+    if (id === activeConversation.id) {
+      setActiveConversation(prev => ({ ...prev, title }));
+    }
+    if (conversation) {
+      const renamed = { ...conversation, title };
+      setConversations(prev => prev.map(c => (c.id === id ? renamed : c)));
+      saveConversation(renamed).catch(err => console.warn("Could not save conversation:", err));
+    }
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    const remaining = conversations.filter(c => c.id !== id);
+    setConversations(remaining);
+    deleteConversation(id).catch(err => console.warn("Could not delete conversation:", err));
+
+    if (id === activeConversation.id) {
+      openConversation(remaining[0] ?? createConversation(preferences));
+      setIsSidebarOpen(true);
+    }
+  };
+
   // Fetch User Location (Optimized for Battery & Jitter Reduction)
   useEffect(() => {
     let watchId: number;
 
-    if (preferences.useCurrentLocation && "geolocation" in navigator) {
+    if (preferences.useCurrentLocation && !isSimulating && "geolocation" in navigator) {
       const geoOptions = {
         enableHighAccuracy: true, // Needed for precise navigation
         timeout: 20000,
@@ -98,6 +509,7 @@ function App() {
           }
         }
 
+        setLocationError(undefined);
         if (shouldUpdate) {
           lastLocationRef.current = { lat: latitude, lng: longitude, timestamp: now };
           setUserLocation({ lat: latitude, lng: longitude });
@@ -107,6 +519,9 @@ function App() {
 
       const error = (err: GeolocationPositionError) => {
         console.warn(`Location warning (${err.code}): ${err.message}`);
+        if (err.code === err.PERMISSION_DENIED) {
+          setLocationError('Location access was denied');
+        }
         // Only try fallback if we have NO location at all yet
         if (!lastLocationRef.current && err.code === err.TIMEOUT) {
            console.log("High accuracy timed out, attempting fallback...");
@@ -114,14 +529,20 @@ function App() {
              (pos) => {
                lastLocationRef.current = { lat: pos.coords.latitude, lng: pos.coords.longitude, timestamp: Date.now() };
                setUserLocation({ lat: pos.coords.latitude, lng: pos.coords.longitude });
+               setLocationError(undefined);
+             },
+             (e) => {
+               console.error("Fallback location failed:", e.message);
+               setLocationError("Couldn't get a GPS fix");
              },
-             (e) => console.error("Fallback location failed:", e.message),
              { enableHighAccuracy: false, timeout: 10000 }
            );
         }
       };
 
       watchId = navigator.geolocation.watchPosition(success, error, geoOptions);
+    } else if (!("geolocation" in navigator)) {
+      setLocationError("This browser can't share its location");
     }
 
     // Cleanup watcher on unmount or pref change
@@ -130,85 +551,764 @@ function App() {
       // We don't clear lastLocationRef here so that if the user toggles a setting 
       // and comes back, we don't start from scratch (optional choice)
     };
-  }, [preferences.useCurrentLocation]);
+  }, [preferences.useCurrentLocation, isSimulating]);
+
+  // Follow the active trip with every new position
+  useEffect(() => {
+    if (!activeTrip || !userLocation) return;
+    const fix: GpsFix = { ...userLocation, timestamp: lastLocationRef.current?.timestamp ?? Date.now() };
+    setTripProgress(prev => prev && advanceTrip(activeTrip.plan, prev, fix));
+  }, [userLocation, activeTrip]);
+
+  // Speak each new announcement
+  const latestAnnouncement = tripProgress?.announcements[0];
+  useEffect(() => {
+    if (!latestAnnouncement || !isVoiceOn || !('speechSynthesis' in window)) return;
+    window.speechSynthesis.speak(new SpeechSynthesisUtterance(latestAnnouncement.message));
+  }, [latestAnnouncement]);
+
+  // Off the route or a connection missed: ask for a new plan from here, which replaces the
+  // one being followed when it arrives. Checked again with each fix and when a reply
+  // finishes, so a re-plan held back by a streaming reply or the cooldown still happens.
+  useEffect(() => {
+    if (!activeTrip || !tripProgress || isLoading) return;
+    if (tripProgress.status !== 'OFF_ROUTE' && tripProgress.status !== 'MISSED_CONNECTION') return;
+    const now = tripProgress.lastFix?.timestamp ?? Date.now();
+    if (now - lastReplanRef.current < REPLAN_COOLDOWN_MS) return;
+    lastReplanRef.current = now;
+    handleSendMessage(buildReplanPrompt(activeTrip.plan, tripProgress), { followTrip: true });
+  }, [tripProgress?.status, tripProgress?.lastFix, isLoading]);
+
+  const stopReplay = () => {
+    stopReplayRef.current?.();
+    stopReplayRef.current = null;
+    setIsSimulating(false);
+  };
+
+  const followPlan = (messageId: string, plan: TripPlan, startedAt: number) => {
+    setActiveTrip({ messageId, plan });
+    setTripProgress(startTrip(startedAt));
+  };
+
+  const handleStartTrip = (message: ChatMessageType) => {
+    if (!message.tripPlan) return;
+    stopReplay();
+    lastReplanRef.current = 0;
+    followPlan(message.id, message.tripPlan, Date.now());
+  };
+
+  const handleEndTrip = () => {
+    stopReplay();
+    setActiveTrip(null);
+    setTripProgress(null);
+    setSimulationError(undefined);
+    if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+  };
+
+  // Replays a track in place of the device's GPS, restarting the trip on the track's clock
+  const startReplay = (track: GpsFix[]) => {
+    if (!activeTrip || track.length === 0) return;
+    stopReplay();
+    setSimulationError(undefined);
+    lastReplanRef.current = 0;
+    followPlan(activeTrip.messageId, activeTrip.plan, track[0].timestamp);
+    setIsSimulating(true);
+    stopReplayRef.current = replayTrack(
+      track,
+      ({ lat, lng, timestamp }) => {
+        lastLocationRef.current = { lat, lng, timestamp };
+        setUserLocation({ lat, lng });
+      },
+      { onEnd: () => setIsSimulating(false) }
+    );
+  };
+
+  const handleSimulateTrip = (scenario: SimulationScenario) => {
+    if (activeTrip) startReplay(simulateTrack(activeTrip.plan, scenario));
+  };
+
+  const handleLoadTrack = async (file: File) => {
+    try {
+      startReplay(parseGpsTrack(await file.text()));
+    } catch (error) {
+      setSimulationError(error instanceof Error ? error.message : "Couldn't read that GPS track.");
+    }
+  };
+
+  // Stop any replay when the app closes
+  useEffect(() => () => stopReplayRef.current?.(), []);
+
+  // Stores a route (new or updated) and moves it to the top of the list
+  const storeSavedRoute = (route: SavedRoute) => {
+    setSavedRoutes(prev => [route, ...prev.filter(r => r.id !== route.id)]);
+    saveSavedRoute(route).catch(err => console.warn("Could not save route:", err));
+  };
+
+  const saveRouteFromMessage = (messageId: string, plan: TripPlan, routePreference: RoutePreference, name?: string) => {
+    const route = createSavedRoute(plan, routePreference, name);
+    storeSavedRoute(route);
+    setMessages(prev => prev.map(m => (m.id === messageId ? { ...m, savedRouteId: route.id } : m)));
+  };
+
+  const handleRenameSavedRoute = (id: string, name: string) => {
+    const route = savedRoutes.find(r => r.id === id);
+    if (!route) return;
+    const renamed = { ...route, name };
+    setSavedRoutes(prev => prev.map(r => (r.id === id ? renamed : r)));
+    saveSavedRoute(renamed).catch(err => console.warn("Could not save route:", err));
+  };
+
+  const handleDeleteSavedRoute = (id: string) => {
+    setSavedRoutes(prev => prev.filter(r => r.id !== id));
+    deleteSavedRoute(id).catch(err => console.warn("Could not delete route:", err));
+  };
+
+  // Timetable departures for a background request, as sent with chat messages
+  const getTimetableContext = (prompt: string) => timetable
+    ? buildTimetableContext(timetable.feed, prompt, preferences, new Date(), realtime?.feed)?.text
+    : undefined;
+
+  // Stores a reminder (new or edited), keeping the list soonest first
+  const storeReminder = (reminder: Reminder) => {
+    setReminders(prev =>
+      [reminder, ...prev.filter(r => r.id !== reminder.id)].sort((a, b) => a.leaveAt.getTime() - b.leaveAt.getTime())
+    );
+    saveReminder(reminder).catch(err => console.warn("Could not save reminder:", err));
+  };
+
+  const handleCreateReminder = async (message: ChatMessageType) => {
+    if (!message.tripPlan) return;
+    const leaveAt = suggestLeaveTime(message.tripPlan) ?? new Date(Date.now() + DEFAULT_REMINDER_DELAY_MS);
+    const reminder = createReminder(message.tripPlan, preferences.routePreference, leaveAt);
+    storeReminder(reminder);
+    setMessages(prev => prev.map(m => (m.id === message.id ? { ...m, reminderId: reminder.id } : m)));
+    setIsRemindersOpen(true);
+    setNotificationSupport(await requestNotificationPermission());
+  };
+
+  const handleCancelReminder = (id: string) => {
+    setReminders(prev => prev.filter(r => r.id !== id));
+    deleteReminder(id).catch(err => console.warn("Could not delete reminder:", err));
+  };
+
+  const logBackgroundDisclosure = (request: string, locationShared: BackgroundDisclosure['locationShared']) => {
+    if (!locationShared.length) return;
+    setBackgroundDisclosures(prev => [{ id: uuidv4(), sentAt: new Date(), request, locationShared }, ...prev]);
+  };
+
+  // Rechecks live conditions, then notifies. Reminders found long overdue (the app was
+  // closed when they were due) are marked missed instead.
+  const fireReminder = async (reminder: Reminder) => {
+    if (firingRemindersRef.current.has(reminder.id)) return;
+    if (isTooLate(reminder)) {
+      storeReminder({ ...reminder, status: 'MISSED' });
+      return;
+    }
+
+    firingRemindersRef.current.add(reminder.id);
+    try {
+      const localContext = getTimetableContext(`${reminder.plan.origin} to ${reminder.plan.destination}`);
+      const sharedOrigin = shareOrigin(origin, preferences.locationSharing, savedPlaces);
+      logBackgroundDisclosure(`Reminder recheck: ${reminder.name}`, describeDisclosures(sharedOrigin, [], preferences.locationSharing));
+      const lastCheck = await recheckReminder(reminder, assistant, preferences, sharedOrigin, localContext);
+      const sent: Reminder = { ...reminder, status: 'SENT', lastCheck };
+      storeReminder(sent);
+      setNotice({ text: describeReminder(sent), isWarning: lastCheck.hasChanged, panel: 'reminders' });
+      const title = lastCheck.hasChanged ? `⚠️ Leave soon: ${reminder.name}` : `Time to leave: ${reminder.name}`;
+      await showNotification(title, describeReminder(sent), { reminderId: reminder.id });
+    } finally {
+      firingRemindersRef.current.delete(reminder.id);
+    }
+  };
+
+  // Timers call whichever fireReminder is current, so they see the latest preferences, position
+  // and live data without being re-armed on every GPS fix or realtime poll
+  const fireReminderRef = useRef(fireReminder);
+  fireReminderRef.current = fireReminder;
+
+  // Arm a timer for every scheduled reminder; due ones fire straight away
+  useEffect(() => {
+    const timers = new Map<string, number>();
+    const arm = () => {
+      for (const r of reminders) {
+        if (r.status !== 'SCHEDULED' || timers.has(r.id)) continue;
+        const delay = getNotifyAt(r).getTime() - Date.now();
+        if (delay <= MAX_TIMER_MS) timers.set(r.id, window.setTimeout(() => fireReminderRef.current(r), Math.max(0, delay)));
+      }
+    };
+    arm();
+    const recheck = window.setInterval(arm, REMINDER_RECHECK_MS);
+    return () => {
+      window.clearInterval(recheck);
+      timers.forEach(timer => window.clearTimeout(timer));
+    };
+  }, [reminders]);
+
+  const handleChooseOrigin = (choice: OriginChoice) => {
+    setOriginChoice(choice);
+    saveOriginChoice(choice).catch(err => console.warn("Could not save the starting point:", err));
+  };
+
+  const handleSavePlace = (place: SavedPlace) => {
+    setSavedPlaces(prev => [...prev.filter(p => p.id !== place.id), place]);
+    saveSavedPlace(place).catch(err => console.warn("Could not save place:", err));
+  };
+
+  const handleDeletePlace = (id: string) => {
+    setSavedPlaces(prev => prev.filter(p => p.id !== id));
+    deleteSavedPlace(id).catch(err => console.warn("Could not delete place:", err));
+    if (originChoice.kind === 'PLACE' && originChoice.placeId === id) handleChooseOrigin({ kind: 'GPS' });
+  };
+
+  const handleSaveCommute = (commute: Commute) => {
+    setCommutes(prev =>
+      [commute, ...prev.filter(c => c.id !== commute.id)].sort((a, b) => a.arriveBy.localeCompare(b.arriveBy))
+    );
+    saveCommute(commute).catch(err => console.warn("Could not save commute:", err));
+  };
+
+  const handleDeleteCommute = (id: string) => {
+    setCommutes(prev => prev.filter(c => c.id !== id));
+    deleteCommute(id).catch(err => console.warn("Could not delete commute:", err));
+    briefings.filter(b => b.commuteId === id).forEach(b =>
+      deleteBriefing(b.id).catch(err => console.warn("Could not delete commute briefing:", err))
+    );
+    setBriefings(prev => prev.filter(b => b.commuteId !== id));
+  };
+
+  const setBriefingInProgress = (id: string, inProgress: boolean) => {
+    if (inProgress) briefingCommutesRef.current.add(id);
+    else briefingCommutesRef.current.delete(id);
+    setBriefingIds(new Set(briefingCommutesRef.current));
+  };
+
+  // Prepares today's briefing for a commute. Automatic briefings also notify; asking from
+  // the commutes panel just refreshes it there.
+  const briefCommute = async (commute: Commute, shouldNotify: boolean) => {
+    if (briefingCommutesRef.current.has(commute.id)) return;
+    setBriefingInProgress(commute.id, true);
+    setBriefingErrors(({ [commute.id]: _, ...rest }) => rest);
+    try {
+      const localContext = getTimetableContext(`${commute.origin} to ${commute.destination}`);
+      // The commute's saved places go out as the chat would send them
+      const sharing = preferences.locationSharing;
+      const prepared = prepareTexts([commute.name, commute.origin, commute.destination], savedPlaces, sharing);
+      const [name, commuteOrigin, destination] = prepared.texts;
+      const outgoing = { ...commute, name, origin: commuteOrigin, destination };
+      const sharedOrigin = shareOrigin(origin, sharing, savedPlaces);
+      logBackgroundDisclosure(`Commute briefing: ${commute.name}`, describeDisclosures(sharedOrigin, prepared.places, sharing));
+      const briefing = await requestBriefing(outgoing, briefings, assistant, preferences, sharedOrigin, localContext);
+      setBriefings(prev => [briefing, ...prev.filter(b => b.id !== briefing.id)]);
+      saveBriefing(briefing).catch(err => console.warn("Could not save commute briefing:", err));
+      briefingFailuresRef.current.delete(commute.id);
+
+      if (shouldNotify) {
+        const isWarning = briefing.disruptions.length > 0;
+        setNotice({ text: describeBriefing(commute, briefing), isWarning, panel: 'commutes' });
+        const title = isWarning ? `⚠️ Disruption on ${commute.name}` : `Commute briefing: ${commute.name}`;
+        await showNotification(title, describeBriefing(commute, briefing), { commuteId: commute.id });
+      }
+    } catch (error) {
+      console.warn("Could not prepare commute briefing:", error);
+      briefingFailuresRef.current.set(commute.id, Date.now());
+      setBriefingErrors(prev => ({ ...prev, [commute.id]: "Couldn't prepare today's briefing. Try again in a moment." }));
+    } finally {
+      setBriefingInProgress(commute.id, false);
+    }
+  };
+
+  // Brief each commute once its window opens, checking every minute while the app is open
+  useEffect(() => {
+    const check = () => {
+      const now = new Date();
+      commutes
+        .filter(c => isBriefingDue(c, briefings, now))
+        .filter(c => now.getTime() - (briefingFailuresRef.current.get(c.id) ?? 0) > BRIEFING_RETRY_MS)
+        .forEach(c => briefCommute(c, true));
+    };
+    check();
+    const timer = window.setInterval(check, COMMUTE_CHECK_MS);
+    return () => window.clearInterval(timer);
+  }, [commutes, briefings, timetable, realtime, preferences, userLocation]);
+
+  const handleSaveTrip = (trip: MultiStopTrip) => {
+    setTrips(prev => [trip, ...prev.filter(t => t.id !== trip.id)]);
+    saveTrip(trip).catch(err => console.warn("Could not save itinerary:", err));
+  };
+
+  const handleDeleteTrip = (id: string) => {
+    setTrips(prev => prev.filter(t => t.id !== id));
+    deleteTrip(id).catch(err => console.warn("Could not delete itinerary:", err));
+  };
+
+  // Plans the given stages one after another, since each starts when the one before it
+  // arrives. Stops at the first failure, which later stages would depend on.
+  const planTripStages = async (trip: MultiStopTrip, indices: number[]) => {
+    let current = trip;
+    const stageIds = indices.map(index => getStageId(trip, index));
+    const finish = (ids: string[]) => setPlanningStageIds(prev => new Set([...prev].filter(id => !ids.includes(id))));
+    setPlanningStageIds(prev => new Set([...prev, ...stageIds]));
+    setStageErrors(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !stageIds.includes(id))));
+
+    for (const [i, index] of indices.entries()) {
+      const from = current.stops[index].place;
+      const to = current.stops[index + 1].place;
+      try {
+        const localContext = getTimetableContext(`${from} to ${to}`);
+        // Stops that are saved places go out as the chat would send them
+        const sharing = preferences.locationSharing;
+        const prepared = prepareTexts(current.stops.map(stop => stop.place), savedPlaces, sharing);
+        const outgoing = { ...current, stops: current.stops.map((stop, n) => ({ ...stop, place: prepared.texts[n] })) };
+        logBackgroundDisclosure(`Itinerary stage: ${from} → ${to}`, describeDisclosures(null, prepared.places, sharing));
+        const stage = await requestStagePlan(outgoing, index, assistant, preferences, localContext);
+        current = withStage(current, { ...stage, from, to });
+        handleSaveTrip(current);
+        finish([stageIds[i]]);
+      } catch (error) {
+        console.warn("Could not plan itinerary stage:", error);
+        const message = error instanceof Error ? error.message : "Couldn't plan this leg.";
+        setStageErrors(prev => ({ ...prev, [stageIds[i]]: message }));
+        finish(stageIds.slice(i));
+        return;
+      }
+    }
+  };
+
+  const handleRerunSavedRoute = (route: SavedRoute) => {
+    setIsSavedRoutesOpen(false);
+    handleSendMessage(buildRerunPrompt(route), {
+      preferences: { ...preferences, routePreference: route.routePreference },
+      rerunRoute: route,
+    });
+  };
+
+  const handleSendMessage = async (
+    text: string,
+    // `branchAt` sends the text in place of the message at that index, setting it and
+    // everything after it aside as a branch
+    options: { preferences?: UserPreferences; rerunRoute?: SavedRoute; followTrip?: boolean; branchAt?: number } = {}
+  ) => {
+    const requestPreferences = options.preferences ?? preferences;
+    const sharing = requestPreferences.locationSharing;
+
+    // Location leaves the device only as the sharing setting allows, and saved places only
+    // by name; what was sent is recorded on the message
+    const outgoing = prepareMessage(text, savedPlaces, sharing);
+    const sharedOrigin = shareOrigin(origin, sharing, savedPlaces);
+
+    const forked = options.branchAt !== undefined
+      ? forkConversation({ messages, branches }, options.branchAt)
+      : undefined;
+    const history = forked?.messages ?? messages;
+
+    const timetableContext = timetable
+      ? buildTimetableContext(timetable.feed, outgoing.text, requestPreferences, new Date(), realtime?.feed)
+      : undefined;
+    const alerts = timetableContext?.alerts.length ? timetableContext.alerts : undefined;
+
+    // Only as much of the conversation as the budget allows goes in full, with addresses
+    // of saved places taken out; the rest is summarised
+    const context = buildConversationContext(
+      history.map(m => ({ ...m, text: redactAddresses(m.text, savedPlaces) })),
+      outgoing.text,
+      contextBudget,
+      timetableContext?.text
+    );
+    const historySummary = context.summary && redactAddresses(context.summary, savedPlaces);
+    setLastContext({
+      history: context.history.map(m => ({ role: m.role, text: m.text })),
+      summary: historySummary,
+      message: outgoing.text,
+      localContext: timetableContext?.text,
+    });
 
-  const handleSendMessage = async (text: string) => {
     const userMsg: ChatMessageType = {
       id: uuidv4(),
       role: 'user',
       text,
       timestamp: new Date(),
+      locationShared: describeDisclosures(sharedOrigin, outgoing.places, sharing),
+      context: { ...context.report, summary: historySummary },
     };
 
-    setMessages(prev => [...prev, userMsg]);
+    const botMsgId = uuidv4();
+    // Set once any of the reply (text or tool calls) is on screen
+    let hasPartialReply = false;
+
+    // Adds the streamed reply on its first update, then patches it in place
+    const upsertBotMessage = (patch: Partial<ChatMessageType>) => {
+      setMessages(prev => {
+        if (prev.some(m => m.id === botMsgId)) {
+          return prev.map(m => (m.id === botMsgId ? { ...m, ...patch } : m));
+        }
+        return [...prev, { id: botMsgId, role: 'model', text: '', timestamp: new Date(), alerts, ...patch }];
+      });
+    };
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    if (forked) {
+      setMessages([...history, userMsg]);
+      setBranches(forked.branches);
+    } else {
+      setMessages(prev => [...prev, userMsg]);
+    }
     setIsLoading(true);
 
     try {
-      // Pass the userLocation to the service
-      const response = await sendMessageToGemini(messages, text, preferences, userLocation);
-      
-      const botMsg: ChatMessageType = {
-        id: uuidv4(),
-        role: 'model',
+      // Pass the chosen starting point (GPS or a picked place) to the service
+      const response = await assistant.sendMessage({
+        history: context.history,
+        historySummary,
+        message: outgoing.text,
+        preferences: requestPreferences,
+        origin: sharedOrigin,
+        localContext: timetableContext?.text,
+        onText: (partialText) => {
+          hasPartialReply = true;
+          setRetryNotice(null);
+          upsertBotMessage({ text: partialText, isStreaming: true });
+        },
+        tools: createLocalToolbox({
+          timetable: timetable?.feed, realtime: realtime?.feed, savedRoutes, savedPlaces, locationSharing: sharing, rail,
+        }),
+        onToolCalls: (toolCalls) => {
+          hasPartialReply = true;
+          upsertBotMessage({ toolCalls, isStreaming: true });
+        },
+        signal: controller.signal,
+        onRetry: (attempt, delayMs) => {
+          setRetryNotice(`Connection problem — retrying in ${Math.ceil(delayMs / 1000)} s (attempt ${attempt} of ${MAX_RETRIES})…`);
+        },
+      });
+
+      if (response.toolCalls?.some(record => record.call.name === 'getSavedPlaces') && savedPlaces.length) {
+        const locationShared = describeDisclosures(sharedOrigin, outgoing.places, sharing, savedPlaces);
+        setMessages(prev => prev.map(m => (m.id === userMsg.id ? { ...m, locationShared } : m)));
+      }
+
+      // A stopped reply is incomplete by choice, so it isn't held to the format
+      const tripPlan = withLiveTraffic(response.tripPlan);
+      const violations = response.stopped ? [] : validateReply(response.text, response.tripPlan, requestPreferences);
+      upsertBotMessage({
         text: response.text,
-        timestamp: new Date(),
-        groundingChunks: response.groundingChunks
-      };
+        groundingChunks: response.groundingChunks,
+        groundingSupports: response.groundingSupports,
+        tripPlan,
+        routePreference: tripPlan ? requestPreferences.routePreference : undefined,
+        toolCalls: response.toolCalls,
+        usage: response.usage,
+        isStreaming: false,
+        partial: response.stopped ? 'stopped' : undefined,
+        contract: response.stopped ? undefined : { violations },
+      });
+
+      if (tripPlan && options.followTrip) {
+        followPlan(botMsgId, tripPlan, lastLocationRef.current?.timestamp ?? Date.now());
+      }
+
+      if (tripPlan && options.rerunRoute) {
+        storeSavedRoute(withRefreshedPlan(options.rerunRoute, tripPlan));
+      }
 
-      setMessages(prev => [...prev, botMsg]);
+      // The model asked to save: use this reply's plan, or else the latest one it suggested
+      if (response.saveRoute) {
+        const source = tripPlan
+          ? { id: botMsgId, tripPlan, routePreference: requestPreferences.routePreference }
+          : [...history].reverse().find(m => m.tripPlan);
+        if (source?.tripPlan) {
+          saveRouteFromMessage(source.id, source.tripPlan, source.routePreference ?? requestPreferences.routePreference, response.saveRoute.name);
+        } else {
+          console.warn("Save requested but no trip plan was found in this conversation.");
+        }
+      }
+
+      if (violations.length && autoRepair) {
+        await repairReply(botMsgId, { ...response, tripPlan }, violations, {
+          history: [
+            ...context.history,
+            { ...userMsg, text: outgoing.text },
+            { id: botMsgId, role: 'model', text: response.text, timestamp: new Date() },
+          ],
+          historySummary,
+          preferences: requestPreferences,
+          origin: sharedOrigin,
+          signal: controller.signal,
+        });
+      }
     } catch (error) {
-      const errorMsg: ChatMessageType = {
-        id: uuidv4(),
-        role: 'model',
-        text: "I'm having trouble accessing the network right now. Please try again.",
-        timestamp: new Date(),
-        isError: true,
-      };
-      setMessages(prev => [...prev, errorMsg]);
+      const failure = toAssistantError(error);
+      if (hasPartialReply) {
+        // Keep what already arrived, flagged as cut off
+        upsertBotMessage({ isStreaming: false, partial: 'failed', errorKind: failure.kind });
+      } else {
+        const errorMsg: ChatMessageType = {
+          id: uuidv4(),
+          role: 'model',
+          text: failure.message,
+          timestamp: new Date(),
+          isError: true,
+          errorKind: failure.kind,
+        };
+        setMessages(prev => [...prev, errorMsg]);
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setRetryNotice(null);
+      setIsLoading(false);
+    }
+  };
+
+  // Traffic the realtime feed reports for a plan's bus legs replaces the model's estimate
+  const withLiveTraffic = (plan?: TripPlan) =>
+    plan && timetable && realtime
+      ? withTrafficAssessments(plan, [createLiveFeedTrafficAdapter(timetable.feed, realtime.feed)], new Date())
+      : plan;
+
+  /**
+   * Asks once for a rewrite of the reply with id `replyId`, streaming it in place, and keeps
+   * whichever version breaks fewer rules. If the rewrite fails or is stopped, the original
+   * stays. Either way the reply is marked as repaired so it isn't sent back again.
+   */
+  const repairReply = async (
+    replyId: string,
+    original: Pick<ChatMessageType, 'text' | 'tripPlan' | 'groundingChunks' | 'groundingSupports'>,
+    violations: ContractViolation[],
+    request: Omit<RepairRequest, 'violations' | 'onText'>
+  ) => {
+    const patchReply = (patch: Partial<ChatMessageType>) =>
+      setMessages(prev => prev.map(m => (m.id === replyId ? { ...m, ...patch } : m)));
+
+    try {
+      const repaired = await requestRepair(assistant, {
+        ...request,
+        violations,
+        onText: text => patchReply({ text, isStreaming: true }),
+      });
+      const tripPlan = withLiveTraffic(repaired.tripPlan) ?? original.tripPlan;
+      const remaining = validateReply(repaired.text, tripPlan, request.preferences);
+      if (!repaired.stopped && remaining.length < violations.length) {
+        patchReply({
+          text: repaired.text,
+          tripPlan,
+          // Citations point into the text they came with, so the old ones can't carry over
+          groundingChunks: repaired.groundingChunks ?? original.groundingChunks,
+          groundingSupports: repaired.groundingSupports,
+          isStreaming: false,
+          contract: { violations: remaining, repaired: true },
+        });
+        return;
+      }
+    } catch (error) {
+      console.warn("Could not repair the reply format:", error);
+    }
+    // `original` may be a whole AssistantReply, so only the reply's own fields are put back
+    patchReply({
+      text: original.text,
+      tripPlan: original.tripPlan,
+      groundingChunks: original.groundingChunks,
+      groundingSupports: original.groundingSupports,
+      isStreaming: false,
+      contract: { violations, repaired: true },
+    });
+  };
+
+  // The "Ask to fix" button on a reply that broke the format and wasn't repaired
+  const handleRepairReply = async (index: number) => {
+    const reply = messages[index];
+    if (isLoading || !reply.contract?.violations.length) return;
+    const sharing = preferences.locationSharing;
+    const context = buildConversationContext(
+      messages.slice(0, index + 1).map(m => ({ ...m, text: redactAddresses(m.text, savedPlaces) })),
+      '',
+      contextBudget
+    );
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+    try {
+      await repairReply(reply.id, reply, reply.contract.violations, {
+        history: context.history,
+        historySummary: context.summary && redactAddresses(context.summary, savedPlaces),
+        preferences,
+        origin: shareOrigin(origin, sharing, savedPlaces),
+        signal: controller.signal,
+      });
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleAutoRepairChange = (enabled: boolean) => {
+    setAutoRepair(enabled);
+    saveAutoRepair(enabled).catch(err => console.warn("Could not save the reply format setting:", err));
+  };
+
+  // Asks the question at `index` again, or an edited version of it, keeping the old
+  // conversation from there as a branch
+  const handleResend = (index: number, text = messages[index].text) => {
+    if (isLoading) return;
+    handleSendMessage(text, { branchAt: index });
+  };
+
+  const handleContextBudgetChange = (tokens: number) => {
+    setContextBudget(tokens);
+    saveContextBudget(tokens).catch(err => console.warn("Could not save the context budget:", err));
+  };
+
+  const handleSwitchBranch = (index: number, offset: number) => {
+    if (isLoading) return;
+    const switched = switchBranch({ messages, branches }, index, offset);
+    setMessages(switched.messages);
+    setBranches(switched.branches);
+  };
+
+  // A reply is regenerated by resending the question it answers
+  const findQuestionIndex = (replyIndex: number) =>
+    messages.slice(0, replyIndex).map(m => m.role).lastIndexOf('user');
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const locationSentCount = messages.filter(m => m.locationShared?.length).length;
+  const latestContext = [...messages].reverse().find(m => m.context)?.context;
+
+  // Show the typing indicator only until the streamed reply starts rendering
+  const isAwaitingFirstChunk = isLoading && !messages.some(m => m.isStreaming);
+
   return (
     <div className="flex flex-col h-screen bg-slate-50">
       {/* Header */}
       <header className="flex-none bg-white border-b border-slate-200 z-20">
         <div className="max-w-3xl mx-auto px-4 h-16 flex items-center justify-between">
           <div className="flex items-center gap-2 text-indigo-600">
+            <button
+              onClick={() => setIsSidebarOpen(true)}
+              className="p-2 -ml-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+              title="Conversations"
+            >
+              <MessageSquare size={22} />
+            </button>
             <div className="bg-indigo-600 text-white p-1.5 rounded-lg">
               <Train size={24} />
             </div>
             <h1 className="text-xl font-bold tracking-tight text-slate-900">EasyTra</h1>
           </div>
           
-          <button 
-            onClick={() => setIsSettingsOpen(true)}
-            className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors relative group"
-            title="Preferences"
-          >
-            <Menu size={24} />
-            {preferences.accessibilityRequired && (
-               <span className="absolute top-2 right-2 w-2 h-2 bg-indigo-600 rounded-full ring-2 ring-white"></span>
-            )}
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setIsRemindersOpen(true)}
+              className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors relative"
+              title="Reminders"
+            >
+              <Bell size={22} />
+              {reminders.some(r => r.status === 'SCHEDULED') && (
+                <span className="absolute top-2 right-2 w-2 h-2 bg-indigo-600 rounded-full ring-2 ring-white"></span>
+              )}
+            </button>
+            <button
+              onClick={() => setIsCommutesOpen(true)}
+              className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors relative"
+              title="Commutes"
+            >
+              <Repeat size={22} />
+              {briefings.some(b => b.date === toDateKey(new Date()) && b.disruptions.length > 0) && (
+                <span className="absolute top-2 right-2 w-2 h-2 bg-red-600 rounded-full ring-2 ring-white"></span>
+              )}
+            </button>
+            <button
+              onClick={() => setIsItinerariesOpen(true)}
+              className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+              title="Itineraries"
+            >
+              <Route size={22} />
+            </button>
+            <button
+              onClick={() => setIsSavedRoutesOpen(true)}
+              className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+              title="Saved routes"
+            >
+              <Bookmark size={22} />
+            </button>
+            <button 
+              onClick={() => setIsSettingsOpen(true)}
+              className="p-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors relative group"
+              title="Preferences"
+            >
+              <Menu size={24} />
+              {preferences.accessibilityRequired && (
+                 <span className="absolute top-2 right-2 w-2 h-2 bg-indigo-600 rounded-full ring-2 ring-white"></span>
+              )}
+            </button>
+          </div>
         </div>
         
         {/* Active Preference Indicator Bar */}
         <div className="bg-indigo-50/50 border-b border-indigo-100 text-xs py-1.5 px-4 text-center text-indigo-800 flex justify-center items-center gap-2">
            <Compass size={12} />
            <span>Optimizing for: <strong>{preferences.routePreference.replace('_', ' ')}</strong></span>
-           {userLocation && <span className="text-indigo-600 font-semibold">• GPS Active</span>}
+           {summarizeLimits(preferences).length > 0 && (
+             <button onClick={() => setIsSettingsOpen(true)} className="hover:underline" title="Trip preferences">
+               • {summarizeLimits(preferences).join(', ')}
+             </button>
+           )}
+           <button
+             onClick={() => setIsPlacesOpen(true)}
+             className={`font-semibold hover:underline ${origin ? 'text-indigo-600' : 'text-amber-700'}`}
+             title="Choose where trips start"
+           >
+             • {!origin ? 'Set starting point' : origin.source === 'GPS' ? 'GPS Active' : `From ${origin.name}`}
+           </button>
+           <button
+             onClick={() => setIsLocationLogOpen(true)}
+             className="text-slate-600 hover:underline"
+             title="Location data sent in this conversation"
+           >
+             • {locationSentCount ? `Location sent ×${locationSentCount}` : 'No location sent'}
+           </button>
+           <button
+             onClick={() => setIsContextOpen(true)}
+             className={`hover:underline ${latestContext?.summarizedMessages ? 'text-amber-700' : 'text-slate-600'}`}
+             title="What the assistant was sent"
+           >
+             • {latestContext ? `~${formatTokens(latestContext.estimatedTokens)} tokens` : 'Context'}
+           </button>
+           {realtime && <span className="text-emerald-700 font-semibold">• Live updates</span>}
+           {assistant.id !== 'gemini' && <span className="text-amber-700 font-semibold">• {assistant.label}</span>}
         </div>
       </header>
 
       {/* Main Chat Area */}
       <main className="flex-1 overflow-y-auto">
         <div className="max-w-3xl mx-auto px-4 py-6 pb-24">
-          {messages.map((msg) => (
-            <ChatMessage key={msg.id} message={msg} />
-          ))}
-          {isLoading && (
+          {messages.map((msg, index) => {
+            const questionIndex = msg.role === 'model' ? findQuestionIndex(index) : -1;
+            return (
+              <ChatMessage
+                key={msg.id}
+                message={msg}
+                onEdit={msg.role === 'user' && !isLoading ? text => handleResend(index, text) : undefined}
+                onRegenerate={!isLoading && (msg.role === 'user' || questionIndex >= 0)
+                  ? () => handleResend(msg.role === 'user' ? index : questionIndex)
+                  : undefined}
+                branch={msg.role === 'user' ? getBranchPosition({ messages, branches }, index) : undefined}
+                onSwitchBranch={isLoading ? undefined : offset => handleSwitchBranch(index, offset)}
+                onRepair={isLoading ? undefined : () => handleRepairReply(index)}
+                onSaveRoute={m => m.tripPlan && saveRouteFromMessage(m.id, m.tripPlan, m.routePreference ?? preferences.routePreference)}
+                userLocation={userLocation}
+                onStartTrip={handleStartTrip}
+                isFollowing={activeTrip?.messageId === msg.id}
+                onRemind={handleCreateReminder}
+                hasReminder={!!msg.reminderId && reminders.some(r => r.id === msg.reminderId)}
+                preferences={preferences}
+              />
+            );
+          })}
+          {isAwaitingFirstChunk && (
             <div className="flex w-full gap-4 py-6 bg-slate-50/50 opacity-70">
               <div className="w-8 h-8 rounded-full bg-emerald-100 text-emerald-600 flex items-center justify-center">
                 <BotIcon />
@@ -217,6 +1317,7 @@ function App() {
                 <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:-0.3s]"></span>
                 <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce [animation-delay:-0.15s]"></span>
                 <span className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"></span>
+                {retryNotice && <span className="ml-2 text-xs text-amber-700">{retryNotice}</span>}
               </div>
             </div>
           )}
@@ -224,8 +1325,148 @@ function App() {
         </div>
       </main>
 
+      {/* Reminder or commute briefing that just went off */}
+      {notice && (
+        <div className={`flex-none border-t ${notice.isWarning ? 'bg-red-50 border-red-200 text-red-800' : 'bg-indigo-50 border-indigo-100 text-indigo-800'}`}>
+          <div className="max-w-3xl mx-auto px-4 py-2 flex items-start gap-2 text-sm">
+            {notice.isWarning
+              ? <TriangleAlert size={16} className="mt-0.5 flex-shrink-0" />
+              : notice.panel === 'commutes'
+                ? <Repeat size={16} className="mt-0.5 flex-shrink-0" />
+                : <Bell size={16} className="mt-0.5 flex-shrink-0" />}
+            <button
+              onClick={() => (notice.panel === 'commutes' ? setIsCommutesOpen(true) : setIsRemindersOpen(true))}
+              className="flex-1 text-left hover:underline"
+            >
+              {notice.text}
+            </button>
+            <button onClick={() => setNotice(null)} className="p-0.5 opacity-70 hover:opacity-100" title="Dismiss">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Trip Following */}
+      {activeTrip && tripProgress && (
+        <TripFollowPanel
+          plan={activeTrip.plan}
+          progress={tripProgress}
+          isVoiceOn={isVoiceOn}
+          isReplanning={isLoading && tripProgress.status !== 'ON_ROUTE'}
+          isSimulating={isSimulating}
+          simulationError={simulationError}
+          onToggleVoice={() => setIsVoiceOn(on => !on)}
+          onSimulate={handleSimulateTrip}
+          onLoadTrack={handleLoadTrack}
+          onStopSimulation={stopReplay}
+          onEnd={handleEndTrip}
+        />
+      )}
+
       {/* Input Area */}
-      <InputArea onSend={handleSendMessage} isLoading={isLoading} />
+      <InputArea onSend={handleSendMessage} onStop={handleStopGeneration} isLoading={isLoading} prefill={prefill} />
+
+      {/* Conversation History */}
+      <ConversationSidebar
+        conversations={conversations}
+        activeConversationId={activeConversation.id}
+        isOpen={isSidebarOpen}
+        isBusy={isLoading}
+        onClose={() => setIsSidebarOpen(false)}
+        onSelect={handleSelectConversation}
+        onCreate={handleNewConversation}
+        onRename={handleRenameConversation}
+        onDelete={handleDeleteConversation}
+      />
+
+      {/* Saved Routes */}
+      <SavedRoutesPanel
+        routes={savedRoutes}
+        isOpen={isSavedRoutesOpen}
+        isBusy={isLoading}
+        onClose={() => setIsSavedRoutesOpen(false)}
+        onRerun={handleRerunSavedRoute}
+        onRename={handleRenameSavedRoute}
+        onDelete={handleDeleteSavedRoute}
+      />
+
+      {/* Reminders */}
+      <RemindersPanel
+        reminders={reminders}
+        isOpen={isRemindersOpen}
+        notificationSupport={notificationSupport}
+        onClose={() => setIsRemindersOpen(false)}
+        onEnableNotifications={async () => setNotificationSupport(await requestNotificationPermission())}
+        onUpdate={storeReminder}
+        onCancel={handleCancelReminder}
+      />
+
+      {/* Commutes */}
+      <CommutesPanel
+        commutes={commutes}
+        briefings={briefings}
+        isOpen={isCommutesOpen}
+        briefingIds={briefingIds}
+        briefingErrors={briefingErrors}
+        onClose={() => setIsCommutesOpen(false)}
+        onSave={handleSaveCommute}
+        onDelete={handleDeleteCommute}
+        onBriefNow={commute => briefCommute(commute, false)}
+      />
+
+      {/* Multi-stop, multi-day itineraries */}
+      <ItinerariesPanel
+        trips={trips}
+        isOpen={isItinerariesOpen}
+        planningStageIds={planningStageIds}
+        stageErrors={stageErrors}
+        onClose={() => setIsItinerariesOpen(false)}
+        onSave={handleSaveTrip}
+        onDelete={handleDeleteTrip}
+        onPlan={planTripStages}
+      />
+
+      {/* Starting point & saved places */}
+      <PlacesPanel
+        isOpen={isPlacesOpen}
+        places={savedPlaces}
+        choice={originChoice}
+        gps={{ isEnabled: preferences.useCurrentLocation, hasFix: !!userLocation, error: locationError }}
+        timetable={timetable?.feed}
+        onClose={() => setIsPlacesOpen(false)}
+        onChoose={choice => {
+          handleChooseOrigin(choice);
+          setIsPlacesOpen(false);
+        }}
+        onSavePlace={handleSavePlace}
+        onDeletePlace={handleDeletePlace}
+      />
+
+      <ContextPanel
+        isOpen={isContextOpen}
+        messages={messages}
+        budget={contextBudget}
+        onBudgetChange={handleContextBudgetChange}
+        lastContext={lastContext}
+        onClose={() => setIsContextOpen(false)}
+      />
+
+      <FormatCheckPanel
+        isOpen={isFormatCheckOpen}
+        preferences={preferences}
+        currentProviderId={assistant.id}
+        onClose={() => setIsFormatCheckOpen(false)}
+      />
+
+      {/* What location data left the device */}
+      <LocationLogPanel
+        isOpen={isLocationLogOpen}
+        messages={messages}
+        backgroundDisclosures={backgroundDisclosures}
+        sharing={preferences.locationSharing}
+        onClose={() => setIsLocationLogOpen(false)}
+      />
 
       {/* Settings Modal */}
       <SettingsPanel 
@@ -233,6 +1474,22 @@ function App() {
         onClose={() => setIsSettingsOpen(false)}
         preferences={preferences}
         onUpdate={setPreferences}
+        timetable={timetable?.summary ?? null}
+        timetableStatus={timetableStatus}
+        onImportTimetable={handleImportTimetable}
+        onRemoveTimetable={handleRemoveTimetable}
+        realtime={realtime?.summary ?? null}
+        realtimeUrl={realtimeUrl}
+        realtimeError={realtimeError}
+        onConnectRealtime={handleConnectRealtime}
+        onLoadRealtimeFile={handleLoadRealtimeFile}
+        onDisconnectRealtime={handleDisconnectRealtime}
+        autoRepair={autoRepair}
+        onAutoRepairChange={handleAutoRepairChange}
+        onOpenFormatCheck={() => {
+          setIsSettingsOpen(false);
+          setIsFormatCheckOpen(true);
+        }}
       />
     </div>
   );
@@ -1,22 +1,111 @@
-import React from 'react';
-import { ChatMessage as ChatMessageType, Role } from '../types';
-import { Bot, User, AlertCircle, ExternalLink, Map } from 'lucide-react';
+import React, { useState } from 'react';
+import { ChatMessage as ChatMessageType, LatLng, Role, UserPreferences } from '../types';
+import { Bot, User, AlertCircle, ExternalLink, Map, CircleStop, Bookmark, BookmarkCheck, TriangleAlert, Info, Navigation, BellPlus, BellRing, CalendarPlus, Printer, Share2, Check, Pencil, RefreshCw, ChevronLeft, ChevronRight, Wand2 } from 'lucide-react';
 import ReactMarkdown from 'react-markdown'; 
+import TripPlanCard from './TripPlanCard';
+import TrainTable from './TrainTable';
+import ToolTrace from './ToolTrace';
+import RouteMap, { hasMapGeometry } from './RouteMap';
+import { canFollowPlan } from '../services/tripFollower';
+import { getTrainResults } from '../services/localTools';
+import { findPreferenceConflicts } from '../services/preferences';
+import { buildCalendarEvent, buildShareUrl, downloadFile, slugify } from '../services/tripExport';
+import { openTripSheet } from './TripSheet';
+import { SEVERITY_LABELS, getWorstCongestion, isHeavyTraffic } from '../services/traffic';
+import { getPartialReplyLabel } from '../services/assistantErrors';
+import { BranchPosition } from '../services/conversationBranches';
+import SourceList from './SourceList';
+import { UNSOURCED_HREF, annotateCitations, hasFactualClaims, parseCitationHref, sourceNumber } from '../services/citations';
 
 interface Props {
   message: ChatMessageType;
+  onSaveRoute?: (message: ChatMessageType) => void;
+  // Live GPS position, shown on route maps
+  userLocation?: LatLng | null;
+  // Starts following this reply's plan ("I'm travelling now")
+  onStartTrip?: (message: ChatMessageType) => void;
+  isFollowing?: boolean;
+  // Schedules a leave-by reminder for this reply's plan
+  onRemind?: (message: ChatMessageType) => void;
+  hasReminder?: boolean;
+  // Trip plans are checked against these
+  preferences?: UserPreferences;
+  // On questions: send an edited version instead. On questions and replies: ask again.
+  // Both keep the current conversation from here as a branch.
+  onEdit?: (text: string) => void;
+  onRegenerate?: () => void;
+  // On questions that have been edited or regenerated: which version is showing
+  branch?: BranchPosition;
+  onSwitchBranch?: (offset: number) => void;
+  // On replies that broke the output format: ask once for a rewrite
+  onRepair?: () => void;
 }
 
-const ChatMessage: React.FC<Props> = ({ message }) => {
+const ChatMessage: React.FC<Props> = ({
+  message, onSaveRoute, userLocation = null, onStartTrip, isFollowing, onRemind, hasReminder, preferences,
+  onEdit, onRegenerate, branch, onSwitchBranch, onRepair,
+}) => {
   const isUser = message.role === 'user';
   const isError = message.isError;
 
-  // Simple heuristic to detect if the model is reporting heavy traffic
-  const hasHeavyTraffic = !isUser && message.text.toLowerCase().match(/(heavy traffic|congestion|high traffic|traffic jam|gridlock|delays? due to traffic)/i);
+  // From the plan's per-leg assessments, never the wording of the reply
+  const worstTraffic = isUser ? undefined : getWorstCongestion(message.tripPlan);
+  const hasHeavyTraffic = isHeavyTraffic(worstTraffic);
+
+  // Looked up by the rail tools, so they win over any trains the model wrote down
+  const railTrains = isUser ? [] : getTrainResults(message.toolCalls);
 
-  // Filter for map chunks, but only take the first one (Single Map policy)
   const mapChunks = message.groundingChunks?.filter(c => c.maps?.uri) || [];
   const primaryMapChunk = mapChunks.length > 0 ? mapChunks[0] : null;
+  // The interactive map needs coordinates, which only come with a trip plan
+  const showRouteMap = !isUser && hasMapGeometry(message.tripPlan);
+
+  // Citations are added once the reply is complete, when the grounding data has arrived
+  const sources = message.groundingChunks?.filter(c => c.web?.uri || c.maps?.uri) ?? [];
+  const isFinished = !isUser && !isError && !message.isStreaming;
+  const annotated = isFinished && message.groundingSupports?.length
+    ? annotateCitations(message.text, message.groundingChunks!, message.groundingSupports)
+    : undefined;
+  // Without any grounded spans, a reply with figures gets one overall hint instead. Replies
+  // that used local tools are exempt: their figures come from this device.
+  const isUngrounded = isFinished && !annotated && !message.toolCalls?.length && hasFactualClaims(message.text);
+
+  const [draft, setDraft] = useState<string | null>(null);
+  const handleSubmitEdit = () => {
+    if (!draft?.trim()) return;
+    onEdit?.(draft.trim());
+    setDraft(null);
+  };
+
+  const [shareStatus, setShareStatus] = useState<'copied' | 'failed' | null>(null);
+  const plan = message.tripPlan;
+  // Plans without clock times have nothing to put in a calendar
+  const calendarEvent = plan && !message.isStreaming ? buildCalendarEvent(plan, message.timestamp) : undefined;
+
+  const handleAddToCalendar = () => {
+    downloadFile(`${slugify(`${plan!.origin} ${plan!.destination}`)}.ics`, calendarEvent!, 'text/calendar');
+  };
+
+  const handleShare = async () => {
+    const url = buildShareUrl(plan!.origin, plan!.destination, preferences!);
+    const title = `${plan!.origin} → ${plan!.destination}`;
+    if (navigator.share) {
+      try {
+        await navigator.share({ title, text: `Trip on EasyTra: ${title}`, url });
+        return;
+      } catch (err) {
+        // Closing the share sheet isn't a failure
+        if ((err as Error).name === 'AbortError') return;
+      }
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareStatus('copied');
+    } catch {
+      setShareStatus('failed');
+    }
+    setTimeout(() => setShareStatus(null), 2500);
+  };
 
   return (
     <div className={`flex w-full gap-4 py-6 ${isUser ? 'bg-white' : 'bg-slate-50/50'}`}>
@@ -27,70 +116,356 @@ const ChatMessage: React.FC<Props> = ({ message }) => {
       </div>
       
       <div className="flex-1 overflow-hidden space-y-4">
+        {/* Live Service Alerts (GTFS-Realtime) on the routes and stops this reply covers */}
+        {message.alerts && message.alerts.length > 0 && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 space-y-1.5">
+            {message.alerts.map(alert => (
+              <div key={alert.id} className="flex items-start gap-2 text-sm text-amber-900">
+                <TriangleAlert size={14} className="mt-0.5 flex-shrink-0 text-amber-600" />
+                <div className="min-w-0">
+                  <span className="font-semibold">{alert.header}</span>
+                  {(alert.agencyWide || alert.routeNames?.length) && (
+                    <span className="text-amber-700"> · {alert.agencyWide ? 'All services' : alert.routeNames!.join(', ')}</span>
+                  )}
+                  {alert.description && <p className="text-xs text-amber-800 line-clamp-2">{alert.description}</p>}
+                  {alert.url && (
+                    <a href={alert.url} target="_blank" rel="noopener noreferrer" className="text-xs font-medium text-amber-700 underline">
+                      More info
+                    </a>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Local Tool Calls ("what I checked") */}
+        {message.toolCalls && message.toolCalls.length > 0 && <ToolTrace calls={message.toolCalls} />}
+
+        {/* Editing a question to send it again */}
+        {draft !== null && (
+          <div className="space-y-2">
+            <textarea
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSubmitEdit();
+                } else if (e.key === 'Escape') {
+                  setDraft(null);
+                }
+              }}
+              autoFocus
+              rows={Math.min(6, draft.split('\n').length + 1)}
+              className="w-full text-sm text-slate-800 border border-indigo-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-indigo-100 resize-none"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={handleSubmitEdit}
+                disabled={!draft.trim()}
+                className="text-xs font-semibold text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 px-3 py-1.5 rounded-lg transition-colors"
+              >
+                Send
+              </button>
+              <button
+                onClick={() => setDraft(null)}
+                className="text-xs font-medium text-slate-600 hover:text-slate-800 px-3 py-1.5 rounded-lg hover:bg-slate-100 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Message Text with Friendly Markdown Formatting */}
-        <div className={`prose prose-slate max-w-none ${isUser ? 'text-slate-700' : 'text-slate-800'}`}>
+        <div className={`prose prose-slate max-w-none ${isUser ? 'text-slate-700' : 'text-slate-800'} ${draft !== null ? 'hidden' : ''}`}>
           <ReactMarkdown
             components={{
-              // Optional: Customize link rendering if links appear in text
-              a: ({node, ...props}) => <span className="text-indigo-600 font-medium" {...props} />
+              a: ({ node, href, children, ...props }) => {
+                const citation = parseCitationHref(href);
+                if (citation) {
+                  const chunk = message.groundingChunks?.[citation.chunkIndex];
+                  const source = chunk?.web ?? chunk?.maps;
+                  return (
+                    <a
+                      href={source?.uri}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={`${source?.title ?? 'Source'}${citation.lowConfidence ? ' (low confidence)' : ''}`}
+                      className={`align-super text-[10px] font-semibold no-underline mx-px px-1 rounded ${
+                        citation.lowConfidence ? 'bg-amber-100 text-amber-700' : 'bg-indigo-50 text-indigo-600 hover:bg-indigo-100'
+                      }`}
+                    >
+                      {sourceNumber(citation.chunkIndex)}
+                    </a>
+                  );
+                }
+                if (href === UNSOURCED_HREF) {
+                  return (
+                    <span
+                      title="No source for this figure — double-check before you travel"
+                      className="align-super text-[10px] font-semibold mx-px px-1 rounded bg-slate-100 text-slate-500 cursor-help"
+                    >
+                      ?
+                    </span>
+                  );
+                }
+                return (
+                  <a href={href} target="_blank" rel="noopener noreferrer" className="text-indigo-600 font-medium hover:text-indigo-800" {...props}>
+                    {children}
+                  </a>
+                );
+              }
             }}
           >
-            {message.text}
+            {annotated?.markdown ?? message.text}
           </ReactMarkdown>
+          {message.isStreaming && (
+            <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-slate-400 animate-pulse" />
+          )}
         </div>
 
-        {/* Primary Map Embed (Single Map Only) */}
-        {primaryMapChunk && primaryMapChunk.maps?.uri && (
-          <div className="mt-4 pt-3 border-t border-slate-200">
-            {(() => {
-              const title = primaryMapChunk.maps.title || "Location";
-              // Construct a basic embed URL using the location title
-              const embedUrl = `https://maps.google.com/maps?q=${encodeURIComponent(title)}&t=&z=13&ie=UTF8&iwloc=&output=embed`;
-
-              return (
-                <div 
-                  className={`relative w-full h-64 md:h-80 rounded-xl overflow-hidden bg-slate-100 border transition-all duration-500
-                    ${hasHeavyTraffic 
-                      ? 'border-red-400 shadow-[0_0_15px_-3px_rgba(239,68,68,0.3)]' 
-                      : 'border-slate-200 shadow-sm'
-                    }`}
+        {/* Question Actions: flip between versions, edit, ask again */}
+        {isUser && draft === null && (branch || onEdit || onRegenerate) && (
+          <div className="flex items-center gap-1 text-xs text-slate-400">
+            {branch && (
+              <div className="inline-flex items-center mr-1">
+                <button
+                  onClick={() => onSwitchBranch?.(-1)}
+                  disabled={!onSwitchBranch || branch.index === 0}
+                  title="Previous version"
+                  className="p-1 rounded hover:bg-slate-100 hover:text-slate-700 disabled:opacity-40 disabled:hover:bg-transparent"
                 >
-                  <iframe
-                    title={title}
-                    width="100%"
-                    height="100%"
-                    src={embedUrl}
-                    style={{ border: 0 }}
-                    loading="lazy"
-                    className="opacity-95 hover:opacity-100 transition-opacity"
-                  />
-                  
-                  {/* Heavy Traffic Warning Badge */}
-                  {hasHeavyTraffic && (
-                    <div className="absolute top-3 right-3 bg-red-600 text-white text-xs font-bold px-3 py-1.5 rounded-full shadow-lg flex items-center gap-1.5 animate-pulse z-10 border border-red-400">
-                      <AlertCircle size={14} className="fill-red-600 text-white" />
-                      <span>HEAVY TRAFFIC DETECTED</span>
-                    </div>
-                  )}
+                  <ChevronLeft size={14} />
+                </button>
+                <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+                <button
+                  onClick={() => onSwitchBranch?.(1)}
+                  disabled={!onSwitchBranch || branch.index === branch.count - 1}
+                  title="Next version"
+                  className="p-1 rounded hover:bg-slate-100 hover:text-slate-700 disabled:opacity-40 disabled:hover:bg-transparent"
+                >
+                  <ChevronRight size={14} />
+                </button>
+              </div>
+            )}
+            {onEdit && (
+              <button
+                onClick={() => setDraft(message.text)}
+                title="Edit and send again"
+                className="p-1 rounded hover:bg-slate-100 hover:text-slate-700"
+              >
+                <Pencil size={14} />
+              </button>
+            )}
+            {onRegenerate && (
+              <button
+                onClick={onRegenerate}
+                title="Ask again for a new reply"
+                className="p-1 rounded hover:bg-slate-100 hover:text-slate-700"
+              >
+                <RefreshCw size={14} />
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Confidence Hint for figures without a source */}
+        {(isUngrounded || (annotated && annotated.unsourcedClaims > 0)) && (
+          <div className="flex items-start gap-1.5 text-xs text-slate-500">
+            <Info size={12} className="mt-0.5 flex-shrink-0" />
+            <span>
+              {isUngrounded
+                ? 'No sources were returned for this reply — treat fares and times as estimates.'
+                : `${annotated!.unsourcedClaims} ${annotated!.unsourcedClaims === 1 ? 'figure is' : 'figures are'} not backed by a source (marked ?) — double-check before you travel.`}
+            </span>
+          </div>
+        )}
 
-                  {/* Map Card Footer */}
-                  <div className="absolute bottom-0 left-0 right-0 bg-white/95 backdrop-blur border-t border-slate-200 px-3 py-2 flex justify-between items-center text-xs">
-                    <div className="flex items-center gap-2 text-slate-700 font-medium truncate max-w-[70%]">
-                      <Map size={14} className={`${hasHeavyTraffic ? 'text-red-500' : 'text-indigo-600'} flex-shrink-0`} />
-                      <span className="truncate">{title}</span>
+        {/* Web and Maps Sources */}
+        {isFinished && sources.length > 0 && <SourceList chunks={message.groundingChunks!} />}
+
+        {/* Structured Trip Plan */}
+        {message.tripPlan && (
+          <TripPlanCard
+            plan={message.tripPlan}
+            plannedAt={message.timestamp}
+            trains={railTrains.length ? railTrains : undefined}
+            conflicts={preferences && !message.isStreaming ? findPreferenceConflicts(message.tripPlan, preferences) : undefined}
+          />
+        )}
+        {!message.tripPlan && railTrains.length > 0 && (
+          <div className="rounded-xl border border-slate-200 bg-white shadow-sm px-4 py-3 overflow-x-auto">
+            <TrainTable trains={railTrains} />
+          </div>
+        )}
+        {message.tripPlan && (onSaveRoute || onStartTrip || onRemind || !message.isStreaming) && (
+          <div className="flex flex-wrap items-center gap-2">
+            {onSaveRoute && (
+              message.savedRouteId ? (
+                <div className="inline-flex items-center gap-1.5 text-xs font-medium text-emerald-700">
+                  <BookmarkCheck size={14} /> Saved to your routes
+                </div>
+              ) : (
+                <button
+                  onClick={() => onSaveRoute(message)}
+                  className="inline-flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-2.5 py-1 rounded-full transition-colors"
+                >
+                  <Bookmark size={14} /> Save route
+                </button>
+              )
+            )}
+            {onRemind && !message.isStreaming && (
+              hasReminder ? (
+                <div className="inline-flex items-center gap-1.5 text-xs font-medium text-emerald-700">
+                  <BellRing size={14} /> Reminder set
+                </div>
+              ) : (
+                <button
+                  onClick={() => onRemind(message)}
+                  className="inline-flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-2.5 py-1 rounded-full transition-colors"
+                >
+                  <BellPlus size={14} /> Remind me to leave
+                </button>
+              )
+            )}
+            {/* Following needs coordinates for every leg */}
+            {onStartTrip && !message.isStreaming && canFollowPlan(message.tripPlan) && (
+              isFollowing ? (
+                <div className="inline-flex items-center gap-1.5 text-xs font-medium text-emerald-700">
+                  <Navigation size={14} /> Following this trip
+                </div>
+              ) : (
+                <button
+                  onClick={() => onStartTrip(message)}
+                  className="inline-flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-2.5 py-1 rounded-full transition-colors"
+                >
+                  <Navigation size={14} /> I'm travelling now
+                </button>
+              )
+            )}
+            {!message.isStreaming && (
+              <>
+                {calendarEvent && (
+                  <button
+                    onClick={handleAddToCalendar}
+                    title="Download a calendar event with a leave-by alarm"
+                    className="inline-flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-2.5 py-1 rounded-full transition-colors"
+                  >
+                    <CalendarPlus size={14} /> Add to calendar
+                  </button>
+                )}
+                <button
+                  onClick={() => openTripSheet(message.tripPlan!, message.timestamp, message.text)}
+                  title="Print the trip sheet or save it as PDF"
+                  className="inline-flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-2.5 py-1 rounded-full transition-colors"
+                >
+                  <Printer size={14} /> Print
+                </button>
+                {preferences && (
+                  shareStatus ? (
+                    <div className={`inline-flex items-center gap-1.5 text-xs font-medium ${shareStatus === 'copied' ? 'text-emerald-700' : 'text-red-600'}`}>
+                      {shareStatus === 'copied' ? <><Check size={14} /> Link copied</> : <><AlertCircle size={14} /> Couldn't copy the link</>}
                     </div>
-                    <a 
-                      href={primaryMapChunk.maps.uri} 
-                      target="_blank" 
-                      rel="noopener noreferrer" 
-                      className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-semibold whitespace-nowrap ml-2 bg-indigo-50 px-2 py-1 rounded hover:bg-indigo-100 transition-colors"
+                  ) : (
+                    <button
+                      onClick={handleShare}
+                      title="Share a link that opens this trip with your preferences"
+                      className="inline-flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-800 bg-indigo-50 hover:bg-indigo-100 px-2.5 py-1 rounded-full transition-colors"
                     >
-                      Open App <ExternalLink size={10} />
-                    </a>
-                  </div>
-                </div>
-              );
-            })()}
+                      <Share2 size={14} /> Share
+                    </button>
+                  )
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Partial Reply Marker (stream stopped or cut off) */}
+        {message.partial && (
+          <div className={`inline-flex items-center gap-1.5 text-xs font-medium px-2.5 py-1 rounded-full border ${
+            message.partial === 'failed'
+              ? 'bg-red-50 text-red-700 border-red-200'
+              : 'bg-amber-50 text-amber-700 border-amber-200'
+          }`}>
+            {message.partial === 'failed' ? <AlertCircle size={12} /> : <CircleStop size={12} />}
+            <span>
+              {message.partial === 'failed'
+                ? getPartialReplyLabel(message.errorKind)
+                : 'Stopped — this reply is incomplete.'}
+            </span>
+          </div>
+        )}
+
+        {/* Output format: what a reply is missing, or that it was rewritten to fix it */}
+        {!isUser && !message.isStreaming && message.contract && (
+          message.contract.violations.length > 0 ? (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+              <div className="flex items-center gap-2 font-semibold">
+                <TriangleAlert size={14} className="flex-shrink-0" />
+                {message.contract.repaired ? 'Still not in the usual format' : 'Not in the usual format'}
+              </div>
+              <ul className="list-disc pl-8 mt-1 space-y-0.5">
+                {message.contract.violations.map(v => <li key={v.rule}>{v.message}</li>)}
+              </ul>
+              {onRepair && !message.contract.repaired && (
+                <button
+                  onClick={onRepair}
+                  className="mt-2 inline-flex items-center gap-1.5 font-medium text-amber-800 hover:text-amber-900 bg-amber-100 hover:bg-amber-200 px-2.5 py-1 rounded-full transition-colors"
+                >
+                  <Wand2 size={14} /> Ask to fix
+                </button>
+              )}
+            </div>
+          ) : message.contract.repaired && (
+            <div className="inline-flex items-center gap-1.5 text-xs text-slate-500">
+              <Wand2 size={12} /> Rewritten to follow the usual format
+            </div>
+          )
+        )}
+
+        {/* Regenerate a finished reply, or try a failed one again */}
+        {!isUser && onRegenerate && !message.isStreaming && (
+          <div>
+            <button
+              onClick={onRegenerate}
+              className="inline-flex items-center gap-1.5 text-xs font-medium text-slate-500 hover:text-slate-800 hover:bg-slate-100 px-2.5 py-1 rounded-full transition-colors"
+            >
+              <RefreshCw size={14} /> {isError || message.partial === 'failed' ? 'Try again' : 'Regenerate'}
+            </button>
+          </div>
+        )}
+
+        {/* Route Map (plans with coordinates) or a link to the grounded place */}
+        {showRouteMap ? (
+          <div className="mt-4 pt-3 border-t border-slate-200">
+            <RouteMap
+              plan={message.tripPlan}
+              mapChunks={mapChunks}
+              userLocation={userLocation}
+            />
+          </div>
+        ) : primaryMapChunk && primaryMapChunk.maps?.uri && (
+          <div className="mt-4 pt-3 border-t border-slate-200">
+            <div className={`rounded-xl border bg-white px-3 py-2 flex justify-between items-center text-xs ${
+              hasHeavyTraffic ? 'border-red-400' : 'border-slate-200'
+            }`}>
+              <div className="flex items-center gap-2 text-slate-700 font-medium truncate max-w-[70%]">
+                <Map size={14} className={`${hasHeavyTraffic ? 'text-red-500' : 'text-indigo-600'} flex-shrink-0`} />
+                <span className="truncate">{primaryMapChunk.maps.title || "Location"}</span>
+                {hasHeavyTraffic && <span className="text-red-600 font-bold whitespace-nowrap">· {SEVERITY_LABELS[worstTraffic!.severity]}</span>}
+              </div>
+              <a 
+                href={primaryMapChunk.maps.uri} 
+                target="_blank" 
+                rel="noopener noreferrer" 
+                className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-semibold whitespace-nowrap ml-2 bg-indigo-50 px-2 py-1 rounded hover:bg-indigo-100 transition-colors"
+              >
+                Open App <ExternalLink size={10} />
+              </a>
+            </div>
           </div>
         )}
       </div>
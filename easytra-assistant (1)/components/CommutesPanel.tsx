@@ -0,0 +1,318 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Commute, CommuteBriefing, RoutePreference } from '../types';
+import { DAY_LABELS, WEEKDAYS, createCommute, describeDays, toDateKey } from '../services/commutes';
+import { formatDuration } from '../services/tripPlan';
+import { MODE_ICONS } from './TripPlanCard';
+import { Repeat, Plus, Pencil, Trash2, RefreshCw, Loader2, TriangleAlert, CircleCheck } from 'lucide-react';
+
+interface CommutesPanelProps {
+  commutes: Commute[];
+  // Every stored briefing, newest first
+  briefings: CommuteBriefing[];
+  isOpen: boolean;
+  // Commutes with a briefing being prepared right now
+  briefingIds: Set<string>;
+  briefingErrors: Record<string, string>;
+  onClose: () => void;
+  onSave: (commute: Commute) => void;
+  onDelete: (id: string) => void;
+  onBriefNow: (commute: Commute) => void;
+}
+
+const PREFERENCE_LABELS: Record<RoutePreference, string> = {
+  FASTEST: 'Fastest',
+  LEAST_CROWDED: 'Least crowded',
+  LOW_WALKING: 'Less walking',
+  FEWEST_TRANSFERS: 'Fewest transfers',
+};
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+// The last seven days, oldest first
+const lastWeek = (): Date[] => Array.from({ length: 7 }, (_, i) => {
+  const day = new Date();
+  day.setDate(day.getDate() - (6 - i));
+  return day;
+});
+
+interface CommuteFormProps {
+  initial?: Commute;
+  onSave: (commute: Commute) => void;
+  onCancel: () => void;
+}
+
+const CommuteForm: React.FC<CommuteFormProps> = ({ initial, onSave, onCancel }) => {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [origin, setOrigin] = useState(initial?.origin ?? '');
+  const [destination, setDestination] = useState(initial?.destination ?? '');
+  const [days, setDays] = useState<number[]>(initial?.days ?? WEEKDAYS);
+  const [arriveBy, setArriveBy] = useState(initial?.arriveBy ?? '09:30');
+  const [routePreference, setRoutePreference] = useState<RoutePreference>(initial?.routePreference ?? 'FASTEST');
+
+  const canSave = origin.trim() && destination.trim() && days.length > 0 && /^\d{2}:\d{2}$/.test(arriveBy);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    const fields = { name, origin, destination, days, arriveBy, routePreference };
+    // Editing keeps the id so the commute's briefing history stays attached
+    onSave(initial ? { ...createCommute(fields), id: initial.id, createdAt: initial.createdAt } : createCommute(fields));
+  };
+
+  const inputClass = 'w-full px-2 py-1 border border-slate-200 rounded focus:outline-none focus:border-indigo-300';
+
+  return (
+    <form onSubmit={submit} className="border border-indigo-200 bg-indigo-50/30 rounded-lg p-3 space-y-2 text-xs">
+      <label className="block space-y-1">
+        <span className="text-slate-500">From</span>
+        <input value={origin} onChange={e => setOrigin(e.target.value)} placeholder="Home address or stop" className={inputClass} />
+      </label>
+      <label className="block space-y-1">
+        <span className="text-slate-500">To</span>
+        <input value={destination} onChange={e => setDestination(e.target.value)} placeholder="Work, college…" className={inputClass} />
+      </label>
+      <label className="block space-y-1">
+        <span className="text-slate-500">Name (optional)</span>
+        <input value={name} onChange={e => setName(e.target.value)} placeholder={origin && destination ? `${origin} → ${destination}` : 'Morning commute'} className={inputClass} />
+      </label>
+
+      <div className="space-y-1">
+        <span className="text-slate-500">Days</span>
+        <div className="flex gap-1">
+          {DAY_LABELS.map((label, day) => {
+            const isOn = days.includes(day);
+            return (
+              <button
+                key={label}
+                type="button"
+                onClick={() => setDays(prev => (isOn ? prev.filter(d => d !== day) : [...prev, day]))}
+                className={`flex-1 py-1 rounded ${isOn ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-600'}`}
+              >
+                {label.slice(0, 2)}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className="text-slate-500">Arrive by</span>
+          <input type="time" value={arriveBy} onChange={e => setArriveBy(e.target.value)} className={inputClass} />
+        </label>
+        <label className="space-y-1">
+          <span className="text-slate-500">Optimise for</span>
+          <select
+            value={routePreference}
+            onChange={e => setRoutePreference(e.target.value as RoutePreference)}
+            className={`${inputClass} bg-white`}
+          >
+            {Object.entries(PREFERENCE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button type="button" onClick={onCancel} className="px-2.5 py-1 rounded-md text-slate-600 hover:bg-slate-100">
+          Cancel
+        </button>
+        <button type="submit" disabled={!canSave} className="px-2.5 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50">
+          Save commute
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Seven-day strip of trip durations; disrupted days are red, days without a briefing grey
+const WeekStrip: React.FC<{ commute: Commute; briefings: CommuteBriefing[] }> = ({ commute, briefings }) => {
+  const days = lastWeek().map(day => ({
+    day,
+    briefing: briefings.find(b => b.date === toDateKey(day)),
+  }));
+  const longest = Math.max(1, ...days.map(d => d.briefing?.durationMinutes ?? 0));
+
+  return (
+    <div className="flex items-end gap-1 h-16 pt-1">
+      {days.map(({ day, briefing }) => {
+        const minutes = briefing?.durationMinutes;
+        const isCommuteDay = commute.days.includes(day.getDay());
+        const title = briefing
+          ? `${day.toDateString()}: ${minutes !== undefined ? formatDuration(minutes) : 'no duration'}` +
+            (briefing.leaveAt ? `, leave ${formatClock(briefing.leaveAt)}` : '') +
+            (briefing.disruptions.length ? ` — ${briefing.disruptions.join('; ')}` : '')
+          : `${day.toDateString()}: ${isCommuteDay ? 'no briefing' : 'not a commute day'}`;
+
+        return (
+          <div key={day.toDateString()} className="flex-1 flex flex-col items-center gap-0.5" title={title}>
+            <span className="text-[10px] text-slate-500 leading-none">{minutes !== undefined ? minutes : ''}</span>
+            <div
+              className={`w-full rounded-sm ${briefing ? (briefing.disruptions.length ? 'bg-red-400' : 'bg-indigo-400') : 'bg-slate-200'}`}
+              style={{ height: minutes !== undefined ? `${Math.max(8, (minutes / longest) * 36)}px` : '4px' }}
+            />
+            <span className={`text-[10px] leading-none ${isCommuteDay ? 'text-slate-600' : 'text-slate-300'}`}>
+              {DAY_LABELS[day.getDay()].slice(0, 2)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+/**
+ * Recurring commutes: their settings, today's briefing and how the trip varied over the
+ * last week.
+ */
+const CommutesPanel: React.FC<CommutesPanelProps> = ({
+  commutes, briefings, isOpen, briefingIds, briefingErrors, onClose, onSave, onDelete, onBriefNow,
+}) => {
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+
+  if (!isOpen) return null;
+
+  const today = toDateKey(new Date());
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex justify-end" onClick={onClose}>
+      <div
+        className="w-full max-w-sm bg-white h-full shadow-2xl p-6 overflow-y-auto animate-in slide-in-from-right duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Repeat className="w-5 h-5" />
+            Commutes
+          </h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+            ✕
+          </button>
+        </div>
+
+        {editingId === 'new' ? (
+          <div className="mb-4">
+            <CommuteForm
+              onSave={commute => {
+                onSave(commute);
+                setEditingId(null);
+              }}
+              onCancel={() => setEditingId(null)}
+            />
+          </div>
+        ) : (
+          <button
+            onClick={() => setEditingId('new')}
+            className="mb-4 w-full flex items-center justify-center gap-1.5 text-sm text-indigo-700 border border-dashed border-indigo-300 rounded-lg py-2 hover:bg-indigo-50"
+          >
+            <Plus size={14} /> New commute
+          </button>
+        )}
+
+        {commutes.length === 0 && editingId !== 'new' && (
+          <p className="text-sm text-slate-500 text-center py-8">
+            Add a trip you make regularly. On its days EasyTra prepares a briefing before you leave: the best option,
+            anything disrupted and when to set off.
+          </p>
+        )}
+
+        <ul className="space-y-3">
+          {commutes.map(commute => {
+            if (editingId === commute.id) {
+              return (
+                <li key={commute.id}>
+                  <CommuteForm
+                    initial={commute}
+                    onSave={updated => {
+                      onSave(updated);
+                      setEditingId(null);
+                    }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                </li>
+              );
+            }
+
+            const history = briefings.filter(b => b.commuteId === commute.id);
+            const latest = history.find(b => b.date === today);
+            const isBriefing = briefingIds.has(commute.id);
+            const error = briefingErrors[commute.id];
+
+            return (
+              <li key={commute.id} className="border border-slate-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-slate-800 truncate">{commute.name}</div>
+                    <div className="text-xs text-slate-500">
+                      {describeDays(commute.days)} · arrive by {commute.arriveBy} · {PREFERENCE_LABELS[commute.routePreference]}
+                    </div>
+                  </div>
+                  <button onClick={() => setEditingId(commute.id)} className="p-1 text-slate-400 hover:text-indigo-600 rounded" title="Edit commute">
+                    <Pencil size={14} />
+                  </button>
+                  <button onClick={() => onDelete(commute.id)} className="p-1 text-slate-400 hover:text-red-600 rounded" title="Delete commute">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+
+                {latest ? (
+                  <div className={`rounded-md p-2 text-xs space-y-1 ${latest.disruptions.length ? 'bg-red-50 text-red-800' : 'bg-emerald-50 text-emerald-800'}`}>
+                    <div className="flex items-center gap-1.5 font-medium">
+                      {latest.mode && <span className="opacity-70">{MODE_ICONS[latest.mode]}</span>}
+                      {latest.leaveAt ? `Leave at ${formatClock(latest.leaveAt)}` : "Today's briefing"}
+                      {latest.durationMinutes !== undefined && <span className="font-normal">· {formatDuration(latest.durationMinutes)}</span>}
+                    </div>
+                    {latest.disruptions.length ? (
+                      latest.disruptions.map((disruption, i) => (
+                        <div key={i} className="flex items-start gap-1.5">
+                          <TriangleAlert size={12} className="mt-0.5 flex-shrink-0" />
+                          <span>{disruption}</span>
+                        </div>
+                      ))
+                    ) : (
+                      <div className="flex items-center gap-1.5">
+                        <CircleCheck size={12} /> Running as usual
+                      </div>
+                    )}
+                    <details className="text-slate-700">
+                      <summary className="cursor-pointer text-slate-500">Full briefing · {formatClock(latest.createdAt)}</summary>
+                      <div className="prose prose-slate prose-sm max-w-none mt-1">
+                        <ReactMarkdown>{latest.text}</ReactMarkdown>
+                      </div>
+                    </details>
+                  </div>
+                ) : (
+                  <p className="text-xs text-slate-500">
+                    {commute.days.includes(new Date().getDay())
+                      ? `No briefing yet today. It's prepared automatically in the two hours before ${commute.arriveBy}.`
+                      : 'Not a commute day.'}
+                  </p>
+                )}
+
+                {error && <p className="text-xs text-red-600">{error}</p>}
+
+                <WeekStrip commute={commute} briefings={history} />
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => onBriefNow(commute)}
+                    disabled={isBriefing}
+                    className="flex items-center gap-1 text-xs font-medium text-indigo-700 hover:bg-indigo-50 px-2 py-1 rounded-md disabled:opacity-50"
+                  >
+                    {isBriefing ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+                    {isBriefing ? 'Checking…' : latest ? 'Brief me again' : 'Brief me now'}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommutesPanel;
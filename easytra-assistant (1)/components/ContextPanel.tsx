@@ -0,0 +1,138 @@
+import React from 'react';
+import { ChatMessage } from '../types';
+import { Gauge } from 'lucide-react';
+import { CONTEXT_BUDGET_OPTIONS, SentContext, formatTokens } from '../services/contextBudget';
+
+interface ContextPanelProps {
+  isOpen: boolean;
+  messages: ChatMessage[];
+  budget: number;
+  onBudgetChange: (tokens: number) => void;
+  // The latest request sent in this session, if any
+  lastContext: SentContext | null;
+  onClose: () => void;
+}
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <details className="border border-slate-200 rounded-lg">
+    <summary className="px-3 py-2 text-xs font-medium text-slate-700 cursor-pointer">{title}</summary>
+    <div className="px-3 pb-3 text-xs text-slate-600">{children}</div>
+  </details>
+);
+
+/**
+ * Debug view of what the assistant is sent: the context budget, how each question in this
+ * conversation was fitted into it, and the latest request in full.
+ */
+const ContextPanel: React.FC<ContextPanelProps> = ({ isOpen, messages, budget, onBudgetChange, lastContext, onClose }) => {
+  if (!isOpen) return null;
+
+  // Each question with the reply that followed it, which carries the model's token count
+  const requests = messages
+    .map((message, index) => ({ message, reply: messages[index + 1]?.role === 'model' ? messages[index + 1] : undefined }))
+    .filter(({ message }) => message.role === 'user' && message.context)
+    .reverse();
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex justify-end" onClick={onClose}>
+      <div
+        className="w-full max-w-sm bg-white h-full shadow-2xl p-6 overflow-y-auto animate-in slide-in-from-right duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Gauge className="w-5 h-5" />
+            Context Sent
+          </h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+            ✕
+          </button>
+        </div>
+
+        <label className="block text-sm font-medium text-slate-700 mt-4">
+          Context budget
+          <select
+            value={budget}
+            onChange={e => onBudgetChange(Number(e.target.value))}
+            className="mt-1 w-full border border-slate-300 rounded-lg px-3 py-2 text-sm bg-white"
+          >
+            {CONTEXT_BUDGET_OPTIONS.map(tokens => (
+              <option key={tokens} value={tokens}>{formatTokens(tokens)} tokens</option>
+            ))}
+          </select>
+        </label>
+        <p className="text-xs text-slate-500 mt-1 mb-6">
+          The latest exchanges are sent in full. Older ones are sent as a short summary of trips, trains and
+          conditions. The welcome message is never sent.
+        </p>
+
+        {lastContext && (
+          <div className="mb-6">
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Latest Request</h3>
+            <div className="space-y-2">
+              {lastContext.summary && (
+                <Section title="Summary of earlier messages">
+                  <pre className="whitespace-pre-wrap font-sans">{lastContext.summary}</pre>
+                </Section>
+              )}
+              <Section title={`Messages sent in full (${lastContext.history.length})`}>
+                {lastContext.history.length === 0 ? 'None.' : (
+                  <ol className="space-y-2">
+                    {lastContext.history.map((m, i) => (
+                      <li key={i}>
+                        <span className="font-semibold">{m.role === 'user' ? 'You' : 'EasyTra'}:</span>{' '}
+                        <span className="whitespace-pre-wrap">{m.text}</span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </Section>
+              <Section title="Question">
+                <p className="whitespace-pre-wrap">{lastContext.message}</p>
+              </Section>
+              {lastContext.localContext && (
+                <Section title="Local timetable data">
+                  <pre className="whitespace-pre-wrap font-mono text-[11px]">{lastContext.localContext}</pre>
+                </Section>
+              )}
+            </div>
+          </div>
+        )}
+
+        <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Requests in This Conversation</h3>
+        {requests.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-8">Nothing has been sent in this conversation yet.</p>
+        ) : (
+          <ul className="space-y-3">
+            {requests.map(({ message, reply }) => {
+              const context = message.context!;
+              return (
+                <li key={message.id} className="border border-slate-200 rounded-lg p-3 space-y-1 text-xs">
+                  <div className="flex items-baseline gap-2">
+                    <span className="text-slate-400 whitespace-nowrap">
+                      {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                    <span className="text-slate-700 truncate">"{message.text}"</span>
+                  </div>
+                  <div className={context.estimatedTokens > context.budgetTokens ? 'text-amber-700' : 'text-slate-600'}>
+                    About {formatTokens(context.estimatedTokens)} of {formatTokens(context.budgetTokens)} tokens ·{' '}
+                    {context.sentMessages} earlier message{context.sentMessages === 1 ? '' : 's'} in full
+                    {context.summarizedMessages > 0 && `, ${context.summarizedMessages} summarised`}
+                  </div>
+                  {reply?.usage && (
+                    <div className="text-slate-500">
+                      Model counted {formatTokens(reply.usage.promptTokens)} in, {formatTokens(reply.usage.replyTokens)} out
+                      (including instructions and search results)
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ContextPanel;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Conversation } from '../types';
+import { conversationMatches, getConversationTitle } from '../services/conversationStore';
+import { MessageSquare, Plus, Search, Pencil, Trash2, Check, X } from 'lucide-react';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeConversationId: string;
+  isOpen: boolean;
+  // Switching is blocked while a reply is streaming into the active conversation
+  isBusy: boolean;
+  onClose: () => void;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations, activeConversationId, isOpen, isBusy, onClose, onSelect, onCreate, onRename, onDelete
+}) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  if (!isOpen) return null;
+
+  const visible = conversations.filter(c => conversationMatches(c, query));
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(getConversationTitle(conversation));
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`Delete "${getConversationTitle(conversation)}"? This can't be undone.`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex justify-start" onClick={onClose}>
+      <div
+        className="w-full max-w-xs bg-white h-full shadow-2xl flex flex-col animate-in slide-in-from-left duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-slate-100 space-y-3">
+          <div className="flex justify-between items-center">
+            <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <MessageSquare className="w-5 h-5" />
+              Conversations
+            </h2>
+            <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+              ✕
+            </button>
+          </div>
+
+          <button
+            onClick={onCreate}
+            disabled={isBusy}
+            className="w-full flex items-center justify-center gap-2 bg-indigo-600 text-white py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors disabled:bg-slate-300 disabled:cursor-not-allowed"
+          >
+            <Plus size={16} />
+            New trip
+          </button>
+
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search conversations"
+              className="w-full pl-8 pr-3 py-2 text-sm bg-slate-100 rounded-lg border border-transparent focus:border-indigo-300 focus:outline-none"
+            />
+          </div>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+          {visible.length === 0 && (
+            <li className="text-sm text-slate-400 text-center py-8">
+              {query ? 'No matching conversations' : 'No saved conversations yet'}
+            </li>
+          )}
+          {visible.map(conversation => {
+            const isActive = conversation.id === activeConversationId;
+            const isEditing = conversation.id === editingId;
+
+            return (
+              <li
+                key={conversation.id}
+                className={`group rounded-lg border transition-colors ${
+                  isActive ? 'border-indigo-200 bg-indigo-50' : 'border-transparent hover:bg-slate-50'
+                }`}
+              >
+                {isEditing ? (
+                  <div className="flex items-center gap-1 p-2">
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={e => setDraftTitle(e.target.value)}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 text-sm px-2 py-1 border border-indigo-300 rounded focus:outline-none"
+                    />
+                    <button onClick={commitRename} className="p-1 text-emerald-600 hover:bg-emerald-50 rounded" title="Save name">
+                      <Check size={14} />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="p-1 text-slate-500 hover:bg-slate-100 rounded" title="Cancel">
+                      <X size={14} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => onSelect(conversation.id)}
+                      disabled={isBusy && !isActive}
+                      className="flex-1 min-w-0 text-left px-3 py-2 disabled:cursor-not-allowed"
+                    >
+                      <div className={`text-sm truncate ${isActive ? 'font-semibold text-indigo-900' : 'text-slate-800'}`}>
+                        {getConversationTitle(conversation)}
+                      </div>
+                      <div className="text-[11px] text-slate-400">
+                        {conversation.updatedAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                      </div>
+                    </button>
+                    <div className="flex items-center pr-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                      <button onClick={() => startRename(conversation)} className="p-1.5 text-slate-500 hover:text-indigo-600 rounded" title="Rename">
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(conversation)}
+                        disabled={isBusy && isActive}
+                        className="p-1.5 text-slate-500 hover:text-red-600 rounded disabled:opacity-40"
+                        title="Delete"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { DelayCurvePoint } from '../services/traffic';
+import { formatDuration } from '../services/tripPlan';
+
+interface DelayCurveProps {
+  points: DelayCurvePoint[];
+}
+
+const WIDTH = 300;
+const HEIGHT = 90;
+const PADDING = { top: 8, right: 8, bottom: 18, left: 38 };
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+/**
+ * Arrival time against departure time: the line climbs slower than the clock when waiting
+ * lets traffic clear, and flattens where leaving later costs nothing.
+ */
+const DelayCurve: React.FC<DelayCurveProps> = ({ points }) => {
+  if (points.length < 2) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const arrivals = points.map(p => p.arriveAt.getTime());
+  const minArrival = Math.min(...arrivals);
+  const maxArrival = Math.max(...arrivals);
+  const x = (p: DelayCurvePoint) =>
+    PADDING.left + ((p.leaveAt.getTime() - first.leaveAt.getTime()) / (last.leaveAt.getTime() - first.leaveAt.getTime() || 1)) *
+      (WIDTH - PADDING.left - PADDING.right);
+  const y = (p: DelayCurvePoint) =>
+    HEIGHT - PADDING.bottom - ((p.arriveAt.getTime() - minArrival) / (maxArrival - minArrival || 1)) *
+      (HEIGHT - PADDING.top - PADDING.bottom);
+
+  const shortest = points.reduce((best, p) => (p.durationMinutes < best.durationMinutes ? p : best));
+  const latestArrival = points.find(p => p.arriveAt.getTime() === maxArrival)!;
+  const earliestArrival = points.find(p => p.arriveAt.getTime() === minArrival)!;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Arrival time by departure time">
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={HEIGHT - PADDING.bottom} y2={HEIGHT - PADDING.bottom} stroke="#e2e8f0" />
+        <text x={PADDING.left - 4} y={y(latestArrival) + 3} textAnchor="end" fontSize="9" fill="#64748b">{formatClock(latestArrival.arriveAt)}</text>
+        <text x={PADDING.left - 4} y={y(earliestArrival) + 3} textAnchor="end" fontSize="9" fill="#64748b">{formatClock(earliestArrival.arriveAt)}</text>
+        <polyline
+          points={points.map(p => `${x(p)},${y(p)}`).join(' ')}
+          fill="none"
+          stroke="#4f46e5"
+          strokeWidth="2"
+          strokeLinejoin="round"
+        />
+        {points.map(p => (
+          <circle key={p.leaveAt.getTime()} cx={x(p)} cy={y(p)} r={p === shortest ? 4 : 2.5} fill={p === shortest ? '#16a34a' : '#4f46e5'}>
+            <title>Leave {formatClock(p.leaveAt)} → arrive {formatClock(p.arriveAt)} ({formatDuration(p.durationMinutes)})</title>
+          </circle>
+        ))}
+        <text x={x(first)} y={HEIGHT - 4} fontSize="9" fill="#64748b">{formatClock(first.leaveAt)}</text>
+        <text x={x(last)} y={HEIGHT - 4} textAnchor="end" fontSize="9" fill="#64748b">{formatClock(last.leaveAt)}</text>
+      </svg>
+      <p className="mt-1 text-slate-600">
+        Leave {formatClock(first.leaveAt)}: arrive {formatClock(first.arriveAt)} ({formatDuration(first.durationMinutes)}).
+        {shortest !== first && (
+          <> Leave {formatClock(shortest.leaveAt)}: arrive {formatClock(shortest.arriveAt)}, {formatDuration(first.durationMinutes - shortest.durationMinutes)} less on the road.</>
+        )}
+      </p>
+    </div>
+  );
+};
+
+export default DelayCurve;
@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ContractRule, UserPreferences } from '../types';
+import { CheckCircle2, ListChecks, Loader2, TriangleAlert, XCircle } from 'lucide-react';
+import { listAssistantProviders } from '../services/assistantProvider';
+import { CONTRACT_TEST_PROMPTS, ContractTestResult, runContractBatch, summarizeBatch } from '../services/contractBatch';
+import { CONTRACT_RULE_LABELS } from '../services/replyContract';
+
+interface FormatCheckPanelProps {
+  isOpen: boolean;
+  // Each test question is asked with these, plus its own overrides
+  preferences: UserPreferences;
+  // Selected to start with: the provider answering in the chat
+  currentProviderId: string;
+  onClose: () => void;
+}
+
+const percent = (count: number, total: number) => (total ? Math.round((count / total) * 100) : 0);
+
+/**
+ * Asks a provider a fixed set of questions and reports how many replies follow the output
+ * format, which rules they break most, and whether one repair request fixes them.
+ */
+const FormatCheckPanel: React.FC<FormatCheckPanelProps> = ({ isOpen, preferences, currentProviderId, onClose }) => {
+  const providers = listAssistantProviders();
+  const [providerId, setProviderId] = useState(currentProviderId);
+  const [withRepair, setWithRepair] = useState(true);
+  const [results, setResults] = useState<ContractTestResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Closing the panel cancels a run in progress
+  useEffect(() => {
+    if (!isOpen) controllerRef.current?.abort();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const handleRun = async () => {
+    const provider = providers.find(p => p.id === providerId);
+    if (!provider) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setResults([]);
+    setIsRunning(true);
+    try {
+      await runContractBatch(provider, CONTRACT_TEST_PROMPTS, preferences, {
+        repair: withRepair,
+        signal: controller.signal,
+        onResult: result => setResults(prev => [...prev, result]),
+      });
+    } finally {
+      controllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const summary = summarizeBatch(results);
+  const ruleCounts = Object.entries(summary.byRule) as [ContractRule, number][];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex justify-end" onClick={onClose}>
+      <div
+        className="w-full max-w-sm bg-white h-full shadow-2xl p-6 overflow-y-auto animate-in slide-in-from-right duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <ListChecks className="w-5 h-5" />
+            Format Check
+          </h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+            ✕
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mb-6">
+          Asks {CONTRACT_TEST_PROMPTS.length} test questions with your preferences, without your location or this
+          conversation, and checks each reply for the trip stats header, separate fares, walking directions,
+          accessibility and a closing question.
+        </p>
+
+        <label className="block text-sm font-medium text-slate-700">
+          Assistant
+          <select
+            value={providerId}
+            onChange={e => setProviderId(e.target.value)}
+            disabled={isRunning}
+            className="mt-1 w-full border border-slate-300 rounded-lg px-3 py-2 text-sm bg-white"
+          >
+            {providers.map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 mt-3 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={withRepair}
+            onChange={() => setWithRepair(!withRepair)}
+            disabled={isRunning}
+            className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+          />
+          Ask once to fix replies that fail
+        </label>
+        <button
+          onClick={isRunning ? () => controllerRef.current?.abort() : handleRun}
+          className={`mt-4 w-full py-2.5 rounded-lg text-sm font-medium transition-colors ${
+            isRunning ? 'bg-slate-100 text-slate-700 hover:bg-slate-200' : 'bg-indigo-600 text-white hover:bg-indigo-700'
+          }`}
+        >
+          {isRunning ? `Stop (${results.length} of ${CONTRACT_TEST_PROMPTS.length} done)` : 'Run check'}
+        </button>
+
+        {results.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Results</h3>
+            <div className="p-3 border rounded-lg text-sm text-slate-700 space-y-1 mb-3">
+              <div>
+                <span className="font-semibold">{percent(summary.compliant, summary.total)}%</span> compliant
+                ({summary.compliant} of {summary.total})
+                {withRepair && summary.compliantAfterRepair > summary.compliant && (
+                  <>, {percent(summary.compliantAfterRepair, summary.total)}% after one fix</>
+                )}
+              </div>
+              {summary.failed > 0 && <div className="text-xs text-red-600">{summary.failed} got no reply</div>}
+              {ruleCounts.length > 0 && (
+                <ul className="text-xs text-slate-500">
+                  {ruleCounts.map(([rule, count]) => (
+                    <li key={rule}>{CONTRACT_RULE_LABELS[rule]}: failed {count}×</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <ul className="space-y-2">
+              {results.map((result, i) => {
+                const remaining = result.repairedViolations ?? result.violations;
+                return (
+                  <li key={i} className="border border-slate-200 rounded-lg p-3 text-xs space-y-1">
+                    <div className="flex items-start gap-2">
+                      {result.error ? (
+                        <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+                      ) : result.violations.length === 0 ? (
+                        <CheckCircle2 className="w-4 h-4 text-emerald-600 flex-shrink-0" />
+                      ) : (
+                        <TriangleAlert className="w-4 h-4 text-amber-500 flex-shrink-0" />
+                      )}
+                      <span className="text-slate-700 flex-1">"{result.prompt}"</span>
+                      <span className="text-slate-400 whitespace-nowrap">{(result.durationMs / 1000).toFixed(1)} s</span>
+                    </div>
+                    {result.error && <div className="text-red-600">{result.error}</div>}
+                    {!result.error && !result.hadTripPlan && <div className="text-slate-400">No route in the reply</div>}
+                    {result.violations.length > 0 && (
+                      <ul className="list-disc pl-5 text-amber-700">
+                        {result.violations.map(v => <li key={v.rule}>{v.message}</li>)}
+                      </ul>
+                    )}
+                    {result.repairedViolations && (
+                      <div className={remaining.length ? 'text-amber-700' : 'text-emerald-700'}>
+                        {remaining.length
+                          ? `After one fix: ${remaining.map(v => CONTRACT_RULE_LABELS[v.rule]).join(', ')} still missing`
+                          : 'Fixed after one repair request'}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+        {isRunning && (
+          <p className="flex items-center gap-2 text-xs text-slate-500 mt-3">
+            <Loader2 className="w-4 h-4 animate-spin" /> Asking "{CONTRACT_TEST_PROMPTS[results.length]?.prompt}"…
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FormatCheckPanel;
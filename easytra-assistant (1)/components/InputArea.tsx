@@ -1,12 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Loader2 } from 'lucide-react';
+import { Send, Square } from 'lucide-react';
 
 interface InputAreaProps {
   onSend: (text: string) => void;
+  onStop: () => void;
   isLoading: boolean;
+  // Replaces the input text whenever it changes, without sending it
+  prefill?: string;
 }
 
-const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading }) => {
+const InputArea: React.FC<InputAreaProps> = ({ onSend, onStop, isLoading, prefill }) => {
   const [input, setInput] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -27,6 +30,12 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading }) => {
     }
   };
 
+  useEffect(() => {
+    if (!prefill) return;
+    setInput(prefill);
+    textareaRef.current?.focus();
+  }, [prefill]);
+
   // Auto-resize textarea
   useEffect(() => {
     if (textareaRef.current) {
@@ -49,17 +58,28 @@ const InputArea: React.FC<InputAreaProps> = ({ onSend, isLoading }) => {
             rows={1}
             disabled={isLoading}
           />
-          <button
-            type="submit"
-            disabled={!input.trim() || isLoading}
-            className={`p-3 rounded-xl flex-shrink-0 transition-all ${
-              !input.trim() || isLoading
-                ? 'bg-slate-200 text-slate-400 cursor-not-allowed'
-                : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-md hover:shadow-lg transform hover:-translate-y-0.5'
-            }`}
-          >
-            {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Send className="w-5 h-5" />}
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={onStop}
+              title="Stop generating"
+              className="p-3 rounded-xl flex-shrink-0 transition-all bg-slate-700 text-white hover:bg-slate-800 shadow-md"
+            >
+              <Square className="w-5 h-5 fill-current" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className={`p-3 rounded-xl flex-shrink-0 transition-all ${
+                !input.trim()
+                  ? 'bg-slate-200 text-slate-400 cursor-not-allowed'
+                  : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-md hover:shadow-lg transform hover:-translate-y-0.5'
+              }`}
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          )}
         </form>
         <div className="text-center mt-2">
           <p className="text-[10px] text-slate-400">
@@ -0,0 +1,370 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { MultiStopTrip, TripStop } from '../types';
+import {
+  createStop,
+  createTrip,
+  formatDay,
+  getConnectionWarning,
+  getStage,
+  getStageId,
+  getTripName,
+  getTripTotals,
+  isStageOutdated,
+  moveStop,
+  parseStopList,
+  withStops,
+} from '../services/multiStopTrips';
+import { formatDuration, formatFareRange } from '../services/tripPlan';
+import TripPlanCard, { MODE_ICONS } from './TripPlanCard';
+import { Route, Plus, Trash2, ChevronUp, ChevronDown, Loader2, RefreshCw, TriangleAlert, CalendarDays, ArrowDown } from 'lucide-react';
+
+interface ItinerariesPanelProps {
+  trips: MultiStopTrip[];
+  isOpen: boolean;
+  // Stages being planned right now
+  planningStageIds: Set<string>;
+  stageErrors: Record<string, string>;
+  onClose: () => void;
+  onSave: (trip: MultiStopTrip) => void;
+  onDelete: (id: string) => void;
+  // Plans the stages leaving the given stops, in order
+  onPlan: (trip: MultiStopTrip, indices: number[]) => void;
+}
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+const formatWhen = (date: Date) => `${formatDay(date)} ${formatClock(date)}`;
+
+const inputClass = 'px-2 py-1 border border-slate-200 rounded focus:outline-none focus:border-indigo-300 bg-white';
+
+interface StopRowProps {
+  stop: TripStop;
+  index: number;
+  count: number;
+  isLocked: boolean;
+  onChange: (stop: TripStop) => void;
+  onMove: (offset: number) => void;
+  onRemove: () => void;
+}
+
+const StopRow: React.FC<StopRowProps> = ({ stop, index, count, isLocked, onChange, onMove, onRemove }) => {
+  const isLast = index === count - 1;
+  return (
+    <div className="border border-slate-200 rounded-lg p-2 space-y-1.5 text-xs">
+      <div className="flex items-center gap-1">
+        <span className="w-5 h-5 rounded-full bg-indigo-100 text-indigo-700 flex items-center justify-center font-semibold flex-shrink-0">
+          {index + 1}
+        </span>
+        <input
+          // Committed on blur so a half-typed name doesn't outdate the plans around it
+          key={stop.place}
+          defaultValue={stop.place}
+          disabled={isLocked}
+          onBlur={e => e.target.value.trim() && e.target.value.trim() !== stop.place && onChange({ ...stop, place: e.target.value.trim() })}
+          onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+          className={`flex-1 min-w-0 text-sm font-medium text-slate-800 ${inputClass}`}
+        />
+        <button onClick={() => onMove(-1)} disabled={isLocked || index === 0} className="p-1 text-slate-400 hover:text-indigo-600 rounded disabled:opacity-30" title="Move up">
+          <ChevronUp size={14} />
+        </button>
+        <button onClick={() => onMove(1)} disabled={isLocked || isLast} className="p-1 text-slate-400 hover:text-indigo-600 rounded disabled:opacity-30" title="Move down">
+          <ChevronDown size={14} />
+        </button>
+        <button onClick={onRemove} disabled={isLocked || count <= 2} className="p-1 text-slate-400 hover:text-red-600 rounded disabled:opacity-30" title="Remove stop">
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      {!isLast && (
+        <div className="flex flex-wrap items-center gap-1.5 pl-6 text-slate-500">
+          <CalendarDays size={12} />
+          <span>Leave</span>
+          <input
+            type="date"
+            value={stop.leaveOn ?? ''}
+            disabled={isLocked}
+            onChange={e => onChange({ ...stop, leaveOn: e.target.value || undefined })}
+            className={inputClass}
+          />
+          <input
+            type="time"
+            value={stop.leaveAt ?? ''}
+            disabled={isLocked}
+            onChange={e => onChange({ ...stop, leaveAt: e.target.value || undefined })}
+            className={inputClass}
+          />
+          {index > 0 && !stop.leaveOn && (
+            <span className="flex items-center gap-1">
+              or after
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={stop.stayMinutes ? stop.stayMinutes / 60 : ''}
+                placeholder="0"
+                disabled={isLocked}
+                onChange={e => {
+                  const hours = Number(e.target.value);
+                  onChange({ ...stop, stayMinutes: hours > 0 ? Math.round(hours * 60) : undefined });
+                }}
+                className={`w-14 ${inputClass}`}
+              />
+              h here
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface StageRowProps {
+  trip: MultiStopTrip;
+  index: number;
+  isPlanning: boolean;
+  isLocked: boolean;
+  error?: string;
+  onPlan: () => void;
+}
+
+// The way from one stop to the next: the recommended option, its options in full, and
+// anything wrong with the connection into it
+const StageRow: React.FC<StageRowProps> = ({ trip, index, isPlanning, isLocked, error, onPlan }) => {
+  const stage = getStage(trip, index);
+  const warning = getConnectionWarning(trip, index);
+  const isOutdated = isStageOutdated(trip, index);
+  const plan = stage?.plan;
+  const modes = plan ? [...new Set(plan.legs.map(leg => leg.mode).filter(mode => mode !== 'WALK'))] : [];
+
+  return (
+    <div className="ml-2.5 pl-4 border-l-2 border-dashed border-indigo-200 py-1.5 space-y-1 text-xs">
+      {warning && (
+        <div className="flex items-start gap-1.5 text-red-700">
+          <TriangleAlert size={12} className="mt-0.5 flex-shrink-0" />
+          <span>{warning}</span>
+        </div>
+      )}
+
+      {isPlanning ? (
+        <div className="flex items-center gap-1.5 text-slate-500"><Loader2 size={12} className="animate-spin" /> Planning…</div>
+      ) : stage ? (
+        <div className={`rounded-md p-2 space-y-1 ${isOutdated ? 'bg-amber-50 text-amber-900' : 'bg-slate-50 text-slate-700'}`}>
+          <div className="flex items-center gap-1.5 font-medium">
+            {modes.map(mode => <span key={mode} className="opacity-70">{MODE_ICONS[mode]}</span>)}
+            {stage.departure ? formatWhen(stage.departure) : 'Time not given'}
+            {stage.arrival && <> → {stage.departure && stage.arrival.toDateString() === stage.departure.toDateString() ? formatClock(stage.arrival) : formatWhen(stage.arrival)}</>}
+          </div>
+          <div className="text-slate-500">
+            {[
+              plan?.totalDurationMinutes !== undefined ? formatDuration(plan.totalDurationMinutes) : undefined,
+              plan?.totalFare ? formatFareRange(plan.totalFare) : 'Fare not given',
+              plan?.trains?.length ? `${plan.trains.length} train option${plan.trains.length === 1 ? '' : 's'}` : undefined,
+            ].filter(Boolean).join(' · ')}
+          </div>
+          {isOutdated && <div>Changed since it was planned. Re-plan to update it.</div>}
+          <details>
+            <summary className="cursor-pointer text-slate-500">Options and full plan</summary>
+            <div className="mt-1 space-y-2">
+              {plan && <TripPlanCard plan={plan} />}
+              <div className="prose prose-slate prose-sm max-w-none">
+                <ReactMarkdown>{stage.text}</ReactMarkdown>
+              </div>
+            </div>
+          </details>
+        </div>
+      ) : (
+        <div className="flex items-center gap-1.5 text-slate-400"><ArrowDown size={12} /> Not planned yet</div>
+      )}
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      {!isPlanning && (
+        <button
+          onClick={onPlan}
+          disabled={isLocked}
+          className="flex items-center gap-1 font-medium text-indigo-700 hover:bg-indigo-50 px-1.5 py-0.5 rounded-md disabled:opacity-50"
+        >
+          <RefreshCw size={12} /> {stage ? 'Re-plan this leg' : 'Plan this leg'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Trips through several places, possibly over several days. Each leg is planned by the
+ * assistant in turn, starting when the previous one arrives (plus any stay) or on the
+ * date set for it, and the whole trip's cost and time are added up.
+ */
+const ItinerariesPanel: React.FC<ItinerariesPanelProps> = ({
+  trips, isOpen, planningStageIds, stageErrors, onClose, onSave, onDelete, onPlan,
+}) => {
+  const [draft, setDraft] = useState('');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [newStop, setNewStop] = useState('');
+
+  if (!isOpen) return null;
+
+  const draftPlaces = parseStopList(draft);
+  const openTrip = trips.find(t => t.id === openId) ?? trips[0];
+
+  const create = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draftPlaces.length < 2) return;
+    const trip = createTrip(draftPlaces);
+    onSave(trip);
+    setOpenId(trip.id);
+    setDraft('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex justify-end" onClick={onClose}>
+      <div
+        className="w-full max-w-sm bg-white h-full shadow-2xl p-6 overflow-y-auto animate-in slide-in-from-right duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Route className="w-5 h-5" />
+            Itineraries
+          </h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+            ✕
+          </button>
+        </div>
+
+        <form onSubmit={create} className="mb-4 flex gap-1.5">
+          <input
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            placeholder="Pune → Mumbai → Goa"
+            className="flex-1 min-w-0 text-sm px-2.5 py-2 border border-slate-200 rounded-lg focus:outline-none focus:border-indigo-300"
+          />
+          <button
+            type="submit"
+            disabled={draftPlaces.length < 2}
+            className="flex items-center gap-1 px-3 text-sm font-medium bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-slate-300"
+          >
+            <Plus size={14} /> New
+          </button>
+        </form>
+
+        {trips.length === 0 && (
+          <p className="text-sm text-slate-500 text-center py-8">
+            List the places you're going, in order. Then set when to leave each one, by date or by how long you're
+            staying, and EasyTra plans every leg with its options, fares and connections.
+          </p>
+        )}
+
+        <ul className="space-y-3">
+          {trips.map(trip => {
+            const isOpenTrip = trip.id === openTrip?.id;
+            const totals = getTripTotals(trip);
+            const stageIds = trip.stops.slice(1).map((_, i) => getStageId(trip, i));
+            const isLocked = stageIds.some(id => planningStageIds.has(id));
+            const summary = [
+              totals.fare ? `${formatFareRange(totals.fare)}${totals.unpricedStages ? '+' : ''}` : undefined,
+              totals.travelMinutes ? `${formatDuration(totals.travelMinutes)} travelling` : undefined,
+              `${totals.plannedStages} of ${totals.stageCount} legs planned`,
+            ].filter(Boolean).join(' · ');
+
+            const updateStops = (stops: TripStop[]) => onSave(withStops(trip, stops));
+
+            return (
+              <li key={trip.id} className={`border rounded-lg ${isOpenTrip ? 'border-indigo-300' : 'border-slate-200'}`}>
+                <button onClick={() => setOpenId(trip.id)} className="w-full text-left p-3">
+                  <div className="font-medium text-slate-800 truncate">{getTripName(trip)}</div>
+                  <div className="text-xs text-slate-500">{summary}</div>
+                </button>
+
+                {isOpenTrip && (
+                  <div className="px-3 pb-3 space-y-2">
+                    {(totals.startsAt || totals.endsAt) && (
+                      <div className="rounded-md bg-indigo-50 text-indigo-900 p-2 text-xs space-y-0.5">
+                        {totals.startsAt && totals.endsAt && (
+                          <div className="font-medium">{formatWhen(totals.startsAt)} → {formatWhen(totals.endsAt)}</div>
+                        )}
+                        {totals.fare && (
+                          <div>
+                            Total fare {formatFareRange(totals.fare)}
+                            {totals.unpricedStages > 0 && ` (${totals.unpricedStages} leg${totals.unpricedStages === 1 ? '' : 's'} without a fare not included)`}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {trip.stops.map((stop, index) => (
+                      <React.Fragment key={stop.id}>
+                        <StopRow
+                          stop={stop}
+                          index={index}
+                          count={trip.stops.length}
+                          isLocked={isLocked}
+                          onChange={updated => updateStops(trip.stops.map(s => (s.id === updated.id ? updated : s)))}
+                          onMove={offset => onSave(moveStop(trip, index, offset))}
+                          onRemove={() => updateStops(trip.stops.filter(s => s.id !== stop.id))}
+                        />
+                        {index < trip.stops.length - 1 && (
+                          <StageRow
+                            trip={trip}
+                            index={index}
+                            isPlanning={planningStageIds.has(stageIds[index])}
+                            isLocked={isLocked}
+                            error={stageErrors[stageIds[index]]}
+                            onPlan={() => onPlan(trip, [index])}
+                          />
+                        )}
+                      </React.Fragment>
+                    ))}
+
+                    <form
+                      onSubmit={e => {
+                        e.preventDefault();
+                        if (!newStop.trim()) return;
+                        updateStops([...trip.stops, createStop(newStop)]);
+                        setNewStop('');
+                      }}
+                      className="flex gap-1 text-xs"
+                    >
+                      <input
+                        value={newStop}
+                        onChange={e => setNewStop(e.target.value)}
+                        placeholder="Add a stop"
+                        disabled={isLocked}
+                        className={`flex-1 min-w-0 ${inputClass}`}
+                      />
+                      <button type="submit" disabled={isLocked || !newStop.trim()} className="px-2 rounded-md text-indigo-700 hover:bg-indigo-50 disabled:opacity-50">
+                        <Plus size={14} />
+                      </button>
+                    </form>
+
+                    <div className="flex justify-between pt-1">
+                      <button
+                        onClick={() => onDelete(trip.id)}
+                        className="flex items-center gap-1 text-xs text-slate-500 hover:text-red-600 px-2 py-1 rounded-md"
+                      >
+                        <Trash2 size={12} /> Delete
+                      </button>
+                      <button
+                        onClick={() => onPlan(trip, trip.stops.slice(1).map((_, i) => i))}
+                        disabled={isLocked}
+                        className="flex items-center gap-1 text-xs font-medium bg-indigo-600 text-white px-2.5 py-1 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+                      >
+                        {isLocked ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />}
+                        {isLocked ? 'Planning…' : totals.plannedStages ? 'Re-plan all legs' : 'Plan all legs'}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ItinerariesPanel;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { BackgroundDisclosure, ChatMessage, LocationDisclosure, LocationSharing } from '../types';
+import { ShieldCheck } from 'lucide-react';
+
+interface LocationLogPanelProps {
+  isOpen: boolean;
+  messages: ChatMessage[];
+  backgroundDisclosures: BackgroundDisclosure[];
+  sharing: LocationSharing;
+  onClose: () => void;
+}
+
+const SHARING_LABELS: Record<LocationSharing, string> = {
+  PRECISE: 'Precise coordinates',
+  APPROXIMATE: 'Approximate (about 1 km)',
+  NEVER: 'Never',
+};
+
+const formatSentAt = (date: Date) => date.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+const DisclosureList: React.FC<{ disclosures: LocationDisclosure[] }> = ({ disclosures }) => (
+  <>
+    {disclosures.map((disclosure, index) => (
+      <div key={index} className="text-xs">
+        <div className="font-medium text-slate-700">{disclosure.label}</div>
+        <div className="font-mono text-slate-600 break-words">{disclosure.value}</div>
+      </div>
+    ))}
+  </>
+);
+
+/**
+ * Every piece of location data sent to the assistant in this conversation, message by
+ * message, exactly as it was sent, followed by what briefings, reminder rechecks and
+ * itinerary stages sent since the app was opened.
+ */
+const LocationLogPanel: React.FC<LocationLogPanelProps> = ({ isOpen, messages, backgroundDisclosures, sharing, onClose }) => {
+  if (!isOpen) return null;
+
+  const userMessages = messages.filter(m => m.role === 'user');
+  const shared = userMessages.filter(m => m.locationShared?.length);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex justify-end" onClick={onClose}>
+      <div
+        className="w-full max-w-sm bg-white h-full shadow-2xl p-6 overflow-y-auto animate-in slide-in-from-right duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Location Sent
+          </h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+            ✕
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mb-4">
+          Location sharing for this conversation: <strong>{SHARING_LABELS[sharing]}</strong>. Change it under Preferences.
+        </p>
+
+        {shared.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-8">
+            No location data has left this device in this conversation.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {shared.map(message => (
+              <li key={message.id} className="border border-slate-200 rounded-lg p-3 space-y-1.5">
+                <div className="flex items-baseline gap-2 text-xs">
+                  <span className="text-slate-400 whitespace-nowrap">{formatSentAt(message.timestamp)}</span>
+                  <span className="text-slate-600 truncate">"{message.text}"</span>
+                </div>
+                <DisclosureList disclosures={message.locationShared!} />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {shared.length > 0 && shared.length < userMessages.length && (
+          <p className="text-xs text-slate-400 mt-4">
+            {userMessages.length - shared.length} other message{userMessages.length - shared.length === 1 ? '' : 's'} went out without any location.
+          </p>
+        )}
+
+        {backgroundDisclosures.length > 0 && (
+          <>
+            <h3 className="text-sm font-semibold text-slate-700 mt-6 mb-2">Outside the chat</h3>
+            <ul className="space-y-3">
+              {backgroundDisclosures.map(entry => (
+                <li key={entry.id} className="border border-slate-200 rounded-lg p-3 space-y-1.5">
+                  <div className="flex items-baseline gap-2 text-xs">
+                    <span className="text-slate-400 whitespace-nowrap">{formatSentAt(entry.sentAt)}</span>
+                    <span className="text-slate-600 truncate">{entry.request}</span>
+                  </div>
+                  <DisclosureList disclosures={entry.locationShared} />
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LocationLogPanel;
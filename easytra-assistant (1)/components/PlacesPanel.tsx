@@ -0,0 +1,278 @@
+import React, { useEffect, useState } from 'react';
+import { SavedPlace } from '../types';
+import { GtfsFeed } from '../services/gtfs/feed';
+import {
+  OriginChoice,
+  PlaceSearchResult,
+  createSavedPlace,
+  findLocalPlaces,
+  searchPlaces,
+  suggestPlaceName,
+} from '../services/savedPlaces';
+import { MapPin, LocateFixed, Home, Briefcase, Search, Loader2, BookmarkPlus, Pencil, Trash2, Check, X, TrainFront } from 'lucide-react';
+
+interface PlacesPanelProps {
+  isOpen: boolean;
+  places: SavedPlace[];
+  choice: OriginChoice;
+  gps: { isEnabled: boolean; hasFix: boolean; error?: string };
+  // Stops from the imported timetable are searchable too
+  timetable?: GtfsFeed;
+  onClose: () => void;
+  onChoose: (choice: OriginChoice) => void;
+  onSavePlace: (place: SavedPlace) => void;
+  onDeletePlace: (id: string) => void;
+}
+
+// Wait for a pause in typing before querying the geocoder
+const SEARCH_DELAY_MS = 400;
+
+const placeIcon = (name: string) => {
+  if (name.toLowerCase() === 'home') return <Home size={16} />;
+  if (name.toLowerCase() === 'work') return <Briefcase size={16} />;
+  return <MapPin size={16} />;
+};
+
+const rowClass = (isSelected: boolean) =>
+  `w-full flex items-start gap-2 p-2.5 border rounded-lg text-left transition-colors ${
+    isSelected ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'
+  }`;
+
+/**
+ * Where trips start from: the device's GPS, a saved place or a place found by search. Also
+ * where saved places (Home, Work and custom ones) are added and managed.
+ */
+const PlacesPanel: React.FC<PlacesPanelProps> = ({
+  isOpen, places, choice, gps, timetable, onClose, onChoose, onSavePlace, onDeletePlace,
+}) => {
+  const [query, setQuery] = useState('');
+  const [remoteResults, setRemoteResults] = useState<PlaceSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | undefined>();
+  // The result being saved as a place, and the name typed for it
+  const [saving, setSaving] = useState<{ result: PlaceSearchResult; name: string } | null>(null);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+
+  useEffect(() => {
+    setRemoteResults([]);
+    setSearchError(undefined);
+    if (query.trim().length < 3) return;
+
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      setIsSearching(true);
+      searchPlaces(query.trim(), controller.signal)
+        .then(setRemoteResults)
+        .catch(error => {
+          if (!controller.signal.aborted) setSearchError(error.message);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsSearching(false);
+        });
+    }, SEARCH_DELAY_MS);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+      setIsSearching(false);
+    };
+  }, [query]);
+
+  if (!isOpen) return null;
+
+  const results = [...findLocalPlaces(query, places, timetable), ...remoteResults];
+
+  const chooseResult = (result: PlaceSearchResult) => {
+    onChoose(result.placeId
+      ? { kind: 'PLACE', placeId: result.placeId }
+      : { kind: 'MANUAL', name: result.name, address: result.address, location: result.location });
+    setQuery('');
+  };
+
+  const commitSave = () => {
+    if (!saving?.name.trim()) return;
+    const { result, name } = saving;
+    onSavePlace(createSavedPlace(name, result.address ?? result.name, result.location));
+    setSaving(null);
+  };
+
+  const commitRename = () => {
+    const place = editing && places.find(p => p.id === editing.id);
+    if (place && editing.name.trim()) onSavePlace({ ...place, name: editing.name.trim() });
+    setEditing(null);
+  };
+
+  const gpsStatus = !gps.isEnabled
+    ? 'Location access is turned off in preferences'
+    : gps.error ?? (gps.hasFix ? 'Using your live position' : 'Waiting for a GPS fix…');
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex justify-end" onClick={onClose}>
+      <div
+        className="w-full max-w-sm bg-white h-full shadow-2xl p-6 overflow-y-auto animate-in slide-in-from-right duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <MapPin className="w-5 h-5" />
+            Starting Point
+          </h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+            ✕
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mb-4">
+          Trips start here when you don't say where from. Saved places can also be used by name, e.g. "from home to work".
+        </p>
+
+        <div className="space-y-2 mb-6">
+          <button onClick={() => onChoose({ kind: 'GPS' })} className={rowClass(choice.kind === 'GPS')}>
+            <span className={gps.error || !gps.isEnabled ? 'text-amber-600' : 'text-indigo-600'}><LocateFixed size={16} /></span>
+            <span className="flex-1 min-w-0">
+              <span className="block text-sm font-medium text-slate-800">Current location</span>
+              <span className={`block text-xs ${gps.error || !gps.isEnabled ? 'text-amber-700' : 'text-slate-500'}`}>{gpsStatus}</span>
+            </span>
+          </button>
+
+          {choice.kind === 'MANUAL' && (
+            <div className={rowClass(true)}>
+              <span className="text-indigo-600"><MapPin size={16} /></span>
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm font-medium text-slate-800 truncate">{choice.name}</span>
+                {choice.address && <span className="block text-xs text-slate-500 truncate">{choice.address}</span>}
+              </span>
+              <button
+                onClick={() => setSaving({ result: { source: 'SEARCH', ...choice }, name: suggestPlaceName(places) })}
+                className="p-1 text-slate-400 hover:text-indigo-600 rounded"
+                title="Save as a place"
+              >
+                <BookmarkPlus size={14} />
+              </button>
+            </div>
+          )}
+
+          {places.map(place => {
+            const isSelected = choice.kind === 'PLACE' && choice.placeId === place.id;
+            if (editing?.id === place.id) {
+              return (
+                <div key={place.id} className="flex items-center gap-1 p-2 border border-indigo-300 rounded-lg">
+                  <input
+                    autoFocus
+                    value={editing.name}
+                    onChange={e => setEditing({ ...editing, name: e.target.value })}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditing(null);
+                    }}
+                    className="flex-1 min-w-0 text-sm px-2 py-1 border border-slate-200 rounded focus:outline-none"
+                  />
+                  <button onClick={commitRename} className="p-1 text-emerald-600 hover:bg-emerald-50 rounded" title="Save name">
+                    <Check size={14} />
+                  </button>
+                  <button onClick={() => setEditing(null)} className="p-1 text-slate-500 hover:bg-slate-100 rounded" title="Cancel">
+                    <X size={14} />
+                  </button>
+                </div>
+              );
+            }
+            return (
+              <div key={place.id} className={rowClass(isSelected)}>
+                <button onClick={() => onChoose({ kind: 'PLACE', placeId: place.id })} className="flex-1 min-w-0 flex items-start gap-2 text-left">
+                  <span className="text-indigo-600">{placeIcon(place.name)}</span>
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm font-medium text-slate-800">{place.name}</span>
+                    <span className="block text-xs text-slate-500 truncate">{place.address}</span>
+                  </span>
+                </button>
+                <button onClick={() => setEditing({ id: place.id, name: place.name })} className="p-1 text-slate-400 hover:text-indigo-600 rounded" title="Rename">
+                  <Pencil size={14} />
+                </button>
+                <button onClick={() => onDeletePlace(place.id)} className="p-1 text-slate-400 hover:text-red-600 rounded" title="Delete place">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        {saving && (
+          <div className="mb-4 p-3 border border-indigo-200 bg-indigo-50/50 rounded-lg space-y-2 text-xs">
+            <div className="text-slate-600 truncate">Save <strong>{saving.result.name}</strong> as:</div>
+            <div className="flex gap-1">
+              {['Home', 'Work'].map(name => (
+                <button
+                  key={name}
+                  onClick={() => setSaving({ ...saving, name })}
+                  className={`px-2 py-0.5 rounded-full ${saving.name === name ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-600'}`}
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1">
+              <input
+                autoFocus
+                value={saving.name}
+                placeholder="Name, e.g. Gym"
+                onChange={e => setSaving({ ...saving, name: e.target.value })}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') commitSave();
+                  if (e.key === 'Escape') setSaving(null);
+                }}
+                className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded bg-white focus:outline-none focus:border-indigo-300"
+              />
+              <button onClick={commitSave} disabled={!saving.name.trim()} className="px-2 py-1 rounded-md bg-indigo-600 text-white disabled:opacity-50">
+                Save
+              </button>
+              <button onClick={() => setSaving(null)} className="p-1 text-slate-500 hover:bg-slate-100 rounded" title="Cancel">
+                <X size={14} />
+              </button>
+            </div>
+          </div>
+        )}
+
+        <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-2">Find a place</h3>
+        <div className="relative mb-2">
+          <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Address, landmark or stop"
+            className="w-full pl-8 pr-8 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:border-indigo-300"
+          />
+          {isSearching && <Loader2 size={14} className="absolute right-2.5 top-1/2 -translate-y-1/2 text-slate-400 animate-spin" />}
+        </div>
+        {searchError && <p className="text-xs text-red-600 mb-2">{searchError}</p>}
+
+        <ul className="space-y-1">
+          {results.map((result, index) => (
+            <li key={`${result.source}-${index}`} className="flex items-start gap-2 p-2 rounded-lg hover:bg-slate-50">
+              <button onClick={() => chooseResult(result)} className="flex-1 min-w-0 flex items-start gap-2 text-left">
+                <span className="text-slate-400 mt-0.5">
+                  {result.source === 'STOP' ? <TrainFront size={14} /> : result.source === 'SAVED' ? placeIcon(result.name) : <MapPin size={14} />}
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm text-slate-800 truncate">{result.name}</span>
+                  {result.address && <span className="block text-xs text-slate-500 truncate">{result.address}</span>}
+                </span>
+              </button>
+              {result.source !== 'SAVED' && (
+                <button
+                  onClick={() => setSaving({ result, name: suggestPlaceName(places) })}
+                  className="p-1 text-slate-400 hover:text-indigo-600 rounded"
+                  title="Save as a place"
+                >
+                  <BookmarkPlus size={14} />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        {query.trim().length >= 3 && !isSearching && !searchError && results.length === 0 && (
+          <p className="text-xs text-slate-500 text-center py-4">No places found.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlacesPanel;
@@ -0,0 +1,154 @@
+import React from 'react';
+import { Reminder, ReminderStatus } from '../types';
+import { LEAD_MINUTE_OPTIONS } from '../services/reminders';
+import { NotificationSupport } from '../services/notifications';
+import { formatDuration } from '../services/tripPlan';
+import { Bell, BellOff, Trash2, TriangleAlert, CircleCheck } from 'lucide-react';
+
+interface RemindersPanelProps {
+  reminders: Reminder[];
+  isOpen: boolean;
+  notificationSupport: NotificationSupport;
+  onClose: () => void;
+  onEnableNotifications: () => void;
+  onUpdate: (reminder: Reminder) => void;
+  onCancel: (id: string) => void;
+}
+
+const STATUS_LABELS: Record<ReminderStatus, { label: string; className: string }> = {
+  SCHEDULED: { label: 'Scheduled', className: 'bg-indigo-50 text-indigo-700' },
+  SENT: { label: 'Sent', className: 'bg-emerald-50 text-emerald-700' },
+  MISSED: { label: 'Missed', className: 'bg-slate-100 text-slate-500' },
+};
+
+// <input type="datetime-local"> works in local time without seconds
+const toInputValue = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const RemindersPanel: React.FC<RemindersPanelProps> = ({
+  reminders, isOpen, notificationSupport, onClose, onEnableNotifications, onUpdate, onCancel,
+}) => {
+  if (!isOpen) return null;
+
+  // Changing the time re-arms a reminder that already went off
+  const reschedule = (reminder: Reminder, changes: Partial<Reminder>) =>
+    onUpdate({ ...reminder, ...changes, status: 'SCHEDULED', lastCheck: undefined });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex justify-end" onClick={onClose}>
+      <div
+        className="w-full max-w-sm bg-white h-full shadow-2xl p-6 overflow-y-auto animate-in slide-in-from-right duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Bell className="w-5 h-5" />
+            Reminders
+          </h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+            ✕
+          </button>
+        </div>
+
+        {notificationSupport !== 'granted' && (
+          <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800 space-y-2">
+            <div className="flex items-start gap-2">
+              <BellOff size={14} className="mt-0.5 flex-shrink-0" />
+              <span>
+                {notificationSupport === 'unsupported'
+                  ? "This browser can't show notifications, so reminders only appear while EasyTra is open."
+                  : notificationSupport === 'denied'
+                    ? 'Notifications are blocked for this site. Allow them in your browser settings, or reminders only appear while EasyTra is open.'
+                    : 'Turn on notifications to get reminders while EasyTra is in the background.'}
+              </span>
+            </div>
+            {notificationSupport === 'default' && (
+              <button
+                onClick={onEnableNotifications}
+                className="text-xs font-medium bg-amber-600 text-white px-2.5 py-1 rounded-md hover:bg-amber-700"
+              >
+                Enable notifications
+              </button>
+            )}
+          </div>
+        )}
+
+        {reminders.length === 0 && (
+          <p className="text-sm text-slate-500 text-center py-8">
+            No reminders yet. Use "Remind me to leave" on a trip card and EasyTra will tell you when it's time to go.
+          </p>
+        )}
+
+        <ul className="space-y-3">
+          {reminders.map(reminder => {
+            const status = STATUS_LABELS[reminder.status];
+            const { plan } = reminder;
+
+            return (
+              <li key={reminder.id} className="border border-slate-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-slate-800 truncate">{reminder.name}</div>
+                    {plan.totalDurationMinutes !== undefined && (
+                      <div className="text-xs text-slate-500">Planned trip: {formatDuration(plan.totalDurationMinutes)}</div>
+                    )}
+                  </div>
+                  <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${status.className}`}>{status.label}</span>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                  <label className="space-y-1">
+                    <span className="text-slate-500">Leave at</span>
+                    <input
+                      type="datetime-local"
+                      value={toInputValue(reminder.leaveAt)}
+                      onChange={e => {
+                        const leaveAt = new Date(e.target.value);
+                        if (!Number.isNaN(leaveAt.getTime())) reschedule(reminder, { leaveAt });
+                      }}
+                      className="w-full px-2 py-1 border border-slate-200 rounded focus:outline-none focus:border-indigo-300"
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="text-slate-500">Notify</span>
+                    <select
+                      value={reminder.leadMinutes}
+                      onChange={e => reschedule(reminder, { leadMinutes: Number(e.target.value) })}
+                      className="w-full px-2 py-1 border border-slate-200 rounded bg-white focus:outline-none focus:border-indigo-300"
+                    >
+                      {LEAD_MINUTE_OPTIONS.map(minutes => (
+                        <option key={minutes} value={minutes}>{minutes ? `${minutes} min before` : 'At leave time'}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                {reminder.lastCheck && (
+                  <div className={`flex items-start gap-1.5 text-xs ${reminder.lastCheck.hasChanged ? 'text-red-700' : 'text-slate-500'}`}>
+                    {reminder.lastCheck.hasChanged
+                      ? <TriangleAlert size={12} className="mt-0.5 flex-shrink-0" />
+                      : <CircleCheck size={12} className="mt-0.5 flex-shrink-0" />}
+                    <span>{reminder.lastCheck.message}</span>
+                  </div>
+                )}
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => onCancel(reminder.id)}
+                    className="flex items-center gap-1 text-xs text-slate-500 hover:text-red-600 hover:bg-red-50 px-2 py-1 rounded-md"
+                  >
+                    <Trash2 size={12} /> {reminder.status === 'SCHEDULED' ? 'Cancel reminder' : 'Remove'}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default RemindersPanel;
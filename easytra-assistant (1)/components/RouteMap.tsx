@@ -0,0 +1,230 @@
+import React, { useEffect, useRef } from 'react';
+import * as L from 'leaflet';
+import { GroundingChunk, LatLng, MapPlace, TransitMode, TripPlan } from '../types';
+import { CONGESTION_SEVERITIES, legGeometry } from '../services/tripPlan';
+import { SEVERITY_COLORS, SEVERITY_LABELS, describeCongestion, getWorstCongestion, isHeavyTraffic } from '../services/traffic';
+import { AlertCircle, ExternalLink, Map as MapIcon } from 'lucide-react';
+
+interface RouteMapProps {
+  plan?: TripPlan;
+  // Google Maps places the reply was grounded in; matched to the plan's places by title
+  mapChunks: GroundingChunk[];
+  userLocation: LatLng | null;
+}
+
+// Any XYZ tile server works; OpenStreetMap's is the default
+const TILE_URL = process.env.MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = process.env.MAP_TILE_ATTRIBUTION || '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+// Traffic is drawn as a halo in SEVERITY_COLORS around the leg's own colour
+export const MODE_COLORS: Record<TransitMode, string> = {
+  WALK: '#64748b',
+  BUS: '#16a34a',
+  TRAIN: '#2563eb',
+  METRO: '#9333ea',
+  AUTO: '#ca8a04',
+  CAB: '#0891b2',
+  CAR: '#475569',
+  FERRY: '#0d9488',
+};
+
+const toLeafletLatLng = ({ lat, lng }: LatLng): L.LatLngTuple => [lat, lng];
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase();
+
+// Legs without coordinates are left off the map
+export const hasMapGeometry = (plan?: TripPlan) =>
+  !!plan && (!!plan.places?.length || plan.legs.some(leg => legGeometry(leg).length > 0));
+
+const placeLabel = (place: MapPlace, uri?: string): HTMLElement => {
+  const label = document.createElement('div');
+  const name = document.createElement(uri ? 'a' : 'span');
+  name.textContent = place.name;
+  if (name instanceof HTMLAnchorElement) {
+    name.href = uri!;
+    name.target = '_blank';
+    name.rel = 'noopener noreferrer';
+  }
+  label.appendChild(name);
+  return label;
+};
+
+/**
+ * Interactive map of a trip plan: each leg drawn as a polyline in its mode's colour
+ * (haloed by how bad its traffic is), the grounded places as markers and the user's live
+ * position.
+ */
+const RouteMap: React.FC<RouteMapProps> = ({ plan, mapChunks, userLocation }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const routeLayerRef = useRef<L.LayerGroup | null>(null);
+  const userMarkerRef = useRef<L.CircleMarker | null>(null);
+
+  const places = plan?.places ?? [];
+  const chunkUris = new Map(
+    mapChunks.filter(c => c.maps?.uri).map(c => [normalizeTitle(c.maps!.title ?? ''), c.maps!.uri])
+  );
+  const placeNames = new Set(places.map(p => normalizeTitle(p.name)));
+  // Grounded places the model gave no coordinates for are listed instead of marked
+  const unmappedChunks = mapChunks.filter(c => c.maps?.uri && !placeNames.has(normalizeTitle(c.maps.title ?? '')));
+  const modes = [...new Set((plan?.legs ?? []).filter(leg => legGeometry(leg).length > 0).map(leg => leg.mode))];
+  const worstTraffic = getWorstCongestion(plan);
+  const primaryChunk = mapChunks.find(c => c.maps?.uri);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const map = L.map(containerRef.current, { scrollWheelZoom: false });
+    L.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: 19 }).addTo(map);
+    mapRef.current = map;
+    routeLayerRef.current = L.layerGroup().addTo(map);
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      routeLayerRef.current = null;
+      userMarkerRef.current = null;
+    };
+  }, []);
+
+  // Redrawn only when the plan changes; the grounded places arrive with it
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = routeLayerRef.current;
+    if (!map || !layer) return;
+    layer.clearLayers();
+    const bounds = L.latLngBounds([]);
+
+    for (const leg of plan?.legs ?? []) {
+      const points = legGeometry(leg).map(toLeafletLatLng);
+      if (points.length === 0) continue;
+      if (leg.congestion && leg.congestion.severity !== 'NONE') {
+        L.polyline(points, { color: SEVERITY_COLORS[leg.congestion.severity], weight: 11, opacity: 0.6, interactive: false })
+          .addTo(layer);
+      }
+      L.polyline(points, {
+        color: MODE_COLORS[leg.mode],
+        weight: leg.mode === 'WALK' ? 4 : 5,
+        dashArray: leg.mode === 'WALK' ? '4 8' : undefined,
+        opacity: 0.9,
+      })
+        .bindTooltip(`${leg.line ? `${leg.line} · ` : ''}${leg.from} → ${leg.to}${leg.congestion ? ` (${describeCongestion(leg.congestion)})` : ''}`, { sticky: true })
+        .addTo(layer);
+      points.forEach(point => bounds.extend(point));
+    }
+
+    for (const place of places) {
+      const point = toLeafletLatLng(place.location);
+      L.circleMarker(point, { radius: 7, color: '#ffffff', weight: 2, fillColor: '#4f46e5', fillOpacity: 1 })
+        .bindPopup(placeLabel(place, chunkUris.get(normalizeTitle(place.name))))
+        .addTo(layer);
+      bounds.extend(point);
+    }
+
+    if (bounds.isValid()) {
+      map.fitBounds(bounds, { padding: [24, 24], maxZoom: 16 });
+    } else if (userLocation) {
+      map.setView(toLeafletLatLng(userLocation), 14);
+    }
+  }, [plan]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    if (!userLocation) {
+      userMarkerRef.current?.remove();
+      userMarkerRef.current = null;
+      return;
+    }
+    const point = toLeafletLatLng(userLocation);
+    if (userMarkerRef.current) {
+      userMarkerRef.current.setLatLng(point);
+    } else {
+      userMarkerRef.current = L.circleMarker(point, {
+        radius: 8, color: '#ffffff', weight: 3, fillColor: '#3b82f6', fillOpacity: 1,
+      }).bindTooltip('You are here').addTo(map);
+    }
+  }, [userLocation]);
+
+  const showTrafficWarning = isHeavyTraffic(worstTraffic);
+
+  return (
+    <div
+      className={`relative isolate w-full rounded-xl overflow-hidden bg-slate-100 border transition-all duration-500
+        ${showTrafficWarning
+          ? 'border-red-400 shadow-[0_0_15px_-3px_rgba(239,68,68,0.3)]'
+          : 'border-slate-200 shadow-sm'
+        }`}
+    >
+      <div ref={containerRef} className="w-full h-64 md:h-80" />
+
+      {/* Heavy Traffic Warning Badge */}
+      {showTrafficWarning && (
+        <div className="absolute top-3 right-3 bg-red-600 text-white text-xs font-bold px-3 py-1.5 rounded-full shadow-lg flex items-center gap-1.5 animate-pulse z-[1000] border border-red-400">
+          <AlertCircle size={14} className="fill-red-600 text-white" />
+          <span>
+            {SEVERITY_LABELS[worstTraffic!.severity].toUpperCase()}
+            {worstTraffic!.delayMinutes ? ` · +${worstTraffic!.delayMinutes} MIN` : ''}
+          </span>
+        </div>
+      )}
+
+      {/* Legend and Map Card Footer */}
+      <div className="bg-white border-t border-slate-200 px-3 py-2 space-y-1.5 text-xs">
+        {modes.length > 0 && (
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-slate-600">
+            {modes.map(mode => (
+              <span key={mode} className="inline-flex items-center gap-1">
+                <span className="w-3 h-1 rounded-full" style={{ backgroundColor: MODE_COLORS[mode] }} />
+                {mode.charAt(0) + mode.slice(1).toLowerCase()}
+              </span>
+            ))}
+          </div>
+        )}
+        {/* Severity legend for the halos, shown once any leg has a traffic assessment */}
+        {worstTraffic && (
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-slate-500">
+            {CONGESTION_SEVERITIES.filter(severity => severity !== 'NONE').map(severity => (
+              <span key={severity} className="inline-flex items-center gap-1">
+                <span className="w-3 h-2 rounded-full opacity-60" style={{ backgroundColor: SEVERITY_COLORS[severity] }} />
+                {SEVERITY_LABELS[severity].replace(' traffic', '')}
+              </span>
+            ))}
+            <span>traffic</span>
+          </div>
+        )}
+        {unmappedChunks.length > 0 && (
+          <div className="flex flex-wrap gap-x-3 gap-y-1">
+            {unmappedChunks.map((chunk, index) => (
+              <a
+                key={index}
+                href={chunk.maps!.uri}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-800"
+              >
+                {chunk.maps!.title || 'Location'} <ExternalLink size={10} />
+              </a>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-2 text-slate-700 font-medium truncate max-w-[70%]">
+            <MapIcon size={14} className={`${showTrafficWarning ? 'text-red-500' : 'text-indigo-600'} flex-shrink-0`} />
+            <span className="truncate">{plan ? `${plan.origin} → ${plan.destination}` : primaryChunk?.maps?.title || 'Location'}</span>
+          </div>
+          {primaryChunk && (
+            <a
+              href={primaryChunk.maps!.uri}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-indigo-600 hover:text-indigo-800 font-semibold whitespace-nowrap ml-2 bg-indigo-50 px-2 py-1 rounded hover:bg-indigo-100 transition-colors"
+            >
+              Open App <ExternalLink size={10} />
+            </a>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RouteMap;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { SavedRoute } from '../types';
+import { formatDuration, formatFareRange } from '../services/tripPlan';
+import { MODE_ICONS } from './TripPlanCard';
+import { Bookmark, RefreshCw, Pencil, Trash2, Check, X, ArrowRight } from 'lucide-react';
+
+interface SavedRoutesPanelProps {
+  routes: SavedRoute[];
+  isOpen: boolean;
+  // Re-running sends a chat message, so it is blocked while a reply is streaming
+  isBusy: boolean;
+  onClose: () => void;
+  onRerun: (route: SavedRoute) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const SavedRoutesPanel: React.FC<SavedRoutesPanelProps> = ({ routes, isOpen, isBusy, onClose, onRerun, onRename, onDelete }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  if (!isOpen) return null;
+
+  const commitRename = () => {
+    if (editingId && draftName.trim()) {
+      onRename(editingId, draftName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex justify-end" onClick={onClose}>
+      <div
+        className="w-full max-w-sm bg-white h-full shadow-2xl p-6 overflow-y-auto animate-in slide-in-from-right duration-200"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Bookmark className="w-5 h-5" />
+            Saved Routes
+          </h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+            ✕
+          </button>
+        </div>
+
+        {routes.length === 0 && (
+          <p className="text-sm text-slate-500 text-center py-8">
+            No saved routes yet. Say "yes" when EasyTra offers to save a route, or use the save button on a trip card.
+          </p>
+        )}
+
+        <ul className="space-y-3">
+          {routes.map(route => {
+            const plan = route.lastPlan;
+            const isEditing = route.id === editingId;
+
+            return (
+              <li key={route.id} className="border border-slate-200 rounded-lg p-3 space-y-2">
+                {isEditing ? (
+                  <div className="flex items-center gap-1">
+                    <input
+                      autoFocus
+                      value={draftName}
+                      onChange={e => setDraftName(e.target.value)}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 min-w-0 text-sm px-2 py-1 border border-indigo-300 rounded focus:outline-none"
+                    />
+                    <button onClick={commitRename} className="p-1 text-emerald-600 hover:bg-emerald-50 rounded" title="Save name">
+                      <Check size={14} />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="p-1 text-slate-500 hover:bg-slate-100 rounded" title="Cancel">
+                      <X size={14} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-start gap-2">
+                    {route.mode && (
+                      <div className="mt-0.5 w-6 h-6 rounded-full bg-indigo-50 text-indigo-600 flex items-center justify-center flex-shrink-0">
+                        {MODE_ICONS[route.mode]}
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-slate-800 truncate">{route.name}</div>
+                      <div className="text-xs text-slate-500 flex items-center gap-1 truncate">
+                        {route.origin} <ArrowRight size={10} className="flex-shrink-0" /> {route.destination}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                <div className="text-xs text-slate-500 flex flex-wrap gap-x-3 gap-y-1">
+                  <span>{route.routePreference.replace('_', ' ')}</span>
+                  {plan?.totalDurationMinutes !== undefined && <span>{formatDuration(plan.totalDurationMinutes)}</span>}
+                  {plan?.totalFare && <span>{formatFareRange(plan.totalFare)}</span>}
+                  {route.lastRunAt && (
+                    <span>Checked {route.lastRunAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                  )}
+                </div>
+
+                <div className="flex gap-2 pt-1">
+                  <button
+                    onClick={() => onRerun(route)}
+                    disabled={isBusy}
+                    className="flex-1 flex items-center justify-center gap-1.5 text-xs font-medium bg-indigo-600 text-white py-1.5 rounded-md hover:bg-indigo-700 transition-colors disabled:bg-slate-300 disabled:cursor-not-allowed"
+                  >
+                    <RefreshCw size={12} /> Re-run with live conditions
+                  </button>
+                  <button
+                    onClick={() => { setEditingId(route.id); setDraftName(route.name); }}
+                    className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-md"
+                    title="Rename"
+                  >
+                    <Pencil size={14} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Delete "${route.name}"?`)) onDelete(route.id);
+                    }}
+                    className="p-1.5 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-md"
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default SavedRoutesPanel;
@@ -1,25 +1,76 @@
-import React from 'react';
-import { UserPreferences, RoutePreference } from '../types';
-import { Settings, MapPin, Clock, Users, Activity, Shuffle } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { UserPreferences, RoutePreference, TimetableSummary, RealtimeSummary, LocationSharing, TransitMode, TravelClass } from '../types';
+import { DEFAULT_REALTIME_URL } from '../services/realtimeStore';
+import { CHOOSABLE_MODES, GOAL_WEIGHT_LABELS, MAX_GOAL_WEIGHT, MODE_LABELS, TRAVEL_CLASS_LABELS, getGoalWeights, setGoalWeight } from '../services/preferences';
+import { MODE_ICONS } from './TripPlanCard';
+import { Settings, MapPin, Clock, Users, Activity, Shuffle, CalendarClock, Upload, Trash2, Loader2, Radio, Crosshair, Grid3x3, EyeOff, Ban, Star, ListChecks } from 'lucide-react';
 
 interface SettingsPanelProps {
   preferences: UserPreferences;
   onUpdate: (newPrefs: UserPreferences) => void;
   isOpen: boolean;
   onClose: () => void;
+  timetable: TimetableSummary | null;
+  timetableStatus: { isImporting: boolean; error?: string };
+  onImportTimetable: (file: File) => void;
+  onRemoveTimetable: () => void;
+  realtime: RealtimeSummary | null;
+  // The URL being polled, if any
+  realtimeUrl: string | null;
+  realtimeError?: string;
+  onConnectRealtime: (url: string) => void;
+  onLoadRealtimeFile: (file: File) => void;
+  onDisconnectRealtime: () => void;
+  // Ask once for a rewrite when a reply breaks the output format
+  autoRepair: boolean;
+  onAutoRepairChange: (enabled: boolean) => void;
+  onOpenFormatCheck: () => void;
 }
 
-const SettingsPanel: React.FC<SettingsPanelProps> = ({ preferences, onUpdate, isOpen, onClose }) => {
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  preferences, onUpdate, isOpen, onClose, timetable, timetableStatus, onImportTimetable, onRemoveTimetable,
+  realtime, realtimeUrl, realtimeError, onConnectRealtime, onLoadRealtimeFile, onDisconnectRealtime,
+  autoRepair, onAutoRepairChange, onOpenFormatCheck
+}) => {
+  const [draftUrl, setDraftUrl] = useState(realtimeUrl ?? DEFAULT_REALTIME_URL);
+
+  useEffect(() => {
+    if (realtimeUrl) setDraftUrl(realtimeUrl);
+  }, [realtimeUrl]);
+
   if (!isOpen) return null;
 
-  const handleGoalChange = (goal: RoutePreference) => {
-    onUpdate({ ...preferences, routePreference: goal });
+  const goalWeights = getGoalWeights(preferences);
+
+  const handleWeightChange = (goal: RoutePreference, weight: number) => {
+    onUpdate(setGoalWeight(preferences, goal, weight));
+  };
+
+  // Each tap moves a mode on: allowed → preferred → avoided → allowed
+  const cycleMode = (mode: TransitMode) => {
+    const without = (modes: TransitMode[]) => modes.filter(m => m !== mode);
+    if (preferences.avoidedModes.includes(mode)) {
+      onUpdate({ ...preferences, avoidedModes: without(preferences.avoidedModes) });
+    } else if (preferences.preferredModes.includes(mode)) {
+      onUpdate({ ...preferences, preferredModes: without(preferences.preferredModes), avoidedModes: [...preferences.avoidedModes, mode] });
+    } else {
+      onUpdate({ ...preferences, preferredModes: [...preferences.preferredModes, mode] });
+    }
+  };
+
+  const handleBudgetChange = (value: string) => {
+    const budget = Math.round(Number(value));
+    onUpdate({ ...preferences, fareBudget: value.trim() && budget > 0 ? budget : null });
   };
 
   const toggleAccessibility = () => {
     onUpdate({ ...preferences, accessibilityRequired: !preferences.accessibilityRequired });
   };
 
+  const handleSharingChange = (locationSharing: LocationSharing) => {
+    onUpdate({ ...preferences, locationSharing });
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 z-50 flex justify-end" onClick={onClose}>
       <div 
@@ -38,32 +89,37 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ preferences, onUpdate, is
 
         <div className="space-y-6">
           <section>
-            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Optimization Goal</h3>
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Optimization Goals</h3>
+            <p className="text-xs text-slate-500 mb-2">Set how much each one matters. The top one decides close calls.</p>
             <div className="grid grid-cols-1 gap-2">
-              <GoalOption 
-                active={preferences.routePreference === 'FASTEST'} 
-                onClick={() => handleGoalChange('FASTEST')}
+              <GoalWeight
+                weight={goalWeights.FASTEST}
+                isMain={preferences.routePreference === 'FASTEST'}
+                onChange={weight => handleWeightChange('FASTEST', weight)}
                 icon={<Clock className="w-4 h-4" />}
                 label="Fastest Route"
                 desc="Prioritize travel time above all else."
               />
-              <GoalOption 
-                active={preferences.routePreference === 'LEAST_CROWDED'} 
-                onClick={() => handleGoalChange('LEAST_CROWDED')}
+              <GoalWeight
+                weight={goalWeights.LEAST_CROWDED}
+                isMain={preferences.routePreference === 'LEAST_CROWDED'}
+                onChange={weight => handleWeightChange('LEAST_CROWDED', weight)}
                 icon={<Users className="w-4 h-4" />}
                 label="Least Crowded"
                 desc="Avoid peak capacity vehicles."
               />
-              <GoalOption 
-                active={preferences.routePreference === 'LOW_WALKING'} 
-                onClick={() => handleGoalChange('LOW_WALKING')}
+              <GoalWeight
+                weight={goalWeights.LOW_WALKING}
+                isMain={preferences.routePreference === 'LOW_WALKING'}
+                onChange={weight => handleWeightChange('LOW_WALKING', weight)}
                 icon={<Activity className="w-4 h-4" />}
                 label="Less Walking"
                 desc="Minimize walking distance between stops."
               />
-              <GoalOption 
-                active={preferences.routePreference === 'FEWEST_TRANSFERS'} 
-                onClick={() => handleGoalChange('FEWEST_TRANSFERS')}
+              <GoalWeight
+                weight={goalWeights.FEWEST_TRANSFERS}
+                isMain={preferences.routePreference === 'FEWEST_TRANSFERS'}
+                onChange={weight => handleWeightChange('FEWEST_TRANSFERS', weight)}
                 icon={<Shuffle className="w-4 h-4" />}
                 label="Fewest Transfers"
                 desc="Direct routes preferred."
@@ -72,7 +128,85 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ preferences, onUpdate, is
           </section>
 
           <section>
-            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Accessibility</h3>
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Modes</h3>
+            <p className="text-xs text-slate-500 mb-2">Tap to prefer a mode, tap again to avoid it.</p>
+            <div className="flex flex-wrap gap-1.5">
+              {CHOOSABLE_MODES.map(mode => {
+                const isAvoided = preferences.avoidedModes.includes(mode);
+                const isPreferred = !isAvoided && preferences.preferredModes.includes(mode);
+                return (
+                  <button
+                    key={mode}
+                    onClick={() => cycleMode(mode)}
+                    className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-xs font-medium transition-colors ${
+                      isAvoided ? 'border-red-200 bg-red-50 text-red-700 line-through'
+                        : isPreferred ? 'border-indigo-600 bg-indigo-50 text-indigo-800'
+                        : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                    }`}
+                    title={isAvoided ? 'Avoided' : isPreferred ? 'Preferred' : 'Allowed'}
+                  >
+                    {isAvoided ? <Ban size={14} /> : isPreferred ? <Star size={14} /> : MODE_ICONS[mode]}
+                    {MODE_LABELS[mode]}
+                  </button>
+                );
+              })}
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Limits</h3>
+            <div className="space-y-3">
+              <label className="flex items-center justify-between gap-3 text-sm text-slate-800">
+                <span className="font-medium">Most walking per trip</span>
+                <select
+                  value={preferences.maxWalkingMeters ?? ''}
+                  onChange={e => onUpdate({ ...preferences, maxWalkingMeters: e.target.value ? Number(e.target.value) : null })}
+                  className="text-sm px-2 py-1.5 border border-slate-200 rounded-lg bg-white focus:outline-none focus:border-indigo-400"
+                >
+                  <option value="">No limit</option>
+                  {WALKING_LIMITS.map(meters => (
+                    <option key={meters} value={meters}>{meters >= 1000 ? `${meters / 1000} km` : `${meters} m`}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-3 text-sm text-slate-800">
+                <span className="font-medium">Fare budget per trip</span>
+                <span className="flex items-center gap-1 text-slate-500">
+                  ₹
+                  <input
+                    type="number"
+                    min={1}
+                    step={10}
+                    value={preferences.fareBudget ?? ''}
+                    placeholder="Any"
+                    onChange={e => handleBudgetChange(e.target.value)}
+                    className="w-24 text-sm px-2 py-1.5 border border-slate-200 rounded-lg text-slate-800 focus:outline-none focus:border-indigo-400"
+                  />
+                </span>
+              </label>
+              <div>
+                <span className="block text-sm font-medium text-slate-800 mb-1.5">Class on trains and long-distance buses</span>
+                <div className="grid grid-cols-4 gap-1">
+                  {TRAVEL_CLASSES.map(value => (
+                    <button
+                      key={value}
+                      onClick={() => onUpdate({ ...preferences, travelClass: value })}
+                      className={`py-1.5 rounded-lg border text-xs font-medium transition-colors ${
+                        preferences.travelClass === value
+                          ? 'border-indigo-600 bg-indigo-50 text-indigo-800'
+                          : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                      }`}
+                    >
+                      {TRAVEL_CLASS_LABELS[value]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Accessibility & Needs</h3>
             <label className="flex items-center gap-3 p-3 border rounded-lg cursor-pointer hover:bg-slate-50 transition-colors">
               <input 
                 type="checkbox" 
@@ -85,6 +219,199 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ preferences, onUpdate, is
                 <span className="text-xs text-slate-500">Step-free routes & accessible vehicles only</span>
               </div>
             </label>
+            <label className="flex items-center gap-3 p-3 border rounded-lg cursor-pointer hover:bg-slate-50 transition-colors mt-2">
+              <input
+                type="checkbox"
+                checked={preferences.hasLuggage}
+                onChange={() => onUpdate({ ...preferences, hasLuggage: !preferences.hasLuggage })}
+                className="w-5 h-5 text-indigo-600 rounded focus:ring-indigo-500"
+              />
+              <div className="flex-1">
+                <span className="font-medium text-slate-800 block">Carrying Luggage</span>
+                <span className="text-xs text-slate-500">Fewer stairs, long walks and packed vehicles</span>
+              </div>
+            </label>
+            <label className="flex items-center gap-3 p-3 border rounded-lg cursor-pointer hover:bg-slate-50 transition-colors mt-2">
+              <input
+                type="checkbox"
+                checked={preferences.withChildren}
+                onChange={() => onUpdate({ ...preferences, withChildren: !preferences.withChildren })}
+                className="w-5 h-5 text-indigo-600 rounded focus:ring-indigo-500"
+              />
+              <div className="flex-1">
+                <span className="font-medium text-slate-800 block">Travelling with Children</span>
+                <span className="text-xs text-slate-500">Seated options, short waits and child fares</span>
+              </div>
+            </label>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Location & Privacy</h3>
+            <label className="flex items-center gap-3 p-3 border rounded-lg cursor-pointer hover:bg-slate-50 transition-colors mb-2">
+              <input
+                type="checkbox"
+                checked={preferences.useCurrentLocation}
+                onChange={() => onUpdate({ ...preferences, useCurrentLocation: !preferences.useCurrentLocation })}
+                className="w-5 h-5 text-indigo-600 rounded focus:ring-indigo-500"
+              />
+              <div className="flex-1">
+                <span className="font-medium text-slate-800 block">Use My Current Location</span>
+                <span className="text-xs text-slate-500">GPS on this device, for the map, trip following and as your starting point</span>
+              </div>
+            </label>
+            <p className="text-xs text-slate-500 mb-2">What the assistant is told about where you are:</p>
+            <div className="grid grid-cols-1 gap-2">
+              <GoalOption
+                active={preferences.locationSharing === 'PRECISE'}
+                onClick={() => handleSharingChange('PRECISE')}
+                icon={<Crosshair className="w-4 h-4" />}
+                label="Precise"
+                desc="Exact coordinates, for the most relevant nearby results."
+              />
+              <GoalOption
+                active={preferences.locationSharing === 'APPROXIMATE'}
+                onClick={() => handleSharingChange('APPROXIMATE')}
+                icon={<Grid3x3 className="w-4 h-4" />}
+                label="Approximate"
+                desc="Rounded to a grid of about 1 km, enough to know your neighbourhood."
+              />
+              <GoalOption
+                active={preferences.locationSharing === 'NEVER'}
+                onClick={() => handleSharingChange('NEVER')}
+                icon={<EyeOff className="w-4 h-4" />}
+                label="Never"
+                desc="No coordinates are sent. Say where you're starting from in your message."
+              />
+            </div>
+            <p className="text-xs text-slate-400 mt-2">Saved places are only ever sent by name, never by address.</p>
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Local Timetable</h3>
+            {timetable ? (
+              <div className="p-3 border rounded-lg flex items-start gap-3">
+                <CalendarClock className="w-5 h-5 text-indigo-600 mt-0.5 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <span className="font-medium text-slate-800 block truncate">{timetable.name}</span>
+                  <span className="text-xs text-slate-500 block">
+                    {timetable.stops.toLocaleString()} stops · {timetable.routes.toLocaleString()} routes · {timetable.trips.toLocaleString()} trips
+                  </span>
+                  <span className="text-xs text-slate-400 block">Imported {timetable.importedAt.toLocaleDateString()}</span>
+                </div>
+                <button onClick={onRemoveTimetable} className="p-1.5 text-slate-500 hover:text-red-600 rounded" title="Remove timetable">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500 mb-2">
+                Import your city's GTFS feed (.zip) so departures and journeys come from the real timetable.
+              </p>
+            )}
+            <label className={`mt-2 flex items-center justify-center gap-2 p-2.5 border border-dashed rounded-lg text-sm font-medium transition-colors ${
+              timetableStatus.isImporting ? 'text-slate-400 cursor-wait' : 'text-indigo-600 cursor-pointer hover:bg-indigo-50'
+            }`}>
+              {timetableStatus.isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              {timetableStatus.isImporting ? 'Importing…' : timetable ? 'Replace GTFS feed' : 'Import GTFS feed'}
+              <input
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                disabled={timetableStatus.isImporting}
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) onImportTimetable(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {timetableStatus.error && <p className="text-xs text-red-600 mt-2">{timetableStatus.error}</p>}
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Live Updates</h3>
+            {realtime || realtimeUrl ? (
+              <div className="p-3 border rounded-lg flex items-start gap-3">
+                <Radio className={`w-5 h-5 mt-0.5 flex-shrink-0 ${realtime ? 'text-emerald-600' : 'text-slate-400'}`} />
+                <div className="flex-1 min-w-0">
+                  <span className="font-medium text-slate-800 block truncate">{realtime?.source ?? realtimeUrl}</span>
+                  {realtime ? (
+                    <>
+                      <span className="text-xs text-slate-500 block">
+                        {realtime.alerts} alerts · {realtime.tripUpdates} trip updates · {realtime.vehicles} vehicles
+                      </span>
+                      <span className="text-xs text-slate-400 block">
+                        {realtime.isFile ? 'Loaded' : 'Updated'} {realtime.fetchedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        {realtime.isFile ? ' · not refreshed' : ''}
+                      </span>
+                    </>
+                  ) : (
+                    <span className="text-xs text-slate-400 block">Connecting…</span>
+                  )}
+                </div>
+                <button onClick={onDisconnectRealtime} className="p-1.5 text-slate-500 hover:text-red-600 rounded" title="Stop live updates">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500 mb-2">
+                Connect a GTFS-Realtime feed for delays, cancellations and service alerts on the imported timetable.
+              </p>
+            )}
+            <div className="mt-2 flex gap-2">
+              <input
+                value={draftUrl}
+                onChange={e => setDraftUrl(e.target.value)}
+                placeholder="Feed URL"
+                className="flex-1 min-w-0 text-sm px-2.5 py-2 border border-slate-200 rounded-lg focus:outline-none focus:border-indigo-400"
+              />
+              <button
+                onClick={() => draftUrl.trim() && onConnectRealtime(draftUrl.trim())}
+                disabled={!draftUrl.trim() || draftUrl.trim() === realtimeUrl}
+                className="px-3 text-sm font-medium bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed"
+              >
+                Connect
+              </button>
+            </div>
+            <label className="mt-2 flex items-center justify-center gap-2 p-2.5 border border-dashed rounded-lg text-sm font-medium text-indigo-600 cursor-pointer hover:bg-indigo-50 transition-colors">
+              <Upload className="w-4 h-4" />
+              Load feed file (.pb)
+              <input
+                type="file"
+                accept=".pb,.bin,application/x-protobuf,application/octet-stream"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) onLoadRealtimeFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {realtimeError && <p className="text-xs text-red-600 mt-2">{realtimeError}</p>}
+          </section>
+
+          <section>
+            <h3 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-3">Reply Format</h3>
+            <label className="flex items-center gap-3 p-3 border rounded-lg cursor-pointer hover:bg-slate-50 transition-colors">
+              <input
+                type="checkbox"
+                checked={autoRepair}
+                onChange={() => onAutoRepairChange(!autoRepair)}
+                className="w-5 h-5 text-indigo-600 rounded focus:ring-indigo-500"
+              />
+              <div className="flex-1">
+                <span className="font-medium text-slate-800 block">Fix Badly Formatted Replies</span>
+                <span className="text-xs text-slate-500">
+                  When a reply is missing the trip stats, fares or other required parts, ask once for a rewrite
+                </span>
+              </div>
+            </label>
+            <button
+              onClick={onOpenFormatCheck}
+              className="mt-2 w-full flex items-center justify-center gap-2 p-2.5 border rounded-lg text-sm font-medium text-indigo-600 hover:bg-indigo-50 transition-colors"
+            >
+              <ListChecks className="w-4 h-4" />
+              Check format compliance
+            </button>
           </section>
         </div>
 
@@ -101,6 +428,39 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ preferences, onUpdate, is
   );
 };
 
+const WALKING_LIMITS = [250, 500, 1000, 2000];
+
+const TRAVEL_CLASSES: TravelClass[] = ['ANY', 'GENERAL', 'SLEEPER', 'AC'];
+
+const GoalWeight = ({ weight, isMain, onChange, icon, label, desc }: {
+  weight: number, isMain: boolean, onChange: (weight: number) => void, icon: React.ReactNode, label: string, desc: string
+}) => (
+  <div className={`p-3 rounded-lg border transition-all ${
+    isMain ? 'border-indigo-600 bg-indigo-50 ring-1 ring-indigo-600' : 'border-slate-200'
+  }`}>
+    <div className="flex items-start gap-3">
+      <div className={`mt-0.5 ${weight > 0 ? 'text-indigo-600' : 'text-slate-400'}`}>{icon}</div>
+      <div className="flex-1">
+        <div className={`font-medium ${isMain ? 'text-indigo-900' : 'text-slate-900'}`}>{label}</div>
+        <div className={`text-xs ${isMain ? 'text-indigo-700' : 'text-slate-500'}`}>{desc}</div>
+      </div>
+    </div>
+    <div className="mt-2 grid grid-cols-4 gap-1">
+      {GOAL_WEIGHT_LABELS.slice(0, MAX_GOAL_WEIGHT + 1).map((weightLabel, value) => (
+        <button
+          key={value}
+          onClick={() => onChange(value)}
+          className={`py-1 rounded text-[11px] font-medium transition-colors ${
+            weight === value ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'
+          }`}
+        >
+          {weightLabel}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
 const GoalOption = ({ active, onClick, icon, label, desc }: { active: boolean, onClick: () => void, icon: React.ReactNode, label: string, desc: string }) => (
   <button
     onClick={onClick}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { GroundingChunk } from '../types';
+import { sourceNumber } from '../services/citations';
+import { Globe, MapPin, ExternalLink } from 'lucide-react';
+
+interface SourceListProps {
+  chunks: GroundingChunk[];
+}
+
+const hostname = (uri: string) => {
+  try {
+    return new URL(uri).hostname.replace(/^www\./, '');
+  } catch {
+    return uri;
+  }
+};
+
+/**
+ * Numbered list of the web pages and Google Maps places a reply was grounded in. The
+ * numbers match the inline citation markers.
+ */
+const SourceList: React.FC<SourceListProps> = ({ chunks }) => (
+  <div className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs">
+    <div className="font-semibold text-slate-600 mb-1.5">Sources</div>
+    <ol className="space-y-1">
+      {chunks.map((chunk, index) => {
+        const source = chunk.web ?? chunk.maps;
+        if (!source?.uri) return null;
+        return (
+          <li key={index} id={`source-${sourceNumber(index)}`} className="flex items-start gap-2">
+            <span className="w-4 text-right text-slate-400 flex-shrink-0">{sourceNumber(index)}.</span>
+            {chunk.web
+              ? <Globe size={12} className="mt-0.5 text-slate-400 flex-shrink-0" />
+              : <MapPin size={12} className="mt-0.5 text-slate-400 flex-shrink-0" />}
+            <a
+              href={source.uri}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="min-w-0 text-indigo-600 hover:text-indigo-800 hover:underline"
+            >
+              <span className="font-medium">{source.title || hostname(source.uri)}</span>
+              <ExternalLink size={10} className="inline ml-1 align-baseline" />
+            </a>
+          </li>
+        );
+      })}
+    </ol>
+  </div>
+);
+
+export default SourceList;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { ToolCallRecord } from '../types';
+import { ChevronRight, Wrench, AlertCircle } from 'lucide-react';
+
+interface ToolTraceProps {
+  calls: ToolCallRecord[];
+}
+
+// Friendly labels for the local tools; unknown names are shown as-is
+const TOOL_LABELS: Record<string, string> = {
+  getNextDepartures: 'Next departures',
+  calculateFare: 'Fare estimate',
+  getSavedPlaces: 'Saved places',
+  checkStationAccessibility: 'Station accessibility',
+};
+
+const formatArgs = (args: Record<string, unknown>) =>
+  Object.values(args).map(value => String(value)).join(', ');
+
+/**
+ * Collapsible "what I checked" list of the local tools the model called for a reply,
+ * with the arguments and the raw result of each call.
+ */
+const ToolTrace: React.FC<ToolTraceProps> = ({ calls }) => (
+  <details className="group rounded-lg border border-slate-200 bg-white text-xs">
+    <summary className="flex items-center gap-1.5 px-3 py-2 cursor-pointer select-none text-slate-600 hover:text-slate-800 list-none">
+      <ChevronRight size={14} className="transition-transform group-open:rotate-90" />
+      <Wrench size={12} />
+      <span className="font-medium">What I checked</span>
+      <span className="text-slate-400">({calls.length})</span>
+    </summary>
+    <ol className="border-t border-slate-100 divide-y divide-slate-100">
+      {calls.map(({ call, result, isError }, index) => (
+        <li key={index} className="px-3 py-2 space-y-1">
+          <div className="flex items-center gap-1.5 font-medium text-slate-700">
+            {isError && <AlertCircle size={12} className="text-red-500" />}
+            <span>{TOOL_LABELS[call.name] ?? call.name}</span>
+            {Object.keys(call.args).length > 0 && (
+              <span className="font-normal text-slate-500 truncate">— {formatArgs(call.args)}</span>
+            )}
+          </div>
+          <pre className={`whitespace-pre-wrap break-words rounded bg-slate-50 p-2 max-h-40 overflow-y-auto ${
+            isError ? 'text-red-700' : 'text-slate-600'
+          }`}>
+            {JSON.stringify(result, null, 2)}
+          </pre>
+        </li>
+      ))}
+    </ol>
+  </details>
+);
+
+export default ToolTrace;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { RailClass, TrainOption } from '../types';
+import { RAIL_CLASSES, formatDuration, formatFareRange } from '../services/tripPlan';
+import { RAIL_CLASS_LABELS } from '../services/rail/adapter';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+
+interface TrainTableProps {
+  trains: TrainOption[];
+}
+
+type SortKey = 'departure' | 'arrival' | 'duration' | 'fare' | RailClass;
+
+interface Sort {
+  key: SortKey;
+  descending: boolean;
+}
+
+const clockMinutes = (clock?: string) => {
+  const match = clock?.match(/^(\d{1,2}):(\d{2})/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+};
+
+// Overnight trains arrive "earlier" on the clock, so arrivals are ranked by departure plus journey time
+const sortValue = (train: TrainOption, key: SortKey): number | undefined => {
+  const departure = clockMinutes(train.departureTime);
+  switch (key) {
+    case 'departure': return departure;
+    case 'arrival':
+      return departure !== undefined && train.durationMinutes !== undefined
+        ? departure + train.durationMinutes
+        : clockMinutes(train.arrivalTime);
+    case 'duration': return train.durationMinutes;
+    case 'fare': return train.fare?.min;
+    default: return train.classFares?.[key];
+  }
+};
+
+/**
+ * Trains as a table with a fare column per class, sortable by any column. Trains missing
+ * the value sorted on stay at the bottom either way.
+ */
+const TrainTable: React.FC<TrainTableProps> = ({ trains }) => {
+  const [sort, setSort] = useState<Sort>({ key: 'departure', descending: false });
+
+  const classes = RAIL_CLASSES.filter(c => trains.some(train => train.classFares?.[c] !== undefined));
+  const sorted = [...trains].sort((a, b) => {
+    const x = sortValue(a, sort.key);
+    const y = sortValue(b, sort.key);
+    if (x === undefined || y === undefined) return x === y ? 0 : x === undefined ? 1 : -1;
+    return sort.descending ? y - x : x - y;
+  });
+
+  const header = (key: SortKey, label: string, title?: string) => (
+    <th className="font-medium pb-1 pr-2 whitespace-nowrap" aria-sort={sort.key === key ? (sort.descending ? 'descending' : 'ascending') : undefined}>
+      <button
+        onClick={() => setSort(current => ({ key, descending: current.key === key && !current.descending }))}
+        title={title}
+        className={`inline-flex items-center gap-0.5 hover:text-indigo-600 ${sort.key === key ? 'text-indigo-600' : ''}`}
+      >
+        {label}
+        {sort.key === key && (sort.descending ? <ArrowDown size={11} /> : <ArrowUp size={11} />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-slate-500">
+          <th className="font-medium pb-1 pr-2">Train</th>
+          {header('departure', 'Departs')}
+          {header('arrival', 'Arrives')}
+          {header('duration', 'Duration')}
+          {classes.length > 0
+            ? classes.map(c => header(c, c, `${RAIL_CLASS_LABELS[c]} fare`))
+            : header('fare', 'Fare')}
+        </tr>
+      </thead>
+      <tbody className="text-slate-700">
+        {sorted.map(train => (
+          <tr key={train.number} className="border-t border-slate-100">
+            <td className="py-1.5 pr-2"><span className="font-semibold">{train.number}</span> {train.name}</td>
+            <td className="py-1.5 pr-2">{train.departureTime ?? '—'}</td>
+            <td className="py-1.5 pr-2">{train.arrivalTime ?? '—'}</td>
+            <td className="py-1.5 pr-2">{train.durationMinutes !== undefined ? formatDuration(train.durationMinutes) : '—'}</td>
+            {classes.length > 0
+              ? classes.map(c => (
+                <td key={c} className="py-1.5 pr-2">{train.classFares?.[c] !== undefined ? `₹${train.classFares[c]}` : '—'}</td>
+              ))
+              : <td className="py-1.5">{train.fare ? formatFareRange(train.fare) : '—'}</td>}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+export default TrainTable;
@@ -0,0 +1,149 @@
+import React, { useRef } from 'react';
+import { TripPlan } from '../types';
+import { TripProgress, TripStatus } from '../services/tripFollower';
+import { SimulationScenario } from '../services/gpsReplay';
+import { MODE_ICONS } from './TripPlanCard';
+import { Navigation, Volume2, VolumeX, X, Route, Upload, CircleStop, Loader2 } from 'lucide-react';
+
+interface TripFollowPanelProps {
+  plan: TripPlan;
+  progress: TripProgress;
+  isVoiceOn: boolean;
+  isReplanning: boolean;
+  isSimulating: boolean;
+  simulationError?: string;
+  onToggleVoice: () => void;
+  onSimulate: (scenario: SimulationScenario) => void;
+  onLoadTrack: (file: File) => void;
+  onStopSimulation: () => void;
+  onEnd: () => void;
+}
+
+const STATUS_STYLES: Record<TripStatus, { label: string; className: string }> = {
+  ON_ROUTE: { label: 'On route', className: 'bg-emerald-100 text-emerald-700' },
+  OFF_ROUTE: { label: 'Off route', className: 'bg-red-100 text-red-700' },
+  MISSED_CONNECTION: { label: 'Missed connection', className: 'bg-red-100 text-red-700' },
+  ARRIVED: { label: 'Arrived', className: 'bg-indigo-100 text-indigo-700' },
+};
+
+const SCENARIOS: { scenario: SimulationScenario; label: string }[] = [
+  { scenario: 'ON_ROUTE', label: 'On route' },
+  { scenario: 'DETOUR', label: 'Detour' },
+  { scenario: 'LATE', label: 'Running late' },
+];
+
+const formatRemaining = (meters: number) =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km left` : `${Math.round(meters)} m left`;
+
+/**
+ * "I'm travelling now" panel: the leg the user is on, the latest announcement and the
+ * controls for replaying a simulated or recorded GPS track.
+ */
+const TripFollowPanel: React.FC<TripFollowPanelProps> = ({
+  plan, progress, isVoiceOn, isReplanning, isSimulating, simulationError,
+  onToggleVoice, onSimulate, onLoadTrack, onStopSimulation, onEnd,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const leg = plan.legs[progress.legIndex];
+  const status = STATUS_STYLES[progress.status];
+  const [latest, ...earlier] = progress.announcements;
+
+  return (
+    <div className="flex-none bg-white border-t border-slate-200">
+      <div className="max-w-3xl mx-auto px-4 py-3 space-y-2 text-sm">
+        <div className="flex items-center gap-2">
+          <Navigation size={16} className="text-indigo-600 flex-shrink-0" />
+          <span className="font-semibold text-slate-800 truncate">{plan.origin} → {plan.destination}</span>
+          <span className={`text-xs font-medium px-2 py-0.5 rounded-full whitespace-nowrap ${status.className}`}>{status.label}</span>
+          {isReplanning && (
+            <span className="inline-flex items-center gap-1 text-xs text-slate-500 whitespace-nowrap">
+              <Loader2 size={12} className="animate-spin" /> Re-planning…
+            </span>
+          )}
+          <div className="ml-auto flex items-center gap-1">
+            <button
+              onClick={onToggleVoice}
+              className="p-1.5 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+              title={isVoiceOn ? 'Mute announcements' : 'Speak announcements'}
+            >
+              {isVoiceOn ? <Volume2 size={16} /> : <VolumeX size={16} />}
+            </button>
+            <button
+              onClick={onEnd}
+              className="p-1.5 text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-full transition-colors"
+              title="Stop following this trip"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        {leg && (
+          <div className="flex items-center gap-2 text-xs text-slate-600">
+            <span className="text-slate-500">{MODE_ICONS[leg.mode]}</span>
+            <span>Leg {progress.legIndex + 1} of {plan.legs.length}</span>
+            <span className="truncate">· {leg.line ? `${leg.line} ` : ''}{leg.from} → {leg.to}</span>
+            {progress.lastFix && progress.status !== 'ARRIVED' && (
+              <span className="whitespace-nowrap">· {formatRemaining(progress.remainingMeters)}</span>
+            )}
+          </div>
+        )}
+
+        {latest ? (
+          <div className="space-y-0.5">
+            <p className="font-medium text-slate-800">{latest.message}</p>
+            {earlier.slice(0, 2).map((announcement, index) => (
+              <p key={index} className="text-xs text-slate-400 truncate">{announcement.message}</p>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-slate-500">Waiting for your GPS position…</p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+          <span className="inline-flex items-center gap-1 text-slate-500"><Route size={12} /> Simulate:</span>
+          {isSimulating ? (
+            <button
+              onClick={onStopSimulation}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-slate-100 text-slate-700 hover:bg-slate-200"
+            >
+              <CircleStop size={12} /> Stop replay
+            </button>
+          ) : (
+            <>
+              {SCENARIOS.map(({ scenario, label }) => (
+                <button
+                  key={scenario}
+                  onClick={() => onSimulate(scenario)}
+                  className="px-2 py-1 rounded-full bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+                >
+                  {label}
+                </button>
+              ))}
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-slate-100 text-slate-700 hover:bg-slate-200"
+              >
+                <Upload size={12} /> GPS track…
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".gpx,.json,application/gpx+xml,application/json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) onLoadTrack(file);
+                  e.target.value = '';
+                }}
+              />
+            </>
+          )}
+          {simulationError && <span className="text-red-600">{simulationError}</span>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TripFollowPanel;
@@ -0,0 +1,162 @@
+import React from 'react';
+import { TrainOption, TripPlan, TransitMode } from '../types';
+import { formatDuration, formatFareRange } from '../services/tripPlan';
+import { SEVERITY_COLORS, buildDelayCurve, describeCongestion } from '../services/traffic';
+import DelayCurve from './DelayCurve';
+import TrainTable from './TrainTable';
+import {
+  Bus, TrainFront, TramFront, Footprints, Car, CarTaxiFront, Ship, Bike,
+  CloudSun, Clock, Ruler, Wallet, Milestone, Shuffle, Hourglass, ArrowRight, TriangleAlert, TrafficCone
+} from 'lucide-react';
+
+interface TripPlanCardProps {
+  plan: TripPlan;
+  // Ways the plan breaks the user's preferences
+  conflicts?: string[];
+  // When the plan was made; waiting times in the delay curve count from here
+  plannedAt?: Date;
+  // Trains from a rail lookup, shown instead of the ones the model wrote into the plan
+  trains?: TrainOption[];
+}
+
+export const MODE_ICONS: Record<TransitMode, React.ReactNode> = {
+  WALK: <Footprints size={14} />,
+  BUS: <Bus size={14} />,
+  TRAIN: <TrainFront size={14} />,
+  METRO: <TramFront size={14} />,
+  AUTO: <Bike size={14} />,
+  CAB: <CarTaxiFront size={14} />,
+  CAR: <Car size={14} />,
+  FERRY: <Ship size={14} />,
+};
+
+const TripPlanCard: React.FC<TripPlanCardProps> = ({ plan, conflicts = [], plannedAt, trains = plan.trains ?? [] }) => {
+  const { fares } = plan;
+  const delayCurve = plannedAt ? buildDelayCurve(plan, plannedAt) : [];
+  const hasFares = !!(fares.bus || fares.train || fares.metro);
+  const hasTips = !!(plan.alternateRoute || plan.bestDepartureTime);
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white shadow-sm overflow-hidden text-sm">
+      {/* Route Title */}
+      <div className="px-4 py-3 bg-indigo-50/60 border-b border-indigo-100 flex items-center gap-2 font-semibold text-slate-800">
+        <span className="truncate">{plan.origin}</span>
+        <ArrowRight size={14} className="text-indigo-500 flex-shrink-0" />
+        <span className="truncate">{plan.destination}</span>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="px-4 py-2 bg-red-50 border-b border-red-100 text-xs text-red-800 space-y-1">
+          {conflicts.map(conflict => (
+            <div key={conflict} className="flex gap-2"><TriangleAlert size={14} className="flex-shrink-0 mt-0.5" /><span>{conflict}</span></div>
+          ))}
+        </div>
+      )}
+
+      {/* Trip Stats */}
+      <div className="px-4 py-3 flex flex-wrap gap-x-4 gap-y-2 text-xs text-slate-600 border-b border-slate-100">
+        {plan.weather && (
+          <Stat icon={<CloudSun size={14} />} label={`${plan.weather.condition}${plan.weather.temperatureC !== undefined ? `, ${plan.weather.temperatureC}°C` : ''}`} />
+        )}
+        {plan.totalDurationMinutes !== undefined && (
+          <Stat icon={<Clock size={14} />} label={formatDuration(plan.totalDurationMinutes)} />
+        )}
+        {plan.distanceKm !== undefined && <Stat icon={<Ruler size={14} />} label={`${plan.distanceKm} km`} />}
+        {plan.totalFare && <Stat icon={<Wallet size={14} />} label={formatFareRange(plan.totalFare)} />}
+        {plan.tolls !== undefined && (
+          <Stat icon={<Milestone size={14} />} label={plan.tolls ? `${plan.tolls} tolls` : 'No tolls'} />
+        )}
+      </div>
+
+      {/* Legs */}
+      {plan.legs.length > 0 && (
+        <ol className="px-4 py-3 space-y-2 border-b border-slate-100">
+          {plan.legs.map((leg, i) => (
+            <li key={i} className="flex items-start gap-3">
+              <div className="mt-0.5 w-6 h-6 rounded-full bg-slate-100 text-slate-600 flex items-center justify-center flex-shrink-0">
+                {MODE_ICONS[leg.mode]}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="font-medium text-slate-800">
+                  {leg.line ? <span className="text-indigo-700">{leg.line} · </span> : null}
+                  {leg.from} → {leg.to}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {[
+                    leg.departureTime && leg.arrivalTime ? `${leg.departureTime}–${leg.arrivalTime}` : leg.departureTime,
+                    leg.durationMinutes !== undefined ? formatDuration(leg.durationMinutes) : undefined,
+                    leg.distanceKm !== undefined ? `${leg.distanceKm} km` : undefined,
+                  ].filter(Boolean).join(' · ')}
+                </div>
+                {leg.instructions && <div className="text-xs text-slate-600 mt-0.5">{leg.instructions}</div>}
+                {leg.congestion && (
+                  <div className="flex items-start gap-1.5 text-xs text-slate-600 mt-0.5">
+                    <span
+                      className="mt-1 w-2 h-2 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: SEVERITY_COLORS[leg.congestion.severity] }}
+                    />
+                    <span>{describeCongestion(leg.congestion)}</span>
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Per-mode Fares */}
+      {hasFares && (
+        <div className="px-4 py-3 grid grid-cols-3 gap-2 border-b border-slate-100">
+          <FareTile icon={MODE_ICONS.BUS} label="Bus" value={fares.bus && formatFareRange(fares.bus)} />
+          <FareTile icon={MODE_ICONS.TRAIN} label="Train" value={fares.train && formatFareRange(fares.train)} />
+          <FareTile icon={MODE_ICONS.METRO} label="Metro" value={fares.metro && formatFareRange(fares.metro)} />
+        </div>
+      )}
+
+      {/* Trains */}
+      {trains.length > 0 && (
+        <div className="px-4 py-3 border-b border-slate-100 overflow-x-auto">
+          <TrainTable trains={trains} />
+        </div>
+      )}
+
+      {/* How waiting for traffic to ease changes the arrival time */}
+      {delayCurve.length > 0 && (
+        <div className="px-4 py-3 border-b border-slate-100 text-xs">
+          <div className="flex items-center gap-1.5 font-medium text-slate-700 mb-1">
+            <TrafficCone size={14} className="text-indigo-500" /> Leaving later
+          </div>
+          <DelayCurve points={delayCurve} />
+        </div>
+      )}
+
+      {/* Smart Tips */}
+      {hasTips && (
+        <div className="px-4 py-3 bg-amber-50/60 space-y-1.5 text-xs text-amber-900">
+          {plan.alternateRoute && (
+            <div className="flex gap-2"><Shuffle size={14} className="flex-shrink-0 mt-0.5" /><span><strong>Alt route:</strong> {plan.alternateRoute}</span></div>
+          )}
+          {plan.bestDepartureTime && (
+            <div className="flex gap-2"><Hourglass size={14} className="flex-shrink-0 mt-0.5" /><span><strong>Best time to leave:</strong> {plan.bestDepartureTime}</span></div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Stat = ({ icon, label }: { icon: React.ReactNode, label: string }) => (
+  <span className="flex items-center gap-1.5">
+    <span className="text-indigo-500">{icon}</span>
+    {label}
+  </span>
+);
+
+const FareTile = ({ icon, label, value }: { icon: React.ReactNode, label: string, value?: string }) => (
+  <div className="rounded-lg bg-slate-50 border border-slate-100 px-2 py-1.5">
+    <div className="flex items-center gap-1 text-[11px] text-slate-500">{icon}{label}</div>
+    <div className={`font-semibold ${value ? 'text-slate-800' : 'text-slate-400'}`}>{value ?? 'N/A'}</div>
+  </div>
+);
+
+export default TripPlanCard;
@@ -0,0 +1,186 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import { TripPlan } from '../types';
+import { formatDuration, formatFareRange } from '../services/tripPlan';
+import { formatMeters, MODE_LABELS } from '../services/preferences';
+import { getPlanTimes } from '../services/tripExport';
+
+interface TripSheetProps {
+  plan: TripPlan;
+  // The assistant's reply, printed as notes under the plan
+  notes?: string;
+  suggestedAt: Date;
+}
+
+// Plain print styles; the sheet opens in its own window without the app's Tailwind
+const SHEET_STYLES = `
+  body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #1e293b; margin: 2rem auto; max-width: 46rem; padding: 0 1rem; font-size: 14px; line-height: 1.45; }
+  h1 { font-size: 1.4rem; margin: 0 0 .25rem; }
+  h2 { font-size: .8rem; text-transform: uppercase; letter-spacing: .05em; color: #64748b; margin: 1.5rem 0 .5rem; border-bottom: 1px solid #e2e8f0; padding-bottom: .25rem; }
+  .meta { color: #475569; margin: 0; }
+  .stats { display: flex; flex-wrap: wrap; gap: .25rem 1.25rem; margin-top: .75rem; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: .35rem .5rem .35rem 0; vertical-align: top; border-bottom: 1px solid #f1f5f9; }
+  th { font-size: .75rem; color: #64748b; font-weight: 600; }
+  .muted { color: #64748b; font-size: .85em; }
+  ol { padding-left: 1.25rem; }
+  .notes { font-size: .9em; }
+  footer { margin-top: 2rem; font-size: .75rem; color: #94a3b8; }
+  @media print { body { margin: 0 auto; } a { color: inherit; text-decoration: none; } }
+`;
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+/**
+ * A one-page summary of a plan for printing or saving as PDF: times, every leg, walking
+ * directions, fares and trains.
+ */
+const TripSheet: React.FC<TripSheetProps> = ({ plan, notes, suggestedAt }) => {
+  const times = getPlanTimes(plan, suggestedAt);
+  const walks = plan.legs.filter(leg => leg.mode === 'WALK');
+  const fares = [
+    plan.fares.bus && ['Bus', plan.fares.bus],
+    plan.fares.train && ['Train', plan.fares.train],
+    plan.fares.metro && ['Metro', plan.fares.metro],
+  ].filter(Boolean) as [string, NonNullable<TripPlan['totalFare']>][];
+
+  return (
+    <>
+      <h1>{plan.origin} → {plan.destination}</h1>
+      <p className="meta">
+        {times
+          ? `${times.leaveAt.toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long' })} · leave by ${formatClock(times.leaveAt)}` +
+            (times.arrival ? ` · arrive around ${formatClock(times.arrival)}` : '')
+          : `Planned ${suggestedAt.toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`}
+      </p>
+      <div className="stats">
+        {plan.totalDurationMinutes !== undefined && <span>Duration: <strong>{formatDuration(plan.totalDurationMinutes)}</strong></span>}
+        {plan.distanceKm !== undefined && <span>Distance: <strong>{plan.distanceKm} km</strong></span>}
+        {plan.totalFare && <span>Fare: <strong>{formatFareRange(plan.totalFare)}</strong></span>}
+        {plan.tolls !== undefined && <span>{plan.tolls ? `${plan.tolls} tolls` : 'No tolls'}</span>}
+        {plan.weather && (
+          <span>{plan.weather.condition}{plan.weather.temperatureC !== undefined ? `, ${plan.weather.temperatureC}°C` : ''}</span>
+        )}
+      </div>
+
+      {plan.legs.length > 0 && (
+        <>
+          <h2>Route</h2>
+          <table>
+            <thead>
+              <tr><th>#</th><th>Mode</th><th>From → To</th><th>Time</th><th>Details</th></tr>
+            </thead>
+            <tbody>
+              {plan.legs.map((leg, i) => (
+                <tr key={i}>
+                  <td>{i + 1}</td>
+                  <td>{MODE_LABELS[leg.mode]}{leg.line ? <div className="muted">{leg.line}</div> : null}</td>
+                  <td>
+                    {leg.from} → {leg.to}
+                    {leg.instructions && <div className="muted">{leg.instructions}</div>}
+                  </td>
+                  <td>{leg.departureTime && leg.arrivalTime ? `${leg.departureTime}–${leg.arrivalTime}` : leg.departureTime ?? ''}</td>
+                  <td className="muted">
+                    {[
+                      leg.durationMinutes !== undefined ? formatDuration(leg.durationMinutes) : undefined,
+                      leg.distanceKm !== undefined ? `${leg.distanceKm} km` : undefined,
+                    ].filter(Boolean).join(' · ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {walks.length > 0 && (
+        <>
+          <h2>Walking directions</h2>
+          <ol>
+            {walks.map((leg, i) => (
+              <li key={i}>
+                <strong>{leg.from} → {leg.to}</strong>
+                {leg.distanceKm !== undefined && ` (${formatMeters(Math.round(leg.distanceKm * 1000))})`}
+                {leg.durationMinutes !== undefined && `, about ${formatDuration(leg.durationMinutes)}`}
+                <div>{leg.instructions || 'Follow the signs or ask locally; no turn-by-turn directions were given.'}</div>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+
+      {(fares.length > 0 || plan.totalFare) && (
+        <>
+          <h2>Fares</h2>
+          <table>
+            <tbody>
+              {fares.map(([label, fare]) => (
+                <tr key={label}><td>{label}</td><td>{formatFareRange(fare)}</td></tr>
+              ))}
+              {plan.totalFare && <tr><td><strong>Total for this plan</strong></td><td><strong>{formatFareRange(plan.totalFare)}</strong></td></tr>}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {plan.trains && plan.trains.length > 0 && (
+        <>
+          <h2>Trains</h2>
+          <table>
+            <thead>
+              <tr><th>Train</th><th>Departs</th><th>Arrives</th><th>Duration</th><th>Fare</th></tr>
+            </thead>
+            <tbody>
+              {plan.trains.map(train => (
+                <tr key={train.number}>
+                  <td>{train.number} {train.name}</td>
+                  <td>{train.departureTime ?? ''}</td>
+                  <td>{train.arrivalTime ?? ''}</td>
+                  <td>{train.durationMinutes !== undefined ? formatDuration(train.durationMinutes) : ''}</td>
+                  <td>{train.fare ? formatFareRange(train.fare) : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {(plan.bestDepartureTime || plan.alternateRoute) && (
+        <>
+          <h2>Tips</h2>
+          {plan.bestDepartureTime && <p>Best time to leave: {plan.bestDepartureTime}</p>}
+          {plan.alternateRoute && <p>Alternative: {plan.alternateRoute}</p>}
+        </>
+      )}
+
+      {notes && (
+        <>
+          <h2>Notes</h2>
+          <div className="notes"><ReactMarkdown>{notes}</ReactMarkdown></div>
+        </>
+      )}
+
+      <footer>Printed from EasyTra. Times and fares are estimates; check with the operator before you travel.</footer>
+    </>
+  );
+};
+
+/**
+ * Opens the plan's trip sheet in a new window and brings up the print dialog, where it
+ * can also be saved as a PDF.
+ */
+export const openTripSheet = (plan: TripPlan, suggestedAt: Date, notes?: string) => {
+  const body = renderToStaticMarkup(<TripSheet plan={plan} notes={notes} suggestedAt={suggestedAt} />);
+  const title = `${plan.origin} to ${plan.destination}`.replace(/[<&>]/g, '');
+  const html = `<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8" /><title>${title}</title>` +
+    `<style>${SHEET_STYLES}</style></head><body>${body}<script>window.onload = () => window.print();</script></body></html>`;
+
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  window.open(url, '_blank');
+  // The new window has loaded the document by then
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
+
+export default TripSheet;
@@ -0,0 +1,25 @@
+// Service worker for leave-by reminders and commute briefings. The app schedules both
+// itself and shows them through this worker's registration; here we only handle clicks,
+// bringing the app forward (or reopening it) on the matching panel.
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const data = event.notification.data || {};
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) {
+      await windows[0].focus();
+      windows[0].postMessage({ type: 'notification-clicked', ...data });
+      return;
+    }
+    const query = data.commuteId
+      ? `commute=${encodeURIComponent(data.commuteId)}`
+      : `reminder=${encodeURIComponent(data.reminderId || '')}`;
+    await self.clients.openWindow(`/?${query}`);
+  })());
+});
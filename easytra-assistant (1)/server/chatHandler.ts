@@ -0,0 +1,342 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { ApiError, GoogleGenAI } from "@google/genai";
+import {
+  AssistantErrorKind, ChatProxyRequest, ChatStreamEvent, GroundingChunk, GroundingSupport, LocationSharing, TokenUsage, ToolCall,
+  ToolTurn, TravelClass, TripOrigin, UserPreferences,
+} from "../types";
+import { LOCAL_TOOL_DECLARATIONS, LOCAL_TOOL_NAMES, MAX_TOOL_ROUNDS } from "../services/toolDeclarations";
+import { MAX_HISTORY_SUMMARY_CHARS } from "../services/contextBudget";
+import { ROUTE_GOALS, TRAVEL_CLASS_LABELS, isGoalWeight, withPreferenceDefaults } from "../services/preferences";
+import { TRANSIT_MODES, asObject } from "../services/tripPlan";
+import { getSystemInstruction } from "./systemInstruction";
+import { RateLimiter } from "./rateLimiter";
+import { sendJson } from "./http";
+
+const MODEL_NAME = 'gemini-2.5-flash';
+
+// Generous enough for long planning sessions, small enough to reject abuse early
+const MAX_BODY_BYTES = 512 * 1024;
+
+// Device-computed context is pasted into the system instruction, so keep it bounded
+const MAX_LOCAL_CONTEXT_CHARS = 8000;
+
+// Finish reasons that mean the safety filters cut the reply off
+const BLOCKED_FINISH_REASONS: string[] = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+export interface ChatHandlerOptions {
+  apiKey: string;
+  rateLimiter: RateLimiter;
+  // Addresses of reverse proxies whose X-Forwarded-For header can be believed
+  trustedProxies?: string[];
+}
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+
+const isToolTurn = (value: unknown): value is ToolTurn => {
+  const turn = asObject(value);
+  return !!turn && typeof turn.text === 'string' && Array.isArray(turn.calls) &&
+    turn.calls.every(item => {
+      const record = asObject(item);
+      const call = asObject(record?.call);
+      return typeof call?.name === 'string' && !!asObject(call.args) && !!asObject(record!.result);
+    });
+};
+
+// The origin's name and address go into the system instruction too
+const MAX_ORIGIN_TEXT_CHARS = 300;
+
+const ORIGIN_SOURCES: TripOrigin['source'][] = ['GPS', 'SAVED_PLACE', 'MANUAL'];
+
+const isOriginText = (value: unknown) => typeof value === 'string' && value.length <= MAX_ORIGIN_TEXT_CHARS;
+
+const isTripOrigin = (value: unknown): value is TripOrigin => {
+  const origin = asObject(value);
+  if (!origin || !isOneOf(ORIGIN_SOURCES, origin.source) || !isOriginText(origin.name)) return false;
+  if (origin.address !== undefined && !isOriginText(origin.address)) return false;
+  const location = asObject(origin.location);
+  return origin.location === undefined || (!!location && Number.isFinite(location.lat) && Number.isFinite(location.lng));
+};
+
+const LOCATION_SHARING: LocationSharing[] = ['PRECISE', 'APPROXIMATE', 'NEVER'];
+const TRAVEL_CLASSES = Object.keys(TRAVEL_CLASS_LABELS) as TravelClass[];
+const PREFERENCE_FLAGS = ['accessibilityRequired', 'useCurrentLocation', 'hasLuggage', 'withChildren'];
+
+const isModeList = (value: unknown) => Array.isArray(value) && value.every(mode => isOneOf(TRANSIT_MODES, mode));
+
+const isGoalWeights = (value: unknown) => {
+  const weights = asObject(value);
+  return !!weights && Object.keys(weights).every(goal => isOneOf(ROUTE_GOALS, goal) && isGoalWeight(weights[goal]));
+};
+
+// Limits are a plain number of metres or rupees, or null for none
+const isLimit = (value: unknown) => value === null || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+
+/**
+ * The preferences end up in the system instruction, so every field must be one of the
+ * values the app itself sends. Fields left out get their defaults; anything else rejects
+ * the request.
+ */
+const toPreferences = (value: unknown): UserPreferences | undefined => {
+  const raw = asObject(value);
+  if (!raw) return undefined;
+  const optional = (key: string, isValid: (field: unknown) => boolean) => raw[key] === undefined || isValid(raw[key]);
+  const isValid =
+    optional('routePreference', field => isOneOf(ROUTE_GOALS, field)) &&
+    optional('goalWeights', isGoalWeights) &&
+    optional('locationSharing', field => isOneOf(LOCATION_SHARING, field)) &&
+    optional('travelClass', field => isOneOf(TRAVEL_CLASSES, field)) &&
+    optional('preferredModes', isModeList) &&
+    optional('avoidedModes', isModeList) &&
+    optional('maxWalkingMeters', isLimit) &&
+    optional('fareBudget', isLimit) &&
+    PREFERENCE_FLAGS.every(key => optional(key, field => typeof field === 'boolean'));
+  return isValid ? withPreferenceDefaults(raw as Partial<UserPreferences>) : undefined;
+};
+
+const isHistoryMessage = (value: unknown) => {
+  const message = asObject(value);
+  return !!message && (message.role === 'user' || message.role === 'model') && typeof message.text === 'string';
+};
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+/**
+ * Checks a parsed request body field by field. Returns it with the preferences normalised,
+ * or undefined if anything is missing or malformed.
+ */
+const toChatProxyRequest = (value: unknown): ChatProxyRequest | undefined => {
+  const body = asObject(value);
+  if (!body || typeof body.message !== 'string' || !body.message.trim()) return undefined;
+  if (!Array.isArray(body.history) || !body.history.every(isHistoryMessage)) return undefined;
+  if (!(body.origin === null || body.origin === undefined || isTripOrigin(body.origin))) return undefined;
+  if (!isOptionalString(body.localContext) || !isOptionalString(body.historySummary)) return undefined;
+  if (!(body.tools === undefined || (Array.isArray(body.tools) && body.tools.every(name => isOneOf(LOCAL_TOOL_NAMES, name))))) return undefined;
+  if (!(body.toolTurns === undefined ||
+    (Array.isArray(body.toolTurns) && body.toolTurns.length <= MAX_TOOL_ROUNDS && body.toolTurns.every(isToolTurn)))) return undefined;
+
+  const preferences = toPreferences(body.preferences);
+  return preferences && { ...(body as unknown as ChatProxyRequest), preferences };
+};
+
+/**
+ * Replays earlier rounds of the tool loop: the model's function calls, then the results
+ * the client computed, as Gemini expects them in the conversation.
+ */
+const toolTurnContents = (turns: ToolTurn[]) => turns.flatMap(turn => [
+  {
+    role: 'model',
+    parts: [
+      ...(turn.text ? [{ text: turn.text }] : []),
+      ...turn.calls.map(({ call }) => ({
+        functionCall: { id: call.id, name: call.name, args: call.args },
+        thoughtSignature: call.signature,
+      })),
+    ],
+  },
+  {
+    role: 'user',
+    parts: turn.calls.map(({ call, result }) => ({
+      functionResponse: { id: call.id, name: call.name, response: result },
+    })),
+  },
+]);
+
+/**
+ * Sorts a failed Gemini call into the categories the client explains to the user. Anything
+ * unrecognised is treated as the model being unavailable, which the client retries.
+ */
+const classifyUpstreamError = (error: unknown): AssistantErrorKind => {
+  if (error instanceof ApiError) {
+    if (error.status === 429) return 'QUOTA';
+    // Gemini rejects a bad key with a plain 400
+    if (error.status === 401 || error.status === 403 || /api key/i.test(error.message)) return 'AUTH';
+    if (error.status === 400) return 'BAD_REQUEST';
+  }
+  return 'UNAVAILABLE';
+};
+
+// IPv4 clients of a dual-stack socket show up as "::ffff:1.2.3.4"
+const normalizeAddress = (address: string) => address.trim().replace(/^::ffff:/, '');
+
+/**
+ * The address requests are rate-limited by. Clients can write anything into
+ * X-Forwarded-For, so it is only read when the request came through a trusted proxy, and
+ * then the last address no trusted proxy added is taken.
+ */
+const getClientId = (req: IncomingMessage, trustedProxies: string[]): string => {
+  const remote = req.socket.remoteAddress ? normalizeAddress(req.socket.remoteAddress) : 'unknown';
+  if (!trustedProxies.includes(remote)) return remote;
+  const forwarded = req.headers['x-forwarded-for'];
+  const chain = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '')
+    .split(',').map(normalizeAddress).filter(Boolean);
+  return [...chain].reverse().find(address => !trustedProxies.includes(address)) ?? remote;
+};
+
+/**
+ * Handles POST /api/chat: validates the request, applies the per-client rate limit and
+ * streams Gemini's reply back as newline-delimited ChatStreamEvents.
+ */
+export const createChatHandler = ({ apiKey, rateLimiter, trustedProxies = [] }: ChatHandlerOptions) => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed' }, { Allow: 'POST' });
+      return;
+    }
+
+    const retryAfter = rateLimiter.check(getClientId(req, trustedProxies.map(normalizeAddress)));
+    if (retryAfter > 0) {
+      sendJson(res, 429, { error: 'Too many requests', code: 'RATE_LIMITED' }, { 'Retry-After': String(retryAfter) });
+      return;
+    }
+
+    let body: ChatProxyRequest;
+    try {
+      const parsed = toChatProxyRequest(JSON.parse(await readBody(req)));
+      if (!parsed) {
+        sendJson(res, 400, { error: 'Invalid chat request', code: 'BAD_REQUEST' });
+        return;
+      }
+      body = parsed;
+    } catch (error) {
+      sendJson(res, 400, { error: 'Invalid chat request', code: 'BAD_REQUEST' });
+      return;
+    }
+
+    const { history, message, preferences, origin = null, toolTurns = [] } = body;
+    // The last allowed round gets no tools, so the model has to answer
+    const toolNames = toolTurns.length < MAX_TOOL_ROUNDS ? body.tools ?? [] : [];
+    const functionDeclarations = LOCAL_TOOL_DECLARATIONS
+      .filter(tool => toolNames.includes(tool.name))
+      .map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters }));
+    const localContext = body.localContext?.slice(0, MAX_LOCAL_CONTEXT_CHARS);
+    const historySummary = body.historySummary?.slice(0, MAX_HISTORY_SUMMARY_CHARS);
+
+    // Stop generating if the browser goes away (e.g. the user pressed stop)
+    const controller = new AbortController();
+    res.on('close', () => controller.abort());
+
+    const writeEvent = (event: ChatStreamEvent) => {
+      if (!res.writableEnded) res.write(JSON.stringify(event) + '\n');
+    };
+
+    res.writeHead(200, {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    });
+
+    try {
+      // If we know where the user is starting from (GPS or a place they picked), we pass it
+      // to the toolConfig so Google Maps grounding can provide relevant nearby results.
+      const toolConfig = origin?.location ? {
+        retrievalConfig: {
+          latLng: {
+            latitude: origin.location.lat,
+            longitude: origin.location.lng
+          }
+        }
+      } : undefined;
+
+      const stream = await ai.models.generateContentStream({
+        model: MODEL_NAME,
+        config: {
+          systemInstruction: getSystemInstruction(preferences, origin, localContext, toolNames, historySummary, body.tools ?? []),
+          // Enable both Google Search and Google Maps Grounding, plus the device's local tools
+          tools: [
+            { googleSearch: {} },
+            { googleMaps: {} },
+            ...(functionDeclarations.length ? [{ functionDeclarations }] : []),
+          ],
+          toolConfig: toolConfig,
+          abortSignal: controller.signal,
+        },
+        contents: [
+          ...history
+            .filter(m => m.text.trim())
+            .map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+          { role: 'user', parts: [{ text: message }] },
+          ...toolTurnContents(toolTurns),
+        ],
+      });
+
+      let groundingChunks: GroundingChunk[] | undefined;
+      let groundingSupports: GroundingSupport[] | undefined;
+      const calls: ToolCall[] = [];
+      let isBlocked = false;
+      let usage: TokenUsage | undefined;
+      for await (const chunk of stream) {
+        // Counts are running totals; the last chunk has the final ones
+        if (chunk.usageMetadata?.totalTokenCount) {
+          usage = {
+            promptTokens: chunk.usageMetadata.promptTokenCount ?? 0,
+            replyTokens: chunk.usageMetadata.candidatesTokenCount ?? 0,
+            totalTokens: chunk.usageMetadata.totalTokenCount,
+          };
+        }
+        const finishReason = chunk.candidates?.[0]?.finishReason;
+        if (chunk.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+          isBlocked = true;
+        }
+
+        if (chunk.text) writeEvent({ type: 'text', text: chunk.text });
+
+        for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+          if (part.functionCall?.name) {
+            calls.push({
+              id: part.functionCall.id,
+              name: part.functionCall.name,
+              args: part.functionCall.args ?? {},
+              signature: part.thoughtSignature,
+            });
+          }
+        }
+
+        const metadata = chunk.candidates?.[0]?.groundingMetadata;
+        const chunkSources = metadata?.groundingChunks as GroundingChunk[] | undefined;
+        if (chunkSources?.length) groundingChunks = chunkSources;
+        // Segment offsets are UTF-8 byte positions in the raw reply, so the quoted text is
+        // kept instead and the client finds it again
+        const supports = metadata?.groundingSupports
+          ?.filter(support => support.segment?.text && support.groundingChunkIndices?.length)
+          .map((support): GroundingSupport => ({
+            text: support.segment!.text!,
+            chunkIndices: support.groundingChunkIndices!,
+            confidence: support.confidenceScores?.length ? support.confidenceScores : undefined,
+          }));
+        if (supports?.length) groundingSupports = supports;
+      }
+
+      if (isBlocked) {
+        writeEvent({ type: 'error', message: 'Blocked by safety filters', code: 'SAFETY' });
+        return;
+      }
+      if (calls.length) writeEvent({ type: 'tool_calls', calls });
+      writeEvent({ type: 'done', groundingChunks, groundingSupports, usage });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error("Gemini API Error:", error);
+        writeEvent({ type: 'error', message: 'Upstream model request failed', code: classifyUpstreamError(error) });
+      }
+    } finally {
+      res.end();
+    }
+  };
+};
@@ -0,0 +1,51 @@
+import { IncomingMessage, ServerResponse, createServer } from "node:http";
+import { loadEnv } from "vite";
+import { createChatHandler } from "./chatHandler";
+import { createRateLimiter } from "./rateLimiter";
+import { createRealtimeHandler } from "./realtimeHandler";
+import { sendJson } from "./http";
+
+// Read the same .env / .env.local files as the Vite dev server
+const env = loadEnv(process.env.NODE_ENV ?? 'development', process.cwd(), '');
+
+const apiKey = env.GEMINI_API_KEY;
+
+// Comma-separated GTFS-Realtime feed URLs or local .pb files
+const realtimeSources = (env.GTFS_RT_SOURCES ?? '').split(',').map(s => s.trim()).filter(Boolean);
+
+// Without a key the server can still serve realtime feeds, e.g. for the offline demo
+if (!apiKey && realtimeSources.length === 0) {
+  console.error("GEMINI_API_KEY is not set. Add it to .env.local or the environment.");
+  process.exit(1);
+}
+
+const port = Number(env.API_PORT) || 8787;
+const rateLimiter = createRateLimiter(
+  Number(env.RATE_LIMIT_MAX_REQUESTS) || 20,
+  Number(env.RATE_LIMIT_WINDOW_MS) || 60_000
+);
+// Comma-separated addresses of reverse proxies in front of the server; only their
+// X-Forwarded-For headers are used to tell clients apart
+const trustedProxies = (env.TRUSTED_PROXIES ?? '').split(',').map(s => s.trim()).filter(Boolean);
+const handleChat = apiKey
+  ? createChatHandler({ apiKey, rateLimiter, trustedProxies })
+  : (_req: IncomingMessage, res: ServerResponse) => sendJson(res, 503, { error: 'Chat is not configured', code: 'AUTH' });
+const handleRealtime = createRealtimeHandler({ sources: realtimeSources });
+
+const server = createServer((req, res) => {
+  const path = req.url?.split('?')[0];
+  if (path === '/api/chat') {
+    handleChat(req, res);
+    return;
+  }
+  if (path === '/api/realtime') {
+    handleRealtime(req, res);
+    return;
+  }
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+server.listen(port, () => {
+  console.log(`EasyTra API listening on http://localhost:${port}`);
+  if (!apiKey) console.warn("GEMINI_API_KEY is not set; only /api/realtime is available.");
+});
@@ -0,0 +1,38 @@
+/**
+ * Fixed-window request counter keyed by client. Kept in memory, so limits reset when the
+ * server restarts and aren't shared between instances.
+ */
+export interface RateLimiter {
+  // Returns 0 if the request may proceed, otherwise the seconds until the window resets
+  check: (clientId: string) => number;
+}
+
+export const createRateLimiter = (maxRequests: number, windowMs: number): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    check: (clientId: string) => {
+      const now = Date.now();
+      const current = windows.get(clientId);
+
+      if (!current || now - current.start >= windowMs) {
+        windows.set(clientId, { start: now, count: 1 });
+
+        // Drop expired entries now and then so idle clients don't accumulate forever
+        if (windows.size > 1000) {
+          for (const [id, w] of windows) {
+            if (now - w.start >= windowMs) windows.delete(id);
+          }
+        }
+        return 0;
+      }
+
+      if (current.count >= maxRequests) {
+        return Math.ceil((current.start + windowMs - now) / 1000);
+      }
+
+      current.count += 1;
+      return 0;
+    },
+  };
+};
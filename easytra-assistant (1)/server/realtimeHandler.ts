@@ -0,0 +1,48 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { readFile } from "node:fs/promises";
+import { sendJson } from "./http";
+
+// Upstream feeds that don't answer in time are reported as errors rather than left hanging
+const FETCH_TIMEOUT_MS = 10_000;
+
+export interface RealtimeHandlerOptions {
+  // GTFS-Realtime feed URLs or local .pb file paths
+  sources: string[];
+}
+
+const readSource = async (source: string): Promise<Buffer> => {
+  if (!/^https?:\/\//i.test(source)) {
+    // Local files are re-read on every request, so replacing the file simulates an update
+    return readFile(source);
+  }
+  const response = await fetch(source, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  if (!response.ok) throw new Error(`${source} returned HTTP ${response.status}`);
+  return Buffer.from(await response.arrayBuffer());
+};
+
+/**
+ * Handles GET /api/realtime: serves the configured GTFS-Realtime feeds as a single
+ * protobuf. Concatenated FeedMessages decode as one message with every entity, so trip
+ * updates, vehicle positions and alerts published separately arrive together. Only the
+ * configured sources can be fetched, and upstream CORS rules don't apply.
+ */
+export const createRealtimeHandler = ({ sources }: RealtimeHandlerOptions) =>
+  async (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: 'Method not allowed' }, { Allow: 'GET' });
+      return;
+    }
+    if (sources.length === 0) {
+      sendJson(res, 404, { error: 'No realtime feeds configured. Set GTFS_RT_SOURCES.' });
+      return;
+    }
+
+    try {
+      const parts = await Promise.all(sources.map(readSource));
+      res.writeHead(200, { 'Content-Type': 'application/x-protobuf', 'Cache-Control': 'no-store' });
+      res.end(Buffer.concat(parts));
+    } catch (error) {
+      console.error("Realtime feed error:", error);
+      sendJson(res, 502, { error: 'Could not load the realtime feed' });
+    }
+  };
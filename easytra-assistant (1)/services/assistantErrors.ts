@@ -0,0 +1,83 @@
+import { AssistantErrorKind } from "../types";
+
+export const ASSISTANT_ERROR_KINDS: AssistantErrorKind[] = [
+  'NETWORK', 'TIMEOUT', 'UNAVAILABLE', 'RATE_LIMITED', 'QUOTA', 'AUTH', 'SAFETY', 'BAD_REQUEST',
+];
+
+const ERROR_MESSAGES: Record<AssistantErrorKind, string> = {
+  NETWORK: "I couldn't reach the EasyTra server. Check your internet connection and try again.",
+  TIMEOUT: 'The assistant took too long to answer. Please try again.',
+  UNAVAILABLE: "The assistant is busy or having trouble right now. Please try again in a moment.",
+  RATE_LIMITED: "You're sending requests a little too quickly. Please wait a minute and try again.",
+  QUOTA: "The assistant has used up its request quota for now. Please try again later.",
+  AUTH: "The assistant isn't set up correctly: the server's API key is missing or was rejected.",
+  SAFETY: "I can't help with that request as written. Try rephrasing it.",
+  BAD_REQUEST: "That request couldn't be processed. Try rephrasing it, or start a new conversation.",
+};
+
+// How a reply that was cut off mid-stream is labelled
+const PARTIAL_REPLY_LABELS: Partial<Record<AssistantErrorKind, string>> = {
+  TIMEOUT: 'Timed out — this reply is incomplete.',
+  SAFETY: 'Stopped by the safety filter — this reply is incomplete.',
+  QUOTA: 'Quota used up — this reply is incomplete.',
+};
+
+// These usually clear up on their own within seconds
+const TRANSIENT_KINDS: AssistantErrorKind[] = ['NETWORK', 'TIMEOUT', 'UNAVAILABLE', 'RATE_LIMITED'];
+
+export const MAX_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 1000;
+// Anything that needs a longer wait is left to the user
+const MAX_RETRY_DELAY_MS = 10_000;
+
+/**
+ * A failed assistant request, with a message fit to show the user.
+ */
+export class AssistantError extends Error {
+  readonly kind: AssistantErrorKind;
+  // From the server's Retry-After header, when it sent one
+  readonly retryAfterMs?: number;
+
+  constructor(kind: AssistantErrorKind, retryAfterMs?: number) {
+    super(ERROR_MESSAGES[kind]);
+    this.name = 'AssistantError';
+    this.kind = kind;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export const isAssistantErrorKind = (value: unknown): value is AssistantErrorKind =>
+  ASSISTANT_ERROR_KINDS.includes(value as AssistantErrorKind);
+
+// Anything that isn't already classified (a failed fetch, a garbled stream) is a network error
+export const toAssistantError = (error: unknown): AssistantError =>
+  error instanceof AssistantError ? error : new AssistantError('NETWORK');
+
+export const getPartialReplyLabel = (kind?: AssistantErrorKind) =>
+  (kind && PARTIAL_REPLY_LABELS[kind]) ?? 'Connection lost — this reply is incomplete.';
+
+/**
+ * How long to wait before retrying attempt `attempt` (0 for the first retry), or undefined
+ * when the error shouldn't be retried. Delays double each time with some jitter, or follow
+ * the server's Retry-After.
+ */
+export const getRetryDelay = (error: AssistantError, attempt: number): number | undefined => {
+  if (!TRANSIENT_KINDS.includes(error.kind) || attempt >= MAX_RETRIES) return undefined;
+  const delay = error.retryAfterMs ?? BASE_RETRY_DELAY_MS * 2 ** attempt * (1 + Math.random() / 2);
+  return delay <= MAX_RETRY_DELAY_MS ? Math.round(delay) : undefined;
+};
+
+// Resolves after `ms`, or straight away once `signal` is aborted
+export const waitFor = (ms: number, signal?: AbortSignal): Promise<void> => new Promise(resolve => {
+  if (signal?.aborted) {
+    resolve();
+    return;
+  }
+  const done = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  signal?.addEventListener('abort', done);
+});
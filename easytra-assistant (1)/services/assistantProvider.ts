@@ -0,0 +1,50 @@
+import { AssistantReply, AssistantRequest, TransitAssistantProvider } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+const PROVIDERS: Record<string, TransitAssistantProvider> = {
+  [geminiProvider.id]: geminiProvider,
+  [mockProvider.id]: mockProvider,
+};
+
+const DEFAULT_PROVIDER_ID = geminiProvider.id;
+
+export const listAssistantProviders = (): TransitAssistantProvider[] => Object.values(PROVIDERS);
+
+/**
+ * Resolves the assistant backend. A `?provider=` URL parameter wins (handy for demos),
+ * then the ASSISTANT_PROVIDER environment variable, then Gemini.
+ */
+export const getAssistantProvider = (): TransitAssistantProvider => {
+  const fromUrl = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('provider')
+    : null;
+  const id = fromUrl || process.env.ASSISTANT_PROVIDER || DEFAULT_PROVIDER_ID;
+
+  // Own keys only: ?provider=constructor would otherwise find Object
+  if (!Object.hasOwn(PROVIDERS, id)) {
+    console.warn(`Unknown assistant provider "${id}", falling back to ${DEFAULT_PROVIDER_ID}.`);
+    return PROVIDERS[DEFAULT_PROVIDER_ID];
+  }
+  return PROVIDERS[id];
+};
+
+/**
+ * Sends a one-off request outside the chat (no history, nothing streamed to the screen),
+ * giving up after `timeoutMs`. Used for reminder rechecks and commute briefings.
+ */
+export const askInBackground = async (
+  provider: TransitAssistantProvider,
+  request: Omit<AssistantRequest, 'history' | 'signal' | 'onText'>,
+  timeoutMs: number
+): Promise<AssistantReply> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const reply = await provider.sendMessage({ ...request, history: [], signal: controller.signal });
+    if (reply.stopped) throw new Error('The assistant took too long to reply');
+    return reply;
+  } finally {
+    clearTimeout(timer);
+  }
+};
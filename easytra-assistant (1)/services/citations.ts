@@ -0,0 +1,107 @@
+import { GroundingChunk, GroundingSupport } from "../types";
+
+// Citations whose best confidence is below this are shown as weak
+const LOW_CONFIDENCE = 0.5;
+
+// Figures a traveller acts on: fares, clock times, durations, distances and train numbers
+const CLAIM_PATTERN = /₹\s?\d|\b\d{1,2}:\d{2}\b|\b\d+(\.\d+)?\s?(mins?|minutes|hrs?|hours|km|m)\b|\b\d+h\b|\b\d{5}\b/i;
+
+// Citation markers are inserted into the markdown as links to these fragments, so the
+// renderer can tell them apart from ordinary links
+const SOURCE_HREF_PREFIX = '#source-';
+const LOW_CONFIDENCE_SUFFIX = '-low';
+export const UNSOURCED_HREF = '#unsourced';
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+export interface Citation {
+  // Index into the message's groundingChunks
+  chunkIndex: number;
+  lowConfidence: boolean;
+}
+
+export interface AnnotatedReply {
+  markdown: string;
+  // Sentences with figures that no source backs up
+  unsourcedClaims: number;
+}
+
+export const sourceNumber = (chunkIndex: number) => chunkIndex + 1;
+
+export const parseCitationHref = (href?: string): Citation | undefined => {
+  const match = href?.match(/^#source-(\d+)(-low)?$/);
+  return match ? { chunkIndex: Number(match[1]) - 1, lowConfidence: !!match[2] } : undefined;
+};
+
+const citationMarker = (chunkIndex: number, lowConfidence: boolean) =>
+  `[${sourceNumber(chunkIndex)}](${SOURCE_HREF_PREFIX}${sourceNumber(chunkIndex)}${lowConfidence ? LOW_CONFIDENCE_SUFFIX : ''})`;
+
+// A full stop followed by a space ends a sentence, except after these abbreviations
+const SENTENCE_PATTERN = /.+?(?:(?<!\b(?:est|approx|rs|no|st|rd|vs|dep|arr|mr|dr))[.!?](?=\s|$)|$)/gim;
+
+/**
+ * Sentences of the reply with their offsets. Decimal points and times don't end a
+ * sentence; line breaks always do.
+ */
+const splitSentences = (text: string): Span[] => {
+  const spans: Span[] = [];
+  for (const match of text.matchAll(SENTENCE_PATTERN)) {
+    const sentence = match[0];
+    const leading = sentence.length - sentence.trimStart().length;
+    const trimmed = sentence.trim();
+    if (!trimmed) continue;
+    spans.push({ start: match.index! + leading, end: match.index! + leading + trimmed.length });
+  }
+  return spans;
+};
+
+export const hasFactualClaims = (text: string) => CLAIM_PATTERN.test(text);
+
+/**
+ * Inserts numbered citation markers after each grounded span of the reply, and flags
+ * sentences with figures that no grounded span covers. Supports whose text can't be found
+ * (e.g. quoted from a structured block that was stripped) are skipped.
+ */
+export const annotateCitations = (
+  text: string,
+  chunks: GroundingChunk[],
+  supports: GroundingSupport[]
+): AnnotatedReply => {
+  const insertions = new Map<number, string[]>();
+  const insert = (position: number, marker: string) => {
+    const markers = insertions.get(position) ?? [];
+    if (!markers.includes(marker)) markers.push(marker);
+    insertions.set(position, markers);
+  };
+
+  const grounded: Span[] = [];
+  for (const support of supports) {
+    const start = text.indexOf(support.text);
+    const indices = support.chunkIndices.filter(i => chunks[i]?.web?.uri || chunks[i]?.maps?.uri);
+    if (start === -1 || indices.length === 0) continue;
+
+    const end = start + support.text.trimEnd().length;
+    grounded.push({ start, end });
+    for (const chunkIndex of indices) {
+      const score = support.confidence?.[support.chunkIndices.indexOf(chunkIndex)];
+      insert(end, citationMarker(chunkIndex, score !== undefined && score < LOW_CONFIDENCE));
+    }
+  }
+
+  let unsourcedClaims = 0;
+  for (const sentence of splitSentences(text)) {
+    if (!CLAIM_PATTERN.test(text.slice(sentence.start, sentence.end))) continue;
+    if (grounded.some(span => span.start < sentence.end && span.end > sentence.start)) continue;
+    unsourcedClaims++;
+    insert(sentence.end, `[?](${UNSOURCED_HREF})`);
+  }
+
+  let markdown = text;
+  for (const position of [...insertions.keys()].sort((a, b) => b - a)) {
+    markdown = markdown.slice(0, position) + insertions.get(position)!.join('') + markdown.slice(position);
+  }
+  return { markdown, unsourcedClaims };
+};
@@ -0,0 +1,232 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Commute, CommuteBriefing, RoutePreference, TransitAssistantProvider, TransitMode, TripOrigin, UserPreferences } from "../types";
+import { STORES, deleteRecord, getAllRecords, putRecord, toDate } from "./db";
+import { formatDuration, isNotablySlower } from "./tripPlan";
+import { getPrimaryMode } from "./savedRoutes";
+import { suggestLeaveTime } from "./reminders";
+import { askInBackground } from "./assistantProvider";
+import { isHeavyTraffic } from "./traffic";
+
+export const WEEKDAYS = [1, 2, 3, 4, 5];
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// The briefing is prepared once this long before the arrival deadline
+export const BRIEFING_WINDOW_MINUTES = 120;
+// The usual trip is worked out from briefings over this many days
+const USUAL_TRIP_DAYS = 28;
+const BRIEFING_TIMEOUT_MS = 45_000;
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+export const toDateKey = (date: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const createCommute = (fields: {
+  name?: string;
+  origin: string;
+  destination: string;
+  days: number[];
+  arriveBy: string;
+  routePreference: RoutePreference;
+}): Commute => ({
+  id: uuidv4(),
+  name: fields.name?.trim() || `${fields.origin} → ${fields.destination}`,
+  origin: fields.origin.trim(),
+  destination: fields.destination.trim(),
+  days: [...fields.days].sort((a, b) => a - b),
+  arriveBy: fields.arriveBy,
+  routePreference: fields.routePreference,
+  createdAt: new Date(),
+});
+
+// "Mon–Fri", "Weekends", "Mon, Wed, Fri"
+export const describeDays = (days: number[]): string => {
+  const sorted = [...days].sort((a, b) => a - b);
+  const key = sorted.join();
+  if (key === WEEKDAYS.join()) return 'Mon–Fri';
+  if (key === '0,6') return 'Weekends';
+  if (days.length === 7) return 'Every day';
+  return sorted.map(day => DAY_LABELS[day]).join(', ');
+};
+
+/**
+ * The commute's arrival deadline on the given day.
+ */
+export const getArrivalOn = (commute: Commute, day: Date): Date => {
+  const [hours, minutes] = commute.arriveBy.split(':').map(Number);
+  const arrival = new Date(day);
+  arrival.setHours(hours, minutes, 0, 0);
+  return arrival;
+};
+
+/**
+ * A commute needs briefing when today is one of its days, the window before its deadline
+ * has opened and nothing has been prepared for today yet.
+ */
+export const isBriefingDue = (commute: Commute, briefings: CommuteBriefing[], now = new Date()): boolean => {
+  if (!commute.days.includes(now.getDay())) return false;
+  const arrival = getArrivalOn(commute, now).getTime();
+  const opens = arrival - BRIEFING_WINDOW_MINUTES * 60_000;
+  if (now.getTime() < opens || now.getTime() >= arrival) return false;
+  const today = toDateKey(now);
+  return !briefings.some(b => b.commuteId === commute.id && b.date === today);
+};
+
+export interface UsualTrip {
+  durationMinutes?: number;
+  mode?: TransitMode;
+  // Number of earlier briefings it was worked out from
+  sampleSize: number;
+}
+
+/**
+ * The typical trip, from the commute's recent briefings before `beforeDate`: the median
+ * duration and the most common main mode.
+ */
+export const getUsualTrip = (commute: Commute, briefings: CommuteBriefing[], beforeDate = toDateKey(new Date())): UsualTrip => {
+  const since = new Date();
+  since.setDate(since.getDate() - USUAL_TRIP_DAYS);
+  const earlier = briefings.filter(b =>
+    b.commuteId === commute.id && b.date < beforeDate && b.date >= toDateKey(since) && b.durationMinutes !== undefined);
+  if (earlier.length === 0) return { sampleSize: 0 };
+
+  const durations = earlier.map(b => b.durationMinutes!).sort((a, b) => a - b);
+  const middle = Math.floor(durations.length / 2);
+  const median = durations.length % 2 ? durations[middle] : Math.round((durations[middle - 1] + durations[middle]) / 2);
+
+  const modeCounts = new Map<TransitMode, number>();
+  earlier.forEach(b => b.mode && modeCounts.set(b.mode, (modeCounts.get(b.mode) ?? 0) + 1));
+  const mode = [...modeCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  return { durationMinutes: median, mode, sampleSize: earlier.length };
+};
+
+/**
+ * The message sent to the assistant for a commute briefing. The usual trip is included
+ * so the model can say what's different today.
+ */
+export const buildBriefingPrompt = (commute: Commute, usual: UsualTrip): string => {
+  const habit = usual.durationMinutes !== undefined
+    ? ` It usually takes about ${formatDuration(usual.durationMinutes)}${usual.mode ? ` by ${usual.mode.toLowerCase()}` : ''}.`
+    : '';
+  return `Morning briefing for my commute "${commute.name}": from ${commute.origin} to ${commute.destination}, ` +
+    `arriving by ${commute.arriveBy} today.${habit} What's today's best option, is anything disrupted compared with usual, ` +
+    `and what time should I leave?`;
+};
+
+/**
+ * Turns the assistant's reply into today's briefing, noting how it compares with the
+ * usual trip.
+ */
+export const createBriefing = (
+  commute: Commute,
+  text: string,
+  plan: CommuteBriefing['plan'],
+  usual: UsualTrip,
+  now = new Date()
+): CommuteBriefing => {
+  const durationMinutes = plan?.totalDurationMinutes;
+  const mode = plan ? getPrimaryMode(plan) : undefined;
+  const arrival = getArrivalOn(commute, now);
+  // A suggested time after the deadline means the model's time was read as tomorrow's
+  const suggested = plan && suggestLeaveTime(plan, now);
+  const leaveAt = suggested && suggested < arrival
+    ? suggested
+    : durationMinutes !== undefined ? new Date(arrival.getTime() - durationMinutes * 60_000) : undefined;
+
+  const disruptions: string[] = [];
+  if (usual.durationMinutes !== undefined && durationMinutes !== undefined && isNotablySlower(usual.durationMinutes, durationMinutes)) {
+    disruptions.push(`Takes ${formatDuration(durationMinutes)} today (usually ${formatDuration(usual.durationMinutes)})`);
+  }
+  if (usual.mode && mode && mode !== usual.mode) {
+    disruptions.push(`Best option is by ${mode.toLowerCase()} instead of the usual ${usual.mode.toLowerCase()}`);
+  }
+  const congested = plan?.legs.filter(leg => isHeavyTraffic(leg.congestion)) ?? [];
+  if (congested.length) {
+    disruptions.push(`Heavy traffic ${congested.map(leg => `${leg.from} → ${leg.to}`).join(', ')}`);
+  }
+  if (durationMinutes !== undefined && now.getTime() + durationMinutes * 60_000 > arrival.getTime()) {
+    disruptions.push(`Leaving now gets you there around ${formatClock(new Date(now.getTime() + durationMinutes * 60_000))}, after ${commute.arriveBy}`);
+  }
+
+  return {
+    // One briefing per commute per day; briefing again replaces it
+    id: `${commute.id}:${toDateKey(now)}`,
+    commuteId: commute.id,
+    date: toDateKey(now),
+    createdAt: now,
+    text,
+    plan,
+    leaveAt,
+    durationMinutes,
+    mode,
+    disruptions,
+  };
+};
+
+/**
+ * Asks the assistant for today's briefing on a commute, outside the chat.
+ */
+export const requestBriefing = async (
+  commute: Commute,
+  briefings: CommuteBriefing[],
+  provider: TransitAssistantProvider,
+  preferences: UserPreferences,
+  origin: TripOrigin | null,
+  localContext?: string
+): Promise<CommuteBriefing> => {
+  const usual = getUsualTrip(commute, briefings);
+  const reply = await askInBackground(provider, {
+    message: buildBriefingPrompt(commute, usual),
+    preferences: { ...preferences, routePreference: commute.routePreference },
+    origin,
+    localContext,
+  }, BRIEFING_TIMEOUT_MS);
+  return createBriefing(commute, reply.text, reply.tripPlan, usual);
+};
+
+export const describeBriefing = (commute: Commute, briefing: CommuteBriefing): string => {
+  const leave = briefing.leaveAt ? `Leave at ${formatClock(briefing.leaveAt)}` : 'Your briefing is ready';
+  const duration = briefing.durationMinutes !== undefined ? ` (${formatDuration(briefing.durationMinutes)})` : '';
+  const status = briefing.disruptions.length ? ` ⚠️ ${briefing.disruptions.join('; ')}.` : ' Running as usual.';
+  return `${commute.name}: ${leave}${duration}.${status}`;
+};
+
+const reviveCommute = (raw: Commute): Commute => ({
+  ...raw,
+  createdAt: toDate(raw.createdAt),
+});
+
+const reviveBriefing = (raw: CommuteBriefing): CommuteBriefing => ({
+  ...raw,
+  createdAt: toDate(raw.createdAt),
+  leaveAt: raw.leaveAt ? toDate(raw.leaveAt) : undefined,
+});
+
+export const loadCommutes = async (): Promise<Commute[]> => {
+  const records = await getAllRecords<Commute>(STORES.commutes);
+  return records.map(reviveCommute).sort((a, b) => a.arriveBy.localeCompare(b.arriveBy));
+};
+
+export const saveCommute = (commute: Commute): Promise<Commute> =>
+  putRecord(STORES.commutes, commute);
+
+export const deleteCommute = (id: string): Promise<void> =>
+  deleteRecord(STORES.commutes, id);
+
+/**
+ * Loads briefings, newest first.
+ */
+export const loadBriefings = async (): Promise<CommuteBriefing[]> => {
+  const records = await getAllRecords<CommuteBriefing>(STORES.commuteBriefings);
+  return records.map(reviveBriefing).sort((a, b) => b.date.localeCompare(a.date));
+};
+
+export const saveBriefing = (briefing: CommuteBriefing): Promise<CommuteBriefing> =>
+  putRecord(STORES.commuteBriefings, briefing);
+
+export const deleteBriefing = (id: string): Promise<void> =>
+  deleteRecord(STORES.commuteBriefings, id);
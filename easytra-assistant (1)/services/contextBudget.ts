@@ -0,0 +1,150 @@
+import { ChatMessage, ContextReport, TripPlan } from "../types";
+import { STORES, getRecord, putRecord } from "./db";
+import { formatDuration, formatFareRange } from "./tripPlan";
+import { describeLeg } from "./tripExport";
+
+/**
+ * Keeps each request to the assistant within a token budget. The most recent exchanges go
+ * in full; older ones are rolled into a summary of the facts that matter for planning.
+ */
+
+export const CONTEXT_BUDGET_OPTIONS = [2000, 4000, 8000, 16000, 32000];
+export const DEFAULT_CONTEXT_BUDGET = 8000;
+
+// The server cuts summaries off here
+export const MAX_HISTORY_SUMMARY_CHARS = 4000;
+
+// Up to this share of the budget goes to the summary once anything is left out
+const SUMMARY_SHARE = 0.25;
+const MAX_QUESTION_CHARS = 160;
+
+// Sentences where the user sets a condition on the trip
+const CONSTRAINT_PATTERN = /\b(avoid|don'?t|do not|no|without|only|must|need|prefer|budget|under|below|max(imum)?|less than|wheelchair|step-?free|luggage|bags?|kids?|child(ren)?|pram|stroller|sleeper|ac|class|cheap(est)?|before|by \d)\b/i;
+
+const WELCOME_MESSAGE_ID = 'welcome';
+const SETTING_ID = 'contextBudget';
+
+interface StoredContextBudget {
+  id: typeof SETTING_ID;
+  tokens: number;
+}
+
+/**
+ * Roughly four characters to a token for English text. Close enough to budget with; the
+ * model's own count comes back with each reply.
+ */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${Number((tokens / 1000).toFixed(1))}k` : String(tokens);
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+
+const describePlan = (plan: TripPlan): string => {
+  const details = [
+    plan.legs.map(describeLeg).join('; '),
+    plan.totalFare ? formatFareRange(plan.totalFare) : '',
+    plan.totalDurationMinutes !== undefined ? formatDuration(plan.totalDurationMinutes) : '',
+  ].filter(Boolean).join(' · ');
+  return `${plan.origin} → ${plan.destination}${details ? `: ${details}` : ''}`;
+};
+
+/**
+ * The facts worth keeping from earlier messages, most important first: the trips
+ * suggested (origin, destination, legs, trains, fares), conditions the user set, then
+ * their other questions, newest first.
+ */
+export const summarizeMessages = (messages: ChatMessage[]): string => {
+  const plans = messages.filter(m => m.tripPlan);
+  const trains = plans.flatMap(m => m.tripPlan!.trains ?? []);
+  const conditions: string[] = [];
+  const otherQuestions: string[] = [];
+  for (const message of messages.filter(m => m.role === 'user')) {
+    const sentences = message.text.trim().replace(/\s+/g, ' ').split(/(?<=[.!?])\s+/);
+    conditions.push(...sentences.filter(sentence => CONSTRAINT_PATTERN.test(sentence)));
+    const rest = sentences.filter(sentence => !CONSTRAINT_PATTERN.test(sentence)).join(' ');
+    if (rest) otherQuestions.unshift(rest);
+  }
+
+  return [
+    ...plans.map(m => `- Suggested${m.savedRouteId ? ' (saved as a route)' : ''}: ${describePlan(m.tripPlan!)}`),
+    ...[...new Map(trains.map(t => [t.number, t])).values()].map(t =>
+      `- Train ${t.number} ${t.name}${t.departureTime ? ` ${t.departureTime}–${t.arrivalTime ?? '?'}` : ''}${t.fare ? `, ${formatFareRange(t.fare)}` : ''}`
+    ),
+    ...conditions.map(c => `- The user said: "${truncate(c, MAX_QUESTION_CHARS)}"`),
+    ...otherQuestions.map(q => `- The user asked: "${truncate(q, MAX_QUESTION_CHARS)}"`),
+  ].join('\n');
+};
+
+// Cuts at a line break so no fact is left half-written
+const fitSummary = (summary: string, maxChars: number) => {
+  if (summary.length <= maxChars) return summary;
+  const cut = summary.slice(0, maxChars);
+  return cut.slice(0, Math.max(0, cut.lastIndexOf('\n')));
+};
+
+// Exactly what went out with the latest question, for the debug view
+export interface SentContext {
+  history: { role: ChatMessage['role']; text: string }[];
+  summary?: string;
+  message: string;
+  localContext?: string;
+}
+
+export interface ConversationContext {
+  // The messages to send in full
+  history: ChatMessage[];
+  summary?: string;
+  report: ContextReport;
+}
+
+/**
+ * Fits the conversation so far into `budgetTokens` alongside the new message and any
+ * local context. Whole exchanges are kept from the newest back, always including the
+ * latest; anything older is summarised. The welcome message and errors are never sent.
+ */
+export const buildConversationContext = (
+  history: ChatMessage[],
+  message: string,
+  budgetTokens: number,
+  localContext = ''
+): ConversationContext => {
+  const turns = history.filter(m => m.id !== WELCOME_MESSAGE_ID && !m.isError && m.text.trim());
+  const fixed = estimateTokens(message) + estimateTokens(localContext);
+  const cost = (messages: ChatMessage[]) => messages.reduce((total, m) => total + estimateTokens(m.text), 0);
+  const report = (sent: ChatMessage[], summary?: string): ContextReport => ({
+    budgetTokens,
+    estimatedTokens: fixed + cost(sent) + estimateTokens(summary ?? ''),
+    sentMessages: sent.length,
+    summarizedMessages: turns.length - sent.length,
+    summary,
+  });
+
+  if (fixed + cost(turns) <= budgetTokens) {
+    return { history: turns, report: report(turns) };
+  }
+
+  // Each exchange starts at a question and runs up to the next one
+  const starts = turns.map((m, i) => (m.role === 'user' ? i : -1)).filter(i => i >= 0);
+  const summaryTokens = Math.floor(budgetTokens * SUMMARY_SHARE);
+  let keepFrom = turns.length;
+  for (const start of [...starts].reverse()) {
+    const kept = turns.slice(start);
+    if (keepFrom < turns.length && fixed + summaryTokens + cost(kept) > budgetTokens) break;
+    keepFrom = start;
+  }
+
+  const sent = turns.slice(keepFrom);
+  const summary = fitSummary(
+    summarizeMessages(turns.slice(0, keepFrom)),
+    Math.min(MAX_HISTORY_SUMMARY_CHARS, summaryTokens * 4)
+  ) || undefined;
+  return { history: sent, summary, report: report(sent, summary) };
+};
+
+export const loadContextBudget = async (): Promise<number> =>
+  (await getRecord<StoredContextBudget>(STORES.settings, SETTING_ID))?.tokens ?? DEFAULT_CONTEXT_BUDGET;
+
+export const saveContextBudget = (tokens: number): Promise<unknown> =>
+  putRecord<StoredContextBudget>(STORES.settings, { id: SETTING_ID, tokens });
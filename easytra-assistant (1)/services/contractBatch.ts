@@ -0,0 +1,132 @@
+import { ChatMessage, ContractRule, ContractViolation, TransitAssistantProvider, UserPreferences } from "../types";
+import { askInBackground } from "./assistantProvider";
+import { requestRepair, validateReply } from "./replyContract";
+import { withPreferenceDefaults } from "./preferences";
+
+/**
+ * Runs canned questions through a provider and checks every reply against the output
+ * contract, to compare providers or catch a prompt change that breaks the format.
+ */
+
+export interface ContractTestPrompt {
+  prompt: string;
+  // Applied on top of the user's own preferences for this question
+  preferences?: Partial<UserPreferences>;
+}
+
+export const CONTRACT_TEST_PROMPTS: ContractTestPrompt[] = [
+  { prompt: 'How do I get from Pune to Mumbai tomorrow morning?' },
+  { prompt: 'Fastest way to the airport from the city centre right now? Avoid traffic if you can.' },
+  { prompt: 'Get me from Andheri to Bandra by metro or bus.', preferences: { accessibilityRequired: true } },
+  { prompt: 'Cheapest way from Bengaluru to Mysuru this Saturday?', preferences: { fareBudget: 300 } },
+  { prompt: 'Overnight from Delhi to Jaipur, sleeper class please.', preferences: { travelClass: 'SLEEPER' } },
+  { prompt: 'How much is a 6 km auto ride?' },
+];
+
+const REPLY_TIMEOUT_MS = 90_000;
+
+export interface ContractTestResult {
+  prompt: string;
+  hadTripPlan: boolean;
+  violations: ContractViolation[];
+  // After one repair request, when repairs were on and the reply needed one
+  repairedViolations?: ContractViolation[];
+  error?: string;
+  durationMs: number;
+}
+
+export interface BatchOptions {
+  repair?: boolean;
+  signal?: AbortSignal;
+  // Called as each question finishes, in order
+  onResult?: (result: ContractTestResult, index: number) => void;
+}
+
+// Rewrites one reply, giving up after REPLY_TIMEOUT_MS or when the batch is cancelled
+const repairWithTimeout = async (
+  provider: TransitAssistantProvider,
+  history: ChatMessage[],
+  violations: ContractViolation[],
+  preferences: UserPreferences,
+  signal?: AbortSignal
+) => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort);
+  const timer = setTimeout(abort, REPLY_TIMEOUT_MS);
+  try {
+    const reply = await requestRepair(provider, { history, violations, preferences, origin: null, signal: controller.signal });
+    if (reply.stopped) throw new Error('The assistant took too long to reply');
+    return reply;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+};
+
+/**
+ * Asks each question in turn, with no conversation history or location, and checks the
+ * replies. A failed question is reported with its error and the batch carries on; a
+ * cancelled batch returns the results so far.
+ */
+export const runContractBatch = async (
+  provider: TransitAssistantProvider,
+  prompts: ContractTestPrompt[],
+  basePreferences: UserPreferences,
+  { repair = false, signal, onResult }: BatchOptions = {}
+): Promise<ContractTestResult[]> => {
+  const results: ContractTestResult[] = [];
+
+  for (const [index, { prompt, preferences: overrides }] of prompts.entries()) {
+    if (signal?.aborted) break;
+    const preferences = withPreferenceDefaults({ ...basePreferences, ...overrides });
+    const startedAt = Date.now();
+    let result: ContractTestResult;
+
+    try {
+      const reply = await askInBackground(provider, { message: prompt, preferences, origin: null }, REPLY_TIMEOUT_MS);
+      const violations = validateReply(reply.text, reply.tripPlan, preferences);
+      result = { prompt, hadTripPlan: !!reply.tripPlan, violations, durationMs: 0 };
+
+      if (repair && violations.length && !signal?.aborted) {
+        const history: ChatMessage[] = [
+          { id: 'question', role: 'user', text: prompt, timestamp: new Date(startedAt) },
+          { id: 'reply', role: 'model', text: reply.text, timestamp: new Date() },
+        ];
+        const repaired = await repairWithTimeout(provider, history, violations, preferences, signal);
+        result.repairedViolations = validateReply(repaired.text, repaired.tripPlan ?? reply.tripPlan, preferences);
+      }
+    } catch (error) {
+      result = { prompt, hadTripPlan: false, violations: [], error: error instanceof Error ? error.message : String(error), durationMs: 0 };
+    }
+
+    result.durationMs = Date.now() - startedAt;
+    results.push(result);
+    onResult?.(result, index);
+  }
+  return results;
+};
+
+export interface BatchSummary {
+  total: number;
+  // Replies with no violations on the first try, and after repair
+  compliant: number;
+  compliantAfterRepair: number;
+  failed: number;
+  byRule: Partial<Record<ContractRule, number>>;
+}
+
+export const summarizeBatch = (results: ContractTestResult[]): BatchSummary => {
+  const answered = results.filter(r => !r.error);
+  const byRule: Partial<Record<ContractRule, number>> = {};
+  for (const violation of answered.flatMap(r => r.violations)) {
+    byRule[violation.rule] = (byRule[violation.rule] ?? 0) + 1;
+  }
+  return {
+    total: results.length,
+    compliant: answered.filter(r => r.violations.length === 0).length,
+    compliantAfterRepair: answered.filter(r => (r.repairedViolations ?? r.violations).length === 0).length,
+    failed: results.length - answered.length,
+    byRule,
+  };
+};
@@ -0,0 +1,63 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChatMessage, MessageBranch } from "../types";
+
+/**
+ * Editing or regenerating a message doesn't throw the old conversation away: everything
+ * from that message on is kept as a branch, and the versions can be flipped between from
+ * the message where they split.
+ */
+
+export interface ConversationState {
+  messages: ChatMessage[];
+  branches: MessageBranch[];
+}
+
+// Which version of the conversation from a message on is showing, counting from 0
+export interface BranchPosition {
+  index: number;
+  count: number;
+}
+
+const parentIdAt = (messages: ChatMessage[], index: number) => messages[index - 1]?.id ?? null;
+
+/**
+ * Sets the messages from `index` on aside as a branch, leaving the ones before it to carry
+ * on from.
+ */
+export const forkConversation = ({ messages, branches }: ConversationState, index: number): ConversationState => ({
+  messages: messages.slice(0, index),
+  branches: index < messages.length
+    ? [...branches, { id: uuidv4(), parentId: parentIdAt(messages, index), messages: messages.slice(index) }]
+    : branches,
+});
+
+// The versions starting at `index`, oldest first, with null for the one on screen
+const getVersions = ({ messages, branches }: ConversationState, index: number): (MessageBranch | null)[] => {
+  const parentId = parentIdAt(messages, index);
+  const startedAt = (version: MessageBranch | null) =>
+    (version ? version.messages[0] : messages[index])?.timestamp.getTime() ?? Infinity;
+  return [null, ...branches.filter(branch => branch.parentId === parentId)]
+    .sort((a, b) => startedAt(a) - startedAt(b));
+};
+
+// Undefined when the message at `index` has never been edited or regenerated
+export const getBranchPosition = (state: ConversationState, index: number): BranchPosition | undefined => {
+  const versions = getVersions(state, index);
+  return versions.length > 1 ? { index: versions.indexOf(null), count: versions.length } : undefined;
+};
+
+/**
+ * Shows the version from `index` on that is `offset` places along, setting the current one
+ * aside in its place.
+ */
+export const switchBranch = (state: ConversationState, index: number, offset: number): ConversationState => {
+  const versions = getVersions(state, index);
+  const target = versions[versions.indexOf(null) + offset];
+  if (!target) return state;
+
+  const forked = forkConversation(state, index);
+  return {
+    messages: [...forked.messages, ...target.messages],
+    branches: forked.branches.filter(branch => branch.id !== target.id),
+  };
+};
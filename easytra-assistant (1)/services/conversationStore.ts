@@ -0,0 +1,80 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChatMessage, Conversation, UserPreferences } from "../types";
+import { STORES, deleteRecord, getAllRecords, putRecord, toDate } from "./db";
+import { withPreferenceDefaults } from "./preferences";
+
+const DEFAULT_TITLE = 'New trip';
+const MAX_DERIVED_TITLE_LENGTH = 48;
+
+export const createWelcomeMessage = (): ChatMessage => ({
+  id: 'welcome',
+  role: 'model',
+  text: "**Hi there! I'm EasyTra!** 👋\n\nI'm here to help you breeze through the city! I'll check live traffic 🚦, service alerts, and crowd levels to find the absolute best route for you.\n\nWhere are you headed today? 🌍",
+  timestamp: new Date(),
+});
+
+export const createConversation = (preferences: UserPreferences): Conversation => {
+  const now = new Date();
+  return {
+    id: uuidv4(),
+    messages: [createWelcomeMessage()],
+    preferences,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const getConversationTitle = (conversation: Conversation): string => {
+  if (conversation.title) return conversation.title;
+  const firstQuestion = conversation.messages.find(m => m.role === 'user')?.text.trim();
+  if (!firstQuestion) return DEFAULT_TITLE;
+  return firstQuestion.length > MAX_DERIVED_TITLE_LENGTH
+    ? `${firstQuestion.slice(0, MAX_DERIVED_TITLE_LENGTH).trimEnd()}…`
+    : firstQuestion;
+};
+
+// A conversation is only worth keeping once the user has asked something
+export const hasUserMessages = (conversation: Conversation) =>
+  conversation.messages.some(m => m.role === 'user');
+
+const reviveMessages = (messages: ChatMessage[]) => messages.map(m => ({ ...m, timestamp: toDate(m.timestamp) }));
+
+// Every timestamp, including each message's, must come back out as a real Date
+const reviveConversation = (raw: Conversation): Conversation => ({
+  ...raw,
+  preferences: withPreferenceDefaults(raw.preferences),
+  createdAt: toDate(raw.createdAt),
+  updatedAt: toDate(raw.updatedAt),
+  messages: reviveMessages(raw.messages),
+  branches: raw.branches?.map(branch => ({ ...branch, messages: reviveMessages(branch.messages) })),
+});
+
+/**
+ * Loads all saved conversations, most recently active first.
+ */
+export const loadConversations = async (): Promise<Conversation[]> => {
+  const records = await getAllRecords<Conversation>(STORES.conversations);
+  return records
+    .map(reviveConversation)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const saveConversation = (conversation: Conversation): Promise<Conversation> =>
+  putRecord(STORES.conversations, {
+    ...conversation,
+    // Never persist a reply mid-stream; reload would show it as still generating
+    messages: conversation.messages.map(({ isStreaming, ...m }) => m),
+  });
+
+export const deleteConversation = (id: string): Promise<void> =>
+  deleteRecord(STORES.conversations, id);
+
+/**
+ * Case-insensitive match against the title and the text of every message.
+ */
+export const conversationMatches = (conversation: Conversation, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return getConversationTitle(conversation).toLowerCase().includes(needle) ||
+    conversation.messages.some(m => m.text.toLowerCase().includes(needle));
+};
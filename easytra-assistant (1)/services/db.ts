@@ -0,0 +1,74 @@
+// Thin promise wrapper around the app's IndexedDB database. Every persisted collection is
+// an object store keyed by `id`; add new stores to STORES and bump DB_VERSION.
+const DB_NAME = 'easytra';
+const DB_VERSION = 8;
+
+export const STORES = {
+  conversations: 'conversations',
+  savedRoutes: 'savedRoutes',
+  timetables: 'timetables',
+  settings: 'settings',
+  reminders: 'reminders',
+  commutes: 'commutes',
+  commuteBriefings: 'commuteBriefings',
+  places: 'places',
+  trips: 'trips',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of Object.values(STORES)) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const getAllRecords = <T>(storeName: StoreName) =>
+  run<T[]>(storeName, 'readonly', store => store.getAll());
+
+export const getRecord = <T>(storeName: StoreName, id: string) =>
+  run<T | undefined>(storeName, 'readonly', store => store.get(id));
+
+export const putRecord = <T extends { id: string }>(storeName: StoreName, record: T) =>
+  run<IDBValidKey>(storeName, 'readwrite', store => store.put(record)).then(() => record);
+
+export const deleteRecord = (storeName: StoreName, id: string) =>
+  run<undefined>(storeName, 'readwrite', store => store.delete(id)).then(() => undefined);
+
+// Dates survive IndexedDB's structured clone, but records imported or written by older
+// builds may hold ISO strings instead
+export const toDate = (value: Date | string | number): Date =>
+  value instanceof Date ? value : new Date(value);
@@ -0,0 +1,88 @@
+import { FareRange, TransitMode } from "../types";
+
+/**
+ * Rough fare model for one leg: a flag-fall plus a per-km rate, for the cheapest and the
+ * most expensive common class of the mode. Figures are typical Indian tariffs and are
+ * meant for ballpark estimates, not ticketing.
+ */
+interface Tariff {
+  min: { base: number; perKm: number; minimum: number };
+  max: { base: number; perKm: number; minimum: number };
+  basis: string;
+}
+
+const TARIFFS: Record<Exclude<TransitMode, 'WALK' | 'METRO'>, Tariff> = {
+  BUS: {
+    min: { base: 5, perKm: 1.2, minimum: 10 },
+    max: { base: 10, perKm: 2.5, minimum: 20 },
+    basis: 'Ordinary city/state bus to AC bus',
+  },
+  TRAIN: {
+    min: { base: 0, perKm: 0.3, minimum: 10 },
+    max: { base: 40, perKm: 1.6, minimum: 150 },
+    basis: 'Second class (unreserved) to AC 3-tier',
+  },
+  AUTO: {
+    min: { base: 5, perKm: 15, minimum: 25 },
+    max: { base: 10, perKm: 20, minimum: 35 },
+    basis: 'Metered auto-rickshaw, day to night/waiting charges',
+  },
+  CAB: {
+    min: { base: 50, perKm: 14, minimum: 80 },
+    max: { base: 80, perKm: 22, minimum: 120 },
+    basis: 'App cab, economy to premium or surge',
+  },
+  CAR: {
+    min: { base: 0, perKm: 7, minimum: 0 },
+    max: { base: 0, perKm: 9, minimum: 0 },
+    basis: 'Fuel for a private car (excludes tolls and parking)',
+  },
+  FERRY: {
+    min: { base: 10, perKm: 2, minimum: 10 },
+    max: { base: 20, perKm: 5, minimum: 30 },
+    basis: 'Passenger ferry, ordinary to upper deck',
+  },
+};
+
+// Metro fares are distance slabs rather than per-km (Delhi Metro's table, ₹)
+const METRO_SLABS: { upToKm: number; fare: number }[] = [
+  { upToKm: 2, fare: 11 },
+  { upToKm: 5, fare: 21 },
+  { upToKm: 12, fare: 32 },
+  { upToKm: 21, fare: 43 },
+  { upToKm: 32, fare: 54 },
+  { upToKm: Infinity, fare: 64 },
+];
+
+const applyRate = (rate: Tariff['min'], distanceKm: number) =>
+  Math.max(rate.minimum, Math.round(rate.base + rate.perKm * distanceKm));
+
+export interface FareEstimate {
+  fare: FareRange;
+  basis: string;
+}
+
+/**
+ * Estimates the fare range for travelling `distanceKm` by `mode`.
+ */
+export const estimateFare = (mode: TransitMode, distanceKm: number): FareEstimate => {
+  const km = Math.max(0, distanceKm);
+
+  if (mode === 'WALK') {
+    return { fare: { min: 0, max: 0, currency: 'INR' }, basis: 'Walking is free' };
+  }
+  if (mode === 'METRO') {
+    const slab = METRO_SLABS.find(s => km <= s.upToKm)!;
+    // Smart-card and off-peak discounts bring the fare down by about 10-20%
+    return {
+      fare: { min: Math.round(slab.fare * 0.8), max: slab.fare, currency: 'INR' },
+      basis: 'Metro distance slab, with and without card discount',
+    };
+  }
+
+  const tariff = TARIFFS[mode];
+  return {
+    fare: { min: applyRate(tariff.min, km), max: applyRate(tariff.max, km), currency: 'INR' },
+    basis: tariff.basis,
+  };
+};
@@ -1,138 +1,255 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { UserPreferences, ChatMessage, GroundingChunk } from "../types";
+import { AssistantErrorKind, TokenUsage, UserPreferences, ChatMessage, GroundingChunk, GroundingSupport, TripPlan, TransitAssistantProvider, ChatProxyRequest, ChatStreamEvent, LocalToolbox, ToolCall, ToolCallRecord, ToolTurn, TripOrigin } from "../types";
+import { parseAssistantReply, stripReplyBlocks } from "./replyBlocks";
+import { MAX_TOOL_ROUNDS } from "./toolDeclarations";
+import { AssistantError, getRetryDelay, isAssistantErrorKind, toAssistantError, waitFor } from "./assistantErrors";
 
-// Initialize the Gemini API client
-// Note: API Key must be provided via environment variable process.env.API_KEY
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Gemini is reached through our own backend (server/), which holds the API key and the
+// system instruction. In development Vite proxies /api to it.
+const CHAT_ENDPOINT = '/api/chat';
 
-const MODEL_NAME = 'gemini-2.5-flash';
+// Give up on a request when nothing has arrived for this long; grounded replies can take a
+// while to start
+const REPLY_IDLE_TIMEOUT_MS = 45_000;
+
+const buildRequest = (
+  history: ChatMessage[],
+  newMessage: string,
+  preferences: UserPreferences,
+  origin: TripOrigin | null,
+  localContext?: string,
+  tools?: LocalToolbox,
+  toolTurns: ToolTurn[] = [],
+  historySummary?: string
+): ChatProxyRequest => ({
+  // Skip error bubbles and empty turns (e.g. a stream stopped before any text arrived)
+  history: history
+    .filter(m => !m.isError && m.text.trim())
+    .map(m => ({ role: m.role, text: m.text })),
+  historySummary,
+  message: newMessage,
+  preferences,
+  origin,
+  localContext,
+  tools: tools?.names,
+  toolTurns: toolTurns.length ? toolTurns : undefined,
+});
+
+/**
+ * Yields the proxy's newline-delimited events as they arrive.
+ */
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) yield JSON.parse(line) as ChatStreamEvent;
+      }
+    }
+    if (buffer.trim()) yield JSON.parse(buffer) as ChatStreamEvent;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Prefers the code the proxy sent, then goes by the status
+const responseError = async (response: Response): Promise<AssistantError> => {
+  const body = await response.json().catch(() => undefined);
+  const kind = isAssistantErrorKind(body?.code) ? body.code
+    : response.status === 429 ? 'RATE_LIMITED'
+    : response.status >= 500 ? 'UNAVAILABLE'
+    : 'BAD_REQUEST';
+  const retryAfterSeconds = Number(response.headers.get('Retry-After'));
+  return new AssistantError(kind, retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : undefined);
+};
 
 /**
- * Constructs the system instruction based on the user's current preferences.
+ * Sends one request to the proxy, passing its events to `onEvent` as they arrive. Throws an
+ * AssistantError if the request fails, the stream breaks off before `done`, or nothing
+ * arrives for REPLY_IDLE_TIMEOUT_MS.
  */
-const getSystemInstruction = (prefs: UserPreferences, userLocation: { lat: number; lng: number } | null): string => {
-  const preferencesText = `
-    - Primary Optimization Goal: ${prefs.routePreference}
-    - Accessibility Requirements: ${prefs.accessibilityRequired ? "Must be wheelchair accessible/step-free." : "None."}
-  `;
-
-  const locationContext = userLocation 
-    ? `USER LOCATION: The user is currently located at Lat: ${userLocation.lat}, Lng: ${userLocation.lng}.`
-    : "USER LOCATION: Unknown.";
-
-  return `
-    You are "EasyTra," a super friendly and intelligent AI Trip Assistant. 
-    Your mission is to provide accurate, real-time, and personalized mobility advice with a warm, helpful attitude.
-    
-    USER PROFILE & PREFERENCES:
-    ${preferencesText}
-
-    ${locationContext}
-
-    CORE CAPABILITIES & RULES:
-    1. **Real-Time Data (CRITICAL):** You have access to Google Search and Google Maps. You MUST use them to check for real-time service alerts, delays, weather conditions, current events, and TRAFFIC CONGESTION that impact transit. Do not guess.
-    2. **Traffic Reporting:** If you find evidence of heavy traffic, road closures, or congestion, you MUST explicitly mention "High Traffic" or "Heavy Congestion" in your text response.
-    3. **Train & IRCTC Integration:** When the user asks for a destination involving intercity travel (e.g., "Go to Mumbai", "Travel to Delhi"), you MUST use Google Search to find **IRCTC train schedules** and availability.
-       - You MUST list the top available trains.
-       - For each train, provide: **Train Name/Number**, **Est. Departure**, **Est. Arrival**, **Total Duration**, and **Approx. Fare/Price**.
-    4. **Bus & Fare Breakdown:** Use Google Search to find current bus ticket prices on platforms like **RedBus** or similar services. 
-       - **You MUST list fares SEPARATELY** for: **Bus**, **Train**, and **Metro** (where available). Do not lump them together.
-    5. **Mode Comparison:** For intercity trips, provide a **"🚆 Train vs. 🚌 Bus Comparison"** section. Compare them based on:
-       - **Comfort** (e.g., AC Sleeper bus vs. Train berth).
-       - **Availability** (Frequency and booking ease).
-       - **Price** (Cost effectiveness).
-       - **User Experience** (Online sentiment/ratings).
-    6. **Source Fusion:** Combine schedule data found via Search with external factors (weather, traffic).
-    7. **Crowd Forecasting:** If real-time crowd data is not found, use historical reasoning (e.g., "5 PM on a Friday implies high congestion") and state clearly that it is a prediction.
-    8. **Optimization:** tailored to the user's optimization goal (${prefs.routePreference}).
-    9. **Location Handling:** 
-       - IF the user does NOT specify a starting point, assume they are starting from their current location (provided above). 
-       - IF the user specifies a starting point (e.g., "from Central Station"), use that instead.
-    10. **Smart Traffic Management (Crucial for Road Trips):**
-        - IF you detect **Heavy Traffic/Congestion**:
-          a) You MUST search for and provide an **Alternative Route** (even if it's slightly longer in distance, it might be faster).
-          b) You MUST suggest a **Better Departure Time** (e.g., "Departing in 45 mins will save you ~15 mins" or "Wait until 7 PM for traffic to clear").
-    11. **Walking Directions:** When suggesting a public transit route, you MUST include a specific section for walking directions from the start point to the nearest station/stop.
-        - If 'Accessibility Requirements' are active, you MUST explicitly confirm the station is wheelchair accessible (elevators/ramps) and the walking path is step-free.
-    
-    OUTPUT FORMAT:
-    - **TRIP STATS HEADER:** Start your main response (after a brief greeting if appropriate) with a dedicated separate line containing these details:
-      **🌤️ Weather: [Condition/Temp] | ⏱️ Duration: [Total Time] | 📏 Distance: [Value] | 💰 Est. Fare: [Range Min-Max] | 🛣️ Tolls: [Count or N/A]**
-    - **Detailed Fares:** Include a distinct section listing: "🚌 Bus: ~₹X | 🚆 Train: ~₹Y | 🚇 Metro: ~₹Z".
-    - **Train Details (If applicable):** If trains are involved, present them in a clear bulleted list or markdown table including prices.
-    - **comparison (If applicable):** The Bus vs. Train analysis.
-    - **🚶 To Station:** Provide brief walking directions to the first stop.
-    - **💡 Smart Tips (If Traffic/Delay):** If heavy traffic is found, include a section with:
-      - **🔀 Alt Route:** [Brief description of alternate path]
-      - **⏳ Best Time to Leave:** [Suggestion for when to start trip]
-    - **Concise:** Keep responses under 300 words unless a complex itinerary is needed.
-    - **Structure:** Use clear headings, bullet points, and bold text for times/route numbers.
-    - **Transparency:** If data is missing (e.g., specific vehicle location), state: "Real-time data temporarily unavailable; using schedule/historical averages."
-    - **Call to Action:** ALWAYS end with a single, clear, friendly question (e.g., "Shall I save this route for you?" or "Want walking directions to the stop?").
-
-    TONE:
-    Friendly, enthusiastic, warm, and helpful. Avoid being overly stiff or formal. Use natural language and occasional emojis (like 🚌, 🚂, 🚦, 👋) to sound approachable, but keep navigation details clear and precise.
-  `;
+const streamRound = async (
+  request: ChatProxyRequest,
+  onEvent: (event: ChatStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort);
+
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const resetTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, REPLY_IDLE_TIMEOUT_MS);
+  };
+
+  try {
+    resetTimer();
+    const response = await fetch(CHAT_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) throw await responseError(response);
+
+    let completed = false;
+    for await (const event of readEvents(response.body)) {
+      resetTimer();
+      if (event.type === 'error') {
+        // Older servers send errors without a code
+        throw new AssistantError(isAssistantErrorKind(event.code) ? event.code : 'UNAVAILABLE');
+      }
+      if (event.type === 'done') completed = true;
+      onEvent(event);
+    }
+    // A stream that ends without a done event was cut off mid-reply
+    if (!completed) throw new AssistantError('NETWORK');
+  } catch (error) {
+    throw timedOut ? new AssistantError('TIMEOUT') : error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
 };
 
 export const sendMessageToGemini = async (
   history: ChatMessage[],
   newMessage: string,
   preferences: UserPreferences,
-  userLocation: { lat: number; lng: number } | null
-): Promise<{ text: string; groundingChunks?: GroundingChunk[] }> => {
-  
+  origin: TripOrigin | null
+): Promise<{ text: string; groundingChunks?: GroundingChunk[]; tripPlan?: TripPlan }> => {
+  const { text, groundingChunks, tripPlan } = await streamMessageToGemini(
+    history, newMessage, preferences, origin, () => {}
+  );
+  return { text, groundingChunks, tripPlan };
+};
+
+/**
+ * Streams the reply, calling `onText` with the accumulated prose after every chunk (the
+ * structured blocks are held back and parsed once the stream completes).
+ * Grounding chunks usually only arrive with the final chunk, so they are returned once the
+ * stream completes. Aborting `signal` ends the stream early and resolves with what was
+ * received so far and `stopped: true`; any other failure rejects with an AssistantError.
+ * Transient failures are retried with backoff (reported through `onRetry`) as long as
+ * nothing from the failed request has been shown yet.
+ *
+ * When `tools` are given and the model calls them, the calls are run here and the results
+ * sent back in a follow-up request, up to MAX_TOOL_ROUNDS times; text from every round
+ * makes up the reply.
+ */
+export const streamMessageToGemini = async (
+  history: ChatMessage[],
+  newMessage: string,
+  preferences: UserPreferences,
+  origin: TripOrigin | null,
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+  localContext?: string,
+  tools?: LocalToolbox,
+  onToolCalls?: (calls: ToolCallRecord[]) => void,
+  onRetry?: (attempt: number, delayMs: number, kind: AssistantErrorKind) => void,
+  historySummary?: string
+): Promise<{ text: string; groundingChunks?: GroundingChunk[]; groundingSupports?: GroundingSupport[]; tripPlan?: TripPlan; toolCalls?: ToolCallRecord[]; usage?: TokenUsage; stopped: boolean }> => {
+  let text = '';
+  let usage: TokenUsage | undefined;
+  let groundingChunks: GroundingChunk[] | undefined;
+  let groundingSupports: GroundingSupport[] | undefined;
+  const toolTurns: ToolTurn[] = [];
+  const toolCalls = () => {
+    const records = toolTurns.flatMap(turn => turn.calls);
+    return records.length ? records : undefined;
+  };
+
   try {
-    // 1. Construct the chat history for the API
-    const validHistory = history.filter(m => !m.isError);
-    
-    // 2. Configure Tools and Context
-    // If we have user location, we pass it to the toolConfig so Google Maps grounding
-    // can provide relevant nearby results.
-    const toolConfig = userLocation ? {
-      retrievalConfig: {
-        latLng: {
-          latitude: userLocation.lat,
-          longitude: userLocation.lng
+    for (let round = 0; ; round++) {
+      const roundStart = text.length;
+      const request = buildRequest(history, newMessage, preferences, origin, localContext, tools, toolTurns, historySummary);
+      let calls: ToolCall[] = [];
+
+      for (let attempt = 0; ; attempt++) {
+        calls = [];
+        try {
+          await streamRound(request, event => {
+            if (event.type === 'text') {
+              text += event.text;
+              onText(stripReplyBlocks(text));
+            } else if (event.type === 'tool_calls') {
+              calls = event.calls;
+            } else if (event.type === 'done') {
+              // Each tool round is grounded separately; append its sources to the earlier ones
+              const offset = groundingChunks?.length ?? 0;
+              if (event.groundingChunks?.length) groundingChunks = [...(groundingChunks ?? []), ...event.groundingChunks];
+              if (event.groundingSupports?.length) {
+                groundingSupports = [
+                  ...(groundingSupports ?? []),
+                  ...event.groundingSupports.map(s => ({ ...s, chunkIndices: s.chunkIndices.map(i => i + offset) })),
+                ];
+              }
+              // Every tool round sends the whole conversation again, so its tokens count too
+              if (event.usage) {
+                usage = {
+                  promptTokens: (usage?.promptTokens ?? 0) + event.usage.promptTokens,
+                  replyTokens: (usage?.replyTokens ?? 0) + event.usage.replyTokens,
+                  totalTokens: (usage?.totalTokens ?? 0) + event.usage.totalTokens,
+                };
+              }
+            }
+          }, signal);
+          break;
+        } catch (error) {
+          if (signal?.aborted) throw error;
+          const failure = toAssistantError(error);
+          // Retrying after part of this round is on screen would repeat it
+          const delay = text.length === roundStart ? getRetryDelay(failure, attempt) : undefined;
+          if (delay === undefined) throw failure;
+          onRetry?.(attempt + 1, delay, failure.kind);
+          await waitFor(delay, signal);
+          if (signal?.aborted) throw failure;
         }
       }
-    } : undefined;
-
-    const chat = ai.chats.create({
-      model: MODEL_NAME,
-      config: {
-        systemInstruction: getSystemInstruction(preferences, userLocation),
-        // Enable both Google Search and Google Maps Grounding
-        tools: [
-          { googleSearch: {} },
-          { googleMaps: {} }
-        ],
-        toolConfig: toolConfig,
-      },
-      history: validHistory.map(m => ({
-        role: m.role,
-        parts: [{ text: m.text }],
-      })),
-    });
 
-    // 3. Send the message
-    const result = await chat.sendMessage({
-      message: newMessage,
-    });
+      // The server withholds tools on the last round, so this also bounds the loop
+      if (calls.length === 0 || !tools || round >= MAX_TOOL_ROUNDS) break;
 
-    // 4. Extract text
-    const text = result.text;
+      const records: ToolCallRecord[] = [];
+      for (const call of calls) records.push(await tools.execute(call));
+      toolTurns.push({ text: text.slice(roundStart), calls: records });
+      onToolCalls?.(toolCalls()!);
 
-    // 5. Extract Grounding Metadata (Sources)
-    const groundingChunks = result.candidates?.[0]?.groundingMetadata?.groundingChunks as GroundingChunk[] | undefined;
+      // Keep the next round's text apart from what the model said before calling tools
+      if (text.length > roundStart && !text.endsWith('\n')) text += '\n\n';
+    }
 
-    return {
-      text: text,
-      groundingChunks: groundingChunks
-    };
+    return { ...parseAssistantReply(text), groundingChunks, groundingSupports, toolCalls: toolCalls(), usage, stopped: false };
 
   } catch (error) {
+    if (signal?.aborted) {
+      return { text: stripReplyBlocks(text), groundingChunks, groundingSupports, toolCalls: toolCalls(), usage, stopped: true };
+    }
     console.error("Gemini API Error:", error);
-    throw new Error("I'm having trouble connecting to the transit network right now. Please try again in a moment.");
+    throw toAssistantError(error);
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: TransitAssistantProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  sendMessage: ({ history, message, preferences, origin, localContext, onText, tools, onToolCalls, signal, onRetry, historySummary }) =>
+    streamMessageToGemini(
+      history, message, preferences, origin, onText ?? (() => {}), signal, localContext, tools, onToolCalls, onRetry, historySummary
+    ),
+};
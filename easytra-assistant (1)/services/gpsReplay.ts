@@ -0,0 +1,155 @@
+import { LatLng, TripPlan } from "../types";
+import { GpsFix, getFollowableLegs } from "./tripFollower";
+
+/**
+ * Simulated and recorded GPS tracks for trying trip-following without travelling. A track
+ * is replayed faster than real time, but each fix keeps its own timestamp so missed
+ * connections are judged against the track's clock.
+ */
+
+export type SimulationScenario = 'ON_ROUTE' | 'DETOUR' | 'LATE';
+
+// Assumed speeds when a leg has no duration
+const WALK_METERS_PER_SECOND = 1.3;
+const VEHICLE_METERS_PER_SECOND = 8;
+const STEP_METERS = 50;
+// The detour scenario strays this far from the route, part-way along the first ride
+const DETOUR_METERS = 400;
+// The late scenario reaches the first boarding point this long after the departure
+const LATE_BY_MS = 10 * 60_000;
+// Replays never wait longer than this between fixes, however far apart they were recorded
+const MAX_REPLAY_DELAY_MS = 1_500;
+
+const interpolate = (a: LatLng, b: LatLng, t: number): LatLng => ({
+  lat: a.lat + (b.lat - a.lat) * t,
+  lng: a.lng + (b.lng - a.lng) * t,
+});
+
+// Shifts a point sideways by roughly `meters` (east-west), for the detour scenario
+const offset = (point: LatLng, meters: number): LatLng => ({
+  lat: point.lat,
+  lng: point.lng + meters / (111_320 * Math.cos(point.lat * Math.PI / 180)),
+});
+
+const timeOnDay = (hhmm: string, day: number): number | undefined => {
+  const match = hhmm.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return undefined;
+  const date = new Date(day);
+  date.setHours(Number(match[1]), Number(match[2]), 0, 0);
+  return date.getTime();
+};
+
+/**
+ * Builds a track that travels the plan leg by leg, waiting at each boarding point for the
+ * scheduled departure. `DETOUR` wanders off the first ride half-way along, and `LATE`
+ * reaches the first boarding point after its train or bus has left.
+ */
+export const simulateTrack = (plan: TripPlan, scenario: SimulationScenario = 'ON_ROUTE', now = Date.now()): GpsFix[] => {
+  const legs = getFollowableLegs(plan);
+  if (!legs) return [];
+
+  // Start early enough to make the first scheduled departure (or late enough to miss it)
+  const firstRide = plan.legs.findIndex(leg => leg.mode !== 'WALK' && leg.departureTime);
+  let clock = now;
+  if (firstRide !== -1) {
+    const departure = timeOnDay(plan.legs[firstRide].departureTime!, now)!;
+    const lead = plan.legs.slice(0, firstRide).reduce((total, leg, i) =>
+      total + (leg.durationMinutes ? leg.durationMinutes * 60_000 : legs[i].length / WALK_METERS_PER_SECOND * 1000), 0);
+    clock = departure - lead - (scenario === 'LATE' ? -LATE_BY_MS : 60_000);
+  }
+
+  const track: GpsFix[] = [];
+  const detourLeg = plan.legs.findIndex(leg => leg.mode !== 'WALK');
+
+  plan.legs.forEach((leg, i) => {
+    const { points, distances, length } = legs[i];
+    const departure = leg.departureTime ? timeOnDay(leg.departureTime, clock) : undefined;
+    if (departure !== undefined && departure > clock) clock = departure;
+
+    const speed = leg.durationMinutes
+      ? Math.max(length, 1) / (leg.durationMinutes * 60)
+      : leg.mode === 'WALK' ? WALK_METERS_PER_SECOND : VEHICLE_METERS_PER_SECOND;
+    const steps = Math.max(1, Math.ceil(length / STEP_METERS));
+
+    for (let step = i === 0 ? 0 : 1; step <= steps; step++) {
+      const along = (length * step) / steps;
+      const segment = Math.max(1, distances.findIndex(d => d >= along));
+      const span = distances[segment] - distances[segment - 1];
+      let point = interpolate(points[segment - 1], points[segment], span ? (along - distances[segment - 1]) / span : 1);
+      if (scenario === 'DETOUR' && i === detourLeg && step > steps / 2) {
+        point = offset(point, DETOUR_METERS * Math.min(1, (step - steps / 2) / 3));
+      }
+      track.push({ ...point, timestamp: clock + (along / speed) * 1000 });
+    }
+    clock += (length / speed) * 1000;
+  });
+
+  return track;
+};
+
+/**
+ * Reads a recorded track: a GPX file, or JSON as an array of { lat, lng, timestamp? }
+ * objects or [lat, lng] pairs. Fixes without times are spaced ten seconds apart.
+ */
+export const parseGpsTrack = (text: string, now = Date.now()): GpsFix[] => {
+  const trimmed = text.trim();
+  let fixes: { lat: number; lng: number; timestamp?: number }[];
+
+  if (trimmed.startsWith('<')) {
+    const doc = new DOMParser().parseFromString(trimmed, 'application/xml');
+    fixes = [...doc.querySelectorAll('trkpt, rtept, wpt')].map(point => {
+      const time = point.querySelector('time')?.textContent;
+      return {
+        lat: Number(point.getAttribute('lat')),
+        lng: Number(point.getAttribute('lon')),
+        timestamp: time ? Date.parse(time) : undefined,
+      };
+    });
+  } else {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(trimmed);
+    } catch {
+      throw new Error("That file isn't a GPX or JSON track.");
+    }
+    fixes = (Array.isArray(raw) ? raw : []).map(point => Array.isArray(point)
+      ? { lat: Number(point[0]), lng: Number(point[1]) }
+      : { lat: Number(point?.lat), lng: Number(point?.lng ?? point?.lon), timestamp: point?.timestamp });
+  }
+
+  const valid = fixes.filter(f => Number.isFinite(f.lat) && Number.isFinite(f.lng));
+  if (valid.length === 0) throw new Error('No GPS points found in that track.');
+  return valid.map((fix, i) => ({
+    lat: fix.lat,
+    lng: fix.lng,
+    timestamp: Number.isFinite(fix.timestamp) ? fix.timestamp! : now + i * 10_000,
+  }));
+};
+
+/**
+ * Plays a track back, calling `onFix` for each point `speed` times faster than recorded.
+ * Returns a function that stops the replay.
+ */
+export const replayTrack = (
+  track: GpsFix[],
+  onFix: (fix: GpsFix) => void,
+  { speed = 30, onEnd }: { speed?: number; onEnd?: () => void } = {}
+): (() => void) => {
+  let timer: number | undefined;
+  let index = 0;
+
+  const next = () => {
+    onFix(track[index]);
+    index++;
+    if (index >= track.length) {
+      onEnd?.();
+      return;
+    }
+    const gap = (track[index].timestamp - track[index - 1].timestamp) / speed;
+    timer = window.setTimeout(next, Math.min(MAX_REPLAY_DELAY_MS, Math.max(0, gap)));
+  };
+
+  if (track.length) next();
+  else onEnd?.();
+  return () => window.clearTimeout(timer);
+};
@@ -0,0 +1,152 @@
+import { Itinerary, ServiceAlert, UserPreferences } from '../../types';
+import { GtfsFeed } from './feed';
+import { expandStop, findStopsInText, getNextDepartures, getRouteName } from './schedule';
+import { planItineraries } from './planner';
+import { describeGoals, formatMeters, getGoalWeights } from '../preferences';
+import { LiveStatus, RealtimeFeed, getLiveStatus, humanizeEnum, isAlertActive } from './realtime';
+
+export interface TimetableContext {
+  // Plain-text facts for the model
+  text: string;
+  // Active realtime alerts on the routes and stops those facts cover
+  alerts: ServiceAlert[];
+}
+
+// Long alert descriptions are trimmed so a busy network can't crowd out the timetable
+const MAX_ALERT_DESCRIPTION_CHARS = 200;
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+const minutesBetween = (a: Date, b: Date) => Math.round((b.getTime() - a.getTime()) / 60000);
+
+const describeLive = (status: LiveStatus | undefined, scheduled: Date): string => {
+  if (!status) return '';
+  if (status.canceled) return ' — live: CANCELLED';
+  if (status.skipped) return ' — live: will not stop here';
+
+  const parts: string[] = [];
+  if (status.delaySeconds !== undefined) {
+    const minutes = Math.round(status.delaySeconds / 60);
+    const expected = formatTime(new Date(scheduled.getTime() + status.delaySeconds * 1000));
+    parts.push(minutes === 0 ? 'on time'
+      : `${Math.abs(minutes)} min ${minutes > 0 ? 'late' : 'early'} (expected ${expected})`);
+  }
+  if (status.occupancy) parts.push(humanizeEnum(status.occupancy));
+  return parts.length ? ` — live: ${parts.join(', ')}` : '';
+};
+
+const describeItinerary = (
+  itinerary: Itinerary,
+  index: number,
+  liveStatus: (tripId: string, stopId: string, scheduled: Date) => string
+): string => {
+  const header = `${index + 1}. Depart ${formatTime(itinerary.departure)}, arrive ${formatTime(itinerary.arrival)} ` +
+    `(${minutesBetween(itinerary.departure, itinerary.arrival)} min), ` +
+    `${itinerary.transfers} transfer${itinerary.transfers === 1 ? '' : 's'}, ${itinerary.walkingMeters} m walking between stops`;
+  const legs = itinerary.legs.map(leg => leg.kind === 'WALK'
+    ? `   - Walk ${leg.distanceMeters ?? 0} m from ${leg.fromName} to ${leg.toName}`
+    : `   - ${leg.routeName}${leg.headsign ? ` towards ${leg.headsign}` : ''}: ${leg.fromName} ${formatTime(leg.departure)} → ${leg.toName} ${formatTime(leg.arrival)}` +
+      liveStatus(leg.tripId!, leg.fromStopId, leg.departure)
+  );
+  const access = itinerary.unverifiedStepFree?.length
+    ? [`   - Step-free access not stated in the timetable for: ${itinerary.unverifiedStepFree.join(', ')}`]
+    : [];
+  return [header, ...legs, ...access].join('\n');
+};
+
+const describeAlert = (alert: ServiceAlert): string => {
+  const description = alert.description && alert.description.length > MAX_ALERT_DESCRIPTION_CHARS
+    ? `${alert.description.slice(0, MAX_ALERT_DESCRIPTION_CHARS)}…`
+    : alert.description;
+  const scope = alert.agencyWide ? 'whole network' : alert.routeNames?.join(', ');
+  return `- ${alert.effect ? `[${humanizeEnum(alert.effect)}] ` : ''}${alert.header}` +
+    (scope ? ` (affects ${scope})` : '') +
+    (description ? `: ${description}` : '');
+};
+
+/**
+ * Looks for stop names from the imported timetable in the user's message and turns what
+ * the timetable knows about them into plain-text facts for the model: the next departures
+ * from each stop and, when two stops are named, the journey planner's options between
+ * them ranked by the user's preference. With a realtime feed, departures carry live delays
+ * and cancellations, and active alerts on the routes and stops involved are listed.
+ * Returns undefined when the message mentions no known stops.
+ */
+export const buildTimetableContext = (
+  feed: GtfsFeed,
+  message: string,
+  preferences: UserPreferences,
+  now: Date = new Date(),
+  realtime?: RealtimeFeed
+): TimetableContext | undefined => {
+  const stops = findStopsInText(feed, message).slice(0, 2);
+  if (stops.length === 0) return undefined;
+
+  const sections: string[] = [];
+  const stopIds = new Set(stops.flatMap(stop => expandStop(feed, stop.id)));
+  const tripIds = new Set<string>();
+
+  const liveStatus = (tripId: string, stopId: string, scheduled: Date) => {
+    tripIds.add(tripId);
+    return realtime ? describeLive(getLiveStatus(realtime, feed, tripId, stopId, scheduled), scheduled) : '';
+  };
+
+  for (const stop of stops) {
+    const departures = getNextDepartures(feed, stop.id, now);
+    sections.push(departures.length
+      ? `Next departures from ${stop.name}:\n` + departures.map(d =>
+          `- ${formatTime(d.time)} ${d.routeName}${d.headsign ? ` towards ${d.headsign}` : ''}` +
+          liveStatus(d.tripId, d.stopId, d.time)
+        ).join('\n')
+      : `No more scheduled departures from ${stop.name} today.`
+    );
+  }
+
+  if (stops.length === 2) {
+    const [from, to] = stops;
+    const itineraries = planItineraries(feed, from.id, to.id, now, preferences, { realtime });
+    const filterNote = [
+      preferences.accessibilityRequired ? ' Only stops and trips not marked as wheelchair-inaccessible were considered.' : '',
+      preferences.avoidedModes?.length ? ` Routes by ${preferences.avoidedModes.join(', ')} were left out.` : '',
+      preferences.maxWalkingMeters != null ? ` Journeys with more than ${formatMeters(preferences.maxWalkingMeters)} walking between stops were left out.` : '',
+    ].join('');
+    // Crowding is only ranked from live occupancy; without it the user must hear it wasn't judged
+    const crowdingNote = getGoalWeights(preferences).LEAST_CROWDED > 0 && itineraries.every(i => i.crowding === undefined)
+      ? ` ${realtime ? 'No vehicle on these journeys reports how full it is' : 'There is no live occupancy data'}, so crowding could not be judged and is left out of the ranking. Tell the user so instead of calling any option less crowded.`
+      : '';
+    sections.push(itineraries.length
+      ? `Journey planner results from ${from.name} to ${to.name}, best first for ${describeGoals(preferences)}. ` +
+        `Each option is a trade-off between arrival time, transfers and walking; none is beaten on all three by another.${filterNote}${crowdingNote}\n` +
+        itineraries.map((itinerary, index) => describeItinerary(itinerary, index, liveStatus)).join('\n')
+      : `The journey planner found no timetable journey from ${from.name} to ${to.name} leaving now.${filterNote}`
+    );
+    itineraries.forEach(itinerary => itinerary.legs.forEach(leg => {
+      stopIds.add(leg.fromStopId);
+      stopIds.add(leg.toStopId);
+    }));
+  }
+
+  const alerts: ServiceAlert[] = [];
+  if (realtime) {
+    const routeIds = new Set([...tripIds].map(id => feed.trips.get(id)?.routeId).filter((id): id is string => !!id));
+    for (const alert of realtime.alerts) {
+      if (!isAlertActive(alert, now)) continue;
+      const relevant = alert.agencyWide ||
+        alert.routeIds.some(id => routeIds.has(id)) ||
+        alert.stopIds.some(id => stopIds.has(id)) ||
+        alert.tripIds.some(id => tripIds.has(id));
+      if (!relevant) continue;
+      alerts.push({ ...alert, routeNames: alert.routeIds.map(id => getRouteName(feed.routes.get(id))) });
+    }
+    if (alerts.length) sections.push('Active service alerts (live):\n' + alerts.map(describeAlert).join('\n'));
+  }
+
+  const sources = realtime
+    ? `imported GTFS timetable "${feed.name}" with live GTFS-Realtime updates`
+    : `imported GTFS timetable "${feed.name}" (scheduled times)`;
+  return {
+    text: `Source: ${sources}, ${formatTime(now)} now.\n\n` + sections.join('\n\n'),
+    alerts,
+  };
+};
@@ -0,0 +1,62 @@
+/**
+ * Parses RFC 4180 CSV (quoted fields, escaped quotes, CRLF) into one object per row keyed
+ * by the header names. GTFS files often start with a UTF-8 BOM, which is dropped.
+ */
+export const parseCsv = (input: string): Record<string, string>[] => {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows;
+  if (!header) return [];
+  const keys = header.map(h => h.trim());
+
+  return body
+    .filter(values => values.some(v => v.trim()))
+    .map(values => {
+      const record: Record<string, string> = {};
+      keys.forEach((key, i) => {
+        record[key] = (values[i] ?? '').trim();
+      });
+      return record;
+    });
+};
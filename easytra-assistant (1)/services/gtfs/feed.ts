@@ -0,0 +1,305 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { parseCsv } from './csv';
+import { getDistanceFromLatLonInMeters } from '../geo';
+
+export interface GtfsStop {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  // 0 = stop/platform, 1 = station
+  locationType: number;
+  parentStation?: string;
+  // 0 = unknown, 1 = accessible, 2 = not accessible
+  wheelchairBoarding: number;
+}
+
+export interface GtfsRoute {
+  id: string;
+  shortName: string;
+  longName: string;
+  // GTFS route_type (0 tram, 1 metro, 2 rail, 3 bus, ...)
+  type: number;
+  color?: string;
+}
+
+export interface GtfsTrip {
+  id: string;
+  routeId: string;
+  serviceId: string;
+  headsign?: string;
+  wheelchairAccessible: number;
+}
+
+export interface GtfsStopTime {
+  tripId: string;
+  stopId: string;
+  sequence: number;
+  // Seconds after midnight of the service day; may exceed 24h for trips past midnight
+  arrival: number;
+  departure: number;
+}
+
+export interface GtfsService {
+  id: string;
+  // Indexed like Date.getDay(): 0 = Sunday
+  weekdays: boolean[];
+  startDate?: string;   // YYYYMMDD
+  endDate?: string;
+  addedDates: Set<string>;
+  removedDates: Set<string>;
+}
+
+export interface Footpath {
+  toStopId: string;
+  meters: number;
+  seconds: number;
+}
+
+/**
+ * An indexed GTFS static feed. Everything is keyed for the lookups the schedule and
+ * planner need; the raw CSV rows are not kept.
+ */
+export interface GtfsFeed {
+  name: string;
+  timezone?: string;
+  stops: Map<string, GtfsStop>;
+  routes: Map<string, GtfsRoute>;
+  trips: Map<string, GtfsTrip>;
+  services: Map<string, GtfsService>;
+  // Stop times of each trip in stop_sequence order
+  stopTimesByTrip: Map<string, GtfsStopTime[]>;
+  // Stop times at each stop in departure order
+  stopTimesByStop: Map<string, GtfsStopTime[]>;
+  // Platforms belonging to each station
+  childStops: Map<string, string[]>;
+  // Walking links between stops: transfers.txt first, then anything within walking range
+  footpaths: Map<string, Footpath[]>;
+}
+
+// Assumed walking speed and the furthest we'll suggest walking between two stops
+export const WALKING_SPEED_MPS = 1.2;
+const MAX_FOOTPATH_METERS = 400;
+
+// Minimum time to change vehicles at the same stop when transfers.txt doesn't say
+export const DEFAULT_TRANSFER_SECONDS = 120;
+
+const REQUIRED_FILES = ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt'];
+const OPTIONAL_FILES = ['agency.txt', 'calendar.txt', 'calendar_dates.txt', 'transfers.txt'];
+
+/**
+ * Parses "HH:MM:SS" into seconds. Hours may be 24 or more for service after midnight.
+ */
+export const parseGtfsTime = (value: string): number | undefined => {
+  const match = value.match(/^(\d{1,2}):(\d{2}):(\d{2})$/);
+  if (!match) return undefined;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+};
+
+const toInt = (value: string | undefined, fallback = 0): number => {
+  const n = parseInt(value ?? '', 10);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+const pushTo = <K, V>(map: Map<K, V[]>, key: K, value: V) => {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+};
+
+const indexStopTimes = (rows: Record<string, string>[]) => {
+  const byTrip = new Map<string, GtfsStopTime[]>();
+  const byStop = new Map<string, GtfsStopTime[]>();
+
+  let lastTime: number | undefined;
+  let lastTrip = '';
+  for (const row of rows) {
+    // Untimed intermediate stops inherit the previous stop's time so ordering still works
+    if (row.trip_id !== lastTrip) lastTime = undefined;
+    const arrival = parseGtfsTime(row.arrival_time) ?? parseGtfsTime(row.departure_time) ?? lastTime;
+    const departure = parseGtfsTime(row.departure_time) ?? arrival;
+    lastTrip = row.trip_id;
+    if (arrival === undefined || departure === undefined) continue;
+    lastTime = departure;
+
+    const stopTime: GtfsStopTime = {
+      tripId: row.trip_id,
+      stopId: row.stop_id,
+      sequence: toInt(row.stop_sequence),
+      arrival,
+      departure,
+    };
+    pushTo(byTrip, stopTime.tripId, stopTime);
+    pushTo(byStop, stopTime.stopId, stopTime);
+  }
+
+  byTrip.forEach(list => list.sort((a, b) => a.sequence - b.sequence));
+  byStop.forEach(list => list.sort((a, b) => a.departure - b.departure));
+  return { byTrip, byStop };
+};
+
+const indexServices = (calendar: Record<string, string>[], calendarDates: Record<string, string>[]) => {
+  const services = new Map<string, GtfsService>();
+  const getService = (id: string) => {
+    let service = services.get(id);
+    if (!service) {
+      service = { id, weekdays: Array(7).fill(false), addedDates: new Set(), removedDates: new Set() };
+      services.set(id, service);
+    }
+    return service;
+  };
+
+  const dayColumns = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+  for (const row of calendar) {
+    const service = getService(row.service_id);
+    service.weekdays = dayColumns.map(day => row[day] === '1');
+    service.startDate = row.start_date;
+    service.endDate = row.end_date;
+  }
+  for (const row of calendarDates) {
+    const service = getService(row.service_id);
+    if (row.exception_type === '1') service.addedDates.add(row.date);
+    if (row.exception_type === '2') service.removedDates.add(row.date);
+  }
+  return services;
+};
+
+/**
+ * Links every stop to the stops a passenger could walk to. transfers.txt entries win over
+ * the straight-line estimate; transfer_type 3 ("not possible") removes a link.
+ */
+const buildFootpaths = (stops: Map<string, GtfsStop>, transfers: Record<string, string>[]) => {
+  const footpaths = new Map<string, Footpath[]>();
+  const forbidden = new Set<string>();
+  const explicit = new Set<string>();
+
+  for (const row of transfers) {
+    const key = `${row.from_stop_id}>${row.to_stop_id}`;
+    if (row.transfer_type === '3') {
+      forbidden.add(key);
+      continue;
+    }
+    const from = stops.get(row.from_stop_id);
+    const to = stops.get(row.to_stop_id);
+    if (!from || !to) continue;
+    const meters = getDistanceFromLatLonInMeters(from.lat, from.lng, to.lat, to.lng);
+    const minTransfer = toInt(row.min_transfer_time, -1);
+    explicit.add(key);
+    pushTo(footpaths, from.id, {
+      toStopId: to.id,
+      meters,
+      seconds: minTransfer >= 0 ? minTransfer : Math.max(DEFAULT_TRANSFER_SECONDS, meters / WALKING_SPEED_MPS),
+    });
+  }
+
+  // Bucket stops into a coarse grid so we only compare neighbours (~550 m cells)
+  const CELL = 0.005;
+  const grid = new Map<string, GtfsStop[]>();
+  const cellKey = (lat: number, lng: number) => `${Math.floor(lat / CELL)}:${Math.floor(lng / CELL)}`;
+  stops.forEach(stop => {
+    if (stop.locationType === 0) pushTo(grid, cellKey(stop.lat, stop.lng), stop);
+  });
+
+  stops.forEach(stop => {
+    if (stop.locationType !== 0) return;
+    const row = Math.floor(stop.lat / CELL);
+    const col = Math.floor(stop.lng / CELL);
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        for (const other of grid.get(`${row + dr}:${col + dc}`) ?? []) {
+          if (other.id === stop.id) continue;
+          const key = `${stop.id}>${other.id}`;
+          if (forbidden.has(key) || explicit.has(key)) continue;
+          const meters = getDistanceFromLatLonInMeters(stop.lat, stop.lng, other.lat, other.lng);
+          if (meters > MAX_FOOTPATH_METERS) continue;
+          pushTo(footpaths, stop.id, {
+            toStopId: other.id,
+            meters,
+            seconds: Math.max(DEFAULT_TRANSFER_SECONDS, meters / WALKING_SPEED_MPS),
+          });
+        }
+      }
+    }
+  });
+
+  return footpaths;
+};
+
+/**
+ * Unzips and indexes a GTFS static feed. Throws with a user-facing message if the file
+ * isn't a zip or a required file is missing.
+ */
+export const loadGtfsFeed = (zipData: Uint8Array, fallbackName = 'Imported timetable'): GtfsFeed => {
+  const wanted = new Set([...REQUIRED_FILES, ...OPTIONAL_FILES]);
+  // Some feeds are zipped inside a folder, so match on the file name only
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(zipData, { filter: file => wanted.has(file.name.split('/').pop() ?? '') });
+  } catch (error) {
+    throw new Error("Couldn't read that file. Please choose a GTFS .zip feed.");
+  }
+  const tables = new Map<string, Record<string, string>[]>();
+  for (const [path, bytes] of Object.entries(files)) {
+    tables.set(path.split('/').pop() ?? path, parseCsv(strFromU8(bytes)));
+  }
+
+  const missing = REQUIRED_FILES.filter(name => !tables.has(name));
+  if (missing.length) {
+    throw new Error(`This doesn't look like a GTFS feed (missing ${missing.join(', ')}).`);
+  }
+  const table = (name: string) => tables.get(name) ?? [];
+
+  const stops = new Map<string, GtfsStop>();
+  const childStops = new Map<string, string[]>();
+  for (const row of table('stops.txt')) {
+    const stop: GtfsStop = {
+      id: row.stop_id,
+      name: row.stop_name,
+      lat: Number(row.stop_lat),
+      lng: Number(row.stop_lon),
+      locationType: toInt(row.location_type),
+      parentStation: row.parent_station || undefined,
+      wheelchairBoarding: toInt(row.wheelchair_boarding),
+    };
+    stops.set(stop.id, stop);
+    if (stop.parentStation) pushTo(childStops, stop.parentStation, stop.id);
+  }
+
+  const routes = new Map<string, GtfsRoute>();
+  for (const row of table('routes.txt')) {
+    routes.set(row.route_id, {
+      id: row.route_id,
+      shortName: row.route_short_name,
+      longName: row.route_long_name,
+      type: toInt(row.route_type, 3),
+      color: row.route_color || undefined,
+    });
+  }
+
+  const trips = new Map<string, GtfsTrip>();
+  for (const row of table('trips.txt')) {
+    trips.set(row.trip_id, {
+      id: row.trip_id,
+      routeId: row.route_id,
+      serviceId: row.service_id,
+      headsign: row.trip_headsign || undefined,
+      wheelchairAccessible: toInt(row.wheelchair_accessible),
+    });
+  }
+
+  const { byTrip, byStop } = indexStopTimes(table('stop_times.txt'));
+  const agency = table('agency.txt')[0];
+
+  return {
+    name: agency?.agency_name || fallbackName,
+    timezone: agency?.agency_timezone || undefined,
+    stops,
+    routes,
+    trips,
+    services: indexServices(table('calendar.txt'), table('calendar_dates.txt')),
+    stopTimesByTrip: byTrip,
+    stopTimesByStop: byStop,
+    childStops,
+    footpaths: buildFootpaths(stops, table('transfers.txt')),
+  };
+};
@@ -0,0 +1,199 @@
+import { Itinerary, ItineraryLeg, UserPreferences } from '../../types';
+import { getGoalWeights } from '../preferences';
+import { GtfsFeed } from './feed';
+import { ServiceDay, describeTrip, expandStop, getRouteMode, getServiceDays, serviceTimeToDate } from './schedule';
+import { Label, getRaptorNetwork, runRaptor } from './raptor';
+import { RealtimeFeed, getTripCrowding } from './realtime';
+
+export interface PlanOptions {
+  maxTransfers?: number;
+  maxResults?: number;
+  // Live vehicle occupancy, which the LEAST_CROWDED goal is judged by
+  realtime?: RealtimeFeed;
+}
+
+const stopName = (feed: GtfsFeed, stopId: string) => {
+  const stop = feed.stops.get(stopId);
+  const parent = stop?.parentStation ? feed.stops.get(stop.parentStation) : undefined;
+  return parent?.name ?? stop?.name ?? stopId;
+};
+
+/**
+ * wheelchair_boarding for a stop, inheriting the station's value when a platform leaves
+ * it unset (0), as the GTFS spec describes.
+ */
+const wheelchairBoarding = (feed: GtfsFeed, stopId: string): number => {
+  const stop = feed.stops.get(stopId);
+  if (!stop) return 0;
+  if (stop.wheelchairBoarding === 0 && stop.parentStation) {
+    return feed.stops.get(stop.parentStation)?.wheelchairBoarding ?? 0;
+  }
+  return stop.wheelchairBoarding;
+};
+
+/**
+ * Walks a destination label back to the origin and turns the chain into legs.
+ */
+const buildItinerary = (feed: GtfsFeed, day: ServiceDay, label: Label, accessibilityRequired: boolean): Itinerary => {
+  const { patterns } = getRaptorNetwork(feed);
+  const legs: ItineraryLeg[] = [];
+
+  for (let current: Label | undefined = label; current?.leg && current.parent; current = current.parent) {
+    const { leg, parent } = current;
+    if (leg.kind === 'WALK') {
+      legs.unshift({
+        kind: 'WALK',
+        fromStopId: leg.fromStopId,
+        fromName: stopName(feed, leg.fromStopId),
+        toStopId: current.stopId,
+        toName: stopName(feed, current.stopId),
+        departure: serviceTimeToDate(day, parent.arrival),
+        arrival: serviceTimeToDate(day, current.arrival),
+        distanceMeters: Math.round(leg.meters),
+      });
+      continue;
+    }
+
+    const pattern = patterns[leg.pattern];
+    const tripId = pattern.tripIds[leg.trip];
+    const stopTimes = pattern.stopTimes[leg.trip];
+    legs.unshift({
+      kind: 'RIDE',
+      fromStopId: pattern.stops[leg.boardPosition],
+      fromName: stopName(feed, pattern.stops[leg.boardPosition]),
+      toStopId: current.stopId,
+      toName: stopName(feed, current.stopId),
+      departure: serviceTimeToDate(day, stopTimes[leg.boardPosition].departure),
+      arrival: serviceTimeToDate(day, stopTimes[leg.alightPosition].arrival),
+      tripId,
+      ...describeTrip(feed, feed.trips.get(tripId)!),
+      mode: getRouteMode(feed.routes.get(feed.trips.get(tripId)!.routeId)),
+    });
+  }
+
+  const rides = legs.filter(leg => leg.kind === 'RIDE');
+  const itinerary: Itinerary = {
+    legs,
+    // A walk to the first stop can start whenever; the journey really begins with the first vehicle
+    departure: rides[0].departure,
+    arrival: legs[legs.length - 1].arrival,
+    transfers: rides.length - 1,
+    walkingMeters: Math.round(label.walking),
+  };
+
+  if (accessibilityRequired) {
+    const unverified = new Set<string>();
+    for (const leg of legs) {
+      for (const stopId of [leg.fromStopId, leg.toStopId]) {
+        if (wheelchairBoarding(feed, stopId) === 0) unverified.add(stopName(feed, stopId));
+      }
+    }
+    if (unverified.size) itinerary.unverifiedStepFree = [...unverified];
+  }
+  return itinerary;
+};
+
+// The fullest ride decides how crowded a journey is
+const withCrowding = (itinerary: Itinerary, realtime: RealtimeFeed): Itinerary => {
+  const levels = itinerary.legs
+    .map(leg => (leg.kind === 'RIDE' && leg.tripId ? getTripCrowding(realtime, leg.tripId) : undefined))
+    .filter((level): level is number => level !== undefined);
+  return levels.length ? { ...itinerary, crowding: Math.max(...levels) } : itinerary;
+};
+
+/**
+ * Orders itineraries by the user's weighted goals. Each option's arrival, transfers,
+ * walking and crowding are scaled between the best and worst in the set, so the weights
+ * compare like with like. Crowding only counts when some option has live occupancy;
+ * options without it sit midway. Ties go to the option with more rides on preferred modes.
+ */
+export const rankItineraries = (
+  itineraries: Itinerary[],
+  preferences: Pick<UserPreferences, 'routePreference' | 'goalWeights' | 'preferredModes'>
+): Itinerary[] => {
+  const weights = getGoalWeights(preferences);
+  const arrival = (i: Itinerary) => i.arrival.getTime();
+  const scale = (measure: (i: Itinerary) => number) => {
+    const values = itineraries.map(measure);
+    const min = Math.min(...values);
+    const range = Math.max(...values) - min;
+    return (i: Itinerary) => (range ? (measure(i) - min) / range : 0);
+  };
+  const lateness = scale(arrival);
+  const transfers = scale(i => i.transfers);
+  const walking = scale(i => i.walkingMeters);
+  const levels = itineraries.map(i => i.crowding).filter((level): level is number => level !== undefined);
+  const leastCrowded = Math.min(...levels);
+  const crowdingRange = Math.max(...levels) - leastCrowded;
+  const crowding = (i: Itinerary) =>
+    i.crowding === undefined ? (levels.length ? 0.5 : 0) : crowdingRange ? (i.crowding - leastCrowded) / crowdingRange : 0;
+
+  const scores = new Map(itineraries.map(i => [i,
+    weights.FASTEST * lateness(i) +
+    weights.LEAST_CROWDED * crowding(i) +
+    weights.FEWEST_TRANSFERS * transfers(i) +
+    weights.LOW_WALKING * walking(i),
+  ]));
+  const preferred = new Set(preferences.preferredModes ?? []);
+  const preferredRides = (i: Itinerary) => i.legs.filter(leg => leg.mode && preferred.has(leg.mode)).length;
+
+  return [...itineraries].sort((a, b) =>
+    scores.get(a)! - scores.get(b)! || preferredRides(b) - preferredRides(a) || arrival(a) - arrival(b) || a.transfers - b.transfers
+  );
+};
+
+/**
+ * Plans timetable journeys between two stops with the RAPTOR router. The result is the
+ * Pareto set over arrival time, transfers and walking distance (no journey in it is beaten
+ * on all three by another), ranked by the user's goals. Routes of avoided modes are never
+ * boarded and journeys walking further than the user's limit are dropped. When
+ * accessibility is required, stops marked as not wheelchair-accessible and inaccessible
+ * trips are avoided.
+ */
+export const planItineraries = (
+  feed: GtfsFeed,
+  fromStopId: string,
+  toStopId: string,
+  departAt: Date,
+  preferences: Pick<UserPreferences,
+    'routePreference' | 'goalWeights' | 'accessibilityRequired' | 'preferredModes' | 'avoidedModes' | 'maxWalkingMeters'>,
+  { maxTransfers = 3, maxResults = 3, realtime }: PlanOptions = {}
+): Itinerary[] => {
+  const { accessibilityRequired, maxWalkingMeters } = preferences;
+  const avoided = new Set(preferences.avoidedModes ?? []);
+  const avoidedRoutes = new Set([...feed.routes.values()].filter(route => avoided.has(getRouteMode(route))).map(route => route.id));
+  const origins = expandStop(feed, fromStopId);
+  const destinations = expandStop(feed, toStopId);
+  const candidates: Itinerary[] = [];
+
+  // Trips from yesterday's service may still be running after midnight
+  for (const day of getServiceDays(departAt)) {
+    const labels = runRaptor(feed, day.secondsNow, {
+      origins,
+      destinations,
+      day,
+      maxTransfers,
+      isStopUsable: stopId => !accessibilityRequired || wheelchairBoarding(feed, stopId) !== 2,
+      isTripUsable: tripId => {
+        const trip = feed.trips.get(tripId);
+        if (trip && avoidedRoutes.has(trip.routeId)) return false;
+        return !accessibilityRequired || trip?.wheelchairAccessible !== 2;
+      },
+    });
+    for (const label of labels) {
+      // Round 0 only walks; the assistant covers walking directions itself
+      if (label.round === 0 || (maxWalkingMeters != null && label.walking > maxWalkingMeters)) continue;
+      candidates.push(buildItinerary(feed, day, label, accessibilityRequired));
+    }
+  }
+
+  const beats = (b: Itinerary, a: Itinerary) =>
+    b.arrival <= a.arrival && b.transfers <= a.transfers && b.walkingMeters <= a.walkingMeters &&
+    (b.arrival < a.arrival || b.transfers < a.transfers || b.walkingMeters < a.walkingMeters);
+  const same = (b: Itinerary, a: Itinerary) =>
+    b.arrival.getTime() === a.arrival.getTime() && b.transfers === a.transfers && b.walkingMeters === a.walkingMeters;
+  const pareto = candidates.filter((a, i) => !candidates.some((b, j) => beats(b, a) || (j < i && same(b, a))));
+
+  const rated = realtime ? pareto.map(itinerary => withCrowding(itinerary, realtime)) : pareto;
+  return rankItineraries(rated, preferences).slice(0, maxResults);
+};
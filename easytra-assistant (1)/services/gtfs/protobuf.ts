@@ -0,0 +1,80 @@
+/**
+ * Minimal protobuf wire-format reader: enough to walk the fields of a message without a
+ * generated schema. Decoding into typed objects is left to the caller.
+ */
+export interface ProtoField {
+  field: number;
+  // 0 = varint, 1 = 64-bit, 2 = length-delimited, 5 = 32-bit
+  wireType: number;
+  // Varints as a number; large values lose precision beyond 2^53, which is fine for timestamps
+  value: number;
+  // Low 32 bits of a varint as a signed integer (int32 fields, including negative ones)
+  int32: number;
+  // Raw payload of length-delimited and fixed-width fields
+  bytes: Uint8Array;
+}
+
+const EMPTY = new Uint8Array(0);
+const decoder = new TextDecoder();
+
+/**
+ * Splits an encoded message into its fields, in wire order. Repeated fields appear once
+ * per element. Throws if the buffer is truncated or malformed.
+ */
+export const readFields = (buffer: Uint8Array): ProtoField[] => {
+  const fields: ProtoField[] = [];
+  let pos = 0;
+
+  const readVarint = () => {
+    let value = 0;
+    let low = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (pos >= buffer.length || shift > 63) throw new Error('Malformed protobuf varint');
+      byte = buffer[pos++];
+      if (shift < 32) low |= (byte & 0x7f) << shift;
+      value += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return { value, low: low | 0 };
+  };
+
+  const take = (length: number) => {
+    if (pos + length > buffer.length) throw new Error('Truncated protobuf message');
+    const bytes = buffer.subarray(pos, pos + length);
+    pos += length;
+    return bytes;
+  };
+
+  while (pos < buffer.length) {
+    const key = readVarint().value;
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+
+    switch (wireType) {
+      case 0: {
+        const { value, low } = readVarint();
+        fields.push({ field, wireType, value, int32: low, bytes: EMPTY });
+        break;
+      }
+      case 1:
+        fields.push({ field, wireType, value: 0, int32: 0, bytes: take(8) });
+        break;
+      case 2:
+        fields.push({ field, wireType, value: 0, int32: 0, bytes: take(readVarint().value) });
+        break;
+      case 5:
+        fields.push({ field, wireType, value: 0, int32: 0, bytes: take(4) });
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+  return fields;
+};
+
+export const asString = (field: ProtoField): string => decoder.decode(field.bytes);
+
+export const asFloat = (field: ProtoField): number =>
+  new DataView(field.bytes.buffer, field.bytes.byteOffset, 4).getFloat32(0, true);
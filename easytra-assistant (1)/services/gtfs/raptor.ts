@@ -0,0 +1,242 @@
+import { DEFAULT_TRANSFER_SECONDS, GtfsFeed, GtfsStopTime } from './feed';
+import { ServiceDay, isServiceActive } from './schedule';
+
+/**
+ * A RAPTOR route pattern: trips that visit exactly the same stops in the same order.
+ * GTFS routes can contain several patterns (short turns, branches), so trips are
+ * grouped by their stop sequence rather than by route_id.
+ */
+export interface Pattern {
+  routeId: string;
+  stops: string[];
+  // Trips sorted by departure from the first stop; stopTimes[i] belongs to tripIds[i]
+  tripIds: string[];
+  stopTimes: GtfsStopTime[][];
+}
+
+export interface RaptorNetwork {
+  patterns: Pattern[];
+  // Every (pattern, position) at which a stop is served
+  patternsByStop: Map<string, { pattern: number; position: number }[]>;
+}
+
+export type LabelLeg =
+  | { kind: 'RIDE'; pattern: number; trip: number; boardPosition: number; alightPosition: number }
+  | { kind: 'WALK'; fromStopId: string; meters: number };
+
+/**
+ * One Pareto-optimal way of reaching a stop: when we get there and how far we walked.
+ * The number of transfers is the round the label was found in.
+ */
+export interface Label {
+  stopId: string;
+  arrival: number;   // Service-day seconds
+  walking: number;   // Metres
+  round: number;
+  leg?: LabelLeg;
+  parent?: Label;
+}
+
+export interface RaptorQuery {
+  origins: string[];
+  destinations: string[];
+  day: ServiceDay;
+  maxTransfers: number;
+  // Stops a wheelchair user can't use and trips that aren't accessible are skipped
+  isStopUsable: (stopId: string) => boolean;
+  isTripUsable: (tripId: string) => boolean;
+}
+
+const networkCache = new WeakMap<GtfsFeed, RaptorNetwork>();
+
+/**
+ * Groups the feed's trips into patterns. Built once per feed and cached.
+ */
+export const getRaptorNetwork = (feed: GtfsFeed): RaptorNetwork => {
+  const cached = networkCache.get(feed);
+  if (cached) return cached;
+
+  const byKey = new Map<string, Pattern>();
+  feed.stopTimesByTrip.forEach((stopTimes, tripId) => {
+    const trip = feed.trips.get(tripId);
+    if (!trip || stopTimes.length < 2) return;
+    const stops = stopTimes.map(st => st.stopId);
+    const key = `${trip.routeId}|${stops.join(',')}`;
+    let pattern = byKey.get(key);
+    if (!pattern) {
+      pattern = { routeId: trip.routeId, stops, tripIds: [], stopTimes: [] };
+      byKey.set(key, pattern);
+    }
+    pattern.tripIds.push(tripId);
+    pattern.stopTimes.push(stopTimes);
+  });
+
+  const patterns = [...byKey.values()];
+  const patternsByStop = new Map<string, { pattern: number; position: number }[]>();
+  patterns.forEach((pattern, index) => {
+    // Sort trips by first departure, keeping the two arrays aligned
+    const order = pattern.tripIds.map((_, i) => i)
+      .sort((a, b) => pattern.stopTimes[a][0].departure - pattern.stopTimes[b][0].departure);
+    pattern.tripIds = order.map(i => pattern.tripIds[i]);
+    pattern.stopTimes = order.map(i => pattern.stopTimes[i]);
+
+    pattern.stops.forEach((stopId, position) => {
+      const list = patternsByStop.get(stopId);
+      if (list) list.push({ pattern: index, position });
+      else patternsByStop.set(stopId, [{ pattern: index, position }]);
+    });
+  });
+
+  const network = { patterns, patternsByStop };
+  networkCache.set(feed, network);
+  return network;
+};
+
+const dominates = (a: Label, b: Label) => a.arrival <= b.arrival && a.walking <= b.walking;
+
+/**
+ * Adds a label to a Pareto bag unless something already there is at least as good.
+ * Returns true if the bag changed.
+ */
+const insertLabel = (bag: Label[], label: Label): boolean => {
+  if (bag.some(existing => dominates(existing, label))) return false;
+  for (let i = bag.length - 1; i >= 0; i--) {
+    if (dominates(label, bag[i])) bag.splice(i, 1);
+  }
+  bag.push(label);
+  return true;
+};
+
+/**
+ * Multi-criteria RAPTOR (McRAPTOR) over one service day. Each round adds one more vehicle,
+ * so a label found in round k uses k rides; within a round, labels are kept Pareto-optimal
+ * on arrival time and walking distance. Returns every non-dominated label at the
+ * destination stops across all rounds.
+ */
+export const runRaptor = (feed: GtfsFeed, departure: number, query: RaptorQuery): Label[] => {
+  const { patterns, patternsByStop } = getRaptorNetwork(feed);
+  const destinations = new Set(query.destinations);
+
+  // Best labels per stop over all rounds so far, for pruning later rounds
+  const best = new Map<string, Label[]>();
+  const bestAt = (stopId: string) => {
+    let bag = best.get(stopId);
+    if (!bag) {
+      bag = [];
+      best.set(stopId, bag);
+    }
+    return bag;
+  };
+  const destinationLabels: Label[] = [];
+
+  // A label is worth keeping only if no earlier round (fewer rides) reached the stop at
+  // least as early with at most as much walking, and it could still beat a known arrival
+  const tryAdd = (roundBag: Map<string, Label[]>, label: Label): boolean => {
+    if (destinationLabels.some(d => d.round < label.round && dominates(d, label))) return false;
+    if (!insertLabel(bestAt(label.stopId), label)) return false;
+    let bag = roundBag.get(label.stopId);
+    if (!bag) {
+      bag = [];
+      roundBag.set(label.stopId, bag);
+    }
+    insertLabel(bag, label);
+    if (destinations.has(label.stopId)) destinationLabels.push(label);
+    return true;
+  };
+
+  const relaxFootpaths = (roundBag: Map<string, Label[]>, fromStops: Iterable<string>, marked: Set<string>) => {
+    for (const stopId of [...fromStops]) {
+      for (const label of roundBag.get(stopId) ?? []) {
+        // Never chain two walks
+        if (label.leg?.kind === 'WALK') continue;
+        for (const path of feed.footpaths.get(stopId) ?? []) {
+          if (!query.isStopUsable(path.toStopId)) continue;
+          const walked: Label = {
+            stopId: path.toStopId,
+            arrival: label.arrival + path.seconds,
+            walking: label.walking + path.meters,
+            round: label.round,
+            leg: { kind: 'WALK', fromStopId: stopId, meters: path.meters },
+            parent: label,
+          };
+          if (tryAdd(roundBag, walked)) marked.add(path.toStopId);
+        }
+      }
+    }
+  };
+
+  // Round 0: the origins themselves, plus anything within walking distance
+  let previous = new Map<string, Label[]>();
+  let marked = new Set<string>();
+  for (const origin of query.origins) {
+    if (!query.isStopUsable(origin)) continue;
+    if (tryAdd(previous, { stopId: origin, arrival: departure, walking: 0, round: 0 })) marked.add(origin);
+  }
+  relaxFootpaths(previous, [...marked], marked);
+
+  for (let round = 1; round <= query.maxTransfers + 1 && marked.size > 0; round++) {
+    const current = new Map<string, Label[]>();
+    const nextMarked = new Set<string>();
+
+    // Scan each pattern from the earliest marked stop it serves
+    const queue = new Map<number, number>();
+    for (const stopId of marked) {
+      for (const { pattern, position } of patternsByStop.get(stopId) ?? []) {
+        const queued = queue.get(pattern);
+        if (queued === undefined || position < queued) queue.set(pattern, position);
+      }
+    }
+
+    queue.forEach((startPosition, patternIndex) => {
+      const pattern = patterns[patternIndex];
+      // Trips we are currently riding, each with the label we boarded from
+      let routeBag: { trip: number; boardPosition: number; from: Label }[] = [];
+
+      for (let position = startPosition; position < pattern.stops.length; position++) {
+        const stopId = pattern.stops[position];
+
+        // Alight: every trip in the route bag yields a label here
+        if (query.isStopUsable(stopId)) {
+          for (const ride of routeBag) {
+            const label: Label = {
+              stopId,
+              arrival: pattern.stopTimes[ride.trip][position].arrival,
+              walking: ride.from.walking,
+              round,
+              leg: { kind: 'RIDE', pattern: patternIndex, trip: ride.trip, boardPosition: ride.boardPosition, alightPosition: position },
+              parent: ride.from,
+            };
+            if (tryAdd(current, label)) nextMarked.add(stopId);
+          }
+        }
+
+        // Board: catch the earliest usable trip from each label of the previous round
+        if (position === pattern.stops.length - 1 || !query.isStopUsable(stopId)) continue;
+        for (const from of previous.get(stopId) ?? []) {
+          // Changing vehicles at the same stop needs a little time
+          const readyAt = from.arrival + (from.leg?.kind === 'RIDE' ? DEFAULT_TRANSFER_SECONDS : 0);
+          const trip = pattern.stopTimes.findIndex((stopTimes, i) =>
+            stopTimes[position].departure >= readyAt &&
+            isServiceActive(feed, feed.trips.get(pattern.tripIds[i])!.serviceId, query.day) &&
+            query.isTripUsable(pattern.tripIds[i])
+          );
+          if (trip === -1) continue;
+
+          // Keep the route bag Pareto-optimal on (earlier trip, less walking)
+          if (routeBag.some(r => r.trip <= trip && r.from.walking <= from.walking)) continue;
+          routeBag = routeBag.filter(r => !(trip <= r.trip && from.walking <= r.from.walking));
+          routeBag.push({ trip, boardPosition: position, from });
+        }
+      }
+    });
+
+    relaxFootpaths(current, [...nextMarked], nextMarked);
+    previous = current;
+    marked = nextMarked;
+  }
+
+  return destinationLabels.filter(label => !destinationLabels.some(other =>
+    other !== label && other.round <= label.round && dominates(other, label) &&
+    (other.round < label.round || other.arrival < label.arrival || other.walking < label.walking)
+  ));
+};
@@ -0,0 +1,338 @@
+import { ServiceAlert } from '../../types';
+import { GtfsFeed } from './feed';
+import { ProtoField, asFloat, asString, readFields } from './protobuf';
+
+export interface StopTimeUpdate {
+  stopSequence?: number;
+  stopId?: string;
+  arrivalDelay?: number;     // Seconds
+  arrivalTime?: number;      // Unix seconds
+  departureDelay?: number;
+  departureTime?: number;
+  skipped: boolean;
+}
+
+export interface TripUpdate {
+  tripId: string;
+  routeId?: string;
+  canceled: boolean;
+  // Trip-wide delay, used where no stop-level update applies
+  delay?: number;
+  stopTimeUpdates: StopTimeUpdate[];
+}
+
+export interface VehiclePosition {
+  vehicleId?: string;
+  label?: string;
+  tripId?: string;
+  routeId?: string;
+  lat: number;
+  lng: number;
+  bearing?: number;
+  speed?: number;            // Metres per second
+  stopId?: string;
+  currentStatus?: string;    // e.g. 'STOPPED_AT'
+  congestion?: string;       // e.g. 'STOP_AND_GO'
+  occupancy?: string;        // e.g. 'FEW_SEATS_AVAILABLE'
+  timestamp?: Date;
+}
+
+/**
+ * A decoded GTFS-Realtime FeedMessage. Trip updates, vehicle positions and alerts are
+ * usually published as separate feeds; decoding their concatenated bytes merges them,
+ * because repeated protobuf fields simply accumulate.
+ */
+export interface RealtimeFeed {
+  timestamp?: Date;
+  tripUpdates: Map<string, TripUpdate>;
+  vehicles: VehiclePosition[];
+  alerts: ServiceAlert[];
+}
+
+export interface LiveStatus {
+  canceled: boolean;
+  skipped: boolean;
+  delaySeconds?: number;
+  occupancy?: string;
+}
+
+// Enum values from gtfs-realtime.proto, indexed by number
+const CAUSES = ['', 'UNKNOWN_CAUSE', 'OTHER_CAUSE', 'TECHNICAL_PROBLEM', 'STRIKE', 'DEMONSTRATION', 'ACCIDENT',
+  'HOLIDAY', 'WEATHER', 'MAINTENANCE', 'CONSTRUCTION', 'POLICE_ACTIVITY', 'MEDICAL_EMERGENCY'];
+const EFFECTS = ['', 'NO_SERVICE', 'REDUCED_SERVICE', 'SIGNIFICANT_DELAYS', 'DETOUR', 'ADDITIONAL_SERVICE',
+  'MODIFIED_SERVICE', 'OTHER_EFFECT', 'UNKNOWN_EFFECT', 'STOP_MOVED', 'NO_EFFECT', 'ACCESSIBILITY_ISSUE'];
+const VEHICLE_STATUSES = ['INCOMING_AT', 'STOPPED_AT', 'IN_TRANSIT_TO'];
+const CONGESTION_LEVELS = ['UNKNOWN_CONGESTION_LEVEL', 'RUNNING_SMOOTHLY', 'STOP_AND_GO', 'CONGESTION', 'SEVERE_CONGESTION'];
+const OCCUPANCY_STATUSES = ['EMPTY', 'MANY_SEATS_AVAILABLE', 'FEW_SEATS_AVAILABLE', 'STANDING_ROOM_ONLY',
+  'CRUSHED_STANDING_ROOM_ONLY', 'FULL', 'NOT_ACCEPTING_PASSENGERS'];
+
+// TripDescriptor.ScheduleRelationship and StopTimeUpdate.ScheduleRelationship values we act on
+const TRIP_CANCELED = 3;
+const STOP_SKIPPED = 1;
+
+const enumName = (names: string[], value: number): string | undefined => names[value] || undefined;
+
+/**
+ * How full the vehicle running a trip says it is, from 0 (empty) to 1 (not accepting
+ * passengers), or undefined when no vehicle on the trip reports it.
+ */
+export const getTripCrowding = (realtime: RealtimeFeed, tripId: string): number | undefined => {
+  const occupancy = realtime.vehicles.find(v => v.tripId === tripId && v.occupancy)?.occupancy;
+  const level = occupancy ? OCCUPANCY_STATUSES.indexOf(occupancy) : -1;
+  return level >= 0 ? level / (OCCUPANCY_STATUSES.length - 1) : undefined;
+};
+
+/**
+ * Turns an enum name into words for display and prompts: 'FEW_SEATS_AVAILABLE' → 'few seats available'.
+ */
+export const humanizeEnum = (name: string): string => name.toLowerCase().replace(/_/g, ' ');
+
+const decodeTripDescriptor = (fields: ProtoField[]) => {
+  const trip: { tripId?: string; routeId?: string; canceled: boolean } = { canceled: false };
+  for (const f of fields) {
+    if (f.field === 1) trip.tripId = asString(f);
+    if (f.field === 5) trip.routeId = asString(f);
+    if (f.field === 4) trip.canceled = f.value === TRIP_CANCELED;
+  }
+  return trip;
+};
+
+// Prefers a translation in the given language, then one without a language, then the first
+const decodeTranslatedString = (fields: ProtoField[], language: string): string | undefined => {
+  const translations = fields.filter(f => f.field === 1).map(f => {
+    const parts = readFields(f.bytes);
+    const text = parts.find(p => p.field === 1);
+    const lang = parts.find(p => p.field === 2);
+    return { text: text ? asString(text) : '', language: lang ? asString(lang).toLowerCase() : '' };
+  });
+  const pick = translations.find(t => t.language.split('-')[0] === language)
+    ?? translations.find(t => !t.language)
+    ?? translations[0];
+  return pick?.text || undefined;
+};
+
+const decodeStopTimeEvent = (bytes: Uint8Array) => {
+  const event: { delay?: number; time?: number } = {};
+  for (const f of readFields(bytes)) {
+    if (f.field === 1) event.delay = f.int32;
+    if (f.field === 2) event.time = f.value;
+  }
+  return event;
+};
+
+const decodeTripUpdate = (bytes: Uint8Array): TripUpdate | undefined => {
+  const update: TripUpdate = { tripId: '', canceled: false, stopTimeUpdates: [] };
+  for (const f of readFields(bytes)) {
+    if (f.field === 1) {
+      const trip = decodeTripDescriptor(readFields(f.bytes));
+      update.tripId = trip.tripId ?? '';
+      update.routeId = trip.routeId;
+      update.canceled = trip.canceled;
+    }
+    if (f.field === 5) update.delay = f.int32;
+    if (f.field === 2) {
+      const stopUpdate: StopTimeUpdate = { skipped: false };
+      for (const s of readFields(f.bytes)) {
+        if (s.field === 1) stopUpdate.stopSequence = s.value;
+        if (s.field === 4) stopUpdate.stopId = asString(s);
+        if (s.field === 5) stopUpdate.skipped = s.value === STOP_SKIPPED;
+        if (s.field === 2) {
+          const arrival = decodeStopTimeEvent(s.bytes);
+          stopUpdate.arrivalDelay = arrival.delay;
+          stopUpdate.arrivalTime = arrival.time;
+        }
+        if (s.field === 3) {
+          const departure = decodeStopTimeEvent(s.bytes);
+          stopUpdate.departureDelay = departure.delay;
+          stopUpdate.departureTime = departure.time;
+        }
+      }
+      update.stopTimeUpdates.push(stopUpdate);
+    }
+  }
+  // Trips added outside the schedule have no trip_id to match against the static feed
+  return update.tripId ? update : undefined;
+};
+
+const decodeVehicle = (bytes: Uint8Array): VehiclePosition | undefined => {
+  const vehicle: Partial<VehiclePosition> = {};
+  for (const f of readFields(bytes)) {
+    switch (f.field) {
+      case 1: {
+        const trip = decodeTripDescriptor(readFields(f.bytes));
+        vehicle.tripId = trip.tripId;
+        vehicle.routeId = trip.routeId;
+        break;
+      }
+      case 2:
+        for (const p of readFields(f.bytes)) {
+          if (p.field === 1) vehicle.lat = asFloat(p);
+          if (p.field === 2) vehicle.lng = asFloat(p);
+          if (p.field === 3) vehicle.bearing = asFloat(p);
+          if (p.field === 5) vehicle.speed = asFloat(p);
+        }
+        break;
+      case 4: vehicle.currentStatus = enumName(VEHICLE_STATUSES, f.value); break;
+      case 5: vehicle.timestamp = new Date(f.value * 1000); break;
+      case 6: vehicle.congestion = enumName(CONGESTION_LEVELS, f.value); break;
+      case 7: vehicle.stopId = asString(f); break;
+      case 8:
+        for (const v of readFields(f.bytes)) {
+          if (v.field === 1) vehicle.vehicleId = asString(v);
+          if (v.field === 2) vehicle.label = asString(v);
+        }
+        break;
+      case 9: vehicle.occupancy = enumName(OCCUPANCY_STATUSES, f.value); break;
+    }
+  }
+  return vehicle.lat !== undefined && vehicle.lng !== undefined ? vehicle as VehiclePosition : undefined;
+};
+
+const decodeAlert = (id: string, bytes: Uint8Array, language: string): ServiceAlert | undefined => {
+  const alert: ServiceAlert = { id, header: '', activePeriods: [], agencyWide: false, routeIds: [], stopIds: [], tripIds: [] };
+  for (const f of readFields(bytes)) {
+    switch (f.field) {
+      case 1: {
+        const period: { start?: Date; end?: Date } = {};
+        for (const p of readFields(f.bytes)) {
+          if (p.field === 1 && p.value) period.start = new Date(p.value * 1000);
+          if (p.field === 2 && p.value) period.end = new Date(p.value * 1000);
+        }
+        alert.activePeriods.push(period);
+        break;
+      }
+      case 5: {
+        const selector = readFields(f.bytes);
+        const routeId = selector.find(s => s.field === 2);
+        const stopId = selector.find(s => s.field === 5);
+        const trip = selector.find(s => s.field === 4);
+        if (routeId) alert.routeIds.push(asString(routeId));
+        if (stopId) alert.stopIds.push(asString(stopId));
+        if (trip) {
+          const descriptor = decodeTripDescriptor(readFields(trip.bytes));
+          if (descriptor.tripId) alert.tripIds.push(descriptor.tripId);
+          else if (descriptor.routeId) alert.routeIds.push(descriptor.routeId);
+        }
+        // A selector naming only the agency (or route type) covers the whole network
+        if (!routeId && !stopId && !trip) alert.agencyWide = true;
+        break;
+      }
+      case 6: alert.cause = enumName(CAUSES, f.value); break;
+      case 7: alert.effect = enumName(EFFECTS, f.value); break;
+      case 8: alert.url = decodeTranslatedString(readFields(f.bytes), language); break;
+      case 10: alert.header = decodeTranslatedString(readFields(f.bytes), language) ?? ''; break;
+      case 11: alert.description = decodeTranslatedString(readFields(f.bytes), language); break;
+    }
+  }
+  if (!alert.header && alert.effect) alert.header = humanizeEnum(alert.effect);
+  return alert.header ? alert : undefined;
+};
+
+/**
+ * Decodes a GTFS-Realtime FeedMessage (TripUpdates, VehiclePositions and Alerts, in any
+ * mix). Throws with a user-facing message if the bytes aren't a realtime feed.
+ */
+export const decodeRealtimeFeed = (bytes: Uint8Array, language = 'en'): RealtimeFeed => {
+  const feed: RealtimeFeed = { tripUpdates: new Map(), vehicles: [], alerts: [] };
+  try {
+    for (const f of readFields(bytes)) {
+      if (f.field === 1) {
+        const timestamp = readFields(f.bytes).find(h => h.field === 3);
+        // Concatenated feeds carry several headers; keep the newest
+        if (timestamp?.value && (!feed.timestamp || timestamp.value * 1000 > feed.timestamp.getTime())) {
+          feed.timestamp = new Date(timestamp.value * 1000);
+        }
+        continue;
+      }
+      if (f.field !== 2) continue;
+
+      const entity = readFields(f.bytes);
+      if (entity.some(e => e.field === 2 && e.value === 1)) continue; // is_deleted
+      const idField = entity.find(e => e.field === 1);
+      const id = idField ? asString(idField) : String(feed.alerts.length);
+
+      for (const e of entity) {
+        if (e.field === 3) {
+          const update = decodeTripUpdate(e.bytes);
+          if (update) feed.tripUpdates.set(update.tripId, update);
+        }
+        if (e.field === 4) {
+          const vehicle = decodeVehicle(e.bytes);
+          if (vehicle) feed.vehicles.push(vehicle);
+        }
+        if (e.field === 5) {
+          const alert = decodeAlert(id, e.bytes, language);
+          if (alert) feed.alerts.push(alert);
+        }
+      }
+    }
+  } catch (error) {
+    throw new Error("Couldn't read that realtime feed. Please use a GTFS-Realtime protobuf (.pb) feed.");
+  }
+  return feed;
+};
+
+export const isAlertActive = (alert: ServiceAlert, at: Date): boolean =>
+  alert.activePeriods.length === 0 ||
+  alert.activePeriods.some(p => (!p.start || p.start <= at) && (!p.end || p.end >= at));
+
+/**
+ * Works out how a scheduled departure is running. A stop without its own update takes the
+ * delay of the nearest earlier updated stop, as the GTFS-Realtime spec says delays
+ * propagate down the trip; failing that, the trip-wide delay is used.
+ */
+export const getLiveStatus = (
+  realtime: RealtimeFeed,
+  feed: GtfsFeed,
+  tripId: string,
+  stopId: string,
+  scheduled: Date
+): LiveStatus | undefined => {
+  const update = realtime.tripUpdates.get(tripId);
+  const occupancy = realtime.vehicles.find(v => v.tripId === tripId)?.occupancy;
+  if (!update) return occupancy ? { canceled: false, skipped: false, occupancy } : undefined;
+
+  const status: LiveStatus = { canceled: update.canceled, skipped: false, occupancy };
+  if (update.canceled) return status;
+
+  const stopTimes = feed.stopTimesByTrip.get(tripId) ?? [];
+  const target = stopTimes.find(st => st.stopId === stopId);
+  const sequenceOf = (u: StopTimeUpdate) =>
+    u.stopSequence ?? stopTimes.find(st => st.stopId === u.stopId)?.sequence;
+
+  let applicable: StopTimeUpdate | undefined;
+  for (const u of update.stopTimeUpdates) {
+    if (u.stopId === stopId || (target && u.stopSequence === target.sequence)) {
+      applicable = u;
+      break;
+    }
+    const sequence = sequenceOf(u);
+    if (target && sequence !== undefined && sequence < target.sequence) applicable = u;
+  }
+
+  if (!applicable) {
+    status.delaySeconds = update.delay;
+    return status;
+  }
+
+  const exact = applicable.stopId === stopId || (!!target && applicable.stopSequence === target.sequence);
+  if (exact && applicable.skipped) {
+    status.skipped = true;
+    return status;
+  }
+
+  const delay = applicable.departureDelay ?? applicable.arrivalDelay;
+  if (delay !== undefined) {
+    status.delaySeconds = delay;
+    return status;
+  }
+
+  // Only absolute times: compare against the schedule at the stop the update is for
+  const time = applicable.departureTime ?? applicable.arrivalTime;
+  const updatedStop = stopTimes.find(st => st.sequence === sequenceOf(applicable!));
+  if (time !== undefined && target && updatedStop) {
+    const scheduledThere = scheduled.getTime() + (updatedStop.departure - target.departure) * 1000;
+    status.delaySeconds = Math.round((time * 1000 - scheduledThere) / 1000);
+  }
+  return status;
+};
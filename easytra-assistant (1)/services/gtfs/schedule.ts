@@ -0,0 +1,142 @@
+import { Departure, TransitMode } from '../../types';
+import { GtfsFeed, GtfsRoute, GtfsStop, GtfsTrip } from './feed';
+
+const DAY_SECONDS = 24 * 3600;
+
+/**
+ * A service day and the offset (in seconds) from it to the moment being planned for.
+ * Trips from yesterday's service can still be running after midnight (times >= 24:00),
+ * so lookups consider both days.
+ */
+export interface ServiceDay {
+  date: Date;        // Local midnight
+  dateKey: string;   // YYYYMMDD, as used in calendar.txt
+  secondsNow: number;
+}
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * Times are interpreted in the device's timezone, which is assumed to match the feed's.
+ */
+export const getServiceDays = (at: Date): ServiceDay[] => {
+  const today = new Date(at.getFullYear(), at.getMonth(), at.getDate());
+  const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+  const secondsToday = (at.getTime() - today.getTime()) / 1000;
+  return [
+    { date: yesterday, dateKey: toDateKey(yesterday), secondsNow: secondsToday + DAY_SECONDS },
+    { date: today, dateKey: toDateKey(today), secondsNow: secondsToday },
+  ];
+};
+
+export const isServiceActive = (feed: GtfsFeed, serviceId: string, day: ServiceDay): boolean => {
+  const service = feed.services.get(serviceId);
+  if (!service) return false;
+  if (service.removedDates.has(day.dateKey)) return false;
+  if (service.addedDates.has(day.dateKey)) return true;
+  if (service.startDate && day.dateKey < service.startDate) return false;
+  if (service.endDate && day.dateKey > service.endDate) return false;
+  return service.weekdays[day.date.getDay()];
+};
+
+export const serviceTimeToDate = (day: ServiceDay, seconds: number): Date =>
+  // Build from wall-clock fields so DST changes land on the right local time
+  new Date(day.date.getFullYear(), day.date.getMonth(), day.date.getDate(), 0, 0, seconds);
+
+export const getRouteName = (route: GtfsRoute | undefined): string =>
+  route ? (route.shortName || route.longName || route.id) : 'Unknown route';
+
+/**
+ * The app's mode for a GTFS route_type, covering both the basic types and the extended
+ * (Europe-derived) ones such as 109 suburban rail or 700 bus service. Trams, cable cars
+ * and funiculars count as metro, the closest urban-rail mode the app has.
+ */
+export const getRouteMode = (route: GtfsRoute | undefined): TransitMode => {
+  const type = route?.type ?? 3;
+  if (type === 2 || (type >= 100 && type < 200)) return 'TRAIN';
+  if (type === 3 || type === 11 || (type >= 200 && type < 300) || (type >= 700 && type < 800)) return 'BUS';
+  if (type === 4 || type === 1000 || type === 1200) return 'FERRY';
+  if (type === 1500) return 'CAB';
+  return 'METRO';
+};
+
+export const describeTrip = (feed: GtfsFeed, trip: GtfsTrip) => ({
+  routeName: getRouteName(feed.routes.get(trip.routeId)),
+  headsign: trip.headsign,
+});
+
+/**
+ * Expands a station to its platforms (and keeps plain stops as they are).
+ */
+export const expandStop = (feed: GtfsFeed, stopId: string): string[] => {
+  const children = feed.childStops.get(stopId);
+  return children?.length ? [stopId, ...children] : [stopId];
+};
+
+export const normalizeStopName = (name: string): string =>
+  name.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Finds stops whose name appears in free text, in order of appearance. Stations are
+ * preferred over their own platforms, and longer names win over names they contain
+ * ("Central Park" beats "Central").
+ */
+export const findStopsInText = (feed: GtfsFeed, text: string): GtfsStop[] => {
+  const haystack = ` ${normalizeStopName(text)} `;
+  const matches: { stop: GtfsStop; index: number; length: number }[] = [];
+  const seenNames = new Set<string>();
+
+  feed.stops.forEach(stop => {
+    // Platforms are reached through their station
+    if (stop.parentStation && feed.stops.has(stop.parentStation)) return;
+    const name = normalizeStopName(stop.name);
+    if (name.length < 3 || seenNames.has(name)) return;
+    const index = haystack.indexOf(` ${name} `);
+    if (index === -1) return;
+    seenNames.add(name);
+    matches.push({ stop, index, length: name.length });
+  });
+
+  // Drop matches that sit inside a longer match
+  return matches
+    .filter(m => !matches.some(other =>
+      other !== m && other.length > m.length && m.index >= other.index && m.index + m.length <= other.index + other.length
+    ))
+    .sort((a, b) => a.index - b.index)
+    .map(m => m.stop);
+};
+
+/**
+ * Lists the next scheduled departures from a stop (including a station's platforms).
+ * Departures at the trip's final stop are skipped since nobody can board them.
+ */
+export const getNextDepartures = (feed: GtfsFeed, stopId: string, at: Date, limit = 5): Departure[] => {
+  const stopName = feed.stops.get(stopId)?.name ?? stopId;
+  const departures: Departure[] = [];
+
+  for (const day of getServiceDays(at)) {
+    for (const id of expandStop(feed, stopId)) {
+      for (const stopTime of feed.stopTimesByStop.get(id) ?? []) {
+        if (stopTime.departure < day.secondsNow) continue;
+        const trip = feed.trips.get(stopTime.tripId);
+        if (!trip || !isServiceActive(feed, trip.serviceId, day)) continue;
+
+        const tripStops = feed.stopTimesByTrip.get(trip.id);
+        if (tripStops && tripStops[tripStops.length - 1] === stopTime) continue;
+
+        departures.push({
+          stopId: id,
+          stopName,
+          tripId: trip.id,
+          ...describeTrip(feed, trip),
+          time: serviceTimeToDate(day, stopTime.departure),
+        });
+      }
+    }
+  }
+
+  return departures
+    .sort((a, b) => a.time.getTime() - b.time.getTime())
+    .slice(0, limit);
+};
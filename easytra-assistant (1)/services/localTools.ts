@@ -0,0 +1,200 @@
+import { LocalToolbox, LocationSharing, RailClass, SavedPlace, SavedRoute, ToolCall, ToolCallRecord, TrainOption, TransitMode } from "../types";
+import { GtfsFeed, GtfsStop } from "./gtfs/feed";
+import { expandStop, findStopsInText, getNextDepartures, normalizeStopName } from "./gtfs/schedule";
+import { RealtimeFeed, getLiveStatus, humanizeEnum, isAlertActive } from "./gtfs/realtime";
+import { estimateFare } from "./fares";
+import { RAIL_CLASSES, TRANSIT_MODES, formatFareRange, normalizeTrains } from "./tripPlan";
+import { shareSavedPlaces } from "./locationPrivacy";
+import { RAIL_QUOTAS, RailAdapter, RailLookupError, RailQuota, toDateString } from "./rail/adapter";
+
+export interface LocalToolContext {
+  timetable?: GtfsFeed;
+  realtime?: RealtimeFeed;
+  savedRoutes: SavedRoute[];
+  savedPlaces?: SavedPlace[];
+  // Applied to saved places' coordinates; their addresses are never sent
+  locationSharing?: LocationSharing;
+  // Indian Railways lookups; the train tools are only offered with one
+  rail?: RailAdapter;
+  now?: Date;
+}
+
+type ToolHandler = (args: Record<string, unknown>) => Record<string, unknown> | Promise<Record<string, unknown>>;
+
+// Thrown by handlers for bad arguments or missing data; the message goes back to the model
+class ToolError extends Error {}
+
+const MAX_DEPARTURES = 10;
+
+const WHEELCHAIR_STATUS = ['unknown', 'step-free', 'not step-free'];
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+const requireString = (args: Record<string, unknown>, key: string): string => {
+  const value = args[key];
+  if (typeof value !== 'string' || !value.trim()) throw new ToolError(`"${key}" is required`);
+  return value.trim();
+};
+
+/**
+ * Resolves a stop name the model passed in: an exact or contained name match first, then
+ * a prefix match ("Central" → "Central Station").
+ */
+const findStop = (feed: GtfsFeed, name: string): GtfsStop => {
+  const exact = findStopsInText(feed, name)[0];
+  if (exact) return exact;
+  const wanted = normalizeStopName(name);
+  for (const stop of feed.stops.values()) {
+    if (stop.parentStation && feed.stops.has(stop.parentStation)) continue;
+    if (normalizeStopName(stop.name).startsWith(wanted)) return stop;
+  }
+  throw new ToolError(`No stop called "${name}" in the imported timetable`);
+};
+
+// A YYYY-MM-DD date argument, today when left out
+const optionalDate = (args: Record<string, unknown>, key: string, now: Date): string => {
+  const value = args[key];
+  if (value === undefined || value === null || value === '') return toDateString(now);
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value.trim())) throw new ToolError(`"${key}" must be YYYY-MM-DD`);
+  return value.trim();
+};
+
+const createHandlers = ({ timetable, realtime, savedRoutes, savedPlaces = [], locationSharing = 'NEVER', rail, now = new Date() }: LocalToolContext): Record<string, ToolHandler> => {
+  const handlers: Record<string, ToolHandler> = {
+    calculateFare: args => {
+      const mode = String(args.mode ?? '').toUpperCase() as TransitMode;
+      const distanceKm = Number(args.distanceKm);
+      if (!TRANSIT_MODES.includes(mode)) throw new ToolError(`Unknown mode "${args.mode}"`);
+      if (!Number.isFinite(distanceKm) || distanceKm < 0) throw new ToolError('"distanceKm" must be a positive number');
+
+      const { fare, basis } = estimateFare(mode, distanceKm);
+      return { mode, distanceKm, fare: formatFareRange(fare), min: fare.min, max: fare.max, currency: fare.currency, basis };
+    },
+
+    getSavedPlaces: () => {
+      // Named places first, then every origin and destination of a saved route, with the
+      // routes that use it
+      const places = new Map<string, string[]>();
+      for (const route of savedRoutes) {
+        for (const place of [route.origin, route.destination]) {
+          places.set(place, [...(places.get(place) ?? []), route.name]);
+        }
+      }
+      return {
+        namedPlaces: shareSavedPlaces(savedPlaces, locationSharing),
+        places: [...places].map(([name, routes]) => ({ name, savedRoutes: routes })),
+        savedRoutes: savedRoutes.map(r => ({ name: r.name, origin: r.origin, destination: r.destination })),
+      };
+    },
+  };
+
+  if (timetable) {
+    handlers.getNextDepartures = args => {
+      const stop = findStop(timetable, requireString(args, 'stop'));
+      const limit = Math.min(MAX_DEPARTURES, Math.max(1, Number(args.limit) || 5));
+      const departures = getNextDepartures(timetable, stop.id, now, limit).map(d => {
+        const live = realtime && getLiveStatus(realtime, timetable, d.tripId, d.stopId, d.time);
+        return {
+          time: formatTime(d.time),
+          route: d.routeName,
+          headsign: d.headsign,
+          ...(live && {
+            canceled: live.canceled || undefined,
+            delayMinutes: live.delaySeconds !== undefined ? Math.round(live.delaySeconds / 60) : undefined,
+            occupancy: live.occupancy && humanizeEnum(live.occupancy),
+          }),
+        };
+      });
+      return { stop: stop.name, source: realtime ? 'timetable + live feed' : 'timetable', departures };
+    };
+
+    handlers.checkStationAccessibility = args => {
+      const stop = findStop(timetable, requireString(args, 'station'));
+      const ids = expandStop(timetable, stop.id);
+      const platforms = ids
+        .map(id => timetable.stops.get(id)!)
+        .filter(s => s.id !== stop.id)
+        .map(s => ({
+          name: s.name,
+          // Platforms that don't say inherit the station's value
+          wheelchair: WHEELCHAIR_STATUS[s.wheelchairBoarding || stop.wheelchairBoarding] ?? 'unknown',
+        }));
+      const alerts = (realtime?.alerts ?? [])
+        .filter(a => isAlertActive(a, now) && a.effect === 'ACCESSIBILITY_ISSUE' && a.stopIds.some(id => ids.includes(id)))
+        .map(a => a.header);
+      return {
+        station: stop.name,
+        wheelchair: WHEELCHAIR_STATUS[stop.wheelchairBoarding] ?? 'unknown',
+        platforms,
+        liveAccessibilityAlerts: alerts,
+      };
+    };
+  }
+
+  if (rail) {
+    handlers.searchTrains = async args => {
+      const trains = await rail.searchTrains(requireString(args, 'from'), requireString(args, 'to'), optionalDate(args, 'date', now));
+      return {
+        source: rail.label,
+        from: trains[0]?.from,
+        to: trains[0]?.to,
+        trains: trains.map(({ from, to, ...train }) => train),
+      };
+    };
+
+    handlers.getSeatAvailability = async args => {
+      const travelClass = requireString(args, 'travelClass').toUpperCase() as RailClass;
+      if (!RAIL_CLASSES.includes(travelClass)) throw new ToolError(`Unknown class "${args.travelClass}"; use one of ${RAIL_CLASSES.join(', ')}`);
+      const quota = (typeof args.quota === 'string' && args.quota.trim() ? args.quota.trim().toUpperCase() : 'GN') as RailQuota;
+      if (!RAIL_QUOTAS.includes(quota)) throw new ToolError(`Unknown quota "${args.quota}"; use one of ${RAIL_QUOTAS.join(', ')}`);
+      const availability = await rail.getSeatAvailability(
+        requireString(args, 'trainNumber'), requireString(args, 'from'), requireString(args, 'to'),
+        optionalDate(args, 'date', now), travelClass, quota
+      );
+      return { source: rail.label, ...availability };
+    };
+
+    handlers.getPnrStatus = async args => ({ source: rail.label, ...(await rail.getPnrStatus(requireString(args, 'pnr'))) });
+
+    handlers.getTrainRunningStatus = async args => ({
+      source: rail.label,
+      ...(await rail.getRunningStatus(requireString(args, 'trainNumber'), optionalDate(args, 'date', now))),
+    });
+  }
+
+  return handlers;
+};
+
+/**
+ * The trains the rail tools found for a reply, from its searchTrains calls, in the shape
+ * trip plans use. Shown as a table, so the reply doesn't have to list them.
+ */
+export const getTrainResults = (toolCalls?: ToolCallRecord[]): TrainOption[] =>
+  (toolCalls ?? [])
+    .filter(record => record.call.name === 'searchTrains' && !record.isError)
+    .flatMap(record => normalizeTrains(record.result.trains));
+
+/**
+ * Builds the set of tools the model may call for this message. Timetable tools are only
+ * offered once a timetable has been imported, and train tools when there is a rail source. Tool failures are reported to the model as
+ * an `error` result instead of failing the reply.
+ */
+export const createLocalToolbox = (context: LocalToolContext): LocalToolbox => {
+  const handlers = createHandlers(context);
+  return {
+    names: Object.keys(handlers),
+    execute: async (call: ToolCall): Promise<ToolCallRecord> => {
+      const handler = handlers[call.name];
+      if (!handler) return { call, result: { error: `Unknown tool "${call.name}"` }, isError: true };
+      try {
+        return { call, result: await handler(call.args ?? {}) };
+      } catch (error) {
+        const isExpected = error instanceof ToolError || error instanceof RailLookupError;
+        if (!isExpected) console.error(`Local tool ${call.name} failed:`, error);
+        const message = isExpected ? error.message : 'The tool failed on this device';
+        return { call, result: { error: message }, isError: true };
+      }
+    },
+  };
+};
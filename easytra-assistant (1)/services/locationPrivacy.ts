@@ -0,0 +1,149 @@
+import { LatLng, LocationDisclosure, LocationSharing, SavedPlace, TripOrigin } from "../types";
+import { escapeRegExp, resolvePlaceMentions } from "./savedPlaces";
+
+/**
+ * Everything location-related passes through here before it is sent to the model, so the
+ * user's sharing setting is applied in one place and what was sent can be shown to them.
+ * Saved places never leave the device as addresses, only as their names plus whatever
+ * the setting allows of their coordinates.
+ */
+
+// Approximate locations are snapped to a grid this many degrees wide (about 1 km)
+const APPROXIMATE_GRID_DEGREES = 0.01;
+
+const ORIGIN_LABELS: Record<TripOrigin['source'], string> = {
+  GPS: 'Starting point (GPS)',
+  SAVED_PLACE: 'Starting point (saved place)',
+  MANUAL: 'Starting point (picked)',
+};
+
+const snap = (value: number) => Math.round(value / APPROXIMATE_GRID_DEGREES) * APPROXIMATE_GRID_DEGREES;
+
+/**
+ * A location as the sharing setting allows it to be sent, or undefined when it can't be.
+ */
+export const shareLocation = (location: LatLng | undefined, sharing: LocationSharing): LatLng | undefined => {
+  if (!location || sharing === 'NEVER') return undefined;
+  if (sharing === 'PRECISE') return location;
+  return { lat: Number(snap(location.lat).toFixed(2)), lng: Number(snap(location.lng).toFixed(2)) };
+};
+
+const formatLocation = (location: LatLng, sharing: LocationSharing) =>
+  sharing === 'PRECISE'
+    ? `${location.lat.toFixed(5)}, ${location.lng.toFixed(5)}`
+    : `${location.lat.toFixed(2)}, ${location.lng.toFixed(2)} (approximate)`;
+
+/**
+ * The starting point as sent to the model. GPS positions are dropped entirely when
+ * sharing is off; saved places (including a picked address that is one) keep only their
+ * name.
+ */
+export const shareOrigin = (origin: TripOrigin | null, sharing: LocationSharing, places: SavedPlace[]): TripOrigin | null => {
+  if (!origin) return null;
+  const location = shareLocation(origin.location, sharing);
+  const savedAs = origin.address && places.find(p => p.address.trim().toLowerCase() === origin.address!.trim().toLowerCase());
+  switch (origin.source) {
+    case 'GPS':
+      return location ? { ...origin, location } : null;
+    case 'SAVED_PLACE':
+      return { source: 'SAVED_PLACE', name: origin.name, location };
+    case 'MANUAL':
+      return savedAs ? { source: 'SAVED_PLACE', name: savedAs.name, location } : { ...origin, location };
+  }
+};
+
+/**
+ * Replaces saved places' addresses typed out in full with their names.
+ */
+export const redactAddresses = (text: string, places: SavedPlace[]): string =>
+  places
+    .filter(place => place.address.trim().length > 0)
+    .reduce((redacted, place) => redacted.replace(new RegExp(escapeRegExp(place.address.trim()), 'gi'), place.name), text);
+
+const describeSavedPlace = (place: SavedPlace, sharing: LocationSharing): string => {
+  const location = shareLocation(place.location, sharing);
+  if (!location) return `${place.name} (a saved place; its location isn't shared)`;
+  return sharing === 'PRECISE'
+    ? `${place.name} (saved place at ${formatLocation(location, sharing)})`
+    : `${place.name} (saved place near ${location.lat.toFixed(2)}, ${location.lng.toFixed(2)})`;
+};
+
+export interface OutgoingMessage {
+  text: string;
+  // Saved places the message refers to, as they were described
+  places: SavedPlace[];
+}
+
+/**
+ * The user's message as sent: typed-out home (or other saved) addresses become their
+ * names, and places used by name get the location the setting allows.
+ */
+export const prepareMessage = (text: string, places: SavedPlace[], sharing: LocationSharing): OutgoingMessage => {
+  const mentioned: SavedPlace[] = [];
+  const resolved = resolvePlaceMentions(redactAddresses(text, places), places, place => {
+    if (!mentioned.includes(place)) mentioned.push(place);
+    return describeSavedPlace(place, sharing);
+  });
+  return { text: resolved, places: mentioned };
+};
+
+/**
+ * Several texts that go out in one request, such as a commute's name and ends, each
+ * prepared as prepareMessage does. A text that is nothing but a saved place ("Home", or
+ * its address) is described too, since there is no "from" or "to" before it. `places`
+ * lists every saved place they refer to once.
+ */
+export const prepareTexts = (texts: string[], places: SavedPlace[], sharing: LocationSharing) => {
+  const prepared = texts.map((text): OutgoingMessage => {
+    const redacted = redactAddresses(text, places).trim();
+    const place = places.find(p => p.name.toLowerCase() === redacted.toLowerCase());
+    return place ? { text: describeSavedPlace(place, sharing), places: [place] } : prepareMessage(text, places, sharing);
+  });
+  return {
+    texts: prepared.map(p => p.text),
+    places: [...new Set(prepared.flatMap(p => p.places))],
+  };
+};
+
+/**
+ * Saved places as the getSavedPlaces tool reports them to the model.
+ */
+export const shareSavedPlaces = (places: SavedPlace[], sharing: LocationSharing) =>
+  places.map(place => {
+    const location = shareLocation(place.location, sharing);
+    return { name: place.name, lat: location?.lat, lng: location?.lng };
+  });
+
+/**
+ * The list shown to the user of what location data went out with a message.
+ */
+export const describeDisclosures = (
+  origin: TripOrigin | null,
+  places: SavedPlace[],
+  sharing: LocationSharing,
+  // Set when the getSavedPlaces tool sent the whole list
+  listedPlaces: SavedPlace[] = []
+): LocationDisclosure[] => {
+  const disclosures: LocationDisclosure[] = [];
+  if (origin) {
+    const parts = [
+      origin.source !== 'GPS' ? `"${origin.address ? `${origin.name}, ${origin.address}` : origin.name}"` : '',
+      origin.location ? formatLocation(origin.location, sharing) : '',
+    ].filter(Boolean);
+    disclosures.push({ label: ORIGIN_LABELS[origin.source], value: parts.join(' · ') || origin.name });
+  }
+  for (const place of places) {
+    const location = shareLocation(place.location, sharing);
+    disclosures.push({ label: `Saved place "${place.name}"`, value: location ? formatLocation(location, sharing) : 'Name only' });
+  }
+  if (listedPlaces.length) {
+    disclosures.push({
+      label: 'Saved places list (looked up by the assistant)',
+      value: listedPlaces.map(place => {
+        const location = shareLocation(place.location, sharing);
+        return location ? `${place.name}: ${formatLocation(location, sharing)}` : place.name;
+      }).join('; '),
+    });
+  }
+  return disclosures;
+};
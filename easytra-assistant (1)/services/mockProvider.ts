@@ -0,0 +1,170 @@
+import { AssistantReply, AssistantRequest, GroundingChunk, GroundingSupport, ToolCall, ToolCallRecord, TransitAssistantProvider } from "../types";
+import { parseAssistantReply, stripReplyBlocks } from "./replyBlocks";
+
+export interface ScriptedReply {
+  match: RegExp;
+  text: string;
+  groundingChunks?: GroundingChunk[];
+  groundingSupports?: GroundingSupport[];
+  // Local tools to "call" before replying; skipped if the request doesn't offer them
+  toolCalls?: ToolCall[];
+}
+
+const INTERCITY_REPLY = `Great choice! 🚆 Here's how to get to Mumbai.
+
+**🌤️ Weather: Humid, 31°C | ⏱️ Duration: 3h 25m | 📏 Distance: 192 km | 💰 Est. Fare: ₹110-1,250 | 🛣️ Tolls: 2**
+
+**Detailed Fares:** 🚌 Bus: ~₹450 | 🚆 Train: ~₹110 | 🚇 Metro: N/A
+
+**🚆 Best Train:** The **12124 Deccan Queen** is the quickest morning run, with AC chair car seats still open. The **11008 Deccan Express** leaves 35 minutes later and has sleeper berths if you'd rather stretch out.
+
+**🚆 Train vs. 🚌 Bus Comparison**
+- **Comfort:** Chair car on the Deccan Queen beats an AC seater on the expressway.
+- **Availability:** Buses leave every 30 mins; trains need booking.
+- **Price:** The train is cheaper.
+
+**🚶 To Station:** Walk 600 m north along the main road to Pune Junction, entrance on the left.
+
+Shall I save this route for you?
+
+\`\`\`tripplan
+{"origin":"Pune","destination":"Mumbai","legs":[{"mode":"WALK","from":"Current location","to":"Pune Junction","durationMinutes":8,"distanceKm":0.6,"fromLatLng":[18.5246,73.8786],"toLatLng":[18.5289,73.8744]},{"mode":"TRAIN","from":"Pune Junction","to":"Mumbai CSMT","line":"12124","departureTime":"07:15","arrivalTime":"10:25","durationMinutes":190,"distanceKm":192,"path":[[18.5289,73.8744],[18.7546,73.4062],[18.9107,73.3236],[19.2352,73.1299],[19.186,72.9756],[19.0186,72.843],[18.9398,72.8355]]}],"totalDurationMinutes":205,"distanceKm":192,"weather":{"condition":"Humid","temperatureC":31},"fares":{"bus":{"min":400,"max":500,"currency":"INR"},"train":{"min":110,"max":765,"currency":"INR"}},"totalFare":{"min":110,"max":1250,"currency":"INR"},"tolls":2,"trains":[{"name":"Deccan Queen","number":"12124","departureTime":"07:15","arrivalTime":"10:25","durationMinutes":190,"classFares":{"CC":455,"2S":120}},{"name":"Deccan Express","number":"11008","departureTime":"07:50","arrivalTime":"11:05","durationMinutes":195,"classFares":{"CC":415,"SL":190,"2S":110}}],"places":[{"name":"Pune Junction","latLng":[18.5289,73.8744]},{"name":"Mumbai CSMT","latLng":[18.9398,72.8355]}]}
+\`\`\``;
+
+const TRAFFIC_REPLY = `Heads up! 🚦 There's **heavy congestion** on the ring road: the evening peak is adding about 15 minutes.
+
+**🌤️ Weather: Clear, 27°C | ⏱️ Duration: 45 min | 📏 Distance: 12 km | 💰 Est. Fare: ₹30-40 | 🛣️ Tolls: N/A**
+
+**Detailed Fares:** 🚌 Bus: ~₹30 | 🚆 Train: N/A | 🚇 Metro: ~₹40
+
+**🚶 To Station:** Walk 300 m east to the City Centre bus stop for the 500.
+
+**💡 Smart Tips**
+- **🔀 Alt Route:** Take the Metro Blue Line to skip the ring road entirely.
+- **⏳ Best Time to Leave:** The peak eases after 20:30, which saves ~15 mins.
+
+Want walking directions to the stop?
+
+\`\`\`tripplan
+{"origin":"Current location","destination":"Airport","legs":[{"mode":"WALK","from":"Current location","to":"City Centre","durationMinutes":4,"distanceKm":0.3},{"mode":"BUS","from":"City Centre","to":"Airport","line":"500","durationMinutes":41,"distanceKm":11.7,"congestion":{"severity":"HEAVY","cause":"Evening peak on the ring road","delayMinutes":15,"from":"16:00","until":"20:30"}}],"totalDurationMinutes":45,"distanceKm":12,"weather":{"condition":"Clear","temperatureC":27},"fares":{"bus":{"min":30,"max":30,"currency":"INR"},"metro":{"min":40,"max":40,"currency":"INR"}},"totalFare":{"min":30,"max":40,"currency":"INR"},"alternateRoute":"Metro Blue Line avoids the ring road","bestDepartureTime":"20:30"}
+\`\`\``;
+
+const SAVE_ROUTE_REPLY = `Done! ⭐ I've saved this trip to your routes as **Pune → Mumbai**. You can re-run it any time from the saved routes panel to get fresh live conditions.
+
+Anything else I can help with?
+
+\`\`\`saveroute
+{"name":"Pune → Mumbai"}
+\`\`\``;
+
+const FARE_REPLY = `Here's what a 6 km hop across town should cost 💰
+
+- 🛺 **Auto-rickshaw:** ~₹95-130 (metered, more at night)
+- 🚇 **Metro:** ~₹26-32 (cheaper with a smart card)
+
+The metro is the budget pick; an auto saves the walk to the station.
+
+Want me to plan the metro route?`;
+
+const DEFAULT_REPLY = `Happy to help! 👋 I'm running in **offline demo mode**, so I only know a few scripted trips.
+
+Try asking me to _"go to Mumbai"_, _"avoid traffic to the airport"_ or _"how much is a 6 km ride?"_.
+
+Where would you like to go?`;
+
+const SCRIPT: ScriptedReply[] = [
+  {
+    match: /^(yes|yeah|sure|ok(ay)?|please)\b|\bsave\b/i,
+    text: SAVE_ROUTE_REPLY,
+  },
+  {
+    match: /mumbai|delhi|intercity|train/i,
+    text: INTERCITY_REPLY,
+    toolCalls: [
+      { name: 'searchTrains', args: { from: 'Pune', to: 'Mumbai' } },
+    ],
+    groundingChunks: [
+      { web: { uri: 'https://www.irctc.co.in/', title: 'IRCTC Next Generation eTicketing' } },
+      { maps: { uri: 'https://maps.google.com/?q=Pune+Junction', title: 'Pune Junction' } },
+    ],
+    groundingSupports: [
+      { text: '**Availability:** Buses leave every 30 mins; trains need booking.', chunkIndices: [0], confidence: [0.92] },
+      { text: '**Comfort:** Chair car on the Deccan Queen beats an AC seater on the expressway.', chunkIndices: [0], confidence: [0.41] },
+      { text: 'Walk 600 m north along the main road to Pune Junction, entrance on the left.', chunkIndices: [1] },
+    ],
+  },
+  {
+    match: /traffic|airport|congestion/i,
+    text: TRAFFIC_REPLY,
+    groundingChunks: [
+      { maps: { uri: 'https://maps.google.com/?q=City+Centre+Metro', title: 'City Centre Metro Station' } },
+    ],
+  },
+  {
+    match: /fare|cost|price|how much/i,
+    text: FARE_REPLY,
+    toolCalls: [
+      { name: 'calculateFare', args: { mode: 'AUTO', distanceKm: 6 } },
+      { name: 'calculateFare', args: { mode: 'METRO', distanceKm: 6 } },
+    ],
+  },
+];
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  if (ms <= 0 || signal?.aborted) return resolve();
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+/**
+ * Creates a provider that answers from a fixed script, streaming the reply word by word.
+ * Replies are chosen by keyword, so the same message always gets the same answer.
+ */
+export const createMockProvider = (
+  script: ScriptedReply[] = SCRIPT,
+  chunkDelayMs = 25
+): TransitAssistantProvider => ({
+  id: 'mock',
+  label: 'Offline demo',
+  sendMessage: async ({ message, onText, tools, onToolCalls, signal }: AssistantRequest): Promise<AssistantReply> => {
+    const reply = script.find(entry => entry.match.test(message));
+    const fullText = reply?.text ?? DEFAULT_REPLY;
+
+    // Run the scripted tool calls for real, so the trace shows this device's results
+    const toolCalls: ToolCallRecord[] = [];
+    for (const call of reply?.toolCalls ?? []) {
+      if (!tools?.names.includes(call.name)) continue;
+      await wait(chunkDelayMs * 10, signal);
+      if (signal?.aborted) return { text: '', toolCalls, stopped: true };
+      toolCalls.push(await tools.execute(call));
+      onToolCalls?.([...toolCalls]);
+    }
+    const recorded = toolCalls.length ? toolCalls : undefined;
+
+    // Stream in word-sized pieces so the UI behaves like it does against the live API
+    const pieces = fullText.match(/\S+\s*/g) ?? [];
+    let text = fullText.match(/^\s*/)?.[0] ?? '';
+
+    for (const piece of pieces) {
+      await wait(chunkDelayMs, signal);
+      if (signal?.aborted) {
+        return { text: stripReplyBlocks(text), toolCalls: recorded, stopped: true };
+      }
+      text += piece;
+      onText?.(stripReplyBlocks(text));
+    }
+
+    return {
+      ...parseAssistantReply(text),
+      groundingChunks: reply?.groundingChunks,
+      groundingSupports: reply?.groundingSupports,
+      toolCalls: recorded,
+      stopped: false,
+    };
+  },
+});
+
+export const mockProvider = createMockProvider();
@@ -0,0 +1,275 @@
+import { v4 as uuidv4 } from 'uuid';
+import { FareRange, MultiStopTrip, TransitAssistantProvider, TripPlan, TripStage, TripStop, UserPreferences } from "../types";
+import { STORES, deleteRecord, getAllRecords, putRecord, toDate } from "./db";
+import { formatDuration } from "./tripPlan";
+import { parseClockTime } from "./reminders";
+import { askInBackground } from "./assistantProvider";
+
+// Less time than this between arriving and the next departure is flagged as tight
+export const MIN_CONNECTION_MINUTES = 30;
+const STAGE_TIMEOUT_MS = 60_000;
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+export const formatDay = (date: Date) =>
+  date.toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+
+export const createStop = (place: string, fields: Omit<TripStop, 'id' | 'place'> = {}): TripStop => ({
+  id: uuidv4(),
+  place: place.trim(),
+  ...fields,
+});
+
+/**
+ * Splits a typed route such as "Pune → Mumbai → Goa" or "Pune to Mumbai, then Goa" into
+ * place names.
+ */
+export const parseStopList = (text: string): string[] =>
+  text
+    .split(/\s*(?:→|->|⟶|,|;|\bthen\b|\bto\b|\bvia\b)\s*/i)
+    .map(place => place.trim())
+    .filter(Boolean);
+
+export const createTrip = (places: string[]): MultiStopTrip => {
+  const now = new Date();
+  return {
+    id: uuidv4(),
+    stops: places.map(place => createStop(place)),
+    stages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const getTripName = (trip: MultiStopTrip) =>
+  trip.stops.map(stop => stop.place || '…').join(' → ');
+
+export const getStageId = (trip: MultiStopTrip, index: number) =>
+  `${trip.stops[index].id}>${trip.stops[index + 1].id}`;
+
+// The planned stage leaving stop `index`, if any
+export const getStage = (trip: MultiStopTrip, index: number): TripStage | undefined =>
+  index >= 0 && index < trip.stops.length - 1 ? trip.stages.find(s => s.id === getStageId(trip, index)) : undefined;
+
+/**
+ * The trip with new stops. Plans are kept for stops that are still next to each other and
+ * dropped for the rest.
+ */
+export const withStops = (trip: MultiStopTrip, stops: TripStop[]): MultiStopTrip => {
+  const pairs = new Set(stops.slice(1).map((stop, i) => `${stops[i].id}>${stop.id}`));
+  return { ...trip, stops, stages: trip.stages.filter(s => pairs.has(s.id)), updatedAt: new Date() };
+};
+
+export const withStage = (trip: MultiStopTrip, stage: TripStage): MultiStopTrip => ({
+  ...trip,
+  stages: [...trip.stages.filter(s => s.id !== stage.id), stage],
+  updatedAt: new Date(),
+});
+
+// Moves the stop at `index` by `offset` places, reordering the stages around it
+export const moveStop = (trip: MultiStopTrip, index: number, offset: number): MultiStopTrip => {
+  const target = index + offset;
+  if (target < 0 || target >= trip.stops.length) return trip;
+  const stops = [...trip.stops];
+  [stops[index], stops[target]] = [stops[target], stops[index]];
+  return withStops(trip, stops);
+};
+
+// The earliest a stage can leave
+export interface StageWindow {
+  after: Date;
+  // Only a date was given, so any time from midnight counts
+  isWholeDay: boolean;
+  isNow: boolean;
+}
+
+const atDate = (dateKey: string, time = '00:00'): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes);
+};
+
+/**
+ * When a stage can leave: from a date the user set (at a time or any time that day), or
+ * from arriving at the stop plus the stay there. The first stop leaves now unless given a
+ * time. Undefined when it depends on an earlier stage that isn't planned yet.
+ */
+export const getStageWindow = (trip: MultiStopTrip, index: number, now = new Date()): StageWindow | undefined => {
+  const stop = trip.stops[index];
+  if (stop.leaveOn) return { after: atDate(stop.leaveOn, stop.leaveAt), isWholeDay: !stop.leaveAt, isNow: false };
+
+  let ready = now;
+  if (index > 0) {
+    const arrival = getStage(trip, index - 1)?.arrival;
+    if (!arrival) return undefined;
+    ready = new Date(arrival.getTime() + (stop.stayMinutes ?? 0) * 60_000);
+  }
+  const at = stop.leaveAt ? parseClockTime(stop.leaveAt, ready) : undefined;
+  if (at) return { after: at, isWholeDay: false, isNow: false };
+  return { after: ready, isWholeDay: false, isNow: index === 0 };
+};
+
+// Leaving "now" doesn't change as time passes; anything else must match exactly
+const getWindowKey = (window: StageWindow) =>
+  window.isNow ? 'now' : `${window.after.toISOString()}${window.isWholeDay ? '/day' : ''}`;
+
+/**
+ * Whether an edit since planning (a renamed stop, a new date or stay, or an earlier stage
+ * arriving at a different time) means the stage should be planned again.
+ */
+export const isStageOutdated = (trip: MultiStopTrip, index: number, now = new Date()): boolean => {
+  const stage = getStage(trip, index);
+  if (!stage) return false;
+  const window = getStageWindow(trip, index, now);
+  return !window ||
+    stage.from !== trip.stops[index].place ||
+    stage.to !== trip.stops[index + 1].place ||
+    stage.windowKey !== getWindowKey(window);
+};
+
+export const buildStagePrompt = (trip: MultiStopTrip, index: number, window: StageWindow): string => {
+  const from = trip.stops[index].place;
+  const to = trip.stops[index + 1].place;
+  const when = window.isNow
+    ? 'leaving now'
+    : window.isWholeDay
+      ? `on ${formatDay(window.after)} (any time that day)`
+      : `leaving ${formatDay(window.after)} at ${formatClock(window.after)} or later`;
+  return `I'm planning a multi-stop trip: ${getTripName(trip)}. Plan only the leg from ${from} to ${to}, ${when}. ` +
+    `List the train and bus options with their departure and arrival times and fares, recommend one, ` +
+    `and give its times and total fare in the trip plan.`;
+};
+
+/**
+ * When the recommended option leaves and arrives, read from the plan's clock times
+ * relative to the window. Overnight journeys roll over to the next day.
+ */
+const getStageTimes = (plan: TripPlan | undefined, window: StageWindow): Pick<TripStage, 'departure' | 'arrival'> => {
+  const timed = plan?.legs.find(leg => leg.departureTime);
+  const earliest = new Date(window.after.getTime() - 60_000);
+  const departure = (timed && parseClockTime(timed.departureTime!, earliest)) || (window.isWholeDay ? undefined : window.after);
+  if (!departure) return {};
+
+  if (plan?.totalDurationMinutes !== undefined) {
+    return { departure, arrival: new Date(departure.getTime() + plan.totalDurationMinutes * 60_000) };
+  }
+  const last = [...(plan?.legs ?? [])].reverse().find(leg => leg.arrivalTime);
+  return { departure, arrival: last ? parseClockTime(last.arrivalTime!, departure) : undefined };
+};
+
+/**
+ * Asks the assistant for one stage of the trip, outside the chat. The stage before it must
+ * be planned already unless the stop has its own date.
+ */
+export const requestStagePlan = async (
+  trip: MultiStopTrip,
+  index: number,
+  provider: TransitAssistantProvider,
+  preferences: UserPreferences,
+  localContext?: string,
+  now = new Date()
+): Promise<TripStage> => {
+  const window = getStageWindow(trip, index, now);
+  if (!window) throw new Error(`Plan the way to ${trip.stops[index].place} first, or give it a date to leave.`);
+
+  const reply = await askInBackground(provider, {
+    message: buildStagePrompt(trip, index, window),
+    preferences,
+    origin: null,
+    localContext,
+  }, STAGE_TIMEOUT_MS);
+  return {
+    id: getStageId(trip, index),
+    from: trip.stops[index].place,
+    to: trip.stops[index + 1].place,
+    windowKey: getWindowKey(window),
+    text: reply.text,
+    plan: reply.tripPlan,
+    ...getStageTimes(reply.tripPlan, window),
+    plannedAt: new Date(),
+  };
+};
+
+/**
+ * Problems with the connection into the stage leaving stop `index`: it leaves before the
+ * previous stage arrives, cuts the planned stay short, or leaves too little time to change.
+ */
+export const getConnectionWarning = (trip: MultiStopTrip, index: number): string | undefined => {
+  const arrival = getStage(trip, index - 1)?.arrival;
+  const departure = getStage(trip, index)?.departure;
+  if (!arrival || !departure) return undefined;
+
+  const stop = trip.stops[index];
+  const gap = Math.round((departure.getTime() - arrival.getTime()) / 60_000);
+  if (gap < 0) return `Leaves ${stop.place} ${formatDuration(-gap)} before you arrive there`;
+  if (stop.stayMinutes && gap < stop.stayMinutes) {
+    return `Only ${formatDuration(gap)} in ${stop.place}, less than the ${formatDuration(stop.stayMinutes)} you planned to stay`;
+  }
+  if (gap < MIN_CONNECTION_MINUTES) return `Only ${formatDuration(gap)} to make the connection in ${stop.place}`;
+  return undefined;
+};
+
+export interface TripTotals {
+  stageCount: number;
+  plannedStages: number;
+  // Sum of the stages' fares; stages without one are counted in `unpricedStages`
+  fare?: FareRange;
+  unpricedStages: number;
+  travelMinutes: number;
+  startsAt?: Date;
+  endsAt?: Date;
+}
+
+/**
+ * Roll-up of the planned stages: total fare, time spent travelling, and when the trip
+ * starts and ends.
+ */
+export const getTripTotals = (trip: MultiStopTrip): TripTotals => {
+  const stages = trip.stops.slice(1).map((_, index) => getStage(trip, index));
+  const planned = stages.filter((s): s is TripStage => !!s);
+  const fares = planned.map(s => s.plan?.totalFare).filter((f): f is FareRange => !!f);
+  const currency = fares[0]?.currency;
+  const sameCurrency = fares.filter(f => f.currency === currency);
+
+  return {
+    stageCount: stages.length,
+    plannedStages: planned.length,
+    fare: sameCurrency.length ? {
+      min: sameCurrency.reduce((total, f) => total + f.min, 0),
+      max: sameCurrency.reduce((total, f) => total + f.max, 0),
+      currency,
+    } : undefined,
+    unpricedStages: stages.length - sameCurrency.length,
+    travelMinutes: planned.reduce((total, s) => total + (s.plan?.totalDurationMinutes ??
+      (s.departure && s.arrival ? Math.round((s.arrival.getTime() - s.departure.getTime()) / 60_000) : 0)), 0),
+    startsAt: stages[0]?.departure,
+    endsAt: stages[stages.length - 1]?.arrival,
+  };
+};
+
+const reviveTrip = (raw: MultiStopTrip): MultiStopTrip => ({
+  ...raw,
+  createdAt: toDate(raw.createdAt),
+  updatedAt: toDate(raw.updatedAt),
+  stages: raw.stages.map(stage => ({
+    ...stage,
+    departure: stage.departure ? toDate(stage.departure) : undefined,
+    arrival: stage.arrival ? toDate(stage.arrival) : undefined,
+    plannedAt: toDate(stage.plannedAt),
+  })),
+});
+
+/**
+ * Loads multi-stop trips, most recently edited first.
+ */
+export const loadTrips = async (): Promise<MultiStopTrip[]> => {
+  const records = await getAllRecords<MultiStopTrip>(STORES.trips);
+  return records.map(reviveTrip).sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const saveTrip = (trip: MultiStopTrip): Promise<MultiStopTrip> =>
+  putRecord(STORES.trips, trip);
+
+export const deleteTrip = (id: string): Promise<void> =>
+  deleteRecord(STORES.trips, id);
@@ -0,0 +1,55 @@
+// Browser notifications for reminders and commute briefings, shown through the service worker in public/sw.js
+// where one can be registered (required on Android) and with the plain Notification API
+// otherwise.
+const SERVICE_WORKER_URL = '/sw.js';
+
+export type NotificationSupport = NotificationPermission | 'unsupported';
+
+// What a notification is about; clicking it opens the matching panel
+export type NotificationTarget = { reminderId: string } | { commuteId: string };
+
+let registration: Promise<ServiceWorkerRegistration | undefined> | null = null;
+
+export const registerServiceWorker = (): Promise<ServiceWorkerRegistration | undefined> => {
+  if (!registration) {
+    registration = 'serviceWorker' in navigator
+      ? navigator.serviceWorker.register(SERVICE_WORKER_URL).catch(error => {
+          console.warn("Could not register the service worker:", error);
+          return undefined;
+        })
+      : Promise.resolve(undefined);
+  }
+  return registration;
+};
+
+export const getNotificationSupport = (): NotificationSupport =>
+  'Notification' in window ? Notification.permission : 'unsupported';
+
+// Must be called from a user gesture (e.g. the click that creates a reminder)
+export const requestNotificationPermission = async (): Promise<NotificationSupport> => {
+  if (!('Notification' in window)) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+/**
+ * Shows a notification. Returns false when notifications aren't allowed, so the caller
+ * can fall back to an in-app message.
+ */
+export const showNotification = async (title: string, body: string, target: NotificationTarget): Promise<boolean> => {
+  if (getNotificationSupport() !== 'granted') return false;
+  const tag = 'reminderId' in target ? target.reminderId : target.commuteId;
+  const options: NotificationOptions = { body, tag, data: target };
+  try {
+    const worker = await registerServiceWorker();
+    if (worker) {
+      await worker.showNotification(title, options);
+    } else {
+      new Notification(title, options);
+    }
+    return true;
+  } catch (error) {
+    console.warn("Could not show the notification:", error);
+    return false;
+  }
+};
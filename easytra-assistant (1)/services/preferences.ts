@@ -0,0 +1,190 @@
+import { GoalWeights, RoutePreference, TransitMode, TravelClass, TripPlan, UserPreferences } from "../types";
+import { TRANSIT_MODES, formatFareRange } from "./tripPlan";
+
+export const ROUTE_GOALS: RoutePreference[] = ['FASTEST', 'LEAST_CROWDED', 'LOW_WALKING', 'FEWEST_TRANSFERS'];
+
+export const MAX_GOAL_WEIGHT = 3;
+// Indexed by weight
+export const GOAL_WEIGHT_LABELS = ["Don't mind", 'A little', 'Important', 'Top priority'];
+
+// Modes the user can prefer or avoid; walking is limited by distance instead
+export const CHOOSABLE_MODES: TransitMode[] = TRANSIT_MODES.filter(mode => mode !== 'WALK');
+
+export const MODE_LABELS: Record<TransitMode, string> = {
+  WALK: 'Walking',
+  BUS: 'Bus',
+  TRAIN: 'Train',
+  METRO: 'Metro',
+  AUTO: 'Auto-rickshaw',
+  CAB: 'Cab',
+  CAR: 'Own car',
+  FERRY: 'Ferry',
+};
+
+export const TRAVEL_CLASS_LABELS: Record<TravelClass, string> = {
+  ANY: 'Any',
+  GENERAL: 'General',
+  SLEEPER: 'Sleeper',
+  AC: 'AC',
+};
+
+// What each class means to the assistant, for trains and for buses
+const TRAVEL_CLASS_RULES: Record<Exclude<TravelClass, 'ANY'>, string> = {
+  GENERAL: 'General/unreserved classes (2S, GN) on trains and ordinary non-AC buses; quote fares for those.',
+  SLEEPER: 'Sleeper class (SL) on trains and sleeper buses for overnight journeys; quote fares for those.',
+  AC: 'AC classes on trains (3A, 2A, 1A, CC, 3E) and AC buses; quote fares for those.',
+};
+
+// Weights are whole steps from "Don't mind" to "Top priority"
+export const isGoalWeight = (weight: unknown): weight is number =>
+  Number.isInteger(weight) && (weight as number) >= 0 && (weight as number) <= MAX_GOAL_WEIGHT;
+
+const clampGoalWeight = (weight: unknown) =>
+  typeof weight === 'number' && Number.isFinite(weight) ? Math.max(0, Math.min(MAX_GOAL_WEIGHT, Math.round(weight))) : 0;
+
+const defaultGoalWeights = (primary: RoutePreference): GoalWeights => ({
+  FASTEST: 0,
+  LEAST_CROWDED: 0,
+  LOW_WALKING: 0,
+  FEWEST_TRANSFERS: 0,
+  [primary]: MAX_GOAL_WEIGHT,
+});
+
+/**
+ * Fills in fields added since the preferences were saved. Older conversations only had a
+ * single goal, which becomes the only one that counts.
+ */
+export const withPreferenceDefaults = (raw: Partial<UserPreferences>): UserPreferences => {
+  const routePreference = raw.routePreference ?? 'FASTEST';
+  return {
+    routePreference,
+    goalWeights: raw.goalWeights ?? defaultGoalWeights(routePreference),
+    accessibilityRequired: raw.accessibilityRequired ?? false,
+    useCurrentLocation: raw.useCurrentLocation ?? true,
+    // Conversations saved before location sharing was configurable share approximately
+    locationSharing: raw.locationSharing ?? 'APPROXIMATE',
+    preferredModes: raw.preferredModes ?? [],
+    avoidedModes: raw.avoidedModes ?? [],
+    maxWalkingMeters: raw.maxWalkingMeters ?? null,
+    fareBudget: raw.fareBudget ?? null,
+    travelClass: raw.travelClass ?? 'ANY',
+    hasLuggage: raw.hasLuggage ?? false,
+    withChildren: raw.withChildren ?? false,
+  };
+};
+
+/**
+ * The weights options are compared by. The main goal is raised to match the heaviest one,
+ * so a saved route or commute that sets its own goal still gets it.
+ */
+export const getGoalWeights = (preferences: Pick<UserPreferences, 'routePreference' | 'goalWeights'>): GoalWeights => {
+  const given = { ...defaultGoalWeights(preferences.routePreference), ...preferences.goalWeights };
+  const weights = Object.fromEntries(ROUTE_GOALS.map(goal => [goal, clampGoalWeight(given[goal])])) as GoalWeights;
+  const heaviest = Math.max(1, ...ROUTE_GOALS.map(goal => weights[goal]));
+  return { ...weights, [preferences.routePreference]: heaviest };
+};
+
+/**
+ * Changes how much one goal counts. The main goal follows whichever is now heaviest,
+ * staying put on a tie.
+ */
+export const setGoalWeight = (preferences: UserPreferences, goal: RoutePreference, weight: number): UserPreferences => {
+  const goalWeights = { ...getGoalWeights(preferences), [goal]: clampGoalWeight(weight) };
+  const heaviest = Math.max(...ROUTE_GOALS.map(g => goalWeights[g]));
+  const routePreference = goalWeights[preferences.routePreference] === heaviest
+    ? preferences.routePreference
+    : ROUTE_GOALS.find(g => goalWeights[g] === heaviest)!;
+  return { ...preferences, routePreference, goalWeights };
+};
+
+/**
+ * The goals that count, heaviest first, e.g. "FASTEST (top priority), LOW_WALKING (a little)".
+ */
+export const describeGoals = (preferences: Pick<UserPreferences, 'routePreference' | 'goalWeights'>): string => {
+  const weights = getGoalWeights(preferences);
+  return ROUTE_GOALS
+    .filter(goal => weights[goal] > 0)
+    .sort((a, b) => weights[b] - weights[a] || Number(b === preferences.routePreference) - Number(a === preferences.routePreference))
+    .map(goal => `${goal} (${GOAL_WEIGHT_LABELS[weights[goal]].toLowerCase()})`)
+    .join(', ');
+};
+
+const knownModes = (modes: unknown): TransitMode[] =>
+  Array.isArray(modes) ? CHOOSABLE_MODES.filter(mode => modes.includes(mode)) : [];
+
+const positive = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : undefined;
+
+export const formatMeters = (meters: number) =>
+  meters >= 1000 ? `${Number((meters / 1000).toFixed(1))} km` : `${meters} m`;
+
+/**
+ * The user's limits as rules for the assistant, one per line, or none when nothing is
+ * limited. Only known modes, classes and plain numbers are written out, since the
+ * preferences arrive with the request.
+ */
+export const describeConstraints = (preferences: UserPreferences): string[] => {
+  const rules: string[] = [];
+  const avoided = knownModes(preferences.avoidedModes);
+  const preferred = knownModes(preferences.preferredModes).filter(mode => !avoided.includes(mode));
+  const maxWalking = positive(preferences.maxWalkingMeters);
+  const budget = positive(preferences.fareBudget);
+
+  if (avoided.length) {
+    rules.push(`Never use: ${avoided.join(', ')}. Don't suggest these modes for any leg, including first and last mile.`);
+  }
+  if (preferred.length) {
+    rules.push(`Preferred modes: ${preferred.join(', ')}. Use them where they are reasonable.`);
+  }
+  if (maxWalking) {
+    rules.push(`Maximum walking: ${formatMeters(maxWalking)} in total per trip. Use a feeder service for anything longer.`);
+  }
+  if (budget) {
+    rules.push(`Fare budget: ₹${budget} per person for the whole trip. Don't suggest options estimated to cost more.`);
+  }
+  if (preferences.travelClass in TRAVEL_CLASS_RULES) {
+    rules.push(`Travel class: ${TRAVEL_CLASS_RULES[preferences.travelClass as Exclude<TravelClass, 'ANY'>]}`);
+  }
+  if (preferences.hasLuggage === true) {
+    rules.push('Travelling with heavy luggage: avoid long walks, stairs, packed peak-hour vehicles and tight transfers; mention luggage rules where they apply.');
+  }
+  if (preferences.withChildren === true) {
+    rules.push('Travelling with young children: prefer seated or reserved options, fewer transfers and short waits; mention child fares where they apply.');
+  }
+  return rules;
+};
+
+/**
+ * The user's limits in a few words each, for the preference bar.
+ */
+export const summarizeLimits = (preferences: UserPreferences): string[] => [
+  ...preferences.avoidedModes.map(mode => `No ${MODE_LABELS[mode].toLowerCase()}`),
+  preferences.maxWalkingMeters ? `≤${formatMeters(preferences.maxWalkingMeters)} walk` : '',
+  preferences.fareBudget ? `≤₹${preferences.fareBudget}` : '',
+  preferences.travelClass !== 'ANY' ? `${TRAVEL_CLASS_LABELS[preferences.travelClass]} class` : '',
+].filter(Boolean);
+
+/**
+ * Ways a suggested plan breaks the user's limits, as short sentences for the trip card.
+ * Only what the plan states is checked: unknown walking distances or fares aren't flagged.
+ */
+export const findPreferenceConflicts = (plan: TripPlan, preferences: UserPreferences): string[] => {
+  const conflicts: string[] = [];
+
+  const avoided = [...new Set(plan.legs.map(leg => leg.mode))].filter(mode => preferences.avoidedModes?.includes(mode));
+  if (avoided.length) {
+    conflicts.push(`Uses ${avoided.map(mode => MODE_LABELS[mode].toLowerCase()).join(' and ')}, which you avoid`);
+  }
+
+  const walkingMeters = Math.round(
+    plan.legs.filter(leg => leg.mode === 'WALK').reduce((total, leg) => total + (leg.distanceKm ?? 0) * 1000, 0)
+  );
+  if (preferences.maxWalkingMeters && walkingMeters > preferences.maxWalkingMeters) {
+    conflicts.push(`About ${formatMeters(walkingMeters)} of walking, over your ${formatMeters(preferences.maxWalkingMeters)} limit`);
+  }
+
+  if (preferences.fareBudget && plan.totalFare && plan.totalFare.min > preferences.fareBudget) {
+    conflicts.push(`Estimated fare ${formatFareRange(plan.totalFare)} is over your ₹${preferences.fareBudget} budget`);
+  }
+  return conflicts;
+};
@@ -0,0 +1,123 @@
+import { RailClass } from '../../types';
+
+/**
+ * Indian Railways data behind the assistant's train tools: trains between two stations,
+ * seats left by class and quota, PNR status and where a train is running now. Any backend
+ * can sit behind this; the app ships one that reads a bundled JSON fixture.
+ */
+
+// GN general, TQ Tatkal, PT premium Tatkal, LD ladies, SS senior citizen
+export type RailQuota = 'GN' | 'TQ' | 'PT' | 'LD' | 'SS';
+
+export const RAIL_QUOTAS: RailQuota[] = ['GN', 'TQ', 'PT', 'LD', 'SS'];
+
+export const RAIL_CLASS_LABELS: Record<RailClass, string> = {
+  '1A': 'First AC',
+  '2A': 'AC 2-tier',
+  '3A': 'AC 3-tier',
+  '3E': 'AC 3 economy',
+  EC: 'Executive chair car',
+  CC: 'AC chair car',
+  SL: 'Sleeper',
+  '2S': 'Second sitting',
+};
+
+export const RAIL_QUOTA_LABELS: Record<RailQuota, string> = {
+  GN: 'General',
+  TQ: 'Tatkal',
+  PT: 'Premium Tatkal',
+  LD: 'Ladies',
+  SS: 'Senior citizen',
+};
+
+export interface RailStation {
+  code: string;
+  name: string;
+}
+
+// A train's run between the two stations searched for, not its whole route
+export interface RailTrain {
+  number: string;
+  name: string;
+  from: RailStation;
+  to: RailStation;
+  departureTime: string;     // HH:mm at `from`
+  arrivalTime: string;       // HH:mm at `to`, possibly days later
+  durationMinutes: number;
+  distanceKm?: number;
+  // Weekdays it leaves `from`, indexed like Date.getDay()
+  runsOn: number[];
+  classFares: Partial<Record<RailClass, number>>;
+}
+
+export type SeatStatus = 'AVAILABLE' | 'RAC' | 'WAITLIST' | 'REGRET';
+
+export interface SeatAvailability {
+  trainNumber: string;
+  date: string;              // YYYY-MM-DD
+  travelClass: RailClass;
+  quota: RailQuota;
+  status: SeatStatus;
+  // Seats left, or the position on the RAC or waiting list
+  count?: number;
+  fare?: number;
+}
+
+export interface PnrPassenger {
+  number: number;
+  bookingStatus: string;     // e.g. 'CNF/B2/34', 'WL 12'
+  currentStatus: string;
+}
+
+export interface PnrStatus {
+  pnr: string;
+  trainNumber: string;
+  trainName: string;
+  date: string;
+  from: RailStation;
+  to: RailStation;
+  travelClass: RailClass;
+  chartPrepared: boolean;
+  passengers: PnrPassenger[];
+}
+
+export type RunningState = 'NOT_STARTED' | 'RUNNING' | 'ARRIVED' | 'CANCELLED';
+
+export interface TrainRunningStatus {
+  trainNumber: string;
+  trainName: string;
+  date: string;
+  state: RunningState;
+  delayMinutes: number;
+  // The last station passed and when, and the next one with its expected arrival
+  lastStation?: RailStation;
+  lastStationAt?: string;
+  nextStation?: RailStation;
+  nextStationEta?: string;
+}
+
+export interface RailAdapter {
+  id: string;
+  label: string;
+  // `from` and `to` are station names or codes as the user wrote them
+  searchTrains: (from: string, to: string, date: string) => Promise<RailTrain[]>;
+  getSeatAvailability: (
+    trainNumber: string, from: string, to: string, date: string, travelClass: RailClass, quota: RailQuota
+  ) => Promise<SeatAvailability>;
+  getPnrStatus: (pnr: string) => Promise<PnrStatus>;
+  getRunningStatus: (trainNumber: string, date: string) => Promise<TrainRunningStatus>;
+}
+
+// Thrown for lookups with no answer (unknown station, train or PNR); the message is shown as is
+export class RailLookupError extends Error {}
+
+export const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Reads YYYY-MM-DD as local midnight
+export const parseDateString = (text: string): Date | undefined => {
+  const match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 ? date : undefined;
+};
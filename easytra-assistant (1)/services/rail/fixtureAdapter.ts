@@ -0,0 +1,253 @@
+import { RailClass } from '../../types';
+import { RAIL_CLASSES } from '../tripPlan';
+import fixture from './fixture.json';
+import {
+  PnrStatus,
+  RAIL_CLASS_LABELS,
+  RAIL_QUOTA_LABELS,
+  RailAdapter,
+  RailLookupError,
+  RailStation,
+  RailTrain,
+  SeatAvailability,
+  SeatStatus,
+  TrainRunningStatus,
+  parseDateString,
+  toDateString,
+} from './adapter';
+
+/**
+ * Answers rail lookups from a JSON fixture of a few trains on the Pune–Mumbai,
+ * Delhi–Jaipur and Bengaluru–Mysuru corridors, so the train tools work offline and in
+ * demos. Running status is worked out from the timetable, the clock and each train's
+ * fixed delay.
+ */
+
+interface FixtureStop {
+  code: string;
+  arrival?: string;
+  departure?: string;
+  // 1 on the day the train leaves its first station
+  day: number;
+  km: number;
+}
+
+interface FixtureTrain {
+  number: string;
+  name: string;
+  runsOn: number[];
+  stops: FixtureStop[];
+  // For the whole run; shorter journeys pay by distance
+  fares: Record<string, number>;
+  // IRCTC-style status text ("AVAILABLE 48", "RAC 6", "WL 23", "REGRET") by class and quota
+  availability: Record<string, Record<string, string>>;
+  delayMinutes: number;
+}
+
+interface FixturePnr {
+  pnr: string;
+  trainNumber: string;
+  from: string;
+  to: string;
+  travelClass: string;
+  // Days from today, so the bookings never go stale
+  dayOffset: number;
+  chartPrepared: boolean;
+  passengers: { bookingStatus: string; currentStatus: string }[];
+}
+
+export interface RailFixture {
+  name: string;
+  stations: (RailStation & { aliases: string[] })[];
+  trains: FixtureTrain[];
+  pnrs: FixturePnr[];
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/\b(junction|jn|station|railway|rly)\b/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const clockMinutes = (clock: string) => {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+// Minutes from midnight of the day the train sets off
+const arrivesAt = (stop: FixtureStop) => (stop.day - 1) * MINUTES_PER_DAY + clockMinutes(stop.arrival ?? stop.departure!);
+const departsAt = (stop: FixtureStop) => (stop.day - 1) * MINUTES_PER_DAY + clockMinutes(stop.departure ?? stop.arrival!);
+
+const parseSeatStatus = (text: string): { status: SeatStatus; count?: number } => {
+  const [word, count] = text.trim().split(/\s+/);
+  const status: SeatStatus = word === 'RAC' ? 'RAC' : word === 'WL' ? 'WAITLIST' : word === 'REGRET' ? 'REGRET' : 'AVAILABLE';
+  return { status, count: count ? Number(count) : undefined };
+};
+
+export const createFixtureRailAdapter = (data: RailFixture = fixture as RailFixture, now = () => new Date()): RailAdapter => {
+  const toStation = ({ code, name }: RailStation): RailStation => ({ code, name });
+
+  // An exact code, name or alias, or else the start of the name of exactly one station:
+  // "Lonav" finds Lonavala, but "Mumbai Central" is not taken for Mumbai CSMT
+  const findStation = (query: string): RailStation => {
+    const code = query.trim().toUpperCase();
+    const wanted = normalizeName(query);
+    if (!wanted) throw new RailLookupError('Give a station name or code');
+    const names = (s: RailFixture['stations'][number]) => [s.name, ...s.aliases].map(normalizeName);
+    const exact = data.stations.find(s => s.code === code) ?? data.stations.find(s => names(s).includes(wanted));
+    if (exact) return toStation(exact);
+
+    const partial = data.stations.filter(s => names(s).some(name => name.startsWith(wanted)));
+    if (partial.length === 1) return toStation(partial[0]);
+    if (partial.length > 1) {
+      throw new RailLookupError(`"${query}" could be ${partial.map(s => `${s.name} (${s.code})`).join(', ')}; say which`);
+    }
+    throw new RailLookupError(`No station called "${query}" in the rail data`);
+  };
+
+  const findTrain = (number: string): FixtureTrain => {
+    const train = data.trains.find(t => t.number === number.trim());
+    if (!train) throw new RailLookupError(`No train ${number} in the rail data`);
+    return train;
+  };
+
+  const toDate = (text: string) => {
+    const date = parseDateString(text);
+    if (!date) throw new RailLookupError(`"${text}" is not a date; use YYYY-MM-DD`);
+    return date;
+  };
+
+  // The stops a journey between two stations boards and leaves at, if the train calls at both in that order
+  const segmentOf = (train: FixtureTrain, from: RailStation, to: RailStation) => {
+    const board = train.stops.findIndex(stop => stop.code === from.code);
+    const alight = train.stops.findIndex(stop => stop.code === to.code);
+    return board >= 0 && alight > board ? { board: train.stops[board], alight: train.stops[alight] } : undefined;
+  };
+
+  // A train boarding on `date` at a stop reached on its day N set off N - 1 days earlier
+  const runsOnDate = (train: FixtureTrain, board: FixtureStop, date: Date) =>
+    train.runsOn.includes((((date.getDay() - (board.day - 1)) % 7) + 7) % 7);
+
+  // Fares are for the whole run; shorter journeys pay their share, rounded to ₹5
+  const segmentFare = (train: FixtureTrain, board: FixtureStop, alight: FixtureStop, travelClass: string) => {
+    const fare = train.fares[travelClass];
+    const totalKm = train.stops[train.stops.length - 1].km;
+    return Math.max(5, Math.round((fare * (alight.km - board.km)) / totalKm / 5) * 5);
+  };
+
+  return {
+    id: 'fixture',
+    label: data.name,
+
+    searchTrains: async (fromQuery, toQuery, dateText) => {
+      const from = findStation(fromQuery);
+      const to = findStation(toQuery);
+      const date = toDate(dateText);
+      return data.trains
+        .map(train => ({ train, segment: segmentOf(train, from, to) }))
+        .filter(({ train, segment }) => segment && runsOnDate(train, segment.board, date))
+        .map(({ train, segment }): RailTrain => {
+          const { board, alight } = segment!;
+          return {
+            number: train.number,
+            name: train.name,
+            from,
+            to,
+            departureTime: board.departure!,
+            arrivalTime: alight.arrival!,
+            durationMinutes: arrivesAt(alight) - departsAt(board),
+            distanceKm: alight.km - board.km,
+            runsOn: train.runsOn.map(day => (day + board.day - 1) % 7).sort(),
+            classFares: Object.fromEntries(
+              RAIL_CLASSES.filter(c => c in train.fares).map(c => [c, segmentFare(train, board, alight, c)])
+            ),
+          };
+        })
+        .sort((a, b) => clockMinutes(a.departureTime) - clockMinutes(b.departureTime));
+    },
+
+    getSeatAvailability: async (trainNumber, fromQuery, toQuery, dateText, travelClass, quota): Promise<SeatAvailability> => {
+      const train = findTrain(trainNumber);
+      const from = findStation(fromQuery);
+      const to = findStation(toQuery);
+      const date = toDate(dateText);
+      const segment = segmentOf(train, from, to);
+      if (!segment) throw new RailLookupError(`${train.number} ${train.name} doesn't run from ${from.name} to ${to.name}`);
+      if (!runsOnDate(train, segment.board, date)) {
+        throw new RailLookupError(`${train.number} ${train.name} doesn't leave ${from.name} on a ${WEEKDAY_NAMES[date.getDay()]}`);
+      }
+      const byQuota = train.availability[travelClass];
+      if (!(travelClass in train.fares) || !byQuota) {
+        const classes = RAIL_CLASSES.filter(c => c in train.fares).join(', ');
+        throw new RailLookupError(`${train.number} has no ${RAIL_CLASS_LABELS[travelClass]} (${travelClass}) coach; it has ${classes}`);
+      }
+      const text = byQuota[quota];
+      if (!text) throw new RailLookupError(`No ${RAIL_QUOTA_LABELS[quota]} quota on ${train.number} in ${travelClass}`);
+      return {
+        trainNumber: train.number,
+        date: toDateString(date),
+        travelClass,
+        quota,
+        ...parseSeatStatus(text),
+        fare: segmentFare(train, segment.board, segment.alight, travelClass),
+      };
+    },
+
+    getPnrStatus: async (pnr): Promise<PnrStatus> => {
+      const digits = pnr.replace(/\D/g, '');
+      if (digits.length !== 10) throw new RailLookupError('A PNR has 10 digits');
+      const booking = data.pnrs.find(p => p.pnr === digits);
+      if (!booking) throw new RailLookupError(`No booking with PNR ${digits}`);
+      const train = findTrain(booking.trainNumber);
+      const date = new Date(now());
+      date.setDate(date.getDate() + booking.dayOffset);
+      return {
+        pnr: digits,
+        trainNumber: train.number,
+        trainName: train.name,
+        date: toDateString(date),
+        from: findStation(booking.from),
+        to: findStation(booking.to),
+        travelClass: booking.travelClass as RailClass,
+        chartPrepared: booking.chartPrepared,
+        passengers: booking.passengers.map((p, i) => ({ number: i + 1, ...p })),
+      };
+    },
+
+    getRunningStatus: async (trainNumber, dateText): Promise<TrainRunningStatus> => {
+      const train = findTrain(trainNumber);
+      const date = toDate(dateText);
+      if (!runsOnDate(train, train.stops[0], date)) {
+        throw new RailLookupError(`${train.number} ${train.name} doesn't run on a ${WEEKDAY_NAMES[date.getDay()]}`);
+      }
+      const delay = train.delayMinutes;
+      const at = (minutes: number) => new Date(date.getTime() + (minutes + delay) * 60_000);
+      const current = now().getTime();
+      const status = { trainNumber: train.number, trainName: train.name, date: toDateString(date) };
+
+      const first = train.stops[0];
+      if (current < at(departsAt(first)).getTime()) {
+        return { ...status, state: 'NOT_STARTED', delayMinutes: delay, nextStation: findStation(first.code), nextStationEta: formatClock(at(departsAt(first))) };
+      }
+      const lastIndex = train.stops.reduce((found, stop, i) => (at(departsAt(stop)).getTime() <= current ? i : found), 0);
+      const last = train.stops[lastIndex];
+      const next = train.stops[lastIndex + 1];
+      if (!next || current >= at(arrivesAt(train.stops[train.stops.length - 1])).getTime()) {
+        const end = train.stops[train.stops.length - 1];
+        return { ...status, state: 'ARRIVED', delayMinutes: delay, lastStation: findStation(end.code), lastStationAt: formatClock(at(arrivesAt(end))) };
+      }
+      return {
+        ...status,
+        state: 'RUNNING',
+        delayMinutes: delay,
+        lastStation: findStation(last.code),
+        lastStationAt: formatClock(at(departsAt(last))),
+        nextStation: findStation(next.code),
+        nextStationEta: formatClock(at(arrivesAt(next))),
+      };
+    },
+  };
+};
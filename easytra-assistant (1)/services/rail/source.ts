@@ -0,0 +1,27 @@
+import { mockProvider } from "../mockProvider";
+import { RailAdapter } from "./adapter";
+import { createFixtureRailAdapter } from "./fixtureAdapter";
+
+const SOURCES: Record<string, () => RailAdapter> = {
+  fixture: () => createFixtureRailAdapter(),
+};
+
+/**
+ * Resolves where train data comes from: a `?rail=` URL parameter, then the RAIL_DATA_SOURCE
+ * environment variable. Without either, only the mock assistant gets the sample fixture, so a
+ * real model is never handed made-up trains as fact and falls back to searching the web.
+ */
+export const getRailAdapter = (assistantId: string): RailAdapter | undefined => {
+  const fromUrl = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('rail')
+    : null;
+  const id = fromUrl || process.env.RAIL_DATA_SOURCE || (assistantId === mockProvider.id ? 'fixture' : undefined);
+  if (!id || id === 'none') return undefined;
+
+  // The id can come from the URL, so inherited keys like "constructor" must not match
+  if (!Object.hasOwn(SOURCES, id)) {
+    console.warn(`Unknown rail data source "${id}", train tools are off.`);
+    return undefined;
+  }
+  return SOURCES[id]();
+};
@@ -0,0 +1,67 @@
+import { RealtimeSummary } from "../types";
+import { STORES, deleteRecord, getRecord, putRecord } from "./db";
+import { RealtimeFeed, decodeRealtimeFeed } from "./gtfs/realtime";
+
+// How often a realtime URL is polled. Producers typically refresh every 15-30 seconds.
+export const REALTIME_POLL_MS = 30_000;
+
+// The API server's endpoint, which serves the feeds listed in GTFS_RT_SOURCES
+export const DEFAULT_REALTIME_URL = '/api/realtime';
+
+const SOURCE_ID = 'realtimeSource';
+
+interface StoredRealtimeSource {
+  id: string;
+  url: string;
+}
+
+export interface LoadedRealtime {
+  feed: RealtimeFeed;
+  summary: RealtimeSummary;
+}
+
+const getLanguage = () =>
+  (typeof navigator !== 'undefined' ? navigator.language : 'en').split('-')[0].toLowerCase();
+
+const summarize = (feed: RealtimeFeed, source: string, isFile: boolean): RealtimeSummary => ({
+  source,
+  isFile,
+  fetchedAt: new Date(),
+  feedTimestamp: feed.timestamp,
+  alerts: feed.alerts.length,
+  tripUpdates: feed.tripUpdates.size,
+  vehicles: feed.vehicles.length,
+});
+
+/**
+ * Downloads and decodes a GTFS-Realtime feed. Throws with a user-facing message when the
+ * URL can't be reached or doesn't return a realtime feed.
+ */
+export const fetchRealtimeFeed = async (url: string, signal?: AbortSignal): Promise<LoadedRealtime> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal, cache: 'no-store' });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new Error("Couldn't reach the realtime feed. Check the URL, and that it allows requests from this app.");
+  }
+  if (!response.ok) {
+    throw new Error(`The realtime feed returned an error (HTTP ${response.status}).`);
+  }
+  const feed = decodeRealtimeFeed(new Uint8Array(await response.arrayBuffer()), getLanguage());
+  return { feed, summary: summarize(feed, url, false) };
+};
+
+/**
+ * Decodes a realtime snapshot saved to disk. Files are read once and not polled.
+ */
+export const readRealtimeFile = async (file: File): Promise<LoadedRealtime> => {
+  const feed = decodeRealtimeFeed(new Uint8Array(await file.arrayBuffer()), getLanguage());
+  return { feed, summary: summarize(feed, file.name, true) };
+};
+
+export const loadRealtimeSource = async (): Promise<string | null> =>
+  (await getRecord<StoredRealtimeSource>(STORES.settings, SOURCE_ID))?.url ?? null;
+
+export const saveRealtimeSource = (url: string | null): Promise<unknown> =>
+  url ? putRecord<StoredRealtimeSource>(STORES.settings, { id: SOURCE_ID, url }) : deleteRecord(STORES.settings, SOURCE_ID);
@@ -0,0 +1,181 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Reminder, ReminderCheck, RoutePreference, TransitAssistantProvider, TripOrigin, TripPlan, UserPreferences } from "../types";
+import { STORES, deleteRecord, getAllRecords, putRecord, toDate } from "./db";
+import { formatDuration, isNotablySlower } from "./tripPlan";
+import { askInBackground } from "./assistantProvider";
+import { isHeavyTraffic } from "./traffic";
+
+export const DEFAULT_LEAD_MINUTES = 10;
+export const LEAD_MINUTE_OPTIONS = [0, 5, 10, 15, 30];
+
+// Reminders whose leave time passed longer ago than this (e.g. while the app was closed)
+// are marked missed instead of going off late
+const LATE_WINDOW_MS = 15 * 60_000;
+// Recheck replies that take longer than this are abandoned; the reminder still goes off
+const RECHECK_TIMEOUT_MS = 30_000;
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+// Hours and minutes of a number that reads as a time of day, or undefined for other
+// numbers such as a route or platform
+const toClock = ([, hourText, minuteText, meridiemText]: RegExpMatchArray) => {
+  if (!minuteText && !meridiemText) return undefined;
+  let hours = Number(hourText);
+  const minutes = Number(minuteText ?? 0);
+  const meridiem = meridiemText?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  return hours > 23 || minutes > 59 ? undefined : { hours, minutes };
+};
+
+/**
+ * Reads a clock time from the model's text ("19:00", "6:45 pm", "Leave by 7am") as the
+ * next occurrence after `now`. The first number that is a time of day wins, so "Bus 12
+ * at 7:45" gives 7:45.
+ */
+export const parseClockTime = (text: string, now: Date): Date | undefined => {
+  const clock = [...text.matchAll(/\b(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?\b/gi)]
+    .map(toClock)
+    .find(found => found !== undefined);
+  if (!clock) return undefined;
+
+  const time = new Date(now);
+  time.setHours(clock.hours, clock.minutes, 0, 0);
+  if (time.getTime() < now.getTime() - 60_000) time.setDate(time.getDate() + 1);
+  return time;
+};
+
+/**
+ * When to leave for a plan: the model's "best time to leave" if it gave one, otherwise
+ * early enough to walk to the first scheduled departure.
+ */
+export const suggestLeaveTime = (plan: TripPlan, now = new Date()): Date | undefined => {
+  const best = plan.bestDepartureTime && parseClockTime(plan.bestDepartureTime, now);
+  if (best) return best;
+
+  const firstTimed = plan.legs.findIndex(leg => leg.departureTime);
+  if (firstTimed === -1) return undefined;
+  const departure = parseClockTime(plan.legs[firstTimed].departureTime!, now);
+  if (!departure) return undefined;
+  const leadMinutes = plan.legs.slice(0, firstTimed).reduce((total, leg) => total + (leg.durationMinutes ?? 0), 0);
+  return new Date(departure.getTime() - leadMinutes * 60_000);
+};
+
+export const createReminder = (
+  plan: TripPlan,
+  routePreference: RoutePreference,
+  leaveAt: Date,
+  leadMinutes = DEFAULT_LEAD_MINUTES
+): Reminder => ({
+  id: uuidv4(),
+  name: `${plan.origin} → ${plan.destination}`,
+  plan,
+  routePreference,
+  leaveAt,
+  leadMinutes,
+  status: 'SCHEDULED',
+  createdAt: new Date(),
+});
+
+export const getNotifyAt = (reminder: Reminder): Date =>
+  new Date(reminder.leaveAt.getTime() - reminder.leadMinutes * 60_000);
+
+export const isTooLate = (reminder: Reminder, now = Date.now()) =>
+  reminder.leaveAt.getTime() < now - LATE_WINDOW_MS;
+
+/**
+ * The message sent to the assistant just before a reminder goes off. It names the planned
+ * duration so the model reports what changed rather than planning from scratch.
+ */
+export const buildRecheckPrompt = (reminder: Reminder): string => {
+  const { plan } = reminder;
+  const duration = plan.totalDurationMinutes !== undefined ? `, planned at ${formatDuration(plan.totalDurationMinutes)}` : '';
+  return `I'm leaving at ${formatClock(reminder.leaveAt)} for my trip from ${plan.origin} to ${plan.destination}${duration}. ` +
+    `Check live traffic and delays right now: has anything changed, and is it still the best option?`;
+};
+
+/**
+ * Compares the fresh plan from a recheck with the one the reminder was set for.
+ */
+export const comparePlans = (original: TripPlan, fresh: TripPlan | undefined): ReminderCheck => {
+  const checkedAt = new Date();
+  if (!fresh) {
+    return { checkedAt, message: 'Checked live conditions; no updated plan was returned.', hasChanged: false };
+  }
+
+  const warnings: string[] = [];
+  const before = original.totalDurationMinutes;
+  const after = fresh.totalDurationMinutes;
+  if (before !== undefined && after !== undefined && isNotablySlower(before, after)) {
+    warnings.push(`now takes ${formatDuration(after)} (was ${formatDuration(before)})`);
+  }
+
+  const congested = fresh.legs.filter(leg =>
+    isHeavyTraffic(leg.congestion) && !original.legs.some(o => isHeavyTraffic(o.congestion) && o.from === leg.from && o.to === leg.to)
+  );
+  if (congested.length) {
+    warnings.push(`heavy traffic ${congested.map(leg => `${leg.from} → ${leg.to}`).join(', ')}`);
+  }
+
+  const firstRide = (plan: TripPlan) => plan.legs.find(leg => leg.mode !== 'WALK' && leg.departureTime);
+  const plannedRide = firstRide(original);
+  const freshRide = firstRide(fresh);
+  if (plannedRide && freshRide && plannedRide.departureTime !== freshRide.departureTime) {
+    warnings.push(`first departure is now ${freshRide.departureTime} (was ${plannedRide.departureTime})`);
+  }
+
+  return warnings.length
+    ? { checkedAt, message: `⚠️ Conditions changed: ${warnings.join('; ')}.`, hasChanged: true }
+    : { checkedAt, message: 'Live conditions checked: your plan still holds.', hasChanged: false };
+};
+
+/**
+ * Asks the assistant for current conditions on the reminder's trip, outside the chat.
+ * Errors and timeouts are reported as a check that couldn't be made.
+ */
+export const recheckReminder = async (
+  reminder: Reminder,
+  provider: TransitAssistantProvider,
+  preferences: UserPreferences,
+  origin: TripOrigin | null,
+  localContext?: string
+): Promise<ReminderCheck> => {
+  try {
+    const reply = await askInBackground(provider, {
+      message: buildRecheckPrompt(reminder),
+      preferences: { ...preferences, routePreference: reminder.routePreference },
+      origin,
+      localContext,
+    }, RECHECK_TIMEOUT_MS);
+    return comparePlans(reminder.plan, reply.tripPlan);
+  } catch (error) {
+    console.warn("Could not recheck reminder:", error);
+    return { checkedAt: new Date(), message: "Couldn't check live conditions; going by the original plan.", hasChanged: false };
+  }
+};
+
+export const describeReminder = (reminder: Reminder): string =>
+  `Leave at ${formatClock(reminder.leaveAt)} for ${reminder.name}.` +
+  (reminder.lastCheck ? ` ${reminder.lastCheck.message}` : '');
+
+const reviveReminder = (raw: Reminder): Reminder => ({
+  ...raw,
+  leaveAt: toDate(raw.leaveAt),
+  createdAt: toDate(raw.createdAt),
+  lastCheck: raw.lastCheck && { ...raw.lastCheck, checkedAt: toDate(raw.lastCheck.checkedAt) },
+});
+
+/**
+ * Loads reminders, soonest first.
+ */
+export const loadReminders = async (): Promise<Reminder[]> => {
+  const records = await getAllRecords<Reminder>(STORES.reminders);
+  return records.map(reviveReminder).sort((a, b) => a.leaveAt.getTime() - b.leaveAt.getTime());
+};
+
+export const saveReminder = (reminder: Reminder): Promise<Reminder> =>
+  putRecord(STORES.reminders, reminder);
+
+export const deleteReminder = (id: string): Promise<void> =>
+  deleteRecord(STORES.reminders, id);
@@ -0,0 +1,64 @@
+import { SaveRouteDirective, TripPlan } from "../types";
+import { normalizeTripPlan } from "./tripPlan";
+import { normalizeSaveRouteDirective } from "./savedRoutes";
+
+// The model appends machine-readable data after its prose as fenced blocks tagged with
+// one of these languages. They are never shown to the user.
+const BLOCK_TAGS = ['tripplan', 'saveroute'] as const;
+
+type BlockTag = typeof BLOCK_TAGS[number];
+
+const FENCES = BLOCK_TAGS.map(tag => '```' + tag);
+
+const findFirstFence = (text: string): number => {
+  const indexes = FENCES.map(fence => text.indexOf(fence)).filter(i => i !== -1);
+  return indexes.length ? Math.min(...indexes) : -1;
+};
+
+/**
+ * Hides the structured blocks from text that is still streaming in, including a fence that
+ * has only partially arrived, so raw JSON never flashes up in the chat.
+ */
+export const stripReplyBlocks = (text: string): string => {
+  const fenceIndex = findFirstFence(text);
+  if (fenceIndex !== -1) return text.slice(0, fenceIndex).trimEnd();
+
+  const longestFence = Math.max(...FENCES.map(f => f.length));
+  for (let len = Math.min(longestFence - 1, text.length); len > 0; len--) {
+    const tail = text.slice(text.length - len);
+    if (FENCES.some(fence => fence.startsWith(tail))) {
+      return text.slice(0, text.length - len);
+    }
+  }
+  return text;
+};
+
+const readBlock = (text: string, tag: BlockTag): unknown => {
+  const fence = '```' + tag;
+  const fenceIndex = text.indexOf(fence);
+  if (fenceIndex === -1) return undefined;
+
+  const bodyStart = fenceIndex + fence.length;
+  const bodyEnd = text.indexOf('```', bodyStart);
+  const body = text.slice(bodyStart, bodyEnd === -1 ? undefined : bodyEnd);
+
+  try {
+    return JSON.parse(body);
+  } catch (error) {
+    console.warn(`Could not parse ${tag} block:`, error);
+    return undefined;
+  }
+};
+
+/**
+ * Splits a complete reply into the prose shown to the user and the data the model
+ * attached. Missing or malformed blocks simply yield nothing.
+ */
+export const parseAssistantReply = (text: string): { text: string; tripPlan?: TripPlan; saveRoute?: SaveRouteDirective } => {
+  if (findFirstFence(text) === -1) return { text };
+  return {
+    text: stripReplyBlocks(text),
+    tripPlan: normalizeTripPlan(readBlock(text, 'tripplan')),
+    saveRoute: normalizeSaveRouteDirective(readBlock(text, 'saveroute')),
+  };
+};
@@ -0,0 +1,135 @@
+import { AssistantReply, ChatMessage, ContractRule, ContractViolation, TransitAssistantProvider, TransitMode, TripOrigin, TripPlan, UserPreferences } from "../types";
+import { stripReplyBlocks } from "./replyBlocks";
+import { STORES, getRecord, putRecord } from "./db";
+
+/**
+ * Checks replies against the output format the system instruction asks for, so replies
+ * that drift from it can be flagged and, once, sent back to be rewritten.
+ */
+
+export const CONTRACT_RULE_LABELS: Record<ContractRule, string> = {
+  STATS_HEADER: 'Trip stats header',
+  FARE_LINE: 'Bus/Train/Metro fares',
+  TO_STATION: 'Walking directions to the station',
+  ACCESSIBILITY: 'Accessibility confirmed',
+  CLOSING_QUESTION: 'Closing question',
+};
+
+// The stats header must come this early: after at most a short greeting
+const HEADER_MAX_LINE = 4;
+
+const HEADER_FIELDS: [string, RegExp][] = [
+  ['weather', /weather\s*:/i],
+  ['duration', /duration\s*:/i],
+  ['distance', /distance\s*:/i],
+  ['fare', /fare\s*:/i],
+  ['tolls', /tolls?\s*:/i],
+];
+
+const FARE_FIELDS: [string, RegExp][] = [
+  ['bus', /bus\s*:/i],
+  ['train', /train\s*:/i],
+  ['metro', /metro\s*:/i],
+];
+
+// Modes that mean getting to a stop or station, so walking directions are owed
+const STATION_MODES: TransitMode[] = ['BUS', 'TRAIN', 'METRO', 'FERRY'];
+
+const ACCESSIBILITY_PATTERN = /wheelchair|step[- ]free|accessib|\blifts?\b|elevator|\bramps?\b/i;
+
+// Markdown emphasis, closing brackets and emoji may follow the question mark
+const CLOSING_QUESTION_PATTERN = /\?[\s*_)\]"'”]*(\p{Extended_Pictographic}[\s️‍]*)*$/u;
+
+const missing = (line: string | undefined, fields: [string, RegExp][]) =>
+  fields.filter(([, pattern]) => !line || !pattern.test(line)).map(([name]) => name);
+
+/**
+ * The ways a reply breaks the output contract for these preferences. The route rules
+ * (stats header, fare line, walking directions, accessibility) only apply to replies that
+ * suggest a route, which is when a trip plan came with them.
+ */
+export const validateReply = (text: string, tripPlan: TripPlan | undefined, preferences: UserPreferences): ContractViolation[] => {
+  const violations: ContractViolation[] = [];
+  const lines = stripReplyBlocks(text).split('\n').map(line => line.trim()).filter(Boolean);
+
+  if (tripPlan) {
+    const headerIndex = lines.findIndex(line => line.includes('|') && missing(line, HEADER_FIELDS).length <= 2);
+    const headerGaps = missing(lines[headerIndex], HEADER_FIELDS);
+    if (headerIndex === -1) {
+      violations.push({ rule: 'STATS_HEADER', message: 'No trip stats header (weather, duration, distance, fare, tolls)' });
+    } else if (headerIndex >= HEADER_MAX_LINE || headerGaps.length) {
+      violations.push({
+        rule: 'STATS_HEADER',
+        message: headerGaps.length
+          ? `Trip stats header is missing ${headerGaps.join(', ')}`
+          : 'Trip stats header is not at the start of the reply',
+      });
+    }
+
+    // Its own line, apart from the stats header
+    const fareLine = lines.find((line, i) => i !== headerIndex && missing(line, FARE_FIELDS).length === 0);
+    if (!fareLine) {
+      violations.push({ rule: 'FARE_LINE', message: 'Fares are not listed separately for bus, train and metro' });
+    }
+
+    if (tripPlan.legs.some(leg => STATION_MODES.includes(leg.mode)) && !/to station/i.test(text)) {
+      violations.push({ rule: 'TO_STATION', message: 'No "🚶 To Station" walking directions' });
+    }
+
+    if (preferences.accessibilityRequired && !ACCESSIBILITY_PATTERN.test(text)) {
+      violations.push({ rule: 'ACCESSIBILITY', message: 'Step-free access is not confirmed, though accessibility is required' });
+    }
+  }
+
+  if (!CLOSING_QUESTION_PATTERN.test(lines[lines.length - 1] ?? '')) {
+    violations.push({ rule: 'CLOSING_QUESTION', message: 'Does not end with a question' });
+  }
+  return violations;
+};
+
+export const buildRepairPrompt = (violations: ContractViolation[]): string =>
+  `Your last reply did not follow the required output format:\n` +
+  violations.map(v => `- ${v.message}`).join('\n') +
+  `\nRewrite that whole reply so it follows the format. Keep the same route, times and figures and don't add new ` +
+  `facts. Include the tripplan block again if the reply had one. Reply with the rewritten answer only, without ` +
+  `mentioning this request.`;
+
+export interface RepairRequest {
+  // The conversation up to and including the reply to fix
+  history: ChatMessage[];
+  historySummary?: string;
+  violations: ContractViolation[];
+  preferences: UserPreferences;
+  origin: TripOrigin | null;
+  onText?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Asks the assistant once to rewrite a reply that broke the contract. The request itself
+ * isn't part of the conversation; only the rewritten reply replaces the original.
+ */
+export const requestRepair = (provider: TransitAssistantProvider, request: RepairRequest): Promise<AssistantReply> =>
+  provider.sendMessage({
+    history: request.history,
+    historySummary: request.historySummary,
+    message: buildRepairPrompt(request.violations),
+    preferences: request.preferences,
+    origin: request.origin,
+    onText: request.onText,
+    signal: request.signal,
+  });
+
+const SETTING_ID = 'autoRepair';
+
+interface StoredAutoRepair {
+  id: typeof SETTING_ID;
+  enabled: boolean;
+}
+
+// Off unless turned on: every repair is an extra request the user didn't ask for
+export const loadAutoRepair = async (): Promise<boolean> =>
+  (await getRecord<StoredAutoRepair>(STORES.settings, SETTING_ID))?.enabled ?? false;
+
+export const saveAutoRepair = (enabled: boolean): Promise<unknown> =>
+  putRecord<StoredAutoRepair>(STORES.settings, { id: SETTING_ID, enabled });
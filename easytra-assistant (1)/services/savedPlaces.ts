@@ -0,0 +1,171 @@
+import { v4 as uuidv4 } from 'uuid';
+import { LatLng, SavedPlace, TripOrigin } from "../types";
+import { STORES, deleteRecord, getAllRecords, getRecord, putRecord, toDate } from "./db";
+import { GtfsFeed } from "./gtfs/feed";
+import { normalizeStopName } from "./gtfs/schedule";
+
+// Offered, in order, as the name for a new place until they exist
+export const SUGGESTED_PLACE_NAMES = ['Home', 'Work'];
+
+// A Nominatim-compatible search endpoint (OpenStreetMap's public one by default)
+const GEOCODER_URL = process.env.GEOCODER_URL || 'https://nominatim.openstreetmap.org/search';
+const MAX_RESULTS = 5;
+
+const ORIGIN_ID = 'origin';
+
+/**
+ * How the user chose to set where trips start. Stored rather than the resolved origin, so
+ * "GPS" keeps following the device and a saved place picks up edits to its address.
+ */
+export type OriginChoice =
+  | { kind: 'GPS' }
+  | { kind: 'PLACE'; placeId: string }
+  | { kind: 'MANUAL'; name: string; address?: string; location?: LatLng };
+
+interface StoredOriginChoice {
+  id: string;
+  choice: OriginChoice;
+}
+
+export interface PlaceSearchResult {
+  source: 'SAVED' | 'STOP' | 'SEARCH';
+  name: string;
+  address?: string;
+  location?: LatLng;
+  // Set for results that are saved places
+  placeId?: string;
+}
+
+export const createSavedPlace = (name: string, address: string, location?: LatLng): SavedPlace => ({
+  id: uuidv4(),
+  name: name.trim(),
+  address: address.trim(),
+  location,
+  createdAt: new Date(),
+});
+
+// The first suggested name not already taken, for prefilling "Save as…"
+export const suggestPlaceName = (places: SavedPlace[]): string =>
+  SUGGESTED_PLACE_NAMES.find(name => !places.some(p => p.name.toLowerCase() === name.toLowerCase())) ?? '';
+
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Spells out saved places mentioned in a message so the model knows where they are:
+ * "from home to work" becomes "from Home (…) to Work (…)", each written by `describe`.
+ * Only names after a word like "from", "to" or "at" are replaced, so "does the metro work
+ * today" is left alone.
+ */
+export const resolvePlaceMentions = (text: string, places: SavedPlace[], describe: (place: SavedPlace) => string): string => {
+  if (places.length === 0) return text;
+  // Longest first, so "Work gym" is matched before "Work"
+  const sorted = [...places].sort((a, b) => b.name.length - a.name.length);
+  const names = sorted.map(p => escapeRegExp(p.name)).join('|');
+  const pattern = new RegExp(`\\b(from|to|at|near|via|towards?|reach|leave|leaving|back)(\\s+(?:my|the)\\s+|\\s+)(${names})\\b`, 'gi');
+
+  return text.replace(pattern, (match, word: string, gap: string, name: string) => {
+    const place = sorted.find(p => p.name.toLowerCase() === name.toLowerCase());
+    return place ? `${word}${gap}${describe(place)}` : match;
+  });
+};
+
+/**
+ * The origin sent with requests for the user's choice, or null when it can't be resolved
+ * (GPS chosen but no fix yet, or the chosen place was deleted).
+ */
+export const resolveOrigin = (choice: OriginChoice, places: SavedPlace[], userLocation: LatLng | null): TripOrigin | null => {
+  switch (choice.kind) {
+    case 'GPS':
+      return userLocation ? { source: 'GPS', name: 'Current location', location: userLocation } : null;
+    case 'PLACE': {
+      const place = places.find(p => p.id === choice.placeId);
+      return place ? { source: 'SAVED_PLACE', name: place.name, address: place.address, location: place.location } : null;
+    }
+    case 'MANUAL':
+      return { source: 'MANUAL', name: choice.name, address: choice.address, location: choice.location };
+  }
+};
+
+/**
+ * Saved places and timetable stops matching a search, found on the device as the user
+ * types.
+ */
+export const findLocalPlaces = (query: string, places: SavedPlace[], timetable?: GtfsFeed): PlaceSearchResult[] => {
+  const wanted = query.trim().toLowerCase();
+  if (!wanted) return [];
+
+  const saved: PlaceSearchResult[] = places
+    .filter(p => p.name.toLowerCase().includes(wanted) || p.address.toLowerCase().includes(wanted))
+    .map(p => ({ source: 'SAVED', name: p.name, address: p.address, location: p.location, placeId: p.id }));
+
+  const stops: PlaceSearchResult[] = [];
+  if (timetable) {
+    const normalized = normalizeStopName(query);
+    for (const stop of timetable.stops.values()) {
+      // Stations stand for their platforms
+      if (stop.parentStation && timetable.stops.has(stop.parentStation)) continue;
+      if (!normalizeStopName(stop.name).includes(normalized)) continue;
+      stops.push({ source: 'STOP', name: stop.name, address: 'Timetable stop', location: { lat: stop.lat, lng: stop.lng } });
+      if (stops.length >= MAX_RESULTS) break;
+    }
+  }
+
+  return [...saved, ...stops];
+};
+
+/**
+ * Looks up an address or place name with the geocoder. Throws with a user-facing message
+ * when the search can't be made.
+ */
+export const searchPlaces = async (query: string, signal?: AbortSignal): Promise<PlaceSearchResult[]> => {
+  const params = new URLSearchParams({ q: query, format: 'jsonv2', limit: String(MAX_RESULTS) });
+  let response: Response;
+  try {
+    response = await fetch(`${GEOCODER_URL}?${params}`, { signal, headers: { Accept: 'application/json' } });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    throw new Error("Couldn't search for places right now. Check your connection.");
+  }
+  if (!response.ok) {
+    throw new Error(`Place search returned an error (HTTP ${response.status}).`);
+  }
+
+  const results: { name?: string; display_name?: string; lat?: string; lon?: string }[] = await response.json();
+  return results
+    .filter(r => r.display_name && Number.isFinite(Number(r.lat)) && Number.isFinite(Number(r.lon)))
+    .map(r => ({
+      source: 'SEARCH',
+      name: r.name || r.display_name!.split(',')[0],
+      address: r.display_name,
+      location: { lat: Number(r.lat), lng: Number(r.lon) },
+    }));
+};
+
+const revivePlace = (raw: SavedPlace): SavedPlace => ({
+  ...raw,
+  createdAt: toDate(raw.createdAt),
+});
+
+/**
+ * Loads saved places, Home and Work first, then the rest by name.
+ */
+export const loadSavedPlaces = async (): Promise<SavedPlace[]> => {
+  const records = await getAllRecords<SavedPlace>(STORES.places);
+  const rank = (place: SavedPlace) => {
+    const index = SUGGESTED_PLACE_NAMES.indexOf(place.name);
+    return index === -1 ? SUGGESTED_PLACE_NAMES.length : index;
+  };
+  return records.map(revivePlace).sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+};
+
+export const saveSavedPlace = (place: SavedPlace): Promise<SavedPlace> =>
+  putRecord(STORES.places, place);
+
+export const deleteSavedPlace = (id: string): Promise<void> =>
+  deleteRecord(STORES.places, id);
+
+export const loadOriginChoice = async (): Promise<OriginChoice> =>
+  (await getRecord<StoredOriginChoice>(STORES.settings, ORIGIN_ID))?.choice ?? { kind: 'GPS' };
+
+export const saveOriginChoice = (choice: OriginChoice): Promise<unknown> =>
+  putRecord<StoredOriginChoice>(STORES.settings, { id: ORIGIN_ID, choice });
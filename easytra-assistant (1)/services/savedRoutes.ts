@@ -0,0 +1,77 @@
+import { v4 as uuidv4 } from 'uuid';
+import { RoutePreference, SaveRouteDirective, SavedRoute, TransitMode, TripPlan } from "../types";
+import { STORES, deleteRecord, getAllRecords, putRecord, toDate } from "./db";
+
+/**
+ * Picks the mode that best describes a plan: the longest leg that isn't walking.
+ */
+export const getPrimaryMode = (plan: TripPlan): TransitMode | undefined => {
+  const rideLegs = plan.legs.filter(leg => leg.mode !== 'WALK');
+  if (rideLegs.length === 0) return plan.legs[0]?.mode;
+  return rideLegs.reduce((longest, leg) =>
+    (leg.durationMinutes ?? 0) > (longest.durationMinutes ?? 0) ? leg : longest
+  ).mode;
+};
+
+export const createSavedRoute = (plan: TripPlan, routePreference: RoutePreference, name?: string): SavedRoute => {
+  const now = new Date();
+  return {
+    id: uuidv4(),
+    name: name?.trim() || `${plan.origin} → ${plan.destination}`,
+    origin: plan.origin,
+    destination: plan.destination,
+    mode: getPrimaryMode(plan),
+    routePreference,
+    lastPlan: plan,
+    createdAt: now,
+    lastRunAt: now,
+  };
+};
+
+/**
+ * Records the outcome of a re-run: the fresh plan replaces the stored one.
+ */
+export const withRefreshedPlan = (route: SavedRoute, plan: TripPlan): SavedRoute => ({
+  ...route,
+  mode: getPrimaryMode(plan) ?? route.mode,
+  lastPlan: plan,
+  lastRunAt: new Date(),
+});
+
+/**
+ * The message sent to the assistant when a saved route is re-run. It asks for live
+ * conditions explicitly so the model doesn't just repeat the stored plan.
+ */
+export const buildRerunPrompt = (route: SavedRoute): string => {
+  const mode = route.mode && route.mode !== 'WALK' ? ` (usually by ${route.mode.toLowerCase()})` : '';
+  return `Check my saved route "${route.name}": from ${route.origin} to ${route.destination}${mode}. ` +
+    `What are the live conditions right now, and is it still the best option?`;
+};
+
+export const normalizeSaveRouteDirective = (value: unknown): SaveRouteDirective | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const name = (value as { name?: unknown }).name;
+  return { name: typeof name === 'string' && name.trim() ? name.trim() : undefined };
+};
+
+const reviveSavedRoute = (raw: SavedRoute): SavedRoute => ({
+  ...raw,
+  createdAt: toDate(raw.createdAt),
+  lastRunAt: raw.lastRunAt ? toDate(raw.lastRunAt) : undefined,
+});
+
+/**
+ * Loads saved routes, most recently used first.
+ */
+export const loadSavedRoutes = async (): Promise<SavedRoute[]> => {
+  const records = await getAllRecords<SavedRoute>(STORES.savedRoutes);
+  return records
+    .map(reviveSavedRoute)
+    .sort((a, b) => (b.lastRunAt ?? b.createdAt).getTime() - (a.lastRunAt ?? a.createdAt).getTime());
+};
+
+export const saveSavedRoute = (route: SavedRoute): Promise<SavedRoute> =>
+  putRecord(STORES.savedRoutes, route);
+
+export const deleteSavedRoute = (id: string): Promise<void> =>
+  deleteRecord(STORES.savedRoutes, id);
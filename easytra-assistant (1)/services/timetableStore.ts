@@ -0,0 +1,51 @@
+import { TimetableSummary } from "../types";
+import { STORES, deleteRecord, getRecord, putRecord, toDate } from "./db";
+import { GtfsFeed, loadGtfsFeed } from "./gtfs/feed";
+
+// Only one timetable is active at a time; importing another replaces it
+const ACTIVE_ID = 'active';
+
+// The original zip is stored rather than the index, which holds Maps and Sets and is
+// rebuilt quickly on load
+interface StoredTimetable {
+  id: string;
+  fileName: string;
+  data: Uint8Array;
+  importedAt: Date;
+}
+
+export interface LoadedTimetable {
+  feed: GtfsFeed;
+  summary: TimetableSummary;
+}
+
+const summarize = (feed: GtfsFeed, importedAt: Date): TimetableSummary => ({
+  name: feed.name,
+  stops: feed.stops.size,
+  routes: feed.routes.size,
+  trips: feed.trips.size,
+  importedAt,
+});
+
+/**
+ * Indexes a GTFS zip chosen by the user and keeps it for future sessions. Throws with a
+ * user-facing message if the file isn't a usable feed.
+ */
+export const importTimetable = async (file: File): Promise<LoadedTimetable> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const feed = loadGtfsFeed(data, file.name.replace(/\.zip$/i, ''));
+
+  const importedAt = new Date();
+  await putRecord<StoredTimetable>(STORES.timetables, { id: ACTIVE_ID, fileName: file.name, data, importedAt });
+  return { feed, summary: summarize(feed, importedAt) };
+};
+
+export const loadStoredTimetable = async (): Promise<LoadedTimetable | null> => {
+  const stored = await getRecord<StoredTimetable>(STORES.timetables, ACTIVE_ID);
+  if (!stored) return null;
+  const feed = loadGtfsFeed(stored.data, stored.fileName.replace(/\.zip$/i, ''));
+  return { feed, summary: summarize(feed, toDate(stored.importedAt)) };
+};
+
+export const removeTimetable = (): Promise<void> =>
+  deleteRecord(STORES.timetables, ACTIVE_ID);
@@ -0,0 +1,114 @@
+import { RAIL_CLASSES, TRANSIT_MODES } from "./tripPlan";
+import { RAIL_QUOTAS } from "./rail/adapter";
+
+/**
+ * Declarations of the tools the app runs on the user's device. Shared by the server, which
+ * offers them to Gemini, and the client, which executes the calls (see localTools.ts).
+ */
+export interface LocalToolDeclaration {
+  name: string;
+  description: string;
+  // JSON Schema for the arguments
+  parameters: Record<string, unknown>;
+}
+
+// Rounds of tool calls allowed per reply. On the last round tools are withheld, so the
+// model has to answer with what it has.
+export const MAX_TOOL_ROUNDS = 4;
+
+export const LOCAL_TOOL_DECLARATIONS: LocalToolDeclaration[] = [
+  {
+    name: 'getNextDepartures',
+    description: "Next scheduled departures from a stop or station in the user's imported timetable, with live delays and cancellations when a realtime feed is connected.",
+    parameters: {
+      type: 'object',
+      properties: {
+        stop: { type: 'string', description: 'Stop or station name as the user wrote it' },
+        limit: { type: 'integer', description: 'How many departures to return (default 5, max 10)' },
+      },
+      required: ['stop'],
+    },
+  },
+  {
+    name: 'calculateFare',
+    description: 'Estimated fare range in INR for one leg of a trip, from typical Indian tariffs for the mode and distance.',
+    parameters: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string', enum: TRANSIT_MODES, description: 'Mode of the leg' },
+        distanceKm: { type: 'number', description: 'Distance of the leg in kilometres' },
+      },
+      required: ['mode', 'distanceKm'],
+    },
+  },
+  {
+    name: 'getSavedPlaces',
+    description: 'Places the user has saved in the app: named places such as Home and Work (with coordinates when the user shares them), and the ends of their saved routes. Use it to resolve references like "home", "the office" or "my usual route".',
+    parameters: { type: 'object', properties: {} },
+  },
+  {
+    name: 'checkStationAccessibility',
+    description: "Step-free (wheelchair) access at a stop or station according to the imported timetable, plus any live accessibility alerts there.",
+    parameters: {
+      type: 'object',
+      properties: {
+        station: { type: 'string', description: 'Stop or station name' },
+      },
+      required: ['station'],
+    },
+  },
+  {
+    name: 'searchTrains',
+    description: 'Indian Railways trains between two stations on a date, with departure and arrival times, journey time, the weekdays each runs and the fare in INR for every class it carries.',
+    parameters: {
+      type: 'object',
+      properties: {
+        from: { type: 'string', description: 'Boarding station name or code, e.g. "Pune" or "PUNE"' },
+        to: { type: 'string', description: 'Destination station name or code' },
+        date: { type: 'string', description: 'Travel date as YYYY-MM-DD (default today)' },
+      },
+      required: ['from', 'to'],
+    },
+  },
+  {
+    name: 'getSeatAvailability',
+    description: 'Seats left on an Indian Railways train for one class and quota on a date: available, RAC or waitlisted (with the count or position), or regret, plus the fare.',
+    parameters: {
+      type: 'object',
+      properties: {
+        trainNumber: { type: 'string', description: 'Five-digit train number' },
+        from: { type: 'string', description: 'Boarding station name or code' },
+        to: { type: 'string', description: 'Destination station name or code' },
+        date: { type: 'string', description: 'Travel date as YYYY-MM-DD' },
+        travelClass: { type: 'string', enum: RAIL_CLASSES, description: 'Class code' },
+        quota: { type: 'string', enum: RAIL_QUOTAS, description: 'GN general (default), TQ Tatkal, PT premium Tatkal, LD ladies, SS senior citizen' },
+      },
+      required: ['trainNumber', 'from', 'to', 'date', 'travelClass'],
+    },
+  },
+  {
+    name: 'getPnrStatus',
+    description: 'Booking status of an Indian Railways ticket by its 10-digit PNR: train, date, class, whether the chart is prepared, and each passenger\'s booking and current status.',
+    parameters: {
+      type: 'object',
+      properties: {
+        pnr: { type: 'string', description: '10-digit PNR number' },
+      },
+      required: ['pnr'],
+    },
+  },
+  {
+    name: 'getTrainRunningStatus',
+    description: "Where an Indian Railways train is right now: not started, running (last station passed and next station with expected arrival) or arrived, and how late it is.",
+    parameters: {
+      type: 'object',
+      properties: {
+        trainNumber: { type: 'string', description: 'Five-digit train number' },
+        date: { type: 'string', description: 'Date the train left its first station as YYYY-MM-DD (default today)' },
+      },
+      required: ['trainNumber'],
+    },
+  },
+];
+
+export const LOCAL_TOOL_NAMES = LOCAL_TOOL_DECLARATIONS.map(tool => tool.name);
@@ -0,0 +1,249 @@
+import { CongestionAssessment, CongestionSeverity, CongestionSource, TripLeg, TripPlan } from "../types";
+import { CONGESTION_SEVERITIES, formatDuration } from "./tripPlan";
+import { GtfsFeed } from "./gtfs/feed";
+import { RealtimeFeed, humanizeEnum } from "./gtfs/realtime";
+import { expandStop, findStopsInText } from "./gtfs/schedule";
+
+/**
+ * Traffic on a trip, leg by leg: how bad it is, why, how long it adds and when. Plans get
+ * it from the model, and live feeds can replace the model's estimate with what vehicles
+ * are reporting right now.
+ */
+
+export const SEVERITY_LABELS: Record<CongestionSeverity, string> = {
+  NONE: 'No traffic',
+  LIGHT: 'Light traffic',
+  MODERATE: 'Moderate traffic',
+  HEAVY: 'Heavy traffic',
+  SEVERE: 'Severe traffic',
+};
+
+// Drawn as a halo around a leg on the map, so they never clash with the mode colours
+export const SEVERITY_COLORS: Record<CongestionSeverity, string> = {
+  NONE: '#22c55e',
+  LIGHT: '#facc15',
+  MODERATE: '#f97316',
+  HEAVY: '#dc2626',
+  SEVERE: '#7f1d1d',
+};
+
+const SOURCE_LABELS: Record<CongestionSource, string> = {
+  MODEL: 'traffic search',
+  LIVE_FEED: 'live vehicle feed',
+};
+
+// GTFS-Realtime VehiclePosition.CongestionLevel
+const FEED_SEVERITIES: Record<string, CongestionSeverity> = {
+  RUNNING_SMOOTHLY: 'NONE',
+  STOP_AND_GO: 'MODERATE',
+  CONGESTION: 'HEAVY',
+  SEVERE_CONGESTION: 'SEVERE',
+};
+
+// Road modes, the only ones traffic slows down
+const ROAD_MODES: TripLeg['mode'][] = ['BUS', 'AUTO', 'CAB', 'CAR'];
+
+// The delay curve looks this far ahead, in steps of this size
+const CURVE_SPAN_MINUTES = 120;
+const CURVE_STEP_MINUTES = 15;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const severityRank = (severity: CongestionSeverity) => CONGESTION_SEVERITIES.indexOf(severity);
+
+// Bad enough to warn about before the user sets off
+export const isHeavyTraffic = (congestion?: CongestionAssessment) =>
+  !!congestion && severityRank(congestion.severity) >= severityRank('HEAVY');
+
+/**
+ * The worst traffic on any leg of the plan, the longer delay breaking ties. Undefined when
+ * no leg has an assessment.
+ */
+export const getWorstCongestion = (plan?: TripPlan): CongestionAssessment | undefined =>
+  plan?.legs
+    .map(leg => leg.congestion)
+    .filter((c): c is CongestionAssessment => !!c)
+    .reduce<CongestionAssessment | undefined>((worst, c) => {
+      if (!worst) return c;
+      const diff = severityRank(c.severity) - severityRank(worst.severity);
+      return diff > 0 || (diff === 0 && (c.delayMinutes ?? 0) > (worst.delayMinutes ?? 0)) ? c : worst;
+    }, undefined);
+
+export const describeCongestionWindow = ({ from, until }: CongestionAssessment): string | undefined =>
+  from && until ? `${from}–${until}` : from ? `from ${from}` : until ? `until ${until}` : undefined;
+
+// "Heavy traffic · +15 min · Evening peak on the ring road · until 19:00 · from traffic search"
+export const describeCongestion = (congestion: CongestionAssessment): string =>
+  [
+    SEVERITY_LABELS[congestion.severity],
+    congestion.delayMinutes ? `+${formatDuration(congestion.delayMinutes)}` : undefined,
+    congestion.cause,
+    describeCongestionWindow(congestion),
+    `from ${SOURCE_LABELS[congestion.source]}`,
+  ].filter(Boolean).join(' · ');
+
+const clockMinutes = (clock: string) => {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const minuteOfDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+// Windows may run past midnight ("22:00"–"02:00")
+const appliesAt = ({ from, until }: CongestionAssessment, minute: number) => {
+  const start = from ? clockMinutes(from) : undefined;
+  const end = until ? clockMinutes(until) : undefined;
+  if (start === undefined && end === undefined) return true;
+  if (start === undefined) return minute < end!;
+  if (end === undefined) return minute >= start;
+  return start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+};
+
+/**
+ * A source of traffic assessments for the legs of a plan, such as a live feed. Returns
+ * undefined for legs it knows nothing about.
+ */
+export interface TrafficAdapter {
+  source: CongestionSource;
+  assessLeg: (leg: TripLeg, at: Date) => CongestionAssessment | undefined;
+}
+
+// The stretch of each trip on the routes that runs from `fromIds` to `toIds` in that
+// direction, as the stop sequences it boards and leaves at
+const getLegSegments = (feed: GtfsFeed, routeIds: Set<string>, fromIds: string[], toIds: string[]) => {
+  const segments = new Map<string, { board: number; alight: number }>();
+  feed.trips.forEach(trip => {
+    if (!routeIds.has(trip.routeId)) return;
+    const stopTimes = feed.stopTimesByTrip.get(trip.id) ?? [];
+    const board = stopTimes.find(st => fromIds.includes(st.stopId));
+    const alight = board && stopTimes.find(st => st.sequence > board.sequence && toIds.includes(st.stopId));
+    if (alight) segments.set(trip.id, { board: board.sequence, alight: alight.sequence });
+  });
+  return segments;
+};
+
+/**
+ * Reads traffic from the GTFS-Realtime feed for the bus route a leg rides, matched by
+ * route number or name, counting only trips that run from the leg's first stop to its
+ * last and only while they are between the two. The level most of those vehicles report
+ * wins, the worse one on a tie; the average delay those trips report on the stretch is
+ * the expected delay. Legs whose stops aren't in the timetable are left alone.
+ */
+export const createLiveFeedTrafficAdapter = (feed: GtfsFeed, realtime: RealtimeFeed): TrafficAdapter => ({
+  source: 'LIVE_FEED',
+  assessLeg: leg => {
+    const line = leg.line?.trim().toLowerCase();
+    if (leg.mode !== 'BUS' || !line) return undefined;
+    const routeIds = new Set(
+      [...feed.routes.values()]
+        .filter(route => route.shortName.toLowerCase() === line || route.longName.toLowerCase() === line)
+        .map(route => route.id)
+    );
+    const [from] = findStopsInText(feed, leg.from);
+    const [to] = findStopsInText(feed, leg.to);
+    if (!routeIds.size || !from || !to) return undefined;
+    const segments = getLegSegments(feed, routeIds, expandStop(feed, from.id), expandStop(feed, to.id));
+
+    // Where a stop sits on a trip, if the trip runs the leg and the stop is on its stretch
+    const sequenceOnLeg = (tripId: string, stopId?: string, stopSequence?: number) => {
+      const segment = segments.get(tripId);
+      const sequence = stopSequence ?? feed.stopTimesByTrip.get(tripId)?.find(st => st.stopId === stopId)?.sequence;
+      return segment && sequence !== undefined && sequence >= segment.board && sequence <= segment.alight ? sequence : undefined;
+    };
+
+    // A vehicle's stop is the one it is at or heading to
+    const reporting = realtime.vehicles.filter(v =>
+      v.tripId && v.congestion && FEED_SEVERITIES[v.congestion] && sequenceOnLeg(v.tripId, v.stopId) !== undefined
+    );
+    if (!reporting.length) return undefined;
+
+    const counts = new Map<string, number>();
+    reporting.forEach(v => counts.set(v.congestion!, (counts.get(v.congestion!) ?? 0) + 1));
+    const [level, count] = [...counts].sort(([a, countA], [b, countB]) =>
+      countB - countA || severityRank(FEED_SEVERITIES[b]) - severityRank(FEED_SEVERITIES[a]))[0];
+
+    // Each trip's latest update on the stretch; the trip-wide delay when it gives none by stop
+    const delays = [...realtime.tripUpdates.values()]
+      .filter(update => segments.has(update.tripId) && !update.canceled)
+      .map(update => {
+        if (!update.stopTimeUpdates.length) return update.delay;
+        const onLeg = update.stopTimeUpdates.filter(u => sequenceOnLeg(update.tripId, u.stopId, u.stopSequence) !== undefined);
+        const latest = onLeg[onLeg.length - 1];
+        return latest?.arrivalDelay ?? latest?.departureDelay;
+      })
+      .filter((delay): delay is number => delay !== undefined);
+    const averageDelay = delays.length ? delays.reduce((total, d) => total + d, 0) / delays.length / 60 : 0;
+
+    return {
+      severity: FEED_SEVERITIES[level],
+      cause: `${count} of ${reporting.length} buses on ${leg.line} between ${from.name} and ${to.name} report ${humanizeEnum(level)}`,
+      delayMinutes: averageDelay >= 1 ? Math.round(averageDelay) : undefined,
+      source: 'LIVE_FEED',
+    };
+  },
+});
+
+/**
+ * The plan with each leg's traffic taken from the first adapter that knows about it, live
+ * data being newer than the model's estimate. Legs no adapter covers keep the model's.
+ */
+export const withTrafficAssessments = (plan: TripPlan, adapters: TrafficAdapter[], at: Date): TripPlan => {
+  let changed = false;
+  const legs = plan.legs.map(leg => {
+    if (!ROAD_MODES.includes(leg.mode)) return leg;
+    const congestion = adapters.map(adapter => adapter.assessLeg(leg, at)).find(Boolean);
+    if (!congestion) return leg;
+    changed = true;
+    return { ...leg, congestion };
+  });
+  return changed ? { ...plan, legs } : plan;
+};
+
+export interface DelayCurvePoint {
+  leaveAt: Date;
+  arriveAt: Date;
+  durationMinutes: number;
+}
+
+// Where the model forecast trip times itself; times that already passed are left out
+const curveFromForecast = (plan: TripPlan, now: Date): DelayCurvePoint[] =>
+  plan.departureOptions!
+    .map(option => {
+      const leaveAt = new Date(now);
+      leaveAt.setHours(0, clockMinutes(option.leaveAt), 0, 0);
+      if (leaveAt.getTime() < now.getTime() - CURVE_STEP_MINUTES * 60_000) leaveAt.setDate(leaveAt.getDate() + 1);
+      return { leaveAt, durationMinutes: option.durationMinutes, arriveAt: new Date(leaveAt.getTime() + option.durationMinutes * 60_000) };
+    })
+    .sort((a, b) => a.leaveAt.getTime() - b.leaveAt.getTime());
+
+/**
+ * How leaving later changes when the trip arrives, over the next two hours. Uses the
+ * model's forecast when it gave one; otherwise each leg's delay is added while the leg
+ * would be travelled inside its congestion window. The plan's duration is taken to
+ * include the delays that apply now. Empty when waiting makes no difference.
+ */
+export const buildDelayCurve = (plan: TripPlan, now: Date): DelayCurvePoint[] => {
+  if (plan.departureOptions && plan.departureOptions.length > 1) return curveFromForecast(plan, now);
+
+  const delayed = plan.legs.some(leg => leg.congestion?.delayMinutes);
+  const total = plan.totalDurationMinutes ?? plan.legs.reduce((sum, leg) => sum + (leg.durationMinutes ?? 0), 0);
+  if (!delayed || !total) return [];
+
+  // Minutes from setting off to the start of each leg
+  const legStarts = plan.legs.map((_, i) => plan.legs.slice(0, i).reduce((sum, leg) => sum + (leg.durationMinutes ?? 0), 0));
+  const delayWhenLeaving = (leaveAt: Date) =>
+    plan.legs.reduce((sum, leg, i) => {
+      const c = leg.congestion;
+      const minute = (minuteOfDay(leaveAt) + legStarts[i]) % MINUTES_PER_DAY;
+      return c?.delayMinutes && appliesAt(c, minute) ? sum + c.delayMinutes : sum;
+    }, 0);
+
+  const freeFlow = Math.max(1, total - delayWhenLeaving(now));
+  const points: DelayCurvePoint[] = [];
+  for (let wait = 0; wait <= CURVE_SPAN_MINUTES; wait += CURVE_STEP_MINUTES) {
+    const leaveAt = new Date(now.getTime() + wait * 60_000);
+    const durationMinutes = freeFlow + delayWhenLeaving(leaveAt);
+    points.push({ leaveAt, durationMinutes, arriveAt: new Date(leaveAt.getTime() + durationMinutes * 60_000) });
+  }
+  return points.some(point => point.durationMinutes !== points[0].durationMinutes) ? points : [];
+};
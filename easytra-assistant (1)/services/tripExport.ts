@@ -0,0 +1,223 @@
+import { v4 as uuidv4 } from 'uuid';
+import { RoutePreference, TransitMode, TravelClass, TripPlan, UserPreferences } from "../types";
+import { DEFAULT_LEAD_MINUTES, parseClockTime, suggestLeaveTime } from "./reminders";
+import { formatDuration, formatFareRange } from "./tripPlan";
+import { CHOOSABLE_MODES, ROUTE_GOALS, TRAVEL_CLASS_LABELS, getGoalWeights } from "./preferences";
+
+/**
+ * Getting a plan out of the chat: as a calendar event, a file download, or a link that
+ * opens EasyTra with the same trip and preferences.
+ */
+
+export interface PlanTimes {
+  // When to set off, which the calendar event starts at
+  leaveAt: Date;
+  // The first scheduled departure, when it's later than leaving
+  firstDeparture?: Date;
+  arrival?: Date;
+}
+
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false });
+
+/**
+ * When a plan leaves and arrives, reading its clock times as the next occurrence after it
+ * was suggested. Undefined when the plan gives no times at all.
+ */
+export const getPlanTimes = (plan: TripPlan, suggestedAt: Date): PlanTimes | undefined => {
+  const leaveAt = suggestLeaveTime(plan, suggestedAt);
+  if (!leaveAt) return undefined;
+
+  const timed = plan.legs.find(leg => leg.departureTime);
+  const firstDeparture = timed ? parseClockTime(timed.departureTime!, leaveAt) : undefined;
+  const last = [...plan.legs].reverse().find(leg => leg.arrivalTime);
+  const arrival = plan.totalDurationMinutes !== undefined
+    ? new Date(leaveAt.getTime() + plan.totalDurationMinutes * 60_000)
+    : last ? parseClockTime(last.arrivalTime!, leaveAt) : undefined;
+
+  return {
+    leaveAt,
+    firstDeparture: firstDeparture && firstDeparture.getTime() !== leaveAt.getTime() ? firstDeparture : undefined,
+    arrival,
+  };
+};
+
+export const describeLeg = (leg: TripPlan['legs'][number]) =>
+  `${leg.mode}${leg.line ? ` ${leg.line}` : ''}: ${leg.from} → ${leg.to}` +
+  (leg.departureTime ? ` (${leg.departureTime}${leg.arrivalTime ? `–${leg.arrivalTime}` : ''})` : '');
+
+// iCalendar text values escape backslashes, separators and newlines
+const escapeIcsText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const formatIcsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Content lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+/**
+ * The plan as an iCalendar (.ics) event from leaving to arriving, with an alarm before the
+ * leave-by time. Undefined when the plan has no times to put in a calendar.
+ */
+export const buildCalendarEvent = (
+  plan: TripPlan,
+  suggestedAt: Date,
+  leadMinutes = DEFAULT_LEAD_MINUTES
+): string | undefined => {
+  const times = getPlanTimes(plan, suggestedAt);
+  if (!times) return undefined;
+
+  const end = times.arrival && times.arrival > times.leaveAt ? times.arrival : new Date(times.leaveAt.getTime() + 60 * 60_000);
+  const description = [
+    `Leave by ${formatClock(times.leaveAt)}.`,
+    times.firstDeparture ? `First departure ${formatClock(times.firstDeparture)}.` : '',
+    '',
+    ...plan.legs.map(describeLeg),
+    plan.totalFare ? `\nEstimated fare: ${formatFareRange(plan.totalFare)}` : '',
+    plan.totalDurationMinutes !== undefined ? `Duration: ${formatDuration(plan.totalDurationMinutes)}` : '',
+  ].filter((line, i) => line || i === 2).join('\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//EasyTra//Trip Assistant//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${uuidv4()}@easytra`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    `DTSTART:${formatIcsDate(times.leaveAt)}`,
+    `DTEND:${formatIcsDate(end)}`,
+    `SUMMARY:${escapeIcsText(`Trip: ${plan.origin} → ${plan.destination}`)}`,
+    `LOCATION:${escapeIcsText(plan.origin)}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    'BEGIN:VALARM',
+    'ACTION:DISPLAY',
+    `DESCRIPTION:${escapeIcsText(`Leave by ${formatClock(times.leaveAt)} for ${plan.destination}`)}`,
+    `TRIGGER:-PT${leadMinutes}M`,
+    'END:VALARM',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+// "Pune → Mumbai" becomes "pune-mumbai", for file names
+export const slugify = (text: string) =>
+  text.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'trip';
+
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * A trip shared by link: where from and to, and the route preferences to plan it with.
+ * Location settings are never part of a link.
+ */
+export interface SharedTrip {
+  origin: string;
+  destination: string;
+  preferences: Partial<UserPreferences>;
+}
+
+type SharedPreferences = Pick<UserPreferences,
+  'routePreference' | 'goalWeights' | 'accessibilityRequired' | 'preferredModes' | 'avoidedModes' |
+  'maxWalkingMeters' | 'fareBudget' | 'travelClass' | 'hasLuggage' | 'withChildren'>;
+
+/**
+ * A link that opens EasyTra on a new conversation with this trip typed in. Besides the main
+ * goal, only settings that differ from the defaults are written, to keep links short.
+ * `base` is where the app is served from, which includes the subpath of a build with a
+ * Vite `base`.
+ */
+export const buildShareUrl = (
+  origin: string,
+  destination: string,
+  preferences: SharedPreferences,
+  base = new URL(import.meta.env.BASE_URL, window.location.origin).href
+): string => {
+  const params = new URLSearchParams({ from: origin, to: destination, goal: preferences.routePreference });
+  const encodeWeights = (weights: UserPreferences['goalWeights']) => ROUTE_GOALS.map(goal => weights[goal]).join('');
+  const weights = encodeWeights(getGoalWeights(preferences));
+  // Left out when only the main goal counts, and the opener's own weights apply
+  if (weights !== encodeWeights(getGoalWeights({ routePreference: preferences.routePreference, goalWeights: undefined }))) {
+    params.set('weights', weights);
+  }
+  if (preferences.avoidedModes.length) params.set('avoid', preferences.avoidedModes.join(','));
+  if (preferences.preferredModes.length) params.set('prefer', preferences.preferredModes.join(','));
+  if (preferences.maxWalkingMeters) params.set('walk', String(preferences.maxWalkingMeters));
+  if (preferences.fareBudget) params.set('budget', String(preferences.fareBudget));
+  if (preferences.travelClass !== 'ANY') params.set('class', preferences.travelClass);
+  if (preferences.accessibilityRequired) params.set('access', '1');
+  if (preferences.hasLuggage) params.set('luggage', '1');
+  if (preferences.withChildren) params.set('kids', '1');
+  const url = new URL(base);
+  url.search = params.toString();
+  return url.href;
+};
+
+const parseModes = (value: string | null): TransitMode[] =>
+  (value ?? '').split(',').filter((mode): mode is TransitMode => CHOOSABLE_MODES.includes(mode as TransitMode));
+
+const parsePositive = (value: string | null): number | null => {
+  const n = Math.round(Number(value));
+  return value && Number.isFinite(n) && n > 0 ? n : null;
+};
+
+/**
+ * Reads a shared trip from a page's query string. Anything missing or unrecognised is
+ * left out, so the opener's own setting applies.
+ */
+export const parseShareUrl = (search: string): SharedTrip | undefined => {
+  const params = new URLSearchParams(search);
+  const origin = params.get('from')?.trim();
+  const destination = params.get('to')?.trim();
+  if (!origin || !destination) return undefined;
+
+  const preferences: Partial<UserPreferences> = {};
+  if (params.has('prefer')) preferences.preferredModes = parseModes(params.get('prefer'));
+  if (params.has('avoid')) preferences.avoidedModes = parseModes(params.get('avoid'));
+  const maxWalkingMeters = parsePositive(params.get('walk'));
+  if (maxWalkingMeters) preferences.maxWalkingMeters = maxWalkingMeters;
+  const fareBudget = parsePositive(params.get('budget'));
+  if (fareBudget) preferences.fareBudget = fareBudget;
+  if (params.get('access') === '1') preferences.accessibilityRequired = true;
+  if (params.get('luggage') === '1') preferences.hasLuggage = true;
+  if (params.get('kids') === '1') preferences.withChildren = true;
+  const goal = params.get('goal') as RoutePreference;
+  if (ROUTE_GOALS.includes(goal)) preferences.routePreference = goal;
+  const weights = params.get('weights') ?? '';
+  if (/^[0-3]{4}$/.test(weights)) {
+    preferences.goalWeights = Object.fromEntries(ROUTE_GOALS.map((g, i) => [g, Number(weights[i])])) as UserPreferences['goalWeights'];
+  }
+  const travelClass = params.get('class') as TravelClass;
+  if (Object.keys(TRAVEL_CLASS_LABELS).includes(travelClass)) preferences.travelClass = travelClass;
+
+  return { origin, destination, preferences };
+};
+
+export const buildSharedTripPrompt = (trip: SharedTrip) =>
+  `Plan a trip from ${trip.origin} to ${trip.destination}`;
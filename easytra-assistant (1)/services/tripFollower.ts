@@ -0,0 +1,289 @@
+import { LatLng, TransitMode, TripLeg, TripPlan } from "../types";
+import { formatDuration, legGeometry } from "./tripPlan";
+
+/**
+ * Follows the user along a trip plan from a stream of GPS fixes: which leg they are on,
+ * how far they have left, and when to board, get off, or re-plan. Pure functions only, so
+ * a recorded or simulated track replays exactly like a live one.
+ */
+
+export interface GpsFix extends LatLng {
+  // Milliseconds since the epoch; simulated tracks carry their own clock
+  timestamp: number;
+}
+
+export type TripStatus = 'ON_ROUTE' | 'OFF_ROUTE' | 'MISSED_CONNECTION' | 'ARRIVED';
+
+export type TripAnnouncementKind = 'WALK' | 'BOARD' | 'NEXT_STOP' | 'GET_OFF' | 'OFF_ROUTE' | 'MISSED_CONNECTION' | 'ARRIVED';
+
+export interface TripAnnouncement {
+  kind: TripAnnouncementKind;
+  message: string;
+  at: number;
+}
+
+export interface TripProgress {
+  legIndex: number;
+  // Metres left on the current leg, and how far the last fix was from the planned route
+  remainingMeters: number;
+  offRouteMeters: number;
+  status: TripStatus;
+  // Consecutive fixes away from the route; one stray fix isn't enough to re-plan
+  offRouteFixes: number;
+  // Newest first
+  announcements: TripAnnouncement[];
+  // Keys of the announcements already made, so each is made once
+  announced: string[];
+  startedAt: number;
+  lastFix?: GpsFix;
+}
+
+// Within this distance of a leg's end the user counts as there
+const ARRIVAL_METERS = 60;
+// How far along the next leg the user must be before we move on to it
+const ADVANCE_METERS = 40;
+// Distance before the end of a ride at which to say "get off at the next stop", and before
+// the end of a walk at which to say what to board next
+const GET_OFF_METERS = 700;
+const BOARD_NOTICE_METERS = 200;
+// How far from the route a fix may be. Straight-line legs (no path) get extra slack in
+// proportion to their length, since the real road or track bends away from the line.
+const ROUTE_TOLERANCE_METERS = { walk: 80, vehicle: 250 };
+const STRAIGHT_LINE_SLACK = 0.3;
+const OFF_ROUTE_FIXES = 2;
+// A departure counts as missed this long after its scheduled time
+const MISSED_GRACE_MS = 2 * 60_000;
+const MAX_ANNOUNCEMENTS = 20;
+
+interface Geometry {
+  points: LatLng[];
+  // Cumulative length in metres at each point
+  distances: number[];
+  length: number;
+  hasPath: boolean;
+}
+
+interface Projection {
+  distance: number;
+  along: number;
+}
+
+const EARTH_METERS_PER_DEGREE = 111_320;
+
+// Equirectangular projection around `origin`; accurate enough over the length of a trip
+const toMeters = (point: LatLng, origin: LatLng) => ({
+  x: (point.lng - origin.lng) * EARTH_METERS_PER_DEGREE * Math.cos(origin.lat * Math.PI / 180),
+  y: (point.lat - origin.lat) * EARTH_METERS_PER_DEGREE,
+});
+
+const distanceMeters = (a: LatLng, b: LatLng) => {
+  const { x, y } = toMeters(b, a);
+  return Math.hypot(x, y);
+};
+
+const buildGeometry = (points: LatLng[], hasPath: boolean): Geometry => {
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(distances[i - 1] + distanceMeters(points[i - 1], points[i]));
+  }
+  return { points, distances, length: distances[distances.length - 1], hasPath };
+};
+
+/**
+ * Geometry for every leg of the plan. A leg missing an endpoint borrows it from its
+ * neighbour (a walk to the station ends where the train starts). Returns undefined when
+ * some leg still has no coordinates, since it could not be followed.
+ */
+export const getFollowableLegs = (plan: TripPlan): Geometry[] | undefined => {
+  if (plan.legs.length === 0) return undefined;
+  const geometries: Geometry[] = [];
+  for (let i = 0; i < plan.legs.length; i++) {
+    const leg = plan.legs[i];
+    const own = legGeometry(leg);
+    if (own.length >= 2) {
+      geometries.push(buildGeometry(own, !!leg.path));
+      continue;
+    }
+    const previous = plan.legs[i - 1];
+    const next = plan.legs[i + 1];
+    const from = leg.fromLocation ?? (previous && legGeometry(previous).at(-1)) ?? previous?.toLocation;
+    const to = leg.toLocation ?? (next && legGeometry(next)[0]) ?? next?.fromLocation;
+    if (!from || !to) return undefined;
+    geometries.push(buildGeometry([from, to], false));
+  }
+  return geometries;
+};
+
+export const canFollowPlan = (plan?: TripPlan) => !!plan && !!getFollowableLegs(plan);
+
+const project = (fix: LatLng, geometry: Geometry): Projection => {
+  let best: Projection = { distance: Infinity, along: 0 };
+  for (let i = 1; i < geometry.points.length; i++) {
+    const a = toMeters(geometry.points[i - 1], fix);
+    const b = toMeters(geometry.points[i], fix);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    // The fix is the origin, so the nearest point on the segment minimises |a + t(b - a)|
+    const t = lengthSquared ? Math.min(1, Math.max(0, -(a.x * dx + a.y * dy) / lengthSquared)) : 0;
+    const distance = Math.hypot(a.x + t * dx, a.y + t * dy);
+    if (distance < best.distance) {
+      best = { distance, along: geometry.distances[i - 1] + t * (geometry.distances[i] - geometry.distances[i - 1]) };
+    }
+  }
+  return best;
+};
+
+const isWalk = (mode: TransitMode) => mode === 'WALK';
+
+const tolerance = (leg: TripLeg, geometry: Geometry) => {
+  const base = isWalk(leg.mode) ? ROUTE_TOLERANCE_METERS.walk : ROUTE_TOLERANCE_METERS.vehicle;
+  return geometry.hasPath ? base : Math.max(base, geometry.length * STRAIGHT_LINE_SLACK);
+};
+
+const formatMeters = (meters: number) => {
+  if (meters >= 10_000) return `${Math.round(meters / 1000)} km`;
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters / 10) * 10} m`;
+};
+
+const describeService = (leg: TripLeg) =>
+  [leg.line, leg.mode.toLowerCase()].filter(Boolean).join(' ');
+
+/**
+ * The scheduled departure of a leg as a timestamp on the day the trip started. Times more
+ * than six hours before the start are taken to be after midnight.
+ */
+const departureTimestamp = (leg: TripLeg, startedAt: number): number | undefined => {
+  const match = leg.departureTime?.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return undefined;
+  const date = new Date(startedAt);
+  date.setHours(Number(match[1]), Number(match[2]), 0, 0);
+  if (date.getTime() < startedAt - 6 * 3_600_000) date.setDate(date.getDate() + 1);
+  return date.getTime();
+};
+
+export const startTrip = (startedAt: number): TripProgress => ({
+  legIndex: 0,
+  remainingMeters: 0,
+  offRouteMeters: 0,
+  status: 'ON_ROUTE',
+  offRouteFixes: 0,
+  announcements: [],
+  announced: [],
+  startedAt,
+});
+
+// The next ride the user still has to catch after the given leg
+const findNextRide = (plan: TripPlan, legIndex: number) =>
+  plan.legs.findIndex((leg, i) => i > legIndex && !isWalk(leg.mode));
+
+/**
+ * Picks the leg the fix belongs to. Progress only moves forward: the user can be on the
+ * current leg or one of the next two (a short walk may be skipped between fixes). The
+ * first fix may land anywhere, for trips started part-way along.
+ */
+const locate = (legs: Geometry[], plan: TripPlan, progress: TripProgress, fix: LatLng) => {
+  const first = progress.lastFix ? progress.legIndex : 0;
+  const last = progress.lastFix ? Math.min(legs.length - 1, progress.legIndex + 2) : legs.length - 1;
+  let legIndex = progress.legIndex;
+  let projection = project(fix, legs[legIndex]);
+
+  for (let i = first; i <= last; i++) {
+    if (i === legIndex) continue;
+    const candidate = project(fix, legs[i]);
+    const isLater = i > legIndex;
+    const withinRoute = candidate.distance <= tolerance(plan.legs[i], legs[i]);
+    // Legs meet at their ends, so only move on once the user is properly onto the next one
+    if (isLater && withinRoute && candidate.along >= ADVANCE_METERS && candidate.distance <= projection.distance + 10) {
+      legIndex = i;
+      projection = candidate;
+    } else if (!progress.lastFix && candidate.distance < projection.distance) {
+      legIndex = i;
+      projection = candidate;
+    }
+  }
+  return { legIndex, projection };
+};
+
+/**
+ * Advances the trip by one GPS fix and adds any announcements it triggers.
+ */
+export const advanceTrip = (plan: TripPlan, progress: TripProgress, fix: GpsFix): TripProgress => {
+  const legs = getFollowableLegs(plan);
+  if (!legs || progress.status === 'ARRIVED') return progress;
+
+  const { legIndex, projection } = locate(legs, plan, progress, fix);
+  const leg = plan.legs[legIndex];
+  const geometry = legs[legIndex];
+  const remainingMeters = Math.max(0, geometry.length - projection.along);
+  const isOffRoute = projection.distance > tolerance(leg, geometry);
+  const offRouteFixes = isOffRoute ? progress.offRouteFixes + 1 : 0;
+
+  const announcements = [...progress.announcements];
+  const announced = [...progress.announced];
+  const announce = (key: string, kind: TripAnnouncementKind, message: string) => {
+    if (announced.includes(key)) return;
+    announced.push(key);
+    announcements.unshift({ kind, message, at: fix.timestamp });
+  };
+
+  let status: TripStatus = 'ON_ROUTE';
+  const isLastLeg = legIndex === plan.legs.length - 1;
+
+  if (isLastLeg && remainingMeters <= ARRIVAL_METERS && !isOffRoute) {
+    status = 'ARRIVED';
+    announce('arrived', 'ARRIVED', `You've arrived at ${plan.destination}. 🎉`);
+  } else if (offRouteFixes >= OFF_ROUTE_FIXES) {
+    status = 'OFF_ROUTE';
+    // Announced once each time the user strays, however many fixes it lasts
+    if (progress.status !== 'OFF_ROUTE') {
+      announce(`off-route-${fix.timestamp}`, 'OFF_ROUTE', `You're about ${formatMeters(projection.distance)} off the planned route to ${leg.to}.`);
+    }
+  } else {
+    const next = plan.legs[legIndex + 1];
+    if (isWalk(leg.mode)) {
+      announce(`walk-${legIndex}`, 'WALK', `Walk to ${leg.to} (${formatMeters(remainingMeters)}).`);
+      if (next && !isWalk(next.mode) && remainingMeters <= BOARD_NOTICE_METERS) {
+        const time = next.departureTime ? ` at ${next.departureTime}` : '';
+        announce(`board-${legIndex + 1}`, 'BOARD', `Next: take the ${describeService(next)}${time} from ${next.from} towards ${next.to}.`);
+      }
+    } else if (remainingMeters <= GET_OFF_METERS) {
+      announce(`get-off-${legIndex}`, 'GET_OFF', `Get off at ${leg.to} — about ${formatMeters(remainingMeters)} to go.`);
+    } else {
+      announce(`ride-${legIndex}`, 'NEXT_STOP', `Next stop to get off: ${leg.to}, ${formatMeters(remainingMeters)} away.`);
+    }
+
+    const nextRide = findNextRide(plan, legIndex);
+    const departure = nextRide === -1 ? undefined : departureTimestamp(plan.legs[nextRide], progress.startedAt);
+    if (departure !== undefined && fix.timestamp > departure + MISSED_GRACE_MS) {
+      const ride = plan.legs[nextRide];
+      status = 'MISSED_CONNECTION';
+      const late = formatDuration((fix.timestamp - departure) / 60_000);
+      announce(`missed-${nextRide}`, 'MISSED_CONNECTION', `You've missed the ${ride.departureTime} ${describeService(ride)} from ${ride.from} (left ${late} ago).`);
+    }
+  }
+
+  return {
+    ...progress,
+    legIndex,
+    remainingMeters,
+    offRouteMeters: projection.distance,
+    status,
+    offRouteFixes,
+    announcements: announcements.slice(0, MAX_ANNOUNCEMENTS),
+    announced,
+    lastFix: fix,
+  };
+};
+
+/**
+ * A message asking the assistant for a new plan from where the user is now.
+ */
+export const buildReplanPrompt = (plan: TripPlan, progress: TripProgress): string => {
+  const leg = plan.legs[progress.legIndex];
+  const ride = plan.legs[findNextRide(plan, progress.legIndex)];
+  const reason = progress.status === 'MISSED_CONNECTION' && ride
+    ? `I've missed the ${ride.departureTime} ${describeService(ride)} from ${ride.from}`
+    : `I'm off my planned route (about ${formatMeters(progress.offRouteMeters)} away from the ${leg.mode.toLowerCase()} leg ${leg.from} → ${leg.to})`;
+  return `${reason}. Please re-plan my trip from my current location to ${plan.destination}.`;
+};
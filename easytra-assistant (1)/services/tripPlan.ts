@@ -0,0 +1,249 @@
+import { CongestionAssessment, CongestionSeverity, DepartureOption, FareRange, LatLng, MapPlace, RailClass, TrainOption, TransitMode, TripLeg, TripPlan } from "../types";
+
+export const TRANSIT_MODES: TransitMode[] = ['WALK', 'BUS', 'TRAIN', 'METRO', 'AUTO', 'CAB', 'CAR', 'FERRY'];
+export const CONGESTION_SEVERITIES: CongestionSeverity[] = ['NONE', 'LIGHT', 'MODERATE', 'HEAVY', 'SEVERE'];
+export const RAIL_CLASSES: RailClass[] = ['1A', '2A', '3A', '3E', 'EC', 'CC', 'SL', '2S'];
+
+/**
+ * Schema description embedded in the system instruction. Kept next to the parser so
+ * the two can't drift apart.
+ */
+export const TRIP_PLAN_SCHEMA = `{
+  "origin": string,
+  "destination": string,
+  "legs": [{ "mode": ${TRANSIT_MODES.map(m => `"${m}"`).join(' | ')}, "from": string, "to": string, "line"?: string, "departureTime"?: "HH:mm", "arrivalTime"?: "HH:mm", "durationMinutes"?: number, "distanceKm"?: number, "instructions"?: string, "fromLatLng"?: LatLng, "toLatLng"?: LatLng, "path"?: LatLng[], "congestion"?: Congestion }],
+  "totalDurationMinutes"?: number,
+  "distanceKm"?: number,
+  "weather"?: { "condition": string, "temperatureC"?: number },
+  "fares": { "bus"?: Fare, "train"?: Fare, "metro"?: Fare },
+  "totalFare"?: Fare,
+  "tolls"?: number,
+  "trains"?: [{ "name": string, "number": string, "departureTime"?: "HH:mm", "arrivalTime"?: "HH:mm", "durationMinutes"?: number, "fare"?: Fare, "classFares"?: { [class in ${RAIL_CLASSES.map(c => `"${c}"`).join(' | ')}]?: number } }],
+  "alternateRoute"?: string,
+  "bestDepartureTime"?: string,
+  "departureOptions"?: [{ "leaveAt": "HH:mm", "durationMinutes": number }],
+  "places"?: [{ "name": string, "latLng": LatLng }]
+}
+where Fare is { "min": number, "max": number, "currency": "INR" }, LatLng is [latitude, longitude] and
+Congestion is { "severity": ${CONGESTION_SEVERITIES.map(s => `"${s}"`).join(' | ')}, "cause"?: string, "delayMinutes"?: number, "from"?: "HH:mm", "until"?: "HH:mm" }`;
+
+// Long model-drawn paths are thinned to keep messages small
+const MAX_PATH_POINTS = 200;
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const asNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+export const asObject = (value: unknown): Record<string, unknown> | undefined =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+
+const asClock = (value: unknown): string | undefined => {
+  const text = asString(value);
+  const match = text?.match(/^(\d{1,2}):(\d{2})$/);
+  return match && Number(match[1]) < 24 && Number(match[2]) < 60 ? `${match[1].padStart(2, '0')}:${match[2]}` : undefined;
+};
+
+const toFareRange = (value: unknown): FareRange | undefined => {
+  const raw = asObject(value);
+  if (!raw) return undefined;
+  const min = asNumber(raw.min);
+  const max = asNumber(raw.max) ?? min;
+  if (min === undefined || max === undefined) return undefined;
+  return { min, max, currency: asString(raw.currency) ?? 'INR' };
+};
+
+// Accepts [lat, lng] as asked for, and { lat, lng } which models sometimes produce instead
+const toLatLng = (value: unknown): LatLng | undefined => {
+  const raw = asObject(value);
+  const [lat, lng] = Array.isArray(value)
+    ? [asNumber(value[0]), asNumber(value[1])]
+    : [asNumber(raw?.lat ?? raw?.latitude), asNumber(raw?.lng ?? raw?.longitude)];
+  if (lat === undefined || lng === undefined || Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+  return { lat, lng };
+};
+
+const toPath = (value: unknown): LatLng[] | undefined => {
+  const points = compact(value, toLatLng);
+  if (points.length < 2) return undefined;
+  const step = Math.ceil(points.length / MAX_PATH_POINTS);
+  return step > 1 ? points.filter((_, i) => i % step === 0 || i === points.length - 1) : points;
+};
+
+const toPlace = (value: unknown): MapPlace | undefined => {
+  const raw = asObject(value);
+  const name = asString(raw?.name);
+  const location = toLatLng(raw?.latLng ?? raw?.location);
+  return name && location ? { name, location } : undefined;
+};
+
+// A bare "congested": true is what plans asked for before severities existed
+const toCongestion = (value: unknown, legacyFlag: unknown): CongestionAssessment | undefined => {
+  const raw = asObject(value);
+  const severity = asString(raw?.severity)?.toUpperCase() as CongestionSeverity | undefined;
+  if (!raw || !severity || !CONGESTION_SEVERITIES.includes(severity)) {
+    return legacyFlag === true ? { severity: 'HEAVY', source: 'MODEL' } : undefined;
+  }
+  const delayMinutes = asNumber(raw.delayMinutes);
+  return {
+    severity,
+    cause: asString(raw.cause),
+    delayMinutes: delayMinutes !== undefined && delayMinutes >= 0 ? delayMinutes : undefined,
+    from: asClock(raw.from),
+    until: asClock(raw.until),
+    source: 'MODEL',
+  };
+};
+
+const toDepartureOption = (value: unknown): DepartureOption | undefined => {
+  const raw = asObject(value);
+  const leaveAt = asClock(raw?.leaveAt);
+  const durationMinutes = asNumber(raw?.durationMinutes);
+  return leaveAt && durationMinutes !== undefined && durationMinutes > 0 ? { leaveAt, durationMinutes } : undefined;
+};
+
+const toLeg = (value: unknown): TripLeg | undefined => {
+  const raw = asObject(value);
+  if (!raw) return undefined;
+  const mode = asString(raw.mode)?.toUpperCase() as TransitMode | undefined;
+  const from = asString(raw.from);
+  const to = asString(raw.to);
+  if (!mode || !TRANSIT_MODES.includes(mode) || !from || !to) return undefined;
+  return {
+    mode,
+    from,
+    to,
+    line: asString(raw.line),
+    departureTime: asString(raw.departureTime),
+    arrivalTime: asString(raw.arrivalTime),
+    durationMinutes: asNumber(raw.durationMinutes),
+    distanceKm: asNumber(raw.distanceKm),
+    instructions: asString(raw.instructions),
+    fromLocation: toLatLng(raw.fromLatLng),
+    toLocation: toLatLng(raw.toLatLng),
+    path: toPath(raw.path),
+    congestion: toCongestion(raw.congestion, raw.congested),
+  };
+};
+
+const toClassFares = (value: unknown): Partial<Record<RailClass, number>> | undefined => {
+  const raw = asObject(value);
+  if (!raw) return undefined;
+  const fares = Object.fromEntries(
+    RAIL_CLASSES.map(c => [c, asNumber(raw[c])] as const).filter(([, fare]) => fare !== undefined && fare > 0)
+  );
+  return Object.keys(fares).length ? fares : undefined;
+};
+
+const toTrain = (value: unknown): TrainOption | undefined => {
+  const raw = asObject(value);
+  if (!raw) return undefined;
+  const name = asString(raw.name);
+  const number = asString(raw.number) ?? (asNumber(raw.number)?.toString());
+  if (!name || !number) return undefined;
+  const classFares = toClassFares(raw.classFares);
+  return {
+    name,
+    number,
+    departureTime: asString(raw.departureTime),
+    arrivalTime: asString(raw.arrivalTime),
+    durationMinutes: asNumber(raw.durationMinutes),
+    fare: toFareRange(raw.fare) ?? (classFares && {
+      min: Math.min(...Object.values(classFares)),
+      max: Math.max(...Object.values(classFares)),
+      currency: 'INR',
+    }),
+    classFares,
+  };
+};
+
+const compact = <T>(items: unknown, convert: (value: unknown) => T | undefined): T[] =>
+  Array.isArray(items) ? items.map(convert).filter((item): item is T => item !== undefined) : [];
+
+// Trains from the plan's JSON or a rail lookup's results, malformed entries dropped
+export const normalizeTrains = (value: unknown): TrainOption[] => compact(value, toTrain);
+
+/**
+ * Validates the model's JSON against the TripPlan shape, dropping malformed fields
+ * instead of rejecting the whole plan. Returns undefined if the core route is missing.
+ */
+export const normalizeTripPlan = (value: unknown): TripPlan | undefined => {
+  const raw = asObject(value);
+  if (!raw) return undefined;
+
+  const origin = asString(raw.origin);
+  const destination = asString(raw.destination);
+  if (!origin || !destination) return undefined;
+
+  const fares = asObject(raw.fares) ?? {};
+  const weather = asObject(raw.weather);
+  const trains = compact(raw.trains, toTrain);
+  const places = compact(raw.places, toPlace);
+  const departureOptions = compact(raw.departureOptions, toDepartureOption);
+
+  return {
+    origin,
+    destination,
+    legs: compact(raw.legs, toLeg),
+    totalDurationMinutes: asNumber(raw.totalDurationMinutes),
+    distanceKm: asNumber(raw.distanceKm),
+    weather: weather && asString(weather.condition)
+      ? { condition: asString(weather.condition)!, temperatureC: asNumber(weather.temperatureC) }
+      : undefined,
+    fares: {
+      bus: toFareRange(fares.bus),
+      train: toFareRange(fares.train),
+      metro: toFareRange(fares.metro),
+    },
+    totalFare: toFareRange(raw.totalFare),
+    tolls: asNumber(raw.tolls),
+    trains: trains.length ? trains : undefined,
+    alternateRoute: asString(raw.alternateRoute),
+    bestDepartureTime: asString(raw.bestDepartureTime),
+    departureOptions: departureOptions.length ? departureOptions : undefined,
+    places: places.length ? places : undefined,
+  };
+};
+
+/**
+ * Points along a leg: its path when the model gave one, otherwise a straight line between
+ * its endpoints, or nothing if it has no coordinates.
+ */
+export const legGeometry = (leg: TripLeg): LatLng[] => {
+  if (leg.path) return leg.path;
+  return leg.fromLocation && leg.toLocation ? [leg.fromLocation, leg.toLocation] : [];
+};
+
+export const formatFareRange = (fare: FareRange): string => {
+  const symbol = fare.currency === 'INR' ? '₹' : `${fare.currency} `;
+  return fare.min === fare.max ? `${symbol}${fare.min}` : `${symbol}${fare.min}–${fare.max}`;
+};
+
+export const formatDuration = (minutes: number): string => {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  if (!h) return `${m} min`;
+  return m ? `${h}h ${m}m` : `${h}h`;
+};
+
+/**
+ * Whether a trip now taking `afterMinutes` instead of `beforeMinutes` is worth warning
+ * about: at least 10 minutes and 15% longer.
+ */
+export const isNotablySlower = (beforeMinutes: number, afterMinutes: number): boolean =>
+  afterMinutes - beforeMinutes >= Math.max(10, beforeMinutes * 0.15);
+
+/**
+ * Orders plans for comparison: fastest first, falling back to the cheapest known fare.
+ */
+export const compareTripPlans = (a: TripPlan, b: TripPlan): number => {
+  const durationA = a.totalDurationMinutes ?? Infinity;
+  const durationB = b.totalDurationMinutes ?? Infinity;
+  if (durationA !== durationB) return durationA - durationB;
+  const fareA = a.totalFare?.min ?? Infinity;
+  const fareB = b.totalFare?.min ?? Infinity;
+  return fareA === fareB ? 0 : fareA - fareB;
+};
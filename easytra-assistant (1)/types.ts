@@ -2,10 +2,33 @@ export type Role = 'user' | 'model';
 
 export type RoutePreference = 'FASTEST' | 'LEAST_CROWDED' | 'LOW_WALKING' | 'FEWEST_TRANSFERS';
 
+// How much of the user's location is sent to the model: exact coordinates, coordinates
+// snapped to a coarse grid, or none at all
+export type LocationSharing = 'PRECISE' | 'APPROXIMATE' | 'NEVER';
+
+// How much each goal counts when options are compared, from 0 (doesn't matter) to 3
+export type GoalWeights = Record<RoutePreference, number>;
+
+// Class of travel for trains and long-distance buses; ANY leaves it to the assistant
+export type TravelClass = 'ANY' | 'GENERAL' | 'SLEEPER' | 'AC';
+
 export interface UserPreferences {
+  // The goal that matters most; always weighted at least as much as any other
   routePreference: RoutePreference;
+  goalWeights: GoalWeights;
   accessibilityRequired: boolean;
   useCurrentLocation: boolean;
+  locationSharing: LocationSharing;
+  // Favoured where they make sense; every mode not avoided is allowed
+  preferredModes: TransitMode[];
+  avoidedModes: TransitMode[];
+  // Most walking the user will do on one trip, in metres; null for no limit
+  maxWalkingMeters: number | null;
+  // Most the user wants to spend on one trip, in rupees; null for no limit
+  fareBudget: number | null;
+  travelClass: TravelClass;
+  hasLuggage: boolean;
+  withChildren: boolean;
 }
 
 export interface GroundingChunk {
@@ -19,6 +42,320 @@ export interface GroundingChunk {
   };
 }
 
+/**
+ * A stretch of the reply backed by grounding sources. `text` is the quoted span, used to
+ * find it again in the reply; `chunkIndices` point into the message's groundingChunks.
+ */
+export interface GroundingSupport {
+  text: string;
+  chunkIndices: number[];
+  // The model's confidence in each cited source (0-1), when it reports one
+  confidence?: number[];
+}
+
+export type TransitMode = 'WALK' | 'BUS' | 'TRAIN' | 'METRO' | 'AUTO' | 'CAB' | 'CAR' | 'FERRY';
+
+export interface FareRange {
+  min: number;
+  max: number;
+  currency: string;
+}
+
+// Ordered from least to most severe
+export type CongestionSeverity = 'NONE' | 'LIGHT' | 'MODERATE' | 'HEAVY' | 'SEVERE';
+
+// MODEL: the assistant's traffic search. LIVE_FEED: vehicles in the GTFS-Realtime feed.
+export type CongestionSource = 'MODEL' | 'LIVE_FEED';
+
+/**
+ * How congested a leg is expected to be. `from`/`until` (local HH:mm) bound when it
+ * applies; without them it is expected to last the whole trip.
+ */
+export interface CongestionAssessment {
+  severity: CongestionSeverity;
+  cause?: string;
+  // On top of the leg's free-flowing duration
+  delayMinutes?: number;
+  from?: string;
+  until?: string;
+  source: CongestionSource;
+}
+
+// How long the trip takes if started at `leaveAt` (local HH:mm), as the model forecast it
+export interface DepartureOption {
+  leaveAt: string;
+  durationMinutes: number;
+}
+
+export interface TripLeg {
+  mode: TransitMode;
+  from: string;
+  to: string;
+  line?: string;             // Route number, line name or train number
+  departureTime?: string;    // Local time as HH:mm
+  arrivalTime?: string;
+  durationMinutes?: number;
+  distanceKm?: number;
+  instructions?: string;
+  // Coordinates for drawing the leg on the map; path is the full polyline when known
+  fromLocation?: LatLng;
+  toLocation?: LatLng;
+  path?: LatLng[];
+  // Traffic on this leg, when the model or a live feed reported any
+  congestion?: CongestionAssessment;
+}
+
+// A named point the plan refers to (stations, landmarks, grounded Maps places)
+export interface MapPlace {
+  name: string;
+  location: LatLng;
+}
+
+// Indian Railways coach classes, from first AC down to second sitting
+export type RailClass = '1A' | '2A' | '3A' | '3E' | 'EC' | 'CC' | 'SL' | '2S';
+
+export interface TrainOption {
+  name: string;
+  number: string;
+  departureTime?: string;
+  arrivalTime?: string;
+  durationMinutes?: number;
+  fare?: FareRange;
+  // Fare in INR for each class the train has
+  classFares?: Partial<Record<RailClass, number>>;
+}
+
+/**
+ * Machine-readable summary of a suggested trip, returned by the model alongside its prose.
+ * Everything except origin, destination and legs is best-effort and may be missing.
+ */
+export interface TripPlan {
+  origin: string;
+  destination: string;
+  legs: TripLeg[];
+  totalDurationMinutes?: number;
+  distanceKm?: number;
+  weather?: {
+    condition: string;
+    temperatureC?: number;
+  };
+  fares: {
+    bus?: FareRange;
+    train?: FareRange;
+    metro?: FareRange;
+  };
+  totalFare?: FareRange;
+  tolls?: number;
+  trains?: TrainOption[];
+  alternateRoute?: string;
+  bestDepartureTime?: string;
+  departureOptions?: DepartureOption[];
+  places?: MapPlace[];
+}
+
+/**
+ * A trip the user asked to keep. `lastPlan` is refreshed every time the route is re-run.
+ */
+export interface SavedRoute {
+  id: string;
+  name: string;
+  origin: string;
+  destination: string;
+  // Main mode of the plan (the longest non-walking leg)
+  mode?: TransitMode;
+  routePreference: RoutePreference;
+  lastPlan?: TripPlan;
+  createdAt: Date;
+  lastRunAt?: Date;
+}
+
+export type ReminderStatus = 'SCHEDULED' | 'SENT' | 'MISSED';
+
+// Result of rechecking live conditions just before a reminder goes off
+export interface ReminderCheck {
+  checkedAt: Date;
+  message: string;
+  // True when traffic, delays or the plan changed enough to warn about
+  hasChanged: boolean;
+}
+
+/**
+ * A "time to leave" reminder for a suggested trip. The plan is kept so conditions can be
+ * rechecked against it before the reminder fires.
+ */
+export interface Reminder {
+  id: string;
+  name: string;
+  plan: TripPlan;
+  routePreference: RoutePreference;
+  leaveAt: Date;
+  // How long before `leaveAt` to notify
+  leadMinutes: number;
+  status: ReminderStatus;
+  createdAt: Date;
+  lastCheck?: ReminderCheck;
+}
+
+/**
+ * A trip the user makes on a regular schedule. On its days, a briefing is prepared
+ * automatically ahead of `arriveBy`.
+ */
+export interface Commute {
+  id: string;
+  name: string;
+  origin: string;
+  destination: string;
+  // Days of the week it runs, 0 = Sunday
+  days: number[];
+  // Local time to arrive by, HH:mm
+  arriveBy: string;
+  routePreference: RoutePreference;
+  createdAt: Date;
+}
+
+// One day's briefing for a commute; kept so the week's variation can be compared
+export interface CommuteBriefing {
+  id: string;
+  commuteId: string;
+  // Local date the briefing is for, YYYY-MM-DD
+  date: string;
+  createdAt: Date;
+  text: string;
+  plan?: TripPlan;
+  leaveAt?: Date;
+  durationMinutes?: number;
+  mode?: TransitMode;
+  // How today differs from the usual trip; empty when nothing stands out
+  disruptions: string[];
+}
+
+/**
+ * A place on a multi-stop trip. Every stop but the last says when to move on: on a date
+ * (at a time, or any time that day), or after staying a while once you've arrived.
+ */
+export interface TripStop {
+  id: string;
+  place: string;
+  // Local date to leave, YYYY-MM-DD
+  leaveOn?: string;
+  // Local time to leave, HH:mm
+  leaveAt?: string;
+  // How long to stay before moving on, when no date is set
+  stayMinutes?: number;
+}
+
+// The assistant's plan for getting from one stop to the next
+export interface TripStage {
+  // `${fromStopId}>${toStopId}`, so reordering stops keeps plans for pairs still next to each other
+  id: string;
+  // What the stage was planned for, to tell when an edit has made it out of date
+  from: string;
+  to: string;
+  windowKey: string;
+  text: string;
+  plan?: TripPlan;
+  departure?: Date;
+  arrival?: Date;
+  plannedAt: Date;
+}
+
+/**
+ * A trip through several places, possibly over several days, planned one stage at a time.
+ * Only planned stages are stored.
+ */
+export interface MultiStopTrip {
+  id: string;
+  stops: TripStop[];
+  stages: TripStage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Emitted by the model when the user agrees to save the route it just suggested
+export interface SaveRouteDirective {
+  name?: string;
+}
+
+// A scheduled departure from the imported GTFS timetable
+export interface Departure {
+  stopId: string;
+  stopName: string;
+  tripId: string;
+  routeName: string;
+  headsign?: string;
+  time: Date;
+}
+
+export interface ItineraryLeg {
+  kind: 'RIDE' | 'WALK';
+  fromStopId: string;
+  fromName: string;
+  toStopId: string;
+  toName: string;
+  departure: Date;
+  arrival: Date;
+  routeName?: string;
+  headsign?: string;
+  // Set on rides, from the route's GTFS type
+  mode?: TransitMode;
+  tripId?: string;
+  distanceMeters?: number;
+}
+
+// A journey computed from timetable data rather than suggested by the model
+export interface Itinerary {
+  legs: ItineraryLeg[];
+  departure: Date;
+  arrival: Date;
+  transfers: number;
+  walkingMeters: number;
+  // With accessibility required: stops on the journey whose step-free access the feed doesn't state
+  unverifiedStepFree?: string[];
+  // How full its most crowded ride is (0 empty to 1 full), from live occupancy; undefined when no ride reports it
+  crowding?: number;
+}
+
+/**
+ * A GTFS-Realtime service alert, reduced to what the chat and the assistant need.
+ */
+export interface ServiceAlert {
+  id: string;
+  header: string;
+  description?: string;
+  url?: string;
+  // GTFS-Realtime enum names, e.g. 'STRIKE' or 'SIGNIFICANT_DELAYS'
+  cause?: string;
+  effect?: string;
+  activePeriods: { start?: Date; end?: Date }[];
+  // An alert informing a whole agency affects everything in the feed
+  agencyWide: boolean;
+  routeIds: string[];
+  stopIds: string[];
+  tripIds: string[];
+  // Names of the affected routes, filled in from the static timetable when shown in chat
+  routeNames?: string[];
+}
+
+export interface RealtimeSummary {
+  // The URL being polled, or the name of a loaded file
+  source: string;
+  isFile: boolean;
+  fetchedAt: Date;
+  // When the producer generated the feed, if it says
+  feedTimestamp?: Date;
+  alerts: number;
+  tripUpdates: number;
+  vehicles: number;
+}
+
+export interface TimetableSummary {
+  name: string;
+  stops: number;
+  routes: number;
+  trips: number;
+  importedAt: Date;
+}
+
 export interface ChatMessage {
   id: string;
   role: Role;
@@ -26,9 +363,251 @@ export interface ChatMessage {
   timestamp: Date;
   isError?: boolean;
   groundingChunks?: GroundingChunk[];
+  groundingSupports?: GroundingSupport[];
+  tripPlan?: TripPlan;
+  // On replies with a plan: the main goal it was planned for, which a saved route keeps
+  routePreference?: RoutePreference;
+  // Set once this reply's plan has been stored as a saved route
+  savedRouteId?: string;
+  // Set once a leave-by reminder has been scheduled for this reply's plan
+  reminderId?: string;
+  // Live service alerts for the routes and stops this reply was grounded in
+  alerts?: ServiceAlert[];
+  // Local tools the model called while writing this reply, in order
+  toolCalls?: ToolCallRecord[];
+  // On the user's messages: the location data that was sent with them
+  locationShared?: LocationDisclosure[];
+  // True while the reply is still being streamed in
+  isStreaming?: boolean;
+  // Set when a streamed reply ended early: stopped by the user or cut off by an error
+  partial?: 'stopped' | 'failed';
+  // On error messages and failed partial replies: what went wrong
+  errorKind?: AssistantErrorKind;
+  // On the user's messages: how much of the conversation went with them
+  context?: ContextReport;
+  // On replies: the tokens the model counted for them
+  usage?: TokenUsage;
+  // On finished replies: how they measured up to the output format
+  contract?: ContractCheck;
+}
+
+// Parts of the reply format the system instruction asks for
+export type ContractRule = 'STATS_HEADER' | 'FARE_LINE' | 'TO_STATION' | 'ACCESSIBILITY' | 'CLOSING_QUESTION';
+
+export interface ContractViolation {
+  rule: ContractRule;
+  message: string;
+}
+
+export interface ContractCheck {
+  violations: ContractViolation[];
+  // Set once the reply has been sent back to be rewritten; that only happens once
+  repaired?: boolean;
+}
+
+/**
+ * How the conversation was fitted into the context budget for one question: earlier
+ * messages went in full or rolled up into a summary. Token counts are estimates.
+ */
+export interface ContextReport {
+  budgetTokens: number;
+  estimatedTokens: number;
+  sentMessages: number;
+  summarizedMessages: number;
+  summary?: string;
+}
+
+// As reported by the model, summed over a reply's tool rounds
+export interface TokenUsage {
+  promptTokens: number;
+  replyTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * A stretch of conversation replaced by editing or regenerating an earlier message. It
+ * follows the message `parentId` and can be switched back in from there.
+ */
+export interface MessageBranch {
+  id: string;
+  parentId: string | null;
+  messages: ChatMessage[];
+}
+
+// One piece of location data sent to the model, exactly as it left the device
+export interface LocationDisclosure {
+  // What it was, e.g. "Starting point (GPS)" or "Saved place \"Home\""
+  label: string;
+  // What was sent, e.g. "12.97, 77.59 (approximate)"
+  value: string;
+}
+
+// Location data sent with a request made outside the chat: a commute briefing, a
+// reminder's recheck or an itinerary stage
+export interface BackgroundDisclosure {
+  id: string;
+  sentAt: Date;
+  // What the request was for, e.g. "Commute briefing: Office"
+  request: string;
+  locationShared: LocationDisclosure[];
+}
+
+/**
+ * A saved chat thread. `title` is only set once the user renames it; until then the UI
+ * derives one from the first question.
+ */
+export interface Conversation {
+  id: string;
+  title?: string;
+  messages: ChatMessage[];
+  // Preferences in effect for this conversation, restored when switching back to it
+  preferences: UserPreferences;
+  // Earlier versions of the conversation from each edited or regenerated message on
+  branches?: MessageBranch[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface ChatState {
   messages: ChatMessage[];
   isLoading: boolean;
-}
\ No newline at end of file
+}
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * A place the user named in the app ("Home", "Work", "Gym"). Its name can be used in
+ * messages and is resolved to the address before sending.
+ */
+export interface SavedPlace {
+  id: string;
+  name: string;
+  address: string;
+  location?: LatLng;
+  createdAt: Date;
+}
+
+/**
+ * Where trips start when the user doesn't say: the device's GPS position, a saved place,
+ * or a place picked by hand (e.g. when location access is off or denied).
+ */
+export interface TripOrigin {
+  source: 'GPS' | 'SAVED_PLACE' | 'MANUAL';
+  // Short name ("Home", "Current location") and, for picked places, the address
+  name: string;
+  address?: string;
+  location?: LatLng;
+}
+
+/**
+ * A function call requested by the model, to be run by one of the app's local tools.
+ */
+export interface ToolCall {
+  id?: string;
+  name: string;
+  args: Record<string, unknown>;
+  // Opaque Gemini thought signature; it must be sent back with the result
+  signature?: string;
+}
+
+export interface ToolCallRecord {
+  call: ToolCall;
+  result: Record<string, unknown>;
+  isError?: boolean;
+}
+
+// One round of the tool loop: what the model said and the calls it made, with results
+export interface ToolTurn {
+  text: string;
+  calls: ToolCallRecord[];
+}
+
+/**
+ * Local tools the app can run for the model on this device, e.g. timetable lookups.
+ */
+export interface LocalToolbox {
+  names: string[];
+  execute: (call: ToolCall) => Promise<ToolCallRecord>;
+}
+
+export interface AssistantRequest {
+  history: ChatMessage[];
+  message: string;
+  preferences: UserPreferences;
+  origin: TripOrigin | null;
+  // Facts computed on the device (e.g. from the imported timetable) for the model to use
+  localContext?: string;
+  // Called with the accumulated reply text as it streams in
+  onText?: (text: string) => void;
+  // Tools the model may call; calls are reported through onToolCalls as they complete
+  tools?: LocalToolbox;
+  onToolCalls?: (calls: ToolCallRecord[]) => void;
+  signal?: AbortSignal;
+  // Earlier messages left out of `history`, summarised
+  historySummary?: string;
+  // Called before a failed request is retried automatically
+  onRetry?: (attempt: number, delayMs: number, kind: AssistantErrorKind) => void;
+}
+
+export interface AssistantReply {
+  text: string;
+  groundingChunks?: GroundingChunk[];
+  groundingSupports?: GroundingSupport[];
+  tripPlan?: TripPlan;
+  saveRoute?: SaveRouteDirective;
+  toolCalls?: ToolCallRecord[];
+  usage?: TokenUsage;
+  // True when the request was aborted and `text` is only what arrived before that
+  stopped: boolean;
+}
+
+/**
+ * A backend that can answer transit questions. Gemini is the production implementation;
+ * the mock provider returns scripted replies so the UI works offline.
+ */
+export interface TransitAssistantProvider {
+  id: string;
+  label: string;
+  sendMessage: (request: AssistantRequest) => Promise<AssistantReply>;
+}
+
+/**
+ * Body of a POST to the /api/chat proxy. Only the text of previous turns is sent; the
+ * server owns the API key and the system instruction.
+ */
+export interface ChatProxyRequest {
+  history: { role: Role; text: string }[];
+  historySummary?: string;
+  message: string;
+  preferences: UserPreferences;
+  origin: TripOrigin | null;
+  localContext?: string;
+  // Names of the local tools to offer the model, and the tool rounds so far in this reply
+  tools?: string[];
+  toolTurns?: ToolTurn[];
+}
+
+/**
+ * Why a request to the assistant failed. NETWORK, TIMEOUT, UNAVAILABLE and RATE_LIMITED
+ * are usually transient; the rest need the user (or whoever runs the server) to act.
+ */
+export type AssistantErrorKind =
+  | 'NETWORK'       // The server couldn't be reached or the reply was cut off
+  | 'TIMEOUT'       // Nothing arrived for too long
+  | 'UNAVAILABLE'   // The server or the model is overloaded or failing
+  | 'RATE_LIMITED'  // This client sent too many requests
+  | 'QUOTA'         // The model's API quota is used up
+  | 'AUTH'          // The server's API key is missing or was rejected
+  | 'SAFETY'        // The model's safety filters blocked the request or reply
+  | 'BAD_REQUEST';  // The request was rejected as invalid
+
+// The proxy streams its reply as newline-delimited JSON, one event per line
+export type ChatStreamEvent =
+  | { type: 'text'; text: string }
+  // The model wants local tools run; the client sends the results back in a new request
+  | { type: 'tool_calls'; calls: ToolCall[] }
+  | { type: 'done'; groundingChunks?: GroundingChunk[]; groundingSupports?: GroundingSupport[]; usage?: TokenUsage }
+  | { type: 'error'; message: string; code?: AssistantErrorKind };
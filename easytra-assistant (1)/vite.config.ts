@@ -8,11 +8,23 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The Gemini key lives in the API server (npm run server), never in the bundle
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`,
+        },
+      },
+      preview: {
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.ASSISTANT_PROVIDER': JSON.stringify(env.ASSISTANT_PROVIDER),
+        'process.env.RAIL_DATA_SOURCE': JSON.stringify(env.RAIL_DATA_SOURCE),
+        'process.env.MAP_TILE_URL': JSON.stringify(env.MAP_TILE_URL),
+        'process.env.MAP_TILE_ATTRIBUTION': JSON.stringify(env.MAP_TILE_ATTRIBUTION),
+        'process.env.GEOCODER_URL': JSON.stringify(env.GEOCODER_URL)
       },
       resolve: {
         alias: {